@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import { createSSEHeaders } from "../../llm/common";
+import { getRequestUserId, usageLedger } from "@/lib/usage/usage-ledger";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+const TRANSCRIPTION_MODEL = "gpt-4o-transcribe";
+
 export interface TranscriptionStreamResponse {
   type: "start" | "delta" | "done" | "error";
   delta?: string;
@@ -17,16 +21,22 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const audioFile = formData.get("audio") as File;
+    const avatarId = (formData.get("avatarId") as string | null) || undefined;
 
     if (!audioFile) {
       return NextResponse.json({ error: "No audio file provided" }, { status: 400 });
     }
 
+    const rateLimited = await enforceRateLimit(request, "transcription");
+    if (rateLimited) return rateLimited;
+
+    const userId = await getRequestUserId(request);
     const encoder = new TextEncoder();
 
     const stream = new ReadableStream({
       async start(controller) {
         let accumulatedText = "";
+        const startedAt = Date.now();
 
         try {
           // Send start message
@@ -41,7 +51,7 @@ export async function POST(request: NextRequest) {
           // Create real streaming transcription
           const transcriptionStream = await openai.audio.transcriptions.create({
             file: audioFile,
-            model: "gpt-4o-transcribe",
+            model: TRANSCRIPTION_MODEL,
             stream: true,
           });
 
@@ -67,6 +77,18 @@ export async function POST(request: NextRequest) {
               // Final complete text
               const finalText = event.text;
 
+              await usageLedger.record({
+                operation: "transcription",
+                provider: "openai",
+                model: TRANSCRIPTION_MODEL,
+                inputTokens: event.usage?.input_tokens || 0,
+                outputTokens: event.usage?.output_tokens || 0,
+                estimated: !event.usage,
+                latencyMs: Date.now() - startedAt,
+                avatarId,
+                userId,
+              });
+
               const doneMessage: TranscriptionStreamResponse = {
                 type: "done",
                 text: finalText,
@@ -1,42 +1,77 @@
+import { llmGenerationRegistry } from "@/lib/llm/generation-registry";
+
 const HEYGEN_API_KEY = process.env.HEYGEN_API_KEY;
 
+/**
+ * Interrupt the avatar.
+ *
+ * Body fields (at least one is required):
+ * - session_id: HeyGen streaming session; stops the avatar speaking
+ * - stream_id: LLM stream id; stops that generation
+ * - chat_session_id: kiosk chat session; stops every generation for it
+ *
+ * Stopped generations end their stream with `abortReason: "interrupted"`.
+ */
 export async function POST(request: Request) {
   try {
-    if (!HEYGEN_API_KEY) {
-      throw new Error("API key is missing from .env");
-    }
-
     const body = await request.json();
-    const { session_id } = body || {};
-    if (!session_id) {
-      return new Response(JSON.stringify({ error: "session_id is required" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const baseApiUrl = process.env.NEXT_PUBLIC_HEYGEN_BASE_API_URL;
-    const res = await fetch(`${baseApiUrl}/v1/streaming.interrupt`, {
-      method: "POST",
-      headers: {
-        "x-api-key": HEYGEN_API_KEY,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ session_id }),
-    });
-
-    if (!res.ok) {
-      const text = await res.text();
+    const { session_id, stream_id, chat_session_id } = body || {};
+    if (!session_id && !stream_id && !chat_session_id) {
       return new Response(
-        JSON.stringify({ error: "Upstream error", detail: text }),
+        JSON.stringify({
+          error: "session_id, stream_id or chat_session_id is required",
+        }),
         {
-          status: 502,
+          status: 400,
           headers: { "Content-Type": "application/json" },
         }
       );
     }
 
-    return new Response(JSON.stringify({ ok: true }), {
+    // Cancel the text generation first so nothing more gets queued to speak
+    let abortedGenerations = 0;
+    if (stream_id && llmGenerationRegistry.abort(stream_id, "interrupted")) {
+      abortedGenerations++;
+    }
+    if (chat_session_id) {
+      abortedGenerations += llmGenerationRegistry.abortChatSession(
+        chat_session_id,
+        "interrupted"
+      );
+    }
+
+    if (session_id) {
+      if (!HEYGEN_API_KEY) {
+        throw new Error("API key is missing from .env");
+      }
+
+      const baseApiUrl = process.env.NEXT_PUBLIC_HEYGEN_BASE_API_URL;
+      const res = await fetch(`${baseApiUrl}/v1/streaming.interrupt`, {
+        method: "POST",
+        headers: {
+          "x-api-key": HEYGEN_API_KEY,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ session_id }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        return new Response(
+          JSON.stringify({
+            error: "Upstream error",
+            detail: text,
+            abortedGenerations,
+          }),
+          {
+            status: 502,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    return new Response(JSON.stringify({ ok: true, abortedGenerations }), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
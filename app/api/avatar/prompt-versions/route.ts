@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { s3Storage } from "@/lib/s3-client";
+
+/**
+ * GET /api/avatar/prompt-versions?id=<avatarId>
+ *
+ * Prompt template history of an avatar, newest first. Restoring a version is
+ * done in the editor by saving the avatar with that version's template.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing avatar ID parameter" },
+        { status: 400 }
+      );
+    }
+
+    const versions = await s3Storage.listPromptVersions(id);
+
+    return NextResponse.json({
+      success: true,
+      versions: versions.reverse(),
+    });
+  } catch (error) {
+    console.error("Prompt versions error:", error);
+    return NextResponse.json(
+      { error: "Failed to load prompt versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { s3Storage } from "@/lib/s3-client";
+import { getCurrentUser } from "@/lib/auth";
+import { toStudentCaseView } from "@/lib/case-play";
+import { siteConfig } from "@/config/site";
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,9 +25,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Only admins see the role briefs and grading setup
+    const token = request.cookies.get(siteConfig.auth.cookie.name)?.value;
+    const user = token ? await getCurrentUser(token) : null;
+
     return NextResponse.json({
       success: true,
-      caseStudy,
+      caseStudy: user?.role === "admin" ? caseStudy : toStudentCaseView(caseStudy),
       message: "Case retrieved successfully",
     });
   } catch (error) {
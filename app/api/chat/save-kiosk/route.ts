@@ -40,10 +40,11 @@ import { s3Storage } from "@/lib/s3-client";
  *   avatarName: string,          // Avatar display name
  *   messages: ChatMessage[],     // Complete conversation history
  *   isKioskMode: true,           // Must be true for this endpoint
- *   location?: string            // Optional location identifier
+ *   location?: string,           // Optional location identifier
  * }
  * 
- * Note: userId/userName are not accepted from public kiosk interface
+ * Note: userId/userName are not accepted from public kiosk interface; the
+ * rolling summary is the one the LLM routes stored for the session
  */
 export async function POST(request: NextRequest) {
   try {
@@ -187,6 +188,8 @@ export async function POST(request: NextRequest) {
         userName: undefined,                  // Not accepted from public kiosk  
         isKioskMode: true,                    // Always true for this endpoint
         location: data.location || "kiosk",   // Default location
+        // Kept by the LLM routes during the chat, never taken from the client
+        summary: (await s3Storage.getConversationSummary(data.sessionId)) ?? undefined,
       }
     );
 
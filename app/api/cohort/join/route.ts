@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { s3Storage } from "@/lib/s3-client";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
 
 export async function POST(request: NextRequest) {
   try {
+    // Public route: throttle per client IP against access code guessing
+    const rateLimited = await enforceRateLimit(request, "cohort-join");
+    if (rateLimited) return rateLimited;
+
     const body = await request.json();
     const { accessCode, email, name } = body;
 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
+import { ragService } from "@/lib/rag/rag-service";
+
+export const maxDuration = 300;
+
+// Stop claiming new jobs this long before maxDuration
+const CLAIM_CUTOFF_MS = 60 * 1000;
+
+/**
+ * GET /api/cron/ingestion-worker
+ *
+ * Run the document ingestion jobs that are due: new uploads whose first run
+ * did not finish, retries whose backoff has passed and jobs whose worker
+ * stopped (see vercel.json for the schedule). Not behind the login; the
+ * scheduler authenticates with "Authorization: Bearer $CRON_SECRET".
+ *
+ * Response: { success, completed, retrying, failed }
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Initialize RAG service
+    await ragService.initialize();
+
+    const summary = await ingestionQueue.runDueJobs({
+      deadline: Date.now() + maxDuration * 1000 - CLAIM_CUTOFF_MS,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Scheduled document ingestion failed:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to run ingestion jobs",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ragService } from "@/lib/rag/rag-service";
+
+export const maxDuration = 300;
+
+// Stop starting new crawls this long before maxDuration
+const CRAWL_CUTOFF_MS = 2 * 60 * 1000;
+
+/**
+ * GET /api/cron/recrawl-web-sources
+ *
+ * Re-crawl the web sources that are due (see vercel.json for the schedule).
+ * Sources still due when time runs out wait for the next run.
+ * Not behind the login; the scheduler authenticates with
+ * "Authorization: Bearer $CRON_SECRET".
+ *
+ * Response: { success, crawled: [{ sourceId, status }] }
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Initialize RAG service
+    await ragService.initialize();
+
+    const crawled = await ragService.recrawlDueWebSources({
+      deadline: Date.now() + maxDuration * 1000 - CRAWL_CUTOFF_MS,
+    });
+
+    return NextResponse.json({ success: true, crawled });
+  } catch (error) {
+    console.error("Scheduled web source re-crawl failed:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to re-crawl web sources",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { waitUntil } from "@vercel/functions";
 import { headers } from "next/headers";
 import { ctaStorage } from "@/lib/cta-storage";
 import { s3Storage } from "@/lib/s3-client";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
 import type { CTAFormData } from "@/types";
 
 /**
@@ -27,6 +28,10 @@ import type { CTAFormData } from "@/types";
  */
 export async function POST(request: NextRequest) {
   try {
+    // Public route: throttle per client IP against form spam
+    const rateLimited = await enforceRateLimit(request, "cta-submit");
+    if (rateLimited) return rateLimited;
+
     // Get request headers for metadata
     const headersList = await headers();
     const ipAddress =
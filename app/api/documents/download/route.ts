@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { s3Storage } from "@/lib/s3-client";
+import {
+  getDocumentFileKey,
+  type DocumentVersion,
+  type KnowledgeBaseEntry,
+} from "@/lib/rag/rag-service";
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const sourceId = searchParams.get("sourceId");
     const avatarId = searchParams.get("avatarId");
+    // Open in the browser (e.g. a cited PDF page) instead of saving
+    const inline = searchParams.get("inline") === "true";
+    // An earlier version from the document's history; the current one otherwise
+    const version = Number(searchParams.get("version")) || undefined;
 
     if (!sourceId) {
       return NextResponse.json(
@@ -15,7 +24,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Get document metadata to retrieve filename
-    const metadata = await s3Storage.getDocumentMetadata(sourceId);
+    const metadata = (await s3Storage.getDocumentMetadata(
+      sourceId
+    )) as KnowledgeBaseEntry | null;
     if (!metadata || !metadata.filename) {
       return NextResponse.json(
         { error: "Document metadata not found" },
@@ -39,8 +50,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const file: Pick<DocumentVersion, "version" | "filename"> | undefined =
+      !version || version === (metadata.version || 1)
+        ? { version: metadata.version || 1, filename: metadata.filename }
+        : metadata.versions?.find((entry) => entry.version === version);
+
+    if (!file) {
+      return NextResponse.json(
+        { error: `Version ${version} not found` },
+        { status: 404 }
+      );
+    }
+
     // Construct the S3 key with filename
-    const s3Key = `knowledge-base/${sourceId}/${metadata.filename}`;
+    const s3Key = getDocumentFileKey(sourceId, file.filename, file.version);
 
     try {
       // Download the file from S3
@@ -49,7 +72,7 @@ export async function GET(request: NextRequest) {
       // Create response with appropriate headers
       const headers = new Headers();
       headers.set('Content-Type', contentType || 'application/octet-stream');
-      headers.set('Content-Disposition', `attachment; filename="${metadata.filename}"`);
+      headers.set('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${file.filename}"`);
       headers.set('Content-Length', body.length.toString());
 
       return new NextResponse(Buffer.from(body), {
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse, after } from "next/server";
+
+import { ragService } from "@/lib/rag/rag-service";
+import { documentProcessor } from "@/lib/rag/document-processor";
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
+
+// Covers the ingestion run after the response, as for uploads
+export const maxDuration = 300;
+
+/**
+ * POST /api/documents/replace
+ *
+ * Upload a new version of a document, keeping its source id. The current
+ * version stays searchable until the new one is processed, then moves to the
+ * document's version history.
+ *
+ * Form data: file, sourceId, avatarId (avatar documents only), chunkSize?,
+ * chunkOverlap?
+ * Response: { success, processingId, document }, or { success, duplicate,
+ * document } when the file is the current version
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const sourceId = formData.get("sourceId") as string | null;
+    const avatarId = formData.get("avatarId") as string | null;
+    const chunkSize = Number(formData.get("chunkSize")) || undefined;
+    const chunkOverlap = Number(formData.get("chunkOverlap")) || undefined;
+
+    if (!file || !sourceId) {
+      return NextResponse.json(
+        { error: "File and source ID must be provided" },
+        { status: 400 },
+      );
+    }
+
+    // Initialize RAG service
+    await ragService.initialize();
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const mimeType = documentProcessor.resolveMimeType(file.type, file.name);
+
+    if (!documentProcessor.isSupported(mimeType)) {
+      return NextResponse.json(
+        {
+          error: `Unsupported file type. Supported types: ${documentProcessor.getSupportedFormatLabels()}`,
+          receivedType: file.type,
+          supportedTypes: documentProcessor.getSupportedMimeTypes(),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Validate file size (10MB limit)
+    if (buffer.length > 10 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: "File size exceeds 10MB limit" },
+        { status: 400 },
+      );
+    }
+
+    const result = await ingestionQueue.enqueueReplacement(
+      sourceId,
+      {
+        buffer,
+        mimeType,
+        filename: file.name,
+        // The current version's passage size unless one is given
+        chunking:
+          chunkSize || chunkOverlap
+            ? { maxTokens: chunkSize, overlapTokens: chunkOverlap }
+            : undefined,
+      },
+      avatarId || undefined,
+    );
+
+    if (result.status === "duplicate") {
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        document: result.document,
+        message: "The file is the same as the current version",
+      });
+    }
+
+    const processingId = result.jobId;
+
+    // Start right away; if this run is cut short, the worker retries the job
+    after(async () => {
+      try {
+        await ingestionQueue.runJob(processingId);
+      } catch (error) {
+        console.error(`Failed to run ingestion job ${processingId}:`, error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      processingId,
+      document: result.document,
+      message: "New version queued for processing",
+    });
+  } catch (error) {
+    console.error("Document replace error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to replace document",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { ragService } from "@/lib/rag/rag-service";
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,8 +14,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get processing status
-    const status = await ragService.getProcessingStatus(processingId);
+    // The processing id is the ingestion job's id
+    const status = await ingestionQueue.getStatus(processingId);
 
     if (!status) {
       return NextResponse.json(
@@ -1,7 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 
 import { ragService } from "@/lib/rag/rag-service";
 import { documentProcessor } from "@/lib/rag/document-processor";
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
+
+// Covers the ingestion run after the response; longer documents continue
+// in the ingestion worker from their last checkpoint
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,6 +15,9 @@ export async function POST(request: NextRequest) {
     const title = formData.get("title") as string | null;
     const avatarId = formData.get("avatarId") as string | null;
     const isShared = formData.get("isShared") === "true";
+    // Optional passage size in tokens; clamped by the chunker
+    const chunkSize = Number(formData.get("chunkSize")) || undefined;
+    const chunkOverlap = Number(formData.get("chunkOverlap")) || undefined;
 
     // Validate input
     if (!file) {
@@ -31,14 +39,15 @@ export async function POST(request: NextRequest) {
 
     // Process file upload
     const buffer = Buffer.from(await file.arrayBuffer());
-    const mimeType = file.type;
+    // Browsers leave out or misreport the type of some formats (.md, .csv)
+    const mimeType = documentProcessor.resolveMimeType(file.type, file.name);
 
     // Validate file type
     if (!documentProcessor.isSupported(mimeType)) {
       return NextResponse.json(
         {
-          error: "Unsupported file type. Supported types: PDF, TXT, DOCX",
-          receivedType: mimeType,
+          error: `Unsupported file type. Supported types: ${documentProcessor.getSupportedFormatLabels()}`,
+          receivedType: file.type,
           supportedTypes: documentProcessor.getSupportedMimeTypes(),
         },
         { status: 400 },
@@ -55,22 +64,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process document
-    const processingId = await ragService.processDocument(
+    // Store the file and queue it for ingestion
+    const result = await ingestionQueue.enqueue(
       {
         buffer,
         mimeType,
         filename: file.name,
         title: title || undefined,
+        chunking: { maxTokens: chunkSize, overlapTokens: chunkOverlap },
       },
       avatarId || undefined,
       isShared,
     );
 
+    if (result.status === "duplicate") {
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        document: result.document,
+        message: `"${result.document.title}" is already in the knowledge base`,
+      });
+    }
+
+    const processingId = result.jobId;
+
+    // Start right away; if this run is cut short, the worker retries the job
+    after(async () => {
+      try {
+        await ingestionQueue.runJob(processingId);
+      } catch (error) {
+        console.error(`Failed to run ingestion job ${processingId}:`, error);
+      }
+    });
+
     return NextResponse.json({
       success: true,
-      processingId: processingId,
-      message: "Document processing started",
+      processingId,
+      document: result.document,
+      message: "Document queued for processing",
     });
   } catch (error) {
     console.error("Document upload error:", error);
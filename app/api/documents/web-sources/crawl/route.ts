@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { CrawlInProgressError } from "@/lib/rag/crawl-locks";
+import { ragService } from "@/lib/rag/rag-service";
+
+// Crawling a sitemap fetches and embeds many pages
+export const maxDuration = 300;
+
+/**
+ * POST /api/documents/web-sources/crawl
+ *
+ * Re-crawl a web source now, outside its schedule.
+ *
+ * Body: { sourceId }
+ * Response: { success, document } with the crawl's outcome in
+ * document.lastCrawl, or 409 while the source is already being crawled
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sourceId } = await request.json();
+
+    if (!sourceId) {
+      return NextResponse.json(
+        { error: "Source ID is required" },
+        { status: 400 },
+      );
+    }
+
+    // Initialize RAG service
+    await ragService.initialize();
+
+    const document = await ragService.crawlWebSource(sourceId);
+
+    return NextResponse.json({ success: true, document });
+  } catch (error) {
+    if (error instanceof CrawlInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to crawl web source:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to crawl web source",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
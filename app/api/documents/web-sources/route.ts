@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ragService } from "@/lib/rag/rag-service";
+
+// Crawling a sitemap fetches and embeds many pages
+export const maxDuration = 300;
+
+/**
+ * POST /api/documents/web-sources
+ *
+ * Add a web page, or a sitemap of pages, to the knowledge base and crawl it.
+ *
+ * Body:
+ * - url: Page or sitemap (.xml) URL
+ * - title: Name in the document list (default: the URL)
+ * - avatarId / isShared: As for file uploads
+ * - maxPages: Pages to take from a sitemap
+ * - recrawlIntervalHours: Re-crawl schedule; 0 for manual re-crawls only
+ * - chunkSize: Passage size in tokens
+ *
+ * Response: { success, document } with the crawl's outcome in
+ * document.lastCrawl
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      url,
+      title,
+      avatarId,
+      isShared = false,
+      maxPages,
+      recrawlIntervalHours,
+      chunkSize,
+    } = body;
+
+    if (!url || typeof url !== "string") {
+      return NextResponse.json({ error: "URL is required" }, { status: 400 });
+    }
+
+    if (!isShared && !avatarId) {
+      return NextResponse.json(
+        { error: "Avatar ID is required for non-shared documents" },
+        { status: 400 },
+      );
+    }
+
+    // Initialize RAG service
+    await ragService.initialize();
+
+    const document = await ragService.addWebSource(
+      {
+        url,
+        title: title || undefined,
+        maxPages: Number(maxPages) || undefined,
+        recrawlIntervalHours:
+          recrawlIntervalHours === undefined
+            ? undefined
+            : Number(recrawlIntervalHours) || 0,
+        chunking: { maxTokens: Number(chunkSize) || undefined },
+      },
+      avatarId || undefined,
+      !!isShared,
+    );
+
+    return NextResponse.json({ success: true, document });
+  } catch (error) {
+    console.error("Failed to add web source:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to add web source",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      {
+        status:
+          error instanceof Error && error.message.includes("URL") ? 400 : 500,
+      },
+    );
+  }
+}
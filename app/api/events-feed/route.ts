@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  eventsFeedStorage,
+  validateFeedEvents,
+  type FeedEvent,
+} from "@/lib/events-feed-storage";
+
+export async function GET() {
+  try {
+    const feed = await eventsFeedStorage.getFeed();
+
+    return NextResponse.json(feed);
+  } catch (error) {
+    console.error("Error fetching events feed:", error);
+
+    return NextResponse.json(
+      { error: "Failed to fetch events feed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { events, updatedBy = "Unknown Admin" }: {
+      events: FeedEvent[];
+      updatedBy?: string;
+    } = await request.json();
+
+    const validationErrors = validateFeedEvents(events);
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: validationErrors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const feed = await eventsFeedStorage.saveEvents(events, updatedBy);
+
+    return NextResponse.json({ success: true, feed });
+  } catch (error) {
+    console.error("Error updating events feed:", error);
+
+    return NextResponse.json(
+      { error: "Failed to update events feed" },
+      { status: 500 }
+    );
+  }
+}
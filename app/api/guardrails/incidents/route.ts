@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  guardrailIncidentLog,
+  isGuardrailReviewStatus,
+  withoutTopicRule,
+  type GuardrailIncidentFilters,
+} from "@/lib/guardrail-incidents";
+import { guardrailsStorage } from "@/lib/guardrails-storage";
+
+/**
+ * GET /api/guardrails/incidents
+ *
+ * Guardrail incidents for the review queue, with per-rule review totals.
+ *
+ * Query Parameters:
+ * - status: pending, confirmed or false_positive (default: all)
+ * - stage: input (visitor messages) or output (model replies)
+ * - check: e.g. blockedTopics, mentalHealthTopics, pii
+ * - avatarId: Filter by avatar
+ * - startDate / endDate: Date range (ISO strings)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   incidents: GuardrailIntervention[],
+ *   rules: GuardrailRuleStats[]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const stage = searchParams.get("stage");
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+
+    const filters: GuardrailIncidentFilters = {
+      check: searchParams.get("check") || undefined,
+      avatarId: searchParams.get("avatarId") || undefined,
+    };
+
+    if (status) {
+      if (!isGuardrailReviewStatus(status)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid status" },
+          { status: 400 }
+        );
+      }
+      filters.reviewStatus = status;
+    }
+
+    if (stage) {
+      if (stage !== "input" && stage !== "output") {
+        return NextResponse.json(
+          { success: false, error: "Invalid stage" },
+          { status: 400 }
+        );
+      }
+      filters.stage = stage;
+    }
+
+    for (const [field, value] of [
+      ["startDate", startDate],
+      ["endDate", endDate],
+    ] as const) {
+      if (!value) continue;
+
+      const date = new Date(value);
+
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { success: false, error: `Invalid ${field} format` },
+          { status: 400 }
+        );
+      }
+      filters[field] = date;
+    }
+
+    const [incidents, rules] = await Promise.all([
+      guardrailIncidentLog.list(filters),
+      guardrailIncidentLog.getRuleStats(filters),
+    ]);
+
+    return NextResponse.json({ success: true, incidents, rules });
+  } catch (error) {
+    console.error("Guardrail incidents error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to load guardrail incidents" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/guardrails/incidents
+ *
+ * Review an incident. With `removeRule`, a false positive's topic is also
+ * taken out of the global topic list that matched it.
+ *
+ * Body: { id, status, note?, reviewedBy?, removeRule? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const {
+      id,
+      status,
+      note,
+      reviewedBy = "Unknown Admin",
+      removeRule = false,
+    } = await request.json();
+
+    if (!id || !isGuardrailReviewStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: "Incident ID and a valid status are required" },
+        { status: 400 }
+      );
+    }
+
+    const incident = await guardrailIncidentLog.get(id);
+
+    if (!incident) {
+      return NextResponse.json(
+        { success: false, error: "Incident not found" },
+        { status: 404 }
+      );
+    }
+
+    let ruleRemoved = false;
+
+    if (removeRule && status === "false_positive") {
+      const updates = withoutTopicRule(
+        await guardrailsStorage.getConfig(),
+        incident
+      );
+
+      if (updates) {
+        await guardrailsStorage.updateConfig(updates, reviewedBy);
+        ruleRemoved = true;
+      }
+    }
+
+    const reviewed = await guardrailIncidentLog.review(
+      id,
+      status,
+      reviewedBy,
+      note
+    );
+
+    return NextResponse.json({ success: true, incident: reviewed, ruleRemoved });
+  } catch (error) {
+    console.error("Guardrail incident review error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to review guardrail incident" },
+      { status: 500 }
+    );
+  }
+}
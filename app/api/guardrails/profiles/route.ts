@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  guardrailProfilesStorage,
+  validateGuardrailProfile,
+  type GuardrailProfile,
+} from "@/lib/guardrail-profiles-storage";
+
+export async function GET() {
+  try {
+    const profiles = await guardrailProfilesStorage.listProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error("Error fetching guardrail profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch guardrail profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a profile, or replace the one with the same id
+export async function POST(request: NextRequest) {
+  try {
+    const { updatedBy = "Unknown Admin", ...profile }: Partial<GuardrailProfile> =
+      await request.json();
+
+    const errors = validateGuardrailProfile(profile);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+    }
+
+    const saved = await guardrailProfilesStorage.saveProfile(
+      {
+        id: profile.id,
+        name: profile.name!.trim(),
+        description: profile.description || "",
+        allowedTopics: profile.allowedTopics || [],
+        blockedTopics: profile.blockedTopics || [],
+        blockedResponses: profile.blockedResponses || [],
+        guidelines: profile.guidelines?.trim() || undefined,
+        mentalHealthRedirect: profile.mentalHealthRedirect,
+        outputModeration: profile.outputModeration,
+      },
+      updatedBy
+    );
+
+    return NextResponse.json({ success: true, profile: saved });
+  } catch (error) {
+    console.error("Error saving guardrail profile:", error);
+    return NextResponse.json(
+      { error: "Failed to save guardrail profile" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Profile ID is required" },
+        { status: 400 }
+      );
+    }
+
+    await guardrailProfilesStorage.deleteProfile(
+      id,
+      request.nextUrl.searchParams.get("updatedBy") || "Unknown Admin"
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting guardrail profile:", error);
+    return NextResponse.json(
+      { error: "Failed to delete guardrail profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -43,6 +43,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const localized = configUpdates.localizedTopics;
+    if (
+      localized &&
+      (typeof localized !== "object" ||
+        Object.values(localized).some(
+          (lists) =>
+            !Array.isArray(lists?.blockedTopics) ||
+            !Array.isArray(lists?.mentalHealthTopics)
+        ))
+    ) {
+      return NextResponse.json(
+        { error: "localizedTopics must map language codes to topic lists" },
+        { status: 400 }
+      );
+    }
+
+    const semantic = configUpdates.semanticMatching;
+    if (
+      semantic &&
+      (typeof semantic.enabled !== "boolean" ||
+        typeof semantic.threshold !== "number" ||
+        semantic.threshold < 0 ||
+        semantic.threshold > 1)
+    ) {
+      return NextResponse.json(
+        { error: "semanticMatching needs enabled and a threshold between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const moderation = configUpdates.outputModeration;
+    if (
+      moderation &&
+      (typeof moderation.enabled !== "boolean" ||
+        !["truncate", "omit"].includes(moderation.action) ||
+        !Array.isArray(moderation.blockedTopics) ||
+        !Array.isArray(moderation.realPeopleClaims) ||
+        !Array.isArray(moderation.allowedContacts) ||
+        !Array.isArray(moderation.allowedEmailDomains))
+    ) {
+      return NextResponse.json(
+        { error: "outputModeration is not a valid output moderation config" },
+        { status: 400 }
+      );
+    }
+
     // Update the configuration
     const updatedConfig = await guardrailsStorage.updateConfig(configUpdates, updatedBy);
     
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  guardrailsTestSuiteStorage,
+  validateGuardrailsTestCases,
+} from "@/lib/guardrails-test-suite-storage";
+
+export async function GET() {
+  try {
+    const suite = await guardrailsTestSuiteStorage.getSuite();
+    return NextResponse.json(suite);
+  } catch (error) {
+    console.error("Error fetching guardrails test suite:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch guardrails test suite" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the stored cases
+export async function POST(request: NextRequest) {
+  try {
+    const { cases, updatedBy = "Unknown Admin" } = await request.json();
+
+    const errors = validateGuardrailsTestCases(cases);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+    }
+
+    const suite = await guardrailsTestSuiteStorage.saveSuite(cases, updatedBy);
+
+    return NextResponse.json({ success: true, suite });
+  } catch (error) {
+    console.error("Error saving guardrails test suite:", error);
+    return NextResponse.json(
+      { error: "Failed to save guardrails test suite" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import type { GuardrailsConfig } from "@/lib/guardrails-storage";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { guardrailsStorage } from "@/lib/guardrails-storage";
+import { guardrailsTestSuiteStorage } from "@/lib/guardrails-test-suite-storage";
+import { runGuardrailsTestSuite } from "@/lib/guardrails-regression";
+import { getRequestUserId } from "@/lib/usage/usage-ledger";
+
+/**
+ * POST /api/guardrails/test-suite/run
+ *
+ * Run the stored suite against the saved guardrails config and, when given,
+ * a draft: the saved config with the draft's fields replaced. Nothing is
+ * saved.
+ *
+ * Body: { draft?: Partial<GuardrailsConfig> }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   run: GuardrailsTestRun
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { draft }: { draft?: Partial<GuardrailsConfig> } = await request
+      .json()
+      .catch(() => ({}));
+
+    for (const field of ["blockedTopics", "mentalHealthTopics"] as const) {
+      if (draft?.[field] && !Array.isArray(draft[field])) {
+        return NextResponse.json(
+          { error: `${field} must be an array` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Read the stored config directly so the run never sees a stale cache
+    const [current, suite] = await Promise.all([
+      guardrailsStorage.getConfig(),
+      guardrailsTestSuiteStorage.getSuite(),
+    ]);
+
+    const run = await runGuardrailsTestSuite(
+      suite.cases,
+      current,
+      draft ? { ...current, ...draft } : undefined,
+      { userId: await getRequestUserId(request) }
+    );
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error("Error running guardrails test suite:", error);
+    return NextResponse.json(
+      { error: "Failed to run guardrails test suite" },
+      { status: 500 }
+    );
+  }
+}
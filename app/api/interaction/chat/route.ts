@@ -1,43 +1,226 @@
-import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import type { InteractionFlag } from "@/types";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { NextRequest, NextResponse } from "next/server";
+import { s3Storage } from "@/lib/s3-client";
+import { buildContextWindow } from "@/lib/llm/context-window";
+import { getLLMProvider, resolveModelConfig } from "@/lib/llm/registry";
+import { estimateTokens } from "@/lib/llm/context-window";
+import { getRequestUserId, usageLedger } from "@/lib/usage/usage-ledger";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
+import {
+  applyGuardrails,
+  getBlockedContentResponse,
+  getCaseGuardrailProfileId,
+} from "@/lib/guardrails";
+import { guardrailIncidentLog } from "@/lib/guardrail-incidents";
+import { detectPromptInjection } from "@/lib/prompt-injection";
+import {
+  buildCaseRolePrompt,
+  CASE_PLAY_GUIDELINES,
+  CASE_PLAY_SECURITY_REDIRECT,
+  getStudentCohortId,
+} from "@/lib/case-play";
 
+/**
+ * POST /api/interaction/chat
+ *
+ * One turn of a case-play role chat. The role's prompt is built here from
+ * the stored case, and the earlier turns and rolling summary come from the
+ * server's transcript of the role chat, never from the request. The message
+ * is checked for prompt injection and against the case's guardrail profile
+ * first; flagged messages are answered without the model, left out of the
+ * transcript and attached to the stored interaction log for instructors.
+ *
+ * Body: { message, caseId, roleId, logId }
+ *
+ * Response: { success, message, flag? }
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { messages, systemPrompt, roleContext } = body;
+    const { caseId, roleId, logId } = body;
+    const userMessage =
+      typeof body.message === "string" ? body.message.trim() : "";
+
+    if (!userMessage) {
+      return NextResponse.json(
+        { error: "Message is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!caseId || !roleId) {
+      return NextResponse.json(
+        { error: "caseId and roleId are required" },
+        { status: 400 }
+      );
+    }
 
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    if (typeof logId !== "string" || !/^[A-Za-z0-9_-]+$/.test(logId)) {
       return NextResponse.json(
-        { error: "Messages array is required" },
+        { error: "A valid logId is required" },
         { status: 400 }
       );
     }
 
-    // Build system prompt from role context
-    let fullSystemPrompt = systemPrompt || "You are a helpful assistant.";
-    if (roleContext) {
-      fullSystemPrompt = `You are playing the role of "${roleContext.roleName}" in a case study simulation.\n\n${roleContext.additionalInfo || ""}\n\n${systemPrompt || ""}`.trim();
+    const studentEmail = await getRequestUserId(request);
+
+    if (!studentEmail) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const caseData = await s3Storage.getCase(caseId);
+    const role = caseData?.avatars.find((avatar) => avatar.id === roleId);
+
+    if (!caseData || !role) {
+      return NextResponse.json(
+        { error: "Case role not found" },
+        { status: 404 }
+      );
+    }
+
+    // Cohort quotas and usage go to the student's own cohort for the case
+    const cohortId = await getStudentCohortId(caseData, studentEmail);
+
+    const rateLimited = await enforceRateLimit(request, "case-chat", {
+      cohortId,
+    });
+    if (rateLimited) return rateLimited;
+
+    const receivedAt = Date.now();
+    const roleChat = await s3Storage.getRoleChat(
+      studentEmail,
+      caseId,
+      logId,
+      role.id
+    );
+
+    const modelConfig = resolveModelConfig("case-chat", caseData.llm);
+    const profileId = getCaseGuardrailProfileId(caseData, role.id);
+    const attribution = { caseId, cohortId, userId: studentEmail };
+
+    // Flag the message, attach it to the stored log and answer without the model
+    const reject = async (
+      type: InteractionFlag["type"],
+      rule: string,
+      message: string
+    ) => {
+      const flag: InteractionFlag = {
+        id: crypto.randomUUID(),
+        type,
+        roleId: role.id,
+        roleName: role.name,
+        rule,
+        messageContent: userMessage,
+        timestamp: Date.now(),
+      };
+
+      await s3Storage
+        .addInteractionFlag(studentEmail, caseId, logId, flag)
+        .catch((error) => {
+          console.error("Failed to attach interaction flag:", error);
+        });
+
+      return NextResponse.json({ success: true, message, flag });
+    };
+
+    const injection = detectPromptInjection(userMessage);
+
+    if (injection) {
+      await guardrailIncidentLog.record({
+        stage: "input",
+        check: "promptInjection",
+        rule: injection.rule,
+        action: "block",
+        content: userMessage,
+        route: "case-chat",
+        profileId,
+        attribution,
+      });
+
+      return reject(
+        "prompt_injection",
+        injection.rule,
+        CASE_PLAY_SECURITY_REDIRECT
+      );
+    }
+
+    const guardrails = await applyGuardrails(
+      buildCaseRolePrompt(caseData, role),
+      userMessage,
+      {
+        profileId,
+        route: "case-chat",
+        attribution,
+        defaultGuidelines: CASE_PLAY_GUIDELINES,
+        securityRedirect: CASE_PLAY_SECURITY_REDIRECT,
+      }
+    );
+
+    if (!guardrails.allowed) {
+      return reject(
+        "blocked_topic",
+        guardrails.blockedTopic?.topic || "blocked topic",
+        await getBlockedContentResponse(profileId)
+      );
     }
 
-    const fullMessages = [
-      { role: "system" as const, content: fullSystemPrompt },
-      ...messages.map((m: { role: string; content: string }) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      })),
-    ];
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4.1",
-      messages: fullMessages,
-      max_tokens: 1000,
+    // Keep long sessions within the token budget; the updated summary is
+    // stored with the transcript for the next turn
+    const context = await buildContextWindow({
+      systemPrompt: guardrails.enhancedPrompt,
+      history: [
+        ...roleChat.messages.map(({ role, content }) => ({ role, content })),
+        { role: "user", content: userMessage },
+      ],
+      summary: roleChat.summary,
+      modelConfig,
+      signal: request.signal,
+      attribution,
     });
 
-    const responseContent = completion.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
+    const startedAt = Date.now();
+    const completion = await getLLMProvider(modelConfig.provider).complete({
+      model: modelConfig.model,
+      messages: context.messages,
+      maxTokens: modelConfig.maxTokens,
+      temperature: modelConfig.temperature,
+      signal: request.signal, // Stop generating if the student leaves mid-request
+    });
+
+    await usageLedger.record({
+      operation: "chat",
+      route: "case-chat",
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      inputTokens:
+        completion.usage?.inputTokens ??
+        estimateTokens(context.messages.map((m) => m.content).join("\n")),
+      outputTokens:
+        completion.usage?.outputTokens ?? estimateTokens(completion.content),
+      estimated: !completion.usage,
+      latencyMs: Date.now() - startedAt,
+      ...attribution,
+    });
+
+    const responseContent = completion.content || "I'm sorry, I couldn't generate a response.";
+
+    await s3Storage
+      .saveRoleChat(studentEmail, caseId, logId, role.id, {
+        messages: [
+          ...roleChat.messages,
+          { role: "user", content: userMessage, timestamp: receivedAt },
+          { role: "assistant", content: responseContent, timestamp: Date.now() },
+        ],
+        summary: context.summary,
+        updatedAt: new Date().toISOString(),
+      })
+      .catch((error) => {
+        console.error("Failed to save role chat transcript:", error);
+      });
 
     return NextResponse.json({
       success: true,
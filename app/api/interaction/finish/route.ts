@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { s3Storage } from "@/lib/s3-client";
 import { waitUntil } from "@vercel/functions";
 import type { InteractionLog } from "@/types";
+import { getLLMProvider, resolveModelConfig } from "@/lib/llm/registry";
+import { estimateTokens } from "@/lib/llm/context-window";
+import { getRequestUserId, usageLedger } from "@/lib/usage/usage-ledger";
 
 async function evaluateInteraction(log: InteractionLog): Promise<void> {
   try {
@@ -26,17 +29,35 @@ async function evaluateInteraction(log: InteractionLog): Promise<void> {
       },
     ];
 
-    // Call OpenAI for evaluation
-    const OpenAI = (await import("openai")).default;
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    // Call the grading model configured for this case
+    const modelConfig = resolveModelConfig("evaluation", caseData.evaluationLlm);
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4.1",
+    const startedAt = Date.now();
+    const completion = await getLLMProvider(modelConfig.provider).complete({
+      model: modelConfig.model,
       messages: evaluationMessages,
-      max_tokens: 2000,
+      maxTokens: modelConfig.maxTokens,
+      temperature: modelConfig.temperature,
     });
 
-    const responseText = completion.choices[0]?.message?.content || "";
+    await usageLedger.record({
+      operation: "evaluation",
+      route: "evaluation",
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      inputTokens:
+        completion.usage?.inputTokens ??
+        estimateTokens(evaluationMessages.map((m) => m.content).join("\n")),
+      outputTokens:
+        completion.usage?.outputTokens ?? estimateTokens(completion.content),
+      estimated: !completion.usage,
+      latencyMs: Date.now() - startedAt,
+      caseId: log.caseId,
+      cohortId: log.cohortId,
+      userId: log.studentEmail,
+    });
+
+    const responseText = completion.content;
 
     // Parse score from response
     const scoreMatch = responseText.match(/SCORE:\s*(\d+)/i);
@@ -139,6 +160,16 @@ export async function POST(request: NextRequest) {
 
       // Use waitUntil to run evaluation in the background
       waitUntil(evaluateInteraction(log));
+    } else {
+      // Explore sessions are not kept, so neither are their role chats
+      const studentEmail = await getRequestUserId(request);
+      if (studentEmail) {
+        await s3Storage
+          .deleteRoleChats(studentEmail, log.caseId, log.id)
+          .catch((error) => {
+            console.error("Failed to delete explore role chats:", error);
+          });
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  activateIndexVersion,
+  IndexVersionError,
+} from "@/lib/rag/index-rebuild";
+import { isKnowledgeNamespace } from "@/lib/rag/vector-store";
+
+/**
+ * POST /api/knowledge/index-versions/activate
+ *
+ * Cut a namespace over to an index version: once verified, ingestion and
+ * search use it, and the previous version is retired. Activating a retired
+ * version switches back to it.
+ *
+ * Body:
+ * - namespace: "shared" or "avatar-<avatarId>"
+ * - version: The version to activate
+ * - force: Activate even if verification finds issues
+ *
+ * Response: { success, version, verification }, or 400 with the issues
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { namespace, version, force = false } = await request.json();
+
+    if (typeof namespace !== "string" || !isKnowledgeNamespace(namespace)) {
+      return NextResponse.json(
+        { error: 'Namespace must be "shared" or "avatar-<avatarId>"' },
+        { status: 400 },
+      );
+    }
+
+    const activated = await activateIndexVersion(
+      namespace,
+      Number(version),
+      force === true,
+    );
+
+    return NextResponse.json({ success: true, ...activated });
+  } catch (error) {
+    if (error instanceof IndexVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Index activation error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to activate index version",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
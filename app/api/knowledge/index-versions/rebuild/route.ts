@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from "next/server";
+
+import { indexVersions } from "@/lib/rag/index-versions";
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
+import { isKnowledgeNamespace } from "@/lib/rag/vector-store";
+
+// Covers the rebuild run after the response, as for new versions
+export const maxDuration = 300;
+
+/**
+ * POST /api/knowledge/index-versions/rebuild
+ *
+ * Bring an index version up to date with the stored chunks again, e.g. for
+ * documents uploaded while it was being built. Only chunks it is missing are
+ * embedded.
+ *
+ * Body: { namespace, version }
+ * Response: { success, jobId } - poll /api/documents/status with the job id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { namespace, version: versionNumber } = await request.json();
+    const version =
+      typeof namespace === "string" && isKnowledgeNamespace(namespace)
+        ? await indexVersions.get(namespace, Number(versionNumber))
+        : null;
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "Index version not found" },
+        { status: 404 },
+      );
+    }
+
+    if (version.version === 1 || version.status === "retired") {
+      return NextResponse.json(
+        {
+          error:
+            version.version === 1
+              ? "Version 1 cannot be rebuilt"
+              : `Index version ${version.version} is retired`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const jobId = await ingestionQueue.enqueueRebuild(version);
+
+    after(async () => {
+      try {
+        await ingestionQueue.runJob(jobId);
+      } catch (error) {
+        console.error(`Failed to run index rebuild job ${jobId}:`, error);
+      }
+    });
+
+    return NextResponse.json({ success: true, jobId });
+  } catch (error) {
+    console.error("Index rebuild error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to queue index rebuild",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
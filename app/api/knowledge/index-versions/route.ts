@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse, after } from "next/server";
+
+import { resolveEmbeddingProfile } from "@/lib/rag/embeddings";
+import { indexVersions } from "@/lib/rag/index-versions";
+import { ingestionQueue } from "@/lib/rag/ingestion-queue";
+import { isKnowledgeNamespace, knowledgeIndex } from "@/lib/rag/vector-store";
+
+// Covers the rebuild run after the response; larger namespaces continue in
+// the ingestion worker
+export const maxDuration = 300;
+
+/**
+ * GET /api/knowledge/index-versions?namespace=shared
+ *
+ * List a namespace's embedding index versions, oldest first, with their
+ * model, status and last verification.
+ *
+ * Response: { success, versions }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const namespace =
+      request.nextUrl.searchParams.get("namespace") || "shared";
+
+    if (!isKnowledgeNamespace(namespace)) {
+      return NextResponse.json(
+        { error: 'Namespace must be "shared" or "avatar-<avatarId>"' },
+        { status: 400 },
+      );
+    }
+
+    const versions = await indexVersions.list(namespace);
+
+    return NextResponse.json({ success: true, versions });
+  } catch (error) {
+    console.error("Index versions error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to list index versions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/knowledge/index-versions
+ *
+ * Start a new index version for a namespace and queue its rebuild from the
+ * stored chunks. Search keeps using the active version until the new one is
+ * activated.
+ *
+ * Body:
+ * - namespace: "shared" or "avatar-<avatarId>"
+ * - model: Embedding model, e.g. "text-embedding-3-large"
+ * - dimension: Vector size, for models that can shorten their embeddings
+ *   (default: the model's full size)
+ *
+ * Response: { success, version, jobId } - poll /api/documents/status with
+ * the job id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { namespace, model, dimension } = await request.json();
+
+    if (typeof namespace !== "string" || !isKnowledgeNamespace(namespace)) {
+      return NextResponse.json(
+        { error: 'Namespace must be "shared" or "avatar-<avatarId>"' },
+        { status: 400 },
+      );
+    }
+
+    let profile;
+
+    try {
+      profile = resolveEmbeddingProfile(
+        model,
+        Number(dimension) || undefined,
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid model" },
+        { status: 400 },
+      );
+    }
+
+    const version = await indexVersions.create(namespace, profile);
+    const jobId = await ingestionQueue.enqueueRebuild(version);
+
+    after(async () => {
+      try {
+        await ingestionQueue.runJob(jobId);
+      } catch (error) {
+        console.error(`Failed to run index rebuild job ${jobId}:`, error);
+      }
+    });
+
+    return NextResponse.json({ success: true, version, jobId });
+  } catch (error) {
+    console.error("Index version create error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to create index version",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/knowledge/index-versions?namespace=shared&version=2
+ *
+ * Delete an index version that is not in use, with its vectors. A retired
+ * version can no longer be switched back to afterwards.
+ *
+ * Response: { success }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const namespace = request.nextUrl.searchParams.get("namespace") || "";
+    const versionNumber = Number(request.nextUrl.searchParams.get("version"));
+    const version = isKnowledgeNamespace(namespace)
+      ? await indexVersions.get(namespace, versionNumber)
+      : null;
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "Index version not found" },
+        { status: 404 },
+      );
+    }
+
+    if (version.status === "active" || version.status === "building") {
+      return NextResponse.json(
+        { error: `Index version ${version.version} is ${version.status}` },
+        { status: 400 },
+      );
+    }
+
+    await knowledgeIndex.deleteVersion(version);
+    await indexVersions.remove(namespace, version.version);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Index version delete error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to delete index version",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { IndexVersionError, verifyIndexVersion } from "@/lib/rag/index-rebuild";
+import { isKnowledgeNamespace } from "@/lib/rag/vector-store";
+
+/**
+ * POST /api/knowledge/index-versions/verify
+ *
+ * Check an index version against the stored chunks without activating it:
+ * vector counts, chunks not yet embedded, and sample chunks searched for by
+ * their own text. The result is also saved on the version.
+ *
+ * Body: { namespace, version }
+ * Response: { success, verification }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { namespace, version } = await request.json();
+
+    if (typeof namespace !== "string" || !isKnowledgeNamespace(namespace)) {
+      return NextResponse.json(
+        { error: 'Namespace must be "shared" or "avatar-<avatarId>"' },
+        { status: 400 },
+      );
+    }
+
+    const verification = await verifyIndexVersion(namespace, Number(version));
+
+    return NextResponse.json({ success: true, verification });
+  } catch (error) {
+    if (error instanceof IndexVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Index verification error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to verify index version",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,32 +1,82 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { ragService } from "@/lib/rag/rag-service";
+import { s3Storage } from "@/lib/s3-client";
 
+/**
+ * POST /api/knowledge/search
+ *
+ * Search the knowledge base as an avatar's chats would.
+ *
+ * Body:
+ * - query: Search text
+ * - avatarId: Also search this avatar's documents, with its retrieval settings
+ * - topK: Chunks to return (default 5)
+ * - retrieval: Retrieval settings to try instead of the avatar's
+ * - trace: Include the retrieval trace (vector, keyword, fused and reranked
+ *   hits with their scores and timings)
+ * - messages: A chat's turns ({ role, content }), to search as the chat
+ *   would: the latest user message is rewritten with the earlier turns as
+ *   context, and query is ignored
+ *
+ * Response: { success, context, trace? }
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { query, avatarId, topK = 5 } = body;
+    const {
+      query,
+      avatarId,
+      topK = 5,
+      retrieval,
+      trace = false,
+      messages,
+    } = body;
 
-    if (!query) {
+    const isConversation = Array.isArray(messages) && messages.length > 0;
+
+    if (!isConversation && !query) {
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
 
-    if (typeof query !== "string") {
+    if (!isConversation && typeof query !== "string") {
       return NextResponse.json(
         { error: "Query must be a string" },
         { status: 400 },
       );
     }
 
+    const avatar =
+      avatarId && !retrieval ? await s3Storage.getAvatar(avatarId) : null;
+    const options = {
+      settings: retrieval ?? avatar?.retrieval,
+      trace: !!trace,
+    };
+
     // Initialize RAG service
     await ragService.initialize();
 
     // Search knowledge base
-    const context = await ragService.searchKnowledgeBase(query, avatarId, topK);
+    const { trace: retrievalTrace, ...context } = isConversation
+      ? await ragService.searchConversation(
+          messages,
+          avatarId,
+          topK,
+          undefined,
+          options,
+        )
+      : await ragService.searchKnowledgeBase(
+          query,
+          avatarId,
+          topK,
+          undefined,
+          options,
+        );
 
     return NextResponse.json({
       success: true,
       context,
+      trace: retrievalTrace,
     });
   } catch (error) {
     console.error("Knowledge search error:", error);
@@ -1,162 +1,527 @@
-import OpenAI from "openai";
+import type { Avatar } from "@/lib/avatar-storage";
+import type {
+  LLMConversationSummary,
+  LLMMessage,
+  LLMModelConfig,
+  LLMModelOverride,
+  LLMRoute,
+  LLMToolCall,
+  LLMUsage,
+} from "@/lib/llm/types";
+import type { AvatarToolName } from "@/lib/tools/catalog";
+import type { AvatarTool } from "@/lib/tools/types";
+import type { OutputModerator } from "@/lib/output-moderation";
+import type { RetrievalSettingsOverride } from "@/lib/rag/retrieval-settings";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { estimateTokens } from "@/lib/llm/context-window";
+import { llmGenerationRegistry } from "@/lib/llm/generation-registry";
+import { getLLMProvider, resolveModelConfig } from "@/lib/llm/registry";
+import { renderAvatarPrompt } from "@/lib/prompts/prompt-template";
+import { llmStreamBuffer } from "@/lib/llm/stream-buffer";
+import {
+  encodeSSEEvent,
+  generateStreamId,
+  type LLMAbortReason,
+  type LLMSourceCitation,
+  type LLMStreamMetadata,
+  type LLMStreamProtocol,
+  type LLMStreamResponseV2,
+  type LLMToolActivity,
+} from "@/lib/llm/stream-protocol";
+import { runAvatarTool, getRunningActivity } from "@/lib/tools/registry";
+import { usageLedger, type UsageAttribution } from "@/lib/usage/usage-ledger";
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
   content: string;
 }
 
+// Protocol v1 event (compatibility mode); see lib/llm/stream-protocol.ts for v2
 export interface LLMStreamResponse {
-  type: "start" | "content" | "end" | "error";
+  type: "start" | "sources" | "tool" | "content" | "end" | "error";
   message?: string;
   content?: string;
+  sources?: LLMSourceCitation[];
+  tool?: LLMToolActivity;
   timestamp: string;
-  metadata?: {
-    model?: string;
-    avatarId?: string;
-    userMessage?: string;
-    finalLength?: number;
-    duration?: number;
-  };
+  metadata?: LLMStreamMetadata;
 }
 
+export type { LLMStreamResponseV2 };
+
 export interface LLMRequest {
   messages: ChatMessage[];
   avatarId: string;
+  // Avatar editor drafts, only taken from admins on the preview route
   systemPrompt?: string; // Only for preview route
+  llm?: LLMModelOverride; // Only for preview route - test an unsaved model choice
+  tools?: AvatarToolName[]; // Only for preview route - test an unsaved tool selection
+  guardrailProfileId?: string; // Only for preview route - test an unsaved guardrail profile; empty for none
+  retrieval?: RetrievalSettingsOverride; // Only for preview route - test unsaved retrieval settings
+  protocol?: LLMStreamProtocol; // Stream protocol version, defaults to 1
+  chatSessionId?: string; // Kiosk chat session, lets /api/avatar/interrupt stop the reply
+  summary?: LLMConversationSummary; // Only for preview route without a chat session - otherwise kept on the server
+}
+
+export interface LLMGenerationOptions {
+  signal?: AbortSignal; // Usually request.signal, fires when the client goes away
+  chatSessionId?: string;
+  summary?: LLMConversationSummary; // Echoed in the start event for the client to keep
+  sources?: LLMSourceCitation[]; // Knowledge passages in the prompt, sent as a sources event
+  route?: LLMRoute; // Recorded in the usage ledger
+  attribution?: UsageAttribution;
+  tools?: AvatarTool[]; // Tools the model may call before replying
+  retrieval?: RetrievalSettingsOverride; // Knowledge base settings for the search tool
+  moderation?: OutputModerator | null; // Checks the reply sentence by sentence
 }
 
+// Tool-calling rounds per reply; after the last one the model must answer
+const MAX_TOOL_ROUNDS = 3;
+
 // Default fallback prompt
 const DEFAULT_SYSTEM_PROMPT = "You are a helpful assistant. Keep your responses concise and engaging.";
 
-// Cache for avatar system prompts to avoid repeated S3 calls
-const promptCache = new Map<string, { prompt: string; timestamp: number }>();
+// Cache for avatars to avoid repeated S3 calls
+const avatarCache = new Map<string, { avatar: Avatar | null; timestamp: number }>();
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
-export function getAvatarSystemPrompt(avatarId: string): string {
-  // Synchronous getter for backward compatibility - returns cached or default
-  const cached = promptCache.get(avatarId);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.prompt;
-  }
-  return DEFAULT_SYSTEM_PROMPT;
-}
-
-export async function fetchAvatarSystemPrompt(avatarId: string): Promise<string> {
+export async function fetchAvatar(avatarId: string): Promise<Avatar | null> {
   // Check cache first
-  const cached = promptCache.get(avatarId);
+  const cached = avatarCache.get(avatarId);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.prompt;
+    return cached.avatar;
   }
 
   try {
     // Try to load from S3 avatar storage
     const { s3Storage } = await import("@/lib/s3-client");
     const avatar = await s3Storage.getAvatar(avatarId);
-    if (avatar?.systemPrompt) {
-      promptCache.set(avatarId, { prompt: avatar.systemPrompt, timestamp: Date.now() });
-      return avatar.systemPrompt;
-    }
+    avatarCache.set(avatarId, { avatar, timestamp: Date.now() });
+    return avatar;
   } catch (error) {
-    console.error(`Failed to fetch avatar system prompt for ${avatarId}:`, error);
+    console.error(`Failed to fetch avatar ${avatarId}:`, error);
+    return null;
   }
+}
 
+export function getAvatarSystemPrompt(avatarId: string): string {
+  // Synchronous getter for backward compatibility - returns cached or default
+  const cached = avatarCache.get(avatarId);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+    return (
+      (cached.avatar && renderAvatarPrompt(cached.avatar)) ||
+      DEFAULT_SYSTEM_PROMPT
+    );
+  }
   return DEFAULT_SYSTEM_PROMPT;
 }
 
-export function createLLMStream(
-  messages: ChatMessage[],
-  modelName: string = "gpt-4.1"
-): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
+export async function fetchAvatarSystemPrompt(avatarId: string): Promise<string> {
+  const avatar = await fetchAvatar(avatarId);
+  return (avatar && renderAvatarPrompt(avatar)) || DEFAULT_SYSTEM_PROMPT;
+}
 
-  return new ReadableStream({
-    async start(controller) {
-      let accumulatedContent = "";
-      const startTime = new Date().toISOString();
-
-      try {
-        // Send initial connection message with metadata
-        const startMessage: LLMStreamResponse = {
-          type: "start",
-          message: "Connected to OpenAI stream",
-          timestamp: startTime,
-          metadata: {
-            model: modelName,
-            userMessage: messages[messages.length - 1]?.content || "No message",
-          },
-        };
+// Protocol-neutral event produced by a generation, before wire encoding
+interface LLMStreamEvent {
+  type: "start" | "sources" | "tool" | "delta" | "end" | "error";
+  content?: string;
+  sources?: LLMSourceCitation[];
+  tool?: LLMToolActivity;
+  message?: string;
+  timestamp: string;
+  metadata?: LLMStreamMetadata;
+}
 
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(startMessage)}\n\n`)
-        );
+// Abort reasons come from our own controllers, anything else is a disconnect
+function getAbortReason(signal: AbortSignal): LLMAbortReason {
+  return signal.reason === "interrupted" ? "interrupted" : "disconnected";
+}
+
+function addUsage(total: LLMUsage | undefined, usage: LLMUsage): LLMUsage {
+  return {
+    inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  };
+}
+
+async function* generateLLMEvents(
+  messages: LLMMessage[],
+  modelConfig: LLMModelConfig,
+  options: LLMGenerationOptions = {}
+): AsyncGenerator<LLMStreamEvent> {
+  const { signal, summary, sources, tools = [], moderation } = options;
+  let finalLength = 0;
+  let usage: LLMUsage | undefined;
+  const startTime = new Date().toISOString();
+
+  // Bill what was generated, even for interrupted or failed replies; fall
+  // back to an estimate when the provider never reported usage
+  const recordUsage = async (success: boolean) => {
+    await usageLedger.record({
+      operation: "chat",
+      route: options.route,
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      inputTokens:
+        usage?.inputTokens ??
+        estimateTokens(messages.map((msg) => msg.content).join("\n")),
+      outputTokens: usage?.outputTokens ?? Math.ceil(finalLength / 4),
+      estimated: !usage,
+      latencyMs: Date.now() - new Date(startTime).getTime(),
+      success,
+      ...options.attribution,
+    });
+  };
+
+  // Send initial connection message with metadata
+  yield {
+    type: "start",
+    message: `Connected to ${modelConfig.provider} stream`,
+    timestamp: startTime,
+    metadata: {
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      userMessage: messages[messages.length - 1]?.content || "No message",
+      summary,
+    },
+  };
+
+  if (sources && sources.length > 0) {
+    yield { type: "sources", sources, timestamp: new Date().toISOString() };
+  }
+
+  try {
+    // The conversation grows with tool calls and their results each round
+    const conversation: LLMMessage[] = [...messages];
+    const toolContext = {
+      avatarId: options.attribution?.avatarId,
+      chatSessionId: options.chatSessionId,
+      attribution: options.attribution,
+      retrieval: options.retrieval,
+      signal,
+    };
+
+    for (let round = 0; ; round++) {
+      // The last round keeps the tools defined, as earlier calls refer to
+      // them, but the model has to answer
+      const toolChoice = round < MAX_TOOL_ROUNDS ? "auto" : "none";
 
-        // Call OpenAI with streaming
-        const completion = await openai.chat.completions.create({
-          model: modelName,
-          messages: messages,
-          stream: true,
-          max_tokens: 500,
-        });
-
-        // Stream the response with accumulated content
-        for await (const chunk of completion) {
-          const content = chunk.choices[0]?.delta?.content;
-          if (content) {
-            accumulatedContent += content;
-            const contentMessage: LLMStreamResponse = {
-              type: "content",
-              content: accumulatedContent, // Send full accumulated content
+      // Call the configured provider with streaming
+      const completion = getLLMProvider(modelConfig.provider).streamChat({
+        model: modelConfig.model,
+        messages: conversation,
+        maxTokens: modelConfig.maxTokens,
+        temperature: modelConfig.temperature,
+        tools:
+          tools.length > 0 ? tools.map((tool) => tool.definition) : undefined,
+        toolChoice: tools.length > 0 ? toolChoice : undefined,
+        signal,
+      });
+
+      let roundContent = "";
+      let toolCalls: LLMToolCall[] = [];
+      let truncated = false;
+
+      for await (const chunk of completion) {
+        if (chunk.usage) usage = addUsage(usage, chunk.usage);
+        if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+
+        if (chunk.content) {
+          roundContent += chunk.content;
+          finalLength += chunk.content.length;
+
+          // Moderated replies are released a whole sentence at a time
+          const released = moderation
+            ? await moderation.push(chunk.content)
+            : { text: chunk.content };
+
+          if (released.text) {
+            yield {
+              type: "delta",
+              content: released.text,
               timestamp: new Date().toISOString(),
             };
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify(contentMessage)}\n\n`)
-            );
+          }
+
+          if (released.flag) {
+            truncated = true;
+            break; // Stops the upstream request too
           }
         }
+      }
+
+      // Text after the last sentence break, or before a tool call
+      if (moderation && !truncated) {
+        const released = await moderation.flush();
+
+        if (released.text) {
+          yield {
+            type: "delta",
+            content: released.text,
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        truncated = !!released.flag;
+      }
+
+      // Sentences released so far end in whitespace
+      if (truncated && moderation) {
+        yield {
+          type: "delta",
+          content: moderation.fallbackResponse,
+          timestamp: new Date().toISOString(),
+        };
+        break;
+      }
+
+      if (toolChoice === "none" || toolCalls.length === 0) break;
+
+      conversation.push({ role: "assistant", content: roundContent, toolCalls });
 
-        // Send completion message with end timestamp
-        const endTime = new Date().toISOString();
-        const endMessage: LLMStreamResponse = {
-          type: "end",
-          message: "Stream completed",
-          timestamp: endTime,
-          metadata: {
-            finalLength: accumulatedContent.length,
-            duration:
-              new Date(endTime).getTime() - new Date(startTime).getTime(),
-          },
+      for (const call of toolCalls) {
+        yield {
+          type: "tool",
+          tool: getRunningActivity(call, tools),
+          timestamp: new Date().toISOString(),
         };
 
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(endMessage)}\n\n`)
+        const { content, activity } = await runAvatarTool(
+          call,
+          tools,
+          toolContext
         );
-      } catch (error) {
-        console.error("OpenAI streaming error:", error);
-        const errorMessage: LLMStreamResponse = {
-          type: "error",
-          message: "Failed to generate response",
+
+        yield {
+          type: "tool",
+          tool: activity,
           timestamp: new Date().toISOString(),
         };
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(errorMessage)}\n\n`)
-        );
-      } finally {
-        controller.close();
+        conversation.push({ role: "tool", toolCallId: call.id, content });
+      }
+    }
+
+    await recordUsage(true);
+
+    // Send completion message with end timestamp
+    const endTime = new Date().toISOString();
+    yield {
+      type: "end",
+      message: "Stream completed",
+      timestamp: endTime,
+      metadata: {
+        finalLength,
+        duration: new Date(endTime).getTime() - new Date(startTime).getTime(),
+        moderated: moderation?.hasIntervened || undefined,
+      },
+    };
+  } catch (error) {
+    await recordUsage(false);
+
+    if (signal?.aborted) {
+      // Not a failure: close the reply normally and say why it is short
+      const endTime = new Date().toISOString();
+      const abortReason = getAbortReason(signal);
+
+      console.log(`${modelConfig.provider} stream aborted:`, abortReason);
+      yield {
+        type: "end",
+        message: "Stream aborted",
+        timestamp: endTime,
+        metadata: {
+          finalLength,
+          duration:
+            new Date(endTime).getTime() - new Date(startTime).getTime(),
+          abortReason,
+        },
+      };
+
+      return;
+    }
+
+    console.error(`${modelConfig.provider} streaming error:`, error);
+    yield {
+      type: "error",
+      message: "Failed to generate response",
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+// Version 1: every content event carries the full reply accumulated so far
+function encodeV1Stream(
+  events: AsyncIterable<LLMStreamEvent>,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      let accumulatedContent = "";
+
+      for await (const event of events) {
+        // The reader is gone; stop pulling so the generation can wind down
+        if (cancelled) return;
+
+        let message: LLMStreamResponse;
+
+        if (event.type === "delta") {
+          accumulatedContent += event.content || "";
+          message = {
+            type: "content",
+            content: accumulatedContent, // Send full accumulated content
+            timestamp: event.timestamp,
+          };
+        } else {
+          message = {
+            type: event.type,
+            message: event.message,
+            sources: event.sources,
+            tool: event.tool,
+            timestamp: event.timestamp,
+            metadata: event.metadata,
+          };
+        }
+
+        controller.enqueue(encoder.encode(encodeSSEEvent(message)));
       }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+      onCancel?.();
     },
   });
 }
 
+// Version 2: the generation fills the replay buffer and the response is a
+// subscription to it, so it can be resumed from /api/llm/stream
+function encodeV2Stream(
+  events: AsyncIterable<LLMStreamEvent>,
+  streamId: string,
+  onAbandoned?: () => void
+): ReadableStream<Uint8Array> {
+  let seq = 0;
+
+  llmStreamBuffer.create(streamId, onAbandoned);
+
+  // Runs independently of the response so a dropped connection does not
+  // lose the rest of the reply
+  (async () => {
+    try {
+      for await (const event of events) {
+        llmStreamBuffer.append({ v: 2, streamId, seq: seq++, ...event });
+      }
+    } catch (error) {
+      // Nothing awaits this task, so the client hears about it in the stream
+      console.error("LLM stream buffering error:", error);
+      llmStreamBuffer.append({
+        v: 2,
+        streamId,
+        seq: seq++,
+        type: "error",
+        message: "Failed to generate response",
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      llmStreamBuffer.complete(streamId);
+    }
+  })();
+
+  return llmStreamBuffer.subscribe(streamId)!;
+}
+
+// `onGone` runs when the client stops reading: at once for v1, after the
+// resume grace period for v2
+function encodeLLMStream(
+  events: AsyncIterable<LLMStreamEvent>,
+  protocol: LLMStreamProtocol,
+  streamId: string = generateStreamId(),
+  onGone?: () => void
+): ReadableStream<Uint8Array> {
+  return protocol === 2
+    ? encodeV2Stream(events, streamId, onGone)
+    : encodeV1Stream(events, onGone);
+}
+
+/**
+ * Start a generation and encode it with the requested protocol.
+ *
+ * The upstream request is aborted when the client disconnects (v1), when a v2
+ * stream is abandoned past its resume window, or when /api/avatar/interrupt
+ * names the stream id or chat session. The reply then ends with an `end`
+ * event whose metadata carries the abort reason.
+ */
+export function createLLMStream(
+  messages: LLMMessage[],
+  modelConfig: LLMModelConfig = resolveModelConfig("production"),
+  protocol: LLMStreamProtocol = 1,
+  options: LLMGenerationOptions = {}
+): ReadableStream<Uint8Array> {
+  const streamId = generateStreamId();
+  const controller = new AbortController();
+  const disconnect = () => controller.abort("disconnected");
+
+  llmGenerationRegistry.register(streamId, controller, options.chatSessionId);
+
+  // A v2 reply outlives its connection so it can be resumed; the buffer
+  // reports when it is truly abandoned instead
+  if (protocol === 1) {
+    options.signal?.addEventListener("abort", disconnect, { once: true });
+  }
+
+  async function* trackedEvents(): AsyncGenerator<LLMStreamEvent> {
+    try {
+      yield* generateLLMEvents(messages, modelConfig, {
+        ...options,
+        signal: controller.signal,
+      });
+    } finally {
+      llmGenerationRegistry.unregister(streamId);
+      options.signal?.removeEventListener("abort", disconnect);
+    }
+  }
+
+  return encodeLLMStream(trackedEvents(), protocol, streamId, disconnect);
+}
+
+/**
+ * Stream a fixed reply (e.g. a guardrails refusal) using the same protocol
+ * the client asked for, so consumers need no special case for it.
+ */
+export function createStaticLLMStream(
+  content: string,
+  protocol: LLMStreamProtocol = 1
+): ReadableStream<Uint8Array> {
+  async function* staticEvents(): AsyncGenerator<LLMStreamEvent> {
+    const timestamp = new Date().toISOString();
+
+    yield { type: "start", message: "Static response", timestamp };
+    yield { type: "delta", content, timestamp };
+    yield {
+      type: "end",
+      message: "Stream completed",
+      timestamp,
+      metadata: { finalLength: content.length, duration: 0 },
+    };
+  }
+
+  return encodeLLMStream(staticEvents(), protocol);
+}
+
+// Anything other than an explicit 2 gets the compatibility protocol
+export function getStreamProtocol(value: unknown): LLMStreamProtocol {
+  return value === 2 || value === "2" ? 2 : 1;
+}
+
 export function createSSEHeaders(): Headers {
   return new Headers({
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
     Connection: "keep-alive",
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Cache-Control",
+    "Access-Control-Allow-Headers": "Cache-Control, Last-Event-ID",
   });
 }
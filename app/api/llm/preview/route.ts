@@ -2,16 +2,33 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   createLLMStream,
   createSSEHeaders,
+  createStaticLLMStream,
+  getStreamProtocol,
+  fetchAvatar,
+  fetchAvatarSystemPrompt,
   type LLMRequest,
-  type ChatMessage,
 } from "../common";
 import { ragService } from "@/lib/rag/rag-service";
+import { toContextKnowledge, toSourceCitations } from "@/lib/rag/citations";
 import { applyGuardrails, getBlockedContentResponse } from "@/lib/guardrails";
+import { createOutputModerator } from "@/lib/output-moderation";
+import { buildContextWindow } from "@/lib/llm/context-window";
+import { resolveModelConfig } from "@/lib/llm/registry";
+import { getAvatarTools } from "@/lib/tools/registry";
+import { getRequestUserId } from "@/lib/usage/usage-ledger";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { s3Storage } from "@/lib/s3-client";
+import { getCurrentUser } from "@/lib/auth";
+import { siteConfig } from "@/config/site";
+
+// Same format /api/chat/save-kiosk accepts; the id keys the stored summary
+const CHAT_SESSION_ID_PATTERN = /^[a-zA-Z0-9_]{1,50}$/;
 
 export async function POST(request: NextRequest) {
   try {
     const body: LLMRequest = await request.json();
-    const { messages, avatarId, systemPrompt } = body;
+    const { messages, avatarId } = body;
+    const protocol = getStreamProtocol(body.protocol);
 
     // Validate required fields
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -28,76 +45,124 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!systemPrompt) {
-      return NextResponse.json(
-        { error: "System prompt is required for preview route" },
-        { status: 400 }
-      );
-    }
+    const rateLimited = await enforceRateLimit(request, "llm");
+    if (rateLimited) return rateLimited;
 
-    // Get the user's latest message for RAG search
+    // Get the user's latest message for the guardrails check
     const userMessages = messages.filter((msg) => msg.role === "user");
     const latestUserMessage = userMessages[userMessages.length - 1];
     console.log("received API call for preview route", new Date().toISOString());
 
+    // An unsaved prompt, model, tool, guardrail profile or retrieval choice
+    // from the editor wins over the one stored on the avatar. Kiosk logins
+    // can call this route too, so only admins get to send them
+    const token = request.cookies.get(siteConfig.auth.cookie.name)?.value;
+    const user = token ? await getCurrentUser(token) : null;
+    const draft: Partial<LLMRequest> = user?.role === "admin" ? body : {};
+
+    const avatar = await fetchAvatar(avatarId);
+    const systemPrompt =
+      draft.systemPrompt || (await fetchAvatarSystemPrompt(avatarId));
+    const guardrailProfileId =
+      draft.guardrailProfileId ?? avatar?.guardrailProfileId;
+    const retrieval = draft.retrieval ?? avatar?.retrieval;
+
+    // Provider calls and guardrail incidents below are attributed to this
+    // avatar and user
+    const attribution = {
+      avatarId,
+      userId: await getRequestUserId(request),
+    };
+
     // Apply guardrails check
     const guardrailsResult = await applyGuardrails(
       systemPrompt,
-      latestUserMessage?.content || ""
+      latestUserMessage?.content || "",
+      {
+        profileId: guardrailProfileId,
+        route: "preview",
+        chatSessionId: body.chatSessionId,
+        attribution,
+      }
     );
 
     console.log("guardrailsResult", guardrailsResult, new Date().toISOString());
     if (!guardrailsResult.allowed) {
       // Return blocked content response directly as SSE stream
-      const blockedResponse = await getBlockedContentResponse();
+      const blockedResponse = await getBlockedContentResponse(guardrailProfileId);
       const headers = createSSEHeaders();
-      
-      const stream = new ReadableStream({
-        start(controller) {
-          // Send the blocked response as content
-          controller.enqueue(`data: ${JSON.stringify({ type: "content", content: blockedResponse })}\n\n`);
-          // Send end signal
-          controller.enqueue(`data: ${JSON.stringify({ type: "end" })}\n\n`);
-          controller.close();
-        }
-      });
-      
+      const stream = createStaticLLMStream(blockedResponse, protocol);
+
       return new Response(stream, { headers });
     }
 
+    // A kiosk chat session keeps its rolling summary on the server, like the
+    // production route; the editor's unsaved chat has none and sends its own
+    const chatSessionId =
+      typeof body.chatSessionId === "string" &&
+      CHAT_SESSION_ID_PATTERN.test(body.chatSessionId)
+        ? body.chatSessionId
+        : undefined;
+    const summary = chatSessionId
+      ? await s3Storage.getConversationSummary(chatSessionId)
+      : draft.summary;
+
     // Initialize RAG service
     await ragService.initialize();
 
-    // Search knowledge base for relevant context
-    const ragContext = await ragService.searchKnowledgeBase(
-      latestUserMessage?.content || "",
+    // Search knowledge base for relevant context; follow-up questions are
+    // first rewritten into standalone queries from the recent turns
+    const ragContext = await ragService.searchConversation(
+      messages,
       avatarId,
+      5,
+      attribution,
+      { settings: retrieval, summary: summary?.content },
     );
 
-    // Build enhanced system prompt with RAG context
-    let enhancedSystemPrompt = guardrailsResult.enhancedPrompt;
-
-    if (ragContext.chunks.length > 0) {
-      const contextText = ragContext.chunks
-        .map(
-          (chunk, index) =>
-            `[Source ${index + 1}: ${chunk.source}]\n${chunk.text}\n`,
-        )
-        .join("\n");
-
-      const sourcesList = ragContext.sources.join(", ");
-
-      enhancedSystemPrompt += `\n\n## Knowledge Base Context\n\nYou have access to the following relevant information from your knowledge base:\n\n${contextText}\n\nSources: ${sourcesList}\n\nWhen answering questions, you should prioritize information from your knowledge base when relevant. If you reference specific information from the knowledge base, you can mention the source.`;
+    const enhancedSystemPrompt = guardrailsResult.enhancedPrompt;
+
+    const modelConfig = resolveModelConfig("preview", avatar?.llm, draft.llm);
+
+    // Fit prompt, knowledge and history into the model's token budget, folding
+    // older turns into the rolling summary
+    const context = await buildContextWindow({
+      systemPrompt: enhancedSystemPrompt,
+      knowledge: toContextKnowledge(ragContext),
+      history: messages.filter((msg) => msg.role !== "system"), // Remove any existing system messages
+      summary: summary ?? undefined,
+      modelConfig,
+      signal: request.signal,
+      attribution,
+    });
+
+    if (chatSessionId && context.summary && context.summary !== summary) {
+      await s3Storage
+        .saveConversationSummary(chatSessionId, context.summary)
+        .catch((error) => {
+          console.error("Failed to save conversation summary:", error);
+        });
     }
 
-    // Prepare messages with enhanced system prompt
-    const fullMessages: ChatMessage[] = [
-      { role: "system", content: enhancedSystemPrompt },
-      ...messages.filter((msg) => msg.role !== "system"), // Remove any existing system messages
-    ];
-
-    // Create and return the stream
-    const stream = createLLMStream(fullMessages);
+    const stream = createLLMStream(context.messages, modelConfig, protocol, {
+      signal: request.signal,
+      chatSessionId: body.chatSessionId,
+      summary: context.summary,
+      // Only the passages that fit in the window were shown to the model
+      sources: toSourceCitations(ragContext, context.stats.knowledgePassages),
+      route: "preview",
+      attribution,
+      // Replies are checked before the kiosk can speak them
+      moderation: await createOutputModerator({
+        systemPrompt: enhancedSystemPrompt,
+        route: "preview",
+        chatSessionId: body.chatSessionId,
+        attribution,
+        profileId: guardrailProfileId,
+      }),
+      tools: getAvatarTools(draft.tools ?? avatar?.tools),
+      retrieval,
+    });
     const headers = createSSEHeaders();
 
     return new Response(stream, { headers });
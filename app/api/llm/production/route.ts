@@ -2,18 +2,34 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   createLLMStream,
   createSSEHeaders,
+  createStaticLLMStream,
+  getStreamProtocol,
+  fetchAvatar,
   fetchAvatarSystemPrompt,
   type LLMRequest,
-  type ChatMessage,
 } from "../common";
 import { ragService } from "@/lib/rag/rag-service";
+import { toContextKnowledge, toSourceCitations } from "@/lib/rag/citations";
 import { applyGuardrails, getBlockedContentResponse } from "@/lib/guardrails";
+import { createOutputModerator } from "@/lib/output-moderation";
+import { buildContextWindow } from "@/lib/llm/context-window";
+import { resolveModelConfig } from "@/lib/llm/registry";
+import { getAvatarTools } from "@/lib/tools/registry";
+import { getRequestUserId } from "@/lib/usage/usage-ledger";
+import { enforceRateLimit } from "@/lib/rate-limit/rate-limiter";
+import { s3Storage } from "@/lib/s3-client";
+
+// Same format /api/chat/save-kiosk accepts; the id keys the stored summary
+const CHAT_SESSION_ID_PATTERN = /^[a-zA-Z0-9_]{1,50}$/;
 
 export async function POST(request: NextRequest) {
   try {
-    const body: Pick<LLMRequest, "messages" | "avatarId"> =
-      await request.json();
+    const body: Pick<
+      LLMRequest,
+      "messages" | "avatarId" | "protocol" | "chatSessionId"
+    > = await request.json();
     const { messages, avatarId } = body;
+    const protocol = getStreamProtocol(body.protocol);
 
     // Validate required fields
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -30,71 +46,115 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get the user's latest message for RAG search
+    const rateLimited = await enforceRateLimit(request, "llm");
+    if (rateLimited) return rateLimited;
+
+    // Get the user's latest message for the guardrails check
     const userMessages = messages.filter((msg) => msg.role === "user");
     const latestUserMessage = userMessages[userMessages.length - 1];
 
     // Get the system prompt for this avatar from S3
     let systemPrompt = await fetchAvatarSystemPrompt(avatarId);
+    const avatar = await fetchAvatar(avatarId);
+
+    // Provider calls and guardrail incidents below are attributed to this
+    // avatar and user
+    const attribution = {
+      avatarId,
+      userId: await getRequestUserId(request),
+    };
 
-    // Apply guardrails check
+    // Apply guardrails check with the avatar's guardrail profile
     const guardrailsResult = await applyGuardrails(
       systemPrompt,
-      latestUserMessage?.content || ""
+      latestUserMessage?.content || "",
+      {
+        profileId: avatar?.guardrailProfileId,
+        route: "production",
+        chatSessionId: body.chatSessionId,
+        attribution,
+      }
     );
 
     if (!guardrailsResult.allowed) {
       // Return blocked content response directly as SSE stream
-      const blockedResponse = await getBlockedContentResponse();
+      const blockedResponse = await getBlockedContentResponse(
+        avatar?.guardrailProfileId
+      );
       const headers = createSSEHeaders();
-      
-      const stream = new ReadableStream({
-        start(controller) {
-          // Send the blocked response as content
-          controller.enqueue(`data: ${JSON.stringify({ type: "content", content: blockedResponse })}\n\n`);
-          // Send end signal
-          controller.enqueue(`data: ${JSON.stringify({ type: "end" })}\n\n`);
-          controller.close();
-        }
-      });
-      
+      const stream = createStaticLLMStream(blockedResponse, protocol);
+
       return new Response(stream, { headers });
     }
 
     // Use enhanced system prompt with guardrails
     systemPrompt = guardrailsResult.enhancedPrompt;
 
+    // The rolling summary of earlier turns is kept on the server per chat
+    // session; a summary in the request body is ignored
+    const chatSessionId =
+      typeof body.chatSessionId === "string" &&
+      CHAT_SESSION_ID_PATTERN.test(body.chatSessionId)
+        ? body.chatSessionId
+        : undefined;
+    const summary = chatSessionId
+      ? await s3Storage.getConversationSummary(chatSessionId)
+      : null;
+
     // Initialize RAG service
     await ragService.initialize();
 
-    // Search knowledge base for relevant context
-    const ragContext = await ragService.searchKnowledgeBase(
-      latestUserMessage?.content || "",
+    // Search knowledge base for relevant context; follow-up questions are
+    // first rewritten into standalone queries from the recent turns
+    const ragContext = await ragService.searchConversation(
+      messages,
       avatarId,
+      5,
+      attribution,
+      { settings: avatar?.retrieval, summary: summary?.content },
     );
 
-    // Build enhanced system prompt with RAG context
-    if (ragContext.chunks.length > 0) {
-      const contextText = ragContext.chunks
-        .map(
-          (chunk, index) =>
-            `[Source ${index + 1}: ${chunk.source}]\n${chunk.text}\n`,
-        )
-        .join("\n");
-
-      const sourcesList = ragContext.sources.join(", ");
-
-      systemPrompt += `\n\n## Knowledge Base Context\n\nYou have access to the following relevant information from your knowledge base:\n\n${contextText}\n\nSources: ${sourcesList}\n\nWhen answering questions, you should prioritize information from your knowledge base when relevant. If you reference specific information from the knowledge base, you can mention the source.`;
+    // Create and return the stream using the avatar's model selection
+    const modelConfig = resolveModelConfig("production", avatar?.llm);
+
+    // Fit prompt, knowledge and history into the model's token budget, folding
+    // older turns into the stored rolling summary
+    const context = await buildContextWindow({
+      systemPrompt: systemPrompt,
+      knowledge: toContextKnowledge(ragContext),
+      history: messages.filter((msg) => msg.role !== "system"), // Remove any existing system messages
+      summary: summary ?? undefined,
+      modelConfig,
+      signal: request.signal,
+      attribution,
+    });
+
+    if (chatSessionId && context.summary && context.summary !== summary) {
+      await s3Storage
+        .saveConversationSummary(chatSessionId, context.summary)
+        .catch((error) => {
+          console.error("Failed to save conversation summary:", error);
+        });
     }
 
-    // Prepare messages with enhanced system prompt
-    const fullMessages: ChatMessage[] = [
-      { role: "system", content: systemPrompt },
-      ...messages.filter((msg) => msg.role !== "system"), // Remove any existing system messages
-    ];
-
-    // Create and return the stream
-    const stream = createLLMStream(fullMessages);
+    const stream = createLLMStream(context.messages, modelConfig, protocol, {
+      signal: request.signal,
+      chatSessionId: body.chatSessionId,
+      // Only the passages that fit in the window were shown to the model
+      sources: toSourceCitations(ragContext, context.stats.knowledgePassages),
+      route: "production",
+      attribution,
+      // Replies are checked before the kiosk can speak them
+      moderation: await createOutputModerator({
+        systemPrompt: systemPrompt,
+        route: "production",
+        chatSessionId: body.chatSessionId,
+        attribution,
+        profileId: avatar?.guardrailProfileId,
+      }),
+      tools: getAvatarTools(avatar?.tools),
+      retrieval: avatar?.retrieval,
+    });
     const headers = createSSEHeaders();
 
     return new Response(stream, { headers });
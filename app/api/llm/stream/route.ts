@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSSEHeaders } from "../common";
+import { llmStreamBuffer } from "@/lib/llm/stream-buffer";
+import { parseEventId } from "@/lib/llm/stream-protocol";
+
+/**
+ * Resume a protocol v2 LLM stream.
+ *
+ * The last received event id comes from the standard `Last-Event-ID` header
+ * (or the `lastEventId` query parameter for clients that cannot set it), and
+ * every buffered event after it is replayed before the live stream continues.
+ */
+export async function GET(request: NextRequest) {
+  const lastEventId =
+    request.headers.get("Last-Event-ID") ||
+    request.nextUrl.searchParams.get("lastEventId");
+
+  if (!lastEventId) {
+    return NextResponse.json(
+      { error: "Last-Event-ID header or lastEventId parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseEventId(lastEventId);
+
+  if (!parsed) {
+    return NextResponse.json(
+      { error: `Invalid event id: ${lastEventId}` },
+      { status: 400 }
+    );
+  }
+
+  const stream = llmStreamBuffer.subscribe(parsed.streamId, parsed.seq);
+
+  if (!stream) {
+    return NextResponse.json(
+      { error: "Stream not found or expired" },
+      { status: 404 }
+    );
+  }
+
+  return new Response(stream, { headers: createSSEHeaders() });
+}
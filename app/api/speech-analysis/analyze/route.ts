@@ -4,6 +4,28 @@ import {
   type SpeechAnalysisRequest,
 } from "@/lib/speech-analysis";
 import { documentProcessor } from "@/lib/rag/document-processor";
+import {
+  getAvatarPromptTemplate,
+  renderAvatarPrompt,
+  type PromptTemplate,
+} from "@/lib/prompts/prompt-template";
+import type { Avatar } from "@/lib/avatar-storage";
+
+// The avatar with its speech pattern section replaced; the stored prompt is
+// re-rendered from the template
+function withSpeechPattern(avatar: Avatar, content: string): Avatar {
+  const template = getAvatarPromptTemplate(avatar);
+  const promptTemplate: PromptTemplate = {
+    ...template,
+    sections: {
+      ...template.sections,
+      speechPattern: { content: content.trim(), enabled: !!content.trim() },
+    },
+  };
+  const updated = { ...avatar, promptTemplate };
+
+  return { ...updated, systemPrompt: renderAvatarPrompt(updated) };
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,14 +63,12 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // Remove all speech analysis data
+        // Remove all speech analysis data and the speech pattern section
         const updatedAvatar = {
-          ...existingAvatar,
+          ...withSpeechPattern(existingAvatar, ""),
           speechAnalysis: null,
           speechPromptAddition: null,
           speechSourceFiles: [],
-          // Keep base system prompt, just remove speech pattern section
-          systemPrompt: existingAvatar.originalSystemPrompt || existingAvatar.systemPrompt.split("\n\n## SPEECH PATTERN")[0],
           lastEditedAt: new Date().toISOString(),
         };
 
@@ -151,7 +171,6 @@ export async function POST(request: NextRequest) {
       files,
     };
 
-    // Get existing avatar to check for original system prompt
     const { s3Storage } = require("@/lib/s3-client");
     const existingAvatar = await s3Storage.getAvatar(avatarId);
     if (!existingAvatar) {
@@ -161,12 +180,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Store original system prompt if not already stored
-    if (!existingAvatar.originalSystemPrompt) {
-      existingAvatar.originalSystemPrompt = existingAvatar.systemPrompt;
-      await s3Storage.saveAvatar(existingAvatar);
-    }
-
     console.log("Processing speech analysis request:", {
       avatarId,
       fileCount: files.length,
@@ -193,24 +206,12 @@ export async function POST(request: NextRequest) {
           uploadedAt: new Date().toISOString(),
         }));
 
-        // Check if the speech prompt addition is already in the system prompt
-        const promptAlreadyExists = existingAvatar.systemPrompt.includes(systemPromptAddition);
-        
-        // Store original system prompt if this is first speech analysis
-        const originalSystemPrompt = !existingAvatar.originalSystemPrompt 
-          ? existingAvatar.systemPrompt 
-          : existingAvatar.originalSystemPrompt;
-
-        // Update avatar with speech analysis, avoiding duplicates
+        // The analysis replaces the speech pattern section of the prompt template
         const updatedAvatar = {
-          ...existingAvatar,
-          originalSystemPrompt, // Store original prompt for restoration
+          ...withSpeechPattern(existingAvatar, systemPromptAddition),
           speechAnalysis: analysis,
           speechPromptAddition: systemPromptAddition,
           speechSourceFiles: [...(existingAvatar.speechSourceFiles || []), ...speechSourceFiles],
-          systemPrompt: promptAlreadyExists 
-            ? existingAvatar.systemPrompt 
-            : existingAvatar.systemPrompt + "\n\n" + systemPromptAddition,
           lastEditedAt: new Date().toISOString(),
         };
 
@@ -383,14 +384,12 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Remove all speech analysis data
+    // Remove all speech analysis data and the speech pattern section
     const updatedAvatar = {
-      ...existingAvatar,
+      ...withSpeechPattern(existingAvatar, ""),
       speechAnalysis: null,
       speechPromptAddition: null,
       speechSourceFiles: [],
-      // Revert to original system prompt or remove speech pattern section
-      systemPrompt: existingAvatar.originalSystemPrompt || existingAvatar.systemPrompt.split("\n\n## SPEECH PATTERN")[0] || existingAvatar.systemPrompt.split("\n\n## PERSONAL SPEECH PATTERN")[0],
       lastEditedAt: new Date().toISOString(),
     };
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { s3Storage } from "@/lib/s3-client";
+import { toStudentCaseView } from "@/lib/case-play";
 
 export async function GET(request: NextRequest) {
   try {
@@ -82,7 +83,7 @@ export async function GET(request: NextRequest) {
       const caseData = await s3Storage.getCase(caseId);
       if (caseData) {
         cases.push({
-          ...caseData,
+          ...toStudentCaseView(caseData),
           cohortId: cohortInfo[caseId]?.cohortId,
           cohortName: cohortInfo[caseId]?.cohortName,
         });
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { configRevisions, isSystemConfigName } from "@/lib/config-revisions";
+import { rollbackSystemConfig } from "@/lib/system-configs";
+
+/**
+ * GET /api/system-configs/revisions
+ *
+ * Version history of a system config.
+ *
+ * Query Parameters:
+ * - config: guardrails, cta, guardrail-profiles, events-feed or
+ *   guardrails-test-suite (required)
+ * - version: Return that revision with its diff and snapshot instead of the
+ *   list
+ *
+ * Response:
+ * { success: true, revisions: ConfigRevisionSummary[] }
+ * { success: true, revision: ConfigRevision }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const config = searchParams.get("config");
+    const version = searchParams.get("version");
+
+    if (!isSystemConfigName(config)) {
+      return NextResponse.json(
+        { success: false, error: "A valid config is required" },
+        { status: 400 }
+      );
+    }
+
+    if (version) {
+      const revision = await configRevisions.get(config, Number(version));
+
+      if (!revision) {
+        return NextResponse.json(
+          { success: false, error: "Revision not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, revision });
+    }
+
+    const revisions = await configRevisions.list(config);
+
+    return NextResponse.json({ success: true, revisions });
+  } catch (error) {
+    console.error("Config revisions error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to load config revisions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/system-configs/revisions
+ *
+ * Roll a system config back to an earlier revision. The rollback is recorded
+ * as a new revision.
+ *
+ * Body: { config, version, updatedBy? }
+ *
+ * Response:
+ * { success: true, revision: ConfigRevisionSummary | null }
+ * (null when the config already matched the revision)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      config,
+      version,
+      updatedBy = "Unknown Admin",
+    } = await request.json();
+
+    if (!isSystemConfigName(config) || !Number.isInteger(version)) {
+      return NextResponse.json(
+        { success: false, error: "A valid config and version are required" },
+        { status: 400 }
+      );
+    }
+
+    const target = await configRevisions.get(config, version);
+
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    const revision = await rollbackSystemConfig(target, updatedBy);
+
+    return NextResponse.json({ success: true, revision });
+  } catch (error) {
+    console.error("Config rollback error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to roll back config" },
+      { status: 500 }
+    );
+  }
+}
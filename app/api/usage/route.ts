@@ -0,0 +1,169 @@
+import type { UsageRecord } from "@prisma/client";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  isUsageGroupBy,
+  usageLedger,
+  type UsageFilters,
+  type UsageOperation,
+} from "@/lib/usage/usage-ledger";
+
+const OPERATIONS: UsageOperation[] = [
+  "chat",
+  "summary",
+  "evaluation",
+  "embedding",
+  "transcription",
+  "rerank",
+  "query-rewrite",
+];
+
+/**
+ * GET /api/usage
+ *
+ * Token and cost report from the usage ledger.
+ *
+ * Query Parameters:
+ * - startDate / endDate: Date range (ISO strings)
+ * - avatarId, caseId, cohortId, userId: Filter by attribution
+ * - operation: chat, summary, evaluation, embedding, transcription, rerank or
+ *   query-rewrite
+ * - groupBy: avatar (default), case, cohort, user, model or operation
+ * - format: Response format ('json' or 'csv' for a raw record export)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   report: UsageReport
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+    const operation = searchParams.get("operation");
+    const groupBy = searchParams.get("groupBy") || "avatar";
+    const format = searchParams.get("format") || "json";
+
+    const filters: UsageFilters = {
+      avatarId: searchParams.get("avatarId") || undefined,
+      caseId: searchParams.get("caseId") || undefined,
+      cohortId: searchParams.get("cohortId") || undefined,
+      userId: searchParams.get("userId") || undefined,
+    };
+
+    if (startDate) {
+      filters.startDate = new Date(startDate);
+      if (isNaN(filters.startDate.getTime())) {
+        return NextResponse.json(
+          { success: false, error: "Invalid start date format" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (endDate) {
+      filters.endDate = new Date(endDate);
+      if (isNaN(filters.endDate.getTime())) {
+        return NextResponse.json(
+          { success: false, error: "Invalid end date format" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (operation) {
+      if (!OPERATIONS.includes(operation as UsageOperation)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid operation" },
+          { status: 400 }
+        );
+      }
+      filters.operation = operation as UsageOperation;
+    }
+
+    if (format === "csv") {
+      const records = await usageLedger.listRecords(filters);
+
+      return new Response(generateCSV(records), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="usage-${new Date().toISOString().split("T")[0]}.csv"`,
+        },
+      });
+    }
+
+    if (!isUsageGroupBy(groupBy)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid groupBy" },
+        { status: 400 }
+      );
+    }
+
+    const report = await usageLedger.getReport(filters, groupBy);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Usage report error:", error);
+
+    return NextResponse.json(
+      { success: false, error: "Failed to load usage" },
+      { status: 500 }
+    );
+  }
+}
+
+function csvField(value: string | null): string {
+  return `"${(value || "").replace(/"/g, '""')}"`;
+}
+
+/**
+ * Generate CSV Export
+ *
+ * One line per usage record, for billing reconciliation.
+ */
+function generateCSV(records: UsageRecord[]): string {
+  if (records.length === 0) {
+    return "No usage found";
+  }
+
+  const headers = [
+    "Created At",
+    "Operation",
+    "Route",
+    "Provider",
+    "Model",
+    "Input Tokens",
+    "Output Tokens",
+    "Estimated",
+    "Cost (USD)",
+    "Latency (ms)",
+    "Success",
+    "Avatar ID",
+    "Case ID",
+    "Cohort ID",
+    "User",
+  ];
+
+  const rows = records.map((record) => [
+    record.createdAt.toISOString(),
+    record.operation,
+    record.route || "",
+    record.provider,
+    csvField(record.model),
+    record.inputTokens,
+    record.outputTokens,
+    record.estimated ? "Yes" : "No",
+    record.costUsd.toFixed(6),
+    record.latencyMs,
+    record.success ? "Yes" : "No",
+    record.avatarId || "",
+    record.caseId || "",
+    record.cohortId || "",
+    csvField(record.userId),
+  ]);
+
+  return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n");
+}
@@ -6,6 +6,7 @@ import { Button } from "@heroui/button";
 import { Input, Textarea } from "@heroui/input";
 import { Card, CardBody, CardHeader } from "@heroui/card";
 import { Chip } from "@heroui/chip";
+import { Checkbox, CheckboxGroup } from "@heroui/checkbox";
 import { Slider } from "@heroui/slider";
 import { Select, SelectItem } from "@heroui/select";
 import {
@@ -50,6 +51,20 @@ import SpeechPatternUpload from "@/components/speech-pattern-upload";
 import type { SpeechPatternAnalysis } from "@/lib/speech-analysis";
 import ImageUploadCrop from "@/components/ImageUploadCrop";
 import AvatarImage from "@/components/AvatarImage";
+import LLMModelSelect from "@/components/llm-model-select";
+import GuardrailProfileSelect from "@/components/guardrail-profile-select";
+import RetrievalSettingsEditor from "@/components/retrieval-settings-editor";
+import type { LLMModelOverride } from "@/lib/llm/types";
+import type { RetrievalSettingsOverride } from "@/lib/rag/retrieval-settings";
+import { AVATAR_TOOL_CATALOG, type AvatarToolName } from "@/lib/tools/catalog";
+import PromptTemplateEditor from "@/components/prompt-template-editor";
+import {
+  createPromptTemplate,
+  getAvatarPromptTemplate,
+  isSamePromptTemplate,
+  renderPromptTemplate,
+  type PromptTemplate,
+} from "@/lib/prompts/prompt-template";
 
 const DEFAULT_CONFIG: StartAvatarRequest = {
   quality: "low", // High="high", Medium="medium", Low="low"
@@ -112,6 +127,18 @@ export default function AvatarEditPage() {
     }>
   >([]);
   const [useSpeechPatterns, setUseSpeechPatterns] = useState(false);
+  const [llm, setLlm] = useState<LLMModelOverride | undefined>();
+  const [tools, setTools] = useState<AvatarToolName[]>([]);
+  const [retrieval, setRetrieval] = useState<
+    RetrievalSettingsOverride | undefined
+  >();
+  // Empty means the global guardrails apply
+  const [guardrailProfileId, setGuardrailProfileId] = useState("");
+  // Guardrails, knowledge and variables; persona is `systemPrompt` and the
+  // speech pattern comes from the speech analysis state
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(() =>
+    createPromptTemplate()
+  );
 
   // Track original values for change detection
   const [originalValues, setOriginalValues] = useState({
@@ -122,6 +149,11 @@ export default function AvatarEditPage() {
     published: false,
     portrait: "",
     avatarSettings: DEFAULT_CONFIG,
+    llm: undefined as LLMModelOverride | undefined,
+    tools: [] as AvatarToolName[],
+    retrieval: undefined as RetrievalSettingsOverride | undefined,
+    guardrailProfileId: "",
+    promptTemplate: createPromptTemplate(),
   });
 
   // Unsaved changes modal
@@ -164,6 +196,31 @@ export default function AvatarEditPage() {
       .replace(/^-+|-+$/g, ""); // Remove leading/trailing hyphens
   }, [name, isNewAvatar, avatarId]);
 
+  // The template as saved, with persona and speech pattern from their controls
+  const currentPromptTemplate = useMemo<PromptTemplate>(
+    () => ({
+      ...promptTemplate,
+      sections: {
+        ...promptTemplate.sections,
+        persona: { content: systemPrompt, enabled: true },
+        speechPattern: {
+          content: speechPromptAddition,
+          enabled: useSpeechPatterns && !!speechPromptAddition,
+        },
+      },
+    }),
+    [promptTemplate, systemPrompt, speechPromptAddition, useSpeechPatterns]
+  );
+
+  const renderedSystemPrompt = useMemo(
+    () =>
+      renderPromptTemplate(currentPromptTemplate, {
+        avatarName: name,
+        avatarTitle: title,
+      }).prompt,
+    [currentPromptTemplate, name, title]
+  );
+
   // Check if there are actual changes from original values
   const hasUnsavedChanges = useMemo(() => {
     const startersChanged =
@@ -181,6 +238,15 @@ export default function AvatarEditPage() {
       published !== originalValues.published ||
       portrait !== originalValues.portrait ||
       settingsChanged ||
+      JSON.stringify(llm || {}) !== JSON.stringify(originalValues.llm || {}) ||
+      JSON.stringify(tools) !== JSON.stringify(originalValues.tools) ||
+      JSON.stringify(retrieval || {}) !==
+        JSON.stringify(originalValues.retrieval || {}) ||
+      guardrailProfileId !== originalValues.guardrailProfileId ||
+      !isSamePromptTemplate(
+        currentPromptTemplate,
+        originalValues.promptTemplate
+      ) ||
       pendingDocuments.length > 0 ||
       pendingDeletions.length > 0 ||
       speechAnalysis !== null || // Speech analysis data exists
@@ -195,6 +261,11 @@ export default function AvatarEditPage() {
     published,
     portrait,
     avatarSettings,
+    llm,
+    tools,
+    retrieval,
+    guardrailProfileId,
+    currentPromptTemplate,
     originalValues,
     pendingDocuments,
     pendingDeletions,
@@ -277,14 +348,21 @@ export default function AvatarEditPage() {
                 avatar.conversationStarters?.length || 0,
             });
 
+            const template = getAvatarPromptTemplate(avatar);
+
             setExistingAvatar(avatar);
             setName(avatar.name);
             setTitle(avatar.title || "");
-            setSystemPrompt(avatar.systemPrompt);
+            setSystemPrompt(template.sections.persona.content);
+            setPromptTemplate(template);
             setConversationStarters(avatar.conversationStarters || []);
             setPublished(avatar.published || false);
             setPortrait(avatar.portrait || "");
             setAvatarSettings(avatar.settings || DEFAULT_CONFIG);
+            setLlm(avatar.llm);
+            setTools(avatar.tools || []);
+            setRetrieval(avatar.retrieval);
+            setGuardrailProfileId(avatar.guardrailProfileId || "");
 
             // Load speech analysis data if available
             if (avatar.speechAnalysis) {
@@ -297,7 +375,7 @@ export default function AvatarEditPage() {
               setSpeechAnalysis(avatar.speechAnalysis);
               setSpeechPromptAddition(avatar.speechPromptAddition || "");
               setSpeechSourceFiles(avatar.speechSourceFiles || []);
-              setUseSpeechPatterns(true);
+              setUseSpeechPatterns(template.sections.speechPattern.enabled);
             } else {
               console.log("🔍 No speech analysis data found in avatar");
             }
@@ -306,11 +384,16 @@ export default function AvatarEditPage() {
             setOriginalValues({
               name: avatar.name,
               title: avatar.title || "",
-              systemPrompt: avatar.systemPrompt,
+              systemPrompt: template.sections.persona.content,
               conversationStarters: avatar.conversationStarters || [],
               published: avatar.published || false,
               portrait: avatar.portrait || "",
               avatarSettings: avatar.settings || DEFAULT_CONFIG,
+              llm: avatar.llm,
+              tools: avatar.tools || [],
+              retrieval: avatar.retrieval,
+              guardrailProfileId: avatar.guardrailProfileId || "",
+              promptTemplate: template,
             });
           }
         } catch (error) {
@@ -334,6 +417,11 @@ export default function AvatarEditPage() {
             setPublished(draft.published || false);
             setPortrait(draft.portrait || "");
             setAvatarSettings(draft.avatarSettings || DEFAULT_CONFIG);
+            setLlm(draft.llm);
+            setTools(draft.tools || []);
+            setRetrieval(draft.retrieval);
+            setGuardrailProfileId(draft.guardrailProfileId || "");
+            if (draft.promptTemplate) setPromptTemplate(draft.promptTemplate);
 
             // Show toast notification
             addToast({
@@ -369,11 +457,16 @@ export default function AvatarEditPage() {
           await avatarStorage.updateLocal(avatarId, {
             name,
             title,
-            systemPrompt,
+            systemPrompt: renderedSystemPrompt,
+            promptTemplate: currentPromptTemplate,
             conversationStarters,
             published,
             portrait,
             settings: avatarSettings,
+            llm: llm || {},
+            tools,
+            retrieval: retrieval || {},
+            guardrailProfileId,
             lastEditedBy: user?.name || "Unknown User",
             speechAnalysis: speechAnalysis || undefined,
             speechPromptAddition,
@@ -396,6 +489,12 @@ export default function AvatarEditPage() {
     published,
     portrait,
     avatarSettings,
+    llm,
+    tools,
+    retrieval,
+    guardrailProfileId,
+    renderedSystemPrompt,
+    currentPromptTemplate,
     avatarId,
     isNewAvatar,
     existingAvatar,
@@ -432,11 +531,16 @@ export default function AvatarEditPage() {
         const avatarData = {
           name,
           title,
-          systemPrompt,
+          systemPrompt: renderedSystemPrompt,
+          promptTemplate: currentPromptTemplate,
           conversationStarters,
           published,
           portrait,
           settings: avatarSettings,
+          llm,
+          tools,
+          retrieval,
+          guardrailProfileId: guardrailProfileId || undefined,
           createdBy: user?.name || "Unknown User",
           lastEditedBy: user?.name || "Unknown User",
           speechAnalysis: speechAnalysis || undefined,
@@ -462,10 +566,18 @@ export default function AvatarEditPage() {
         // Update existing avatar with all current data including speech analysis
         const updateData = {
           name,
-          systemPrompt,
+          systemPrompt: renderedSystemPrompt,
+          promptTemplate: currentPromptTemplate,
           conversationStarters,
           published,
           settings: avatarSettings,
+          // Empty override (not undefined) so clearing the selection is saved
+          llm: llm || {},
+          tools,
+          // Empty override (not undefined) so resetting to defaults is saved
+          retrieval: retrieval || {},
+          // Empty (not undefined) so returning to the global guardrails is saved
+          guardrailProfileId,
           lastEditedBy: user?.name || "Unknown User",
           speechAnalysis: speechAnalysis || undefined,
           speechPromptAddition,
@@ -536,6 +648,9 @@ export default function AvatarEditPage() {
               formData.append("title", doc.title);
               formData.append("avatarId", isNewAvatar ? generatedId : avatarId);
               formData.append("isShared", "false");
+              if (doc.chunkSize) {
+                formData.append("chunkSize", String(doc.chunkSize));
+              }
 
               const response = await fetch("/api/documents/upload", {
                 method: "POST",
@@ -649,6 +764,9 @@ export default function AvatarEditPage() {
         setPublished(false);
         setPortrait("");
         setAvatarSettings(DEFAULT_CONFIG);
+        setLlm(undefined);
+        setRetrieval(undefined);
+        setPromptTemplate(createPromptTemplate());
         setOriginalValues({
           name: "",
           title: "",
@@ -657,6 +775,11 @@ export default function AvatarEditPage() {
           published: false,
           portrait: "",
           avatarSettings: DEFAULT_CONFIG,
+          llm: undefined,
+          tools: [],
+          retrieval: undefined,
+          guardrailProfileId: "",
+          promptTemplate: createPromptTemplate(),
         });
         localStorage.removeItem(
           siteConfig.localCache.addAvatarDraftLocalStorageKey
@@ -681,21 +804,35 @@ export default function AvatarEditPage() {
         try {
           const remoteAvatar = await avatarStorage.getRemoteVersion(avatarId);
           if (remoteAvatar) {
+            const template = getAvatarPromptTemplate(remoteAvatar);
+
             setName(remoteAvatar.name);
             setTitle(remoteAvatar.title || "");
-            setSystemPrompt(remoteAvatar.systemPrompt);
+            setSystemPrompt(template.sections.persona.content);
+            setPromptTemplate(template);
+            setSpeechPromptAddition(template.sections.speechPattern.content);
+            setUseSpeechPatterns(template.sections.speechPattern.enabled);
             setConversationStarters(remoteAvatar.conversationStarters || []);
             setPublished(remoteAvatar.published || false);
             setPortrait(remoteAvatar.portrait || "");
             setAvatarSettings(remoteAvatar.settings || DEFAULT_CONFIG);
+            setLlm(remoteAvatar.llm);
+            setTools(remoteAvatar.tools || []);
+            setRetrieval(remoteAvatar.retrieval);
+            setGuardrailProfileId(remoteAvatar.guardrailProfileId || "");
             setOriginalValues({
               name: remoteAvatar.name,
               title: remoteAvatar.title || "",
-              systemPrompt: remoteAvatar.systemPrompt,
+              systemPrompt: template.sections.persona.content,
               conversationStarters: remoteAvatar.conversationStarters || [],
               published: remoteAvatar.published || false,
               portrait: remoteAvatar.portrait || "",
               avatarSettings: remoteAvatar.settings || DEFAULT_CONFIG,
+              llm: remoteAvatar.llm,
+              tools: remoteAvatar.tools || [],
+              retrieval: remoteAvatar.retrieval,
+              guardrailProfileId: remoteAvatar.guardrailProfileId || "",
+              promptTemplate: template,
             });
             setExistingAvatar(remoteAvatar);
             setPendingDocuments([]);
@@ -728,6 +865,11 @@ export default function AvatarEditPage() {
           published,
           portrait,
           avatarSettings,
+          llm,
+          tools,
+          retrieval,
+          guardrailProfileId,
+          promptTemplate,
           timestamp: Date.now(),
         };
         localStorage.setItem(
@@ -807,6 +949,7 @@ export default function AvatarEditPage() {
       promptAdditionLength: promptAddition.length,
     });
 
+    // The addition becomes the speech pattern section of the prompt template
     setSpeechAnalysis(analysis);
     setSpeechPromptAddition(promptAddition);
     setUseSpeechPatterns(true);
@@ -820,29 +963,6 @@ export default function AvatarEditPage() {
       }))
     );
 
-    // Actually apply the speech analysis to the system prompt
-    setSystemPrompt((prev) => {
-      console.log("🔍 Updating system prompt:", {
-        previousPrompt: prev,
-        promptAddition,
-        promptAdditionLength: promptAddition.length,
-      });
-
-      const basePrompt = prev.replace(
-        /\n\n## Speech Pattern Enhancement:[\s\S]*$/,
-        ""
-      );
-      const newPrompt = `${basePrompt}\n\n## Speech Pattern Enhancement:\n${promptAddition}`;
-
-      console.log("🔍 New system prompt:", {
-        basePrompt,
-        newPrompt,
-        newPromptLength: newPrompt.length,
-      });
-
-      return newPrompt;
-    });
-
     // Generate conversation starters based on speech patterns
     const generatedStarters =
       generateConversationStartersFromAnalysis(analysis);
@@ -902,13 +1022,19 @@ export default function AvatarEditPage() {
     return starters.slice(0, 3); // Limit to 3 new starters
   };
 
-  // Compute the final system prompt with speech patterns
-  const finalSystemPrompt = useMemo(() => {
-    if (useSpeechPatterns && speechPromptAddition) {
-      return systemPrompt + speechPromptAddition;
-    }
-    return systemPrompt;
-  }, [systemPrompt, speechPromptAddition, useSpeechPatterns]);
+  // Restore a template from the avatar's prompt history into the form
+  const handlePromptVersionRestore = (template: PromptTemplate) => {
+    setSystemPrompt(template.sections.persona.content);
+    setPromptTemplate(template);
+    setSpeechPromptAddition(template.sections.speechPattern.content);
+    setUseSpeechPatterns(template.sections.speechPattern.enabled);
+
+    addToast({
+      title: "Prompt Version Restored",
+      description: `Version ${template.version} is in the form; save to apply it.`,
+      color: "primary",
+    });
+  };
 
   if (isLoading && !isNewAvatar) {
     return (
@@ -1051,10 +1177,10 @@ export default function AvatarEditPage() {
                   </div>
                   <Textarea
                     isRequired
-                    description={`Be specific about the avatar's role, tone, and any special behaviors. This can be very detailed.${speechAnalysis ? " Speech patterns will be automatically appended when enabled." : ""}`}
+                    description={`Be specific about the avatar's role, tone, and any special behaviors. This can be very detailed.${speechAnalysis ? " Speech patterns are added as their own section when enabled." : ""}`}
                     errorMessage={errors.systemPrompt}
                     isInvalid={!!errors.systemPrompt}
-                    label="Base System Prompt"
+                    label="Persona"
                     maxRows={50}
                     minRows={8}
                     placeholder="Describe how this avatar should behave, its personality, expertise, and any specific instructions..."
@@ -1100,6 +1226,16 @@ export default function AvatarEditPage() {
                 )}
               </div>
 
+              {/* Prompt Template */}
+              <PromptTemplateEditor
+                avatarId={isNewAvatar ? undefined : avatarId}
+                avatarName={name}
+                avatarTitle={title}
+                template={currentPromptTemplate}
+                onChange={setPromptTemplate}
+                onRestore={handlePromptVersionRestore}
+              />
+
               {/* Conversation Starters */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -1648,6 +1784,71 @@ export default function AvatarEditPage() {
             </CardBody>
           </Card>
 
+          {/* Language Model */}
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold">Language Model</h3>
+            </CardHeader>
+            <CardBody>
+              <LLMModelSelect
+                description="Overrides the kiosk and preview default"
+                label="Provider"
+                value={llm}
+                onChange={setLlm}
+              />
+            </CardBody>
+          </Card>
+
+          {/* Guardrails */}
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold">Guardrails</h3>
+            </CardHeader>
+            <CardBody>
+              <GuardrailProfileSelect
+                description="Adjusts the global topics and rules for this avatar; profiles are managed in System Settings"
+                label="Guardrail Profile"
+                value={guardrailProfileId}
+                onChange={setGuardrailProfileId}
+              />
+            </CardBody>
+          </Card>
+
+          {/* Knowledge Retrieval */}
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold">Knowledge Retrieval</h3>
+            </CardHeader>
+            <CardBody>
+              <RetrievalSettingsEditor value={retrieval} onChange={setRetrieval} />
+            </CardBody>
+          </Card>
+
+          {/* Tools */}
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold">Tools</h3>
+            </CardHeader>
+            <CardBody>
+              <CheckboxGroup
+                description="Actions the avatar can take on its own while answering"
+                value={tools}
+                onValueChange={(value) => setTools(value as AvatarToolName[])}
+              >
+                {AVATAR_TOOL_CATALOG.map((tool) => (
+                  <Checkbox key={tool.name} value={tool.name}>
+                    <div className="flex flex-col">
+                      <span className="text-sm">{tool.label}</span>
+                      <span className="text-xs text-default-500">
+                        {tool.description}
+                      </span>
+                    </div>
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            </CardBody>
+          </Card>
+
           {/* Metadata */}
           <Card>
             <CardHeader>
@@ -1917,8 +2118,12 @@ export default function AvatarEditPage() {
         avatarName={name || "Avatar"}
         conversationStarters={conversationStarters}
         isOpen={isChatModalOpen}
+        llm={llm}
         messages={chatMessages}
-        systemPrompt={finalSystemPrompt}
+        guardrailProfileId={guardrailProfileId}
+        retrieval={retrieval}
+        tools={tools}
+        systemPrompt={renderedSystemPrompt}
         onClose={closeChatModal}
         onMessagesUpdate={saveChatMessages}
       />
@@ -19,6 +19,9 @@ import { addToast } from "@heroui/toast";
 import { title as pageTitle } from "@/components/primitives";
 import { useAuth } from "@/lib/auth-context";
 import { caseStorage } from "@/lib/case-storage";
+import type { LLMModelOverride } from "@/lib/llm/types";
+import LLMModelSelect from "@/components/llm-model-select";
+import GuardrailProfileSelect from "@/components/guardrail-profile-select";
 import type { CaseStudy, CaseAvatar, VideoAudioProfile } from "@/types";
 
 export default function CaseDetailPage() {
@@ -34,7 +37,13 @@ export default function CaseDetailPage() {
   const [backgroundInfo, setBackgroundInfo] = useState("");
   const [evaluationPrompt, setEvaluationPrompt] = useState("");
   const [avatars, setAvatars] = useState<CaseAvatar[]>([]);
+  const [llm, setLlm] = useState<LLMModelOverride | undefined>();
+  const [evaluationLlm, setEvaluationLlm] = useState<
+    LLMModelOverride | undefined
+  >();
 
+  // Empty means the global guardrails apply
+  const [guardrailProfileId, setGuardrailProfileId] = useState("");
   const [profiles, setProfiles] = useState<VideoAudioProfile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -47,6 +56,8 @@ export default function CaseDetailPage() {
     backgroundInfo: "",
     evaluationPrompt: "",
     avatars: "[]",
+    llm: "{}",
+    guardrailProfileId: "",
   });
 
   const generatedId = useMemo(() => {
@@ -65,9 +76,20 @@ export default function CaseDetailPage() {
       name !== originalValues.name ||
       backgroundInfo !== originalValues.backgroundInfo ||
       evaluationPrompt !== originalValues.evaluationPrompt ||
-      JSON.stringify(avatars) !== originalValues.avatars
+      JSON.stringify(avatars) !== originalValues.avatars ||
+      JSON.stringify({ llm, evaluationLlm }) !== originalValues.llm ||
+      guardrailProfileId !== originalValues.guardrailProfileId
     );
-  }, [name, backgroundInfo, evaluationPrompt, avatars, originalValues]);
+  }, [
+    name,
+    backgroundInfo,
+    evaluationPrompt,
+    avatars,
+    llm,
+    evaluationLlm,
+    guardrailProfileId,
+    originalValues,
+  ]);
 
   useEffect(() => {
     const loadCase = async () => {
@@ -80,11 +102,19 @@ export default function CaseDetailPage() {
             setBackgroundInfo(caseData.backgroundInfo);
             setEvaluationPrompt(caseData.evaluationPrompt || "");
             setAvatars(caseData.avatars);
+            setLlm(caseData.llm);
+            setEvaluationLlm(caseData.evaluationLlm);
+            setGuardrailProfileId(caseData.guardrailProfileId || "");
             setOriginalValues({
               name: caseData.name,
               backgroundInfo: caseData.backgroundInfo,
               evaluationPrompt: caseData.evaluationPrompt || "",
               avatars: JSON.stringify(caseData.avatars),
+              llm: JSON.stringify({
+                llm: caseData.llm,
+                evaluationLlm: caseData.evaluationLlm,
+              }),
+              guardrailProfileId: caseData.guardrailProfileId || "",
             });
           } else {
             setErrors({ load: "Case not found" });
@@ -150,6 +180,9 @@ export default function CaseDetailPage() {
           backgroundInfo,
           evaluationPrompt: evaluationPrompt || undefined,
           avatars,
+          llm,
+          evaluationLlm,
+          guardrailProfileId: guardrailProfileId || undefined,
           cohortIds: [],
           createdBy: userName,
           lastEditedBy: userName,
@@ -166,6 +199,10 @@ export default function CaseDetailPage() {
           backgroundInfo,
           evaluationPrompt: evaluationPrompt || undefined,
           avatars,
+          // Empty overrides (not undefined) so clearing a selection is saved
+          llm: llm || {},
+          evaluationLlm: evaluationLlm || {},
+          guardrailProfileId,
           lastEditedBy: userName,
         });
 
@@ -343,6 +380,27 @@ export default function CaseDetailPage() {
             />
           </div>
 
+          <div className="space-y-3">
+            <LLMModelSelect
+              description="Model that plays the case roles"
+              label="Role Chat Model"
+              value={llm}
+              onChange={setLlm}
+            />
+            <LLMModelSelect
+              description="Model that grades assessed attempts"
+              label="Evaluation Model"
+              value={evaluationLlm}
+              onChange={setEvaluationLlm}
+            />
+            <GuardrailProfileSelect
+              description="Topics and rules for every role; a role can use its own profile"
+              label="Guardrail Profile"
+              value={guardrailProfileId}
+              onChange={setGuardrailProfileId}
+            />
+          </div>
+
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
@@ -424,6 +482,17 @@ export default function CaseDetailPage() {
                       ))}
                     </Select>
 
+                    <GuardrailProfileSelect
+                      inheritLabel="Same as the case"
+                      label="Guardrail Profile"
+                      value={avatar.guardrailProfileId}
+                      onChange={(value) =>
+                        updateAvatar(avatar.id, {
+                          guardrailProfileId: value || undefined,
+                        })
+                      }
+                    />
+
                     <Textarea
                       label="Additional Background Information"
                       maxRows={8}
@@ -21,7 +21,8 @@ import {
 import { addToast } from "@heroui/toast";
 import { title } from "@/components/primitives";
 import { useAuth } from "@/lib/auth-context";
-import type { CaseStudy, CaseAvatar, InteractionLog, RoleMessage, InteractionEvent } from "@/types";
+import { RateLimitError, throwIfRateLimited } from "@/lib/rate-limit/client";
+import type { StudentCaseView, StudentCaseAvatar, InteractionLog, RoleMessage, InteractionEvent } from "@/types";
 
 type PageState = "intro" | "playing";
 
@@ -33,14 +34,14 @@ export default function CasePlayPage() {
   const caseId = params.caseId as string;
   const cohortId = searchParams.get("cohortId") || "";
 
-  const [caseData, setCaseData] = useState<CaseStudy | null>(null);
+  const [caseData, setCaseData] = useState<StudentCaseView | null>(null);
   const [loading, setLoading] = useState(true);
   const [pageState, setPageState] = useState<PageState>("intro");
   const [interactionLog, setInteractionLog] = useState<InteractionLog | null>(null);
   const [mode, setMode] = useState<"explore" | "assessed">("assessed");
 
   // Role interaction state
-  const [selectedRole, setSelectedRole] = useState<CaseAvatar | null>(null);
+  const [selectedRole, setSelectedRole] = useState<StudentCaseAvatar | null>(null);
   const [chatMessages, setChatMessages] = useState<Record<string, RoleMessage[]>>({});
   const [currentInput, setCurrentInput] = useState("");
   const [sending, setSending] = useState(false);
@@ -128,7 +129,7 @@ export default function CasePlayPage() {
     }
   };
 
-  const handleSelectRole = (role: CaseAvatar) => {
+  const handleSelectRole = (role: StudentCaseAvatar) => {
     if (!interactionLog) return;
 
     const now = Date.now();
@@ -207,26 +208,19 @@ export default function CasePlayPage() {
     });
 
     try {
-      // Get the chat history for this role only (continuous within this role)
-      const roleHistory = interactionLog.roleInteractions[roleId].messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      }));
-
+      // The server keeps this role's earlier turns; only the new message is sent
       const res = await fetch("/api/interaction/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          messages: roleHistory,
-          systemPrompt: `Background information about this case study:\n${caseData.backgroundInfo}`,
-          roleContext: {
-            roleName: selectedRole.name,
-            role: selectedRole.role,
-            additionalInfo: selectedRole.additionalInfo,
-          },
+          message: userMessage,
+          caseId,
+          roleId,
+          logId: interactionLog.id,
         }),
       });
 
+      await throwIfRateLimited(res);
       if (!res.ok) throw new Error("Chat failed");
       const data = await res.json();
 
@@ -242,6 +236,11 @@ export default function CasePlayPage() {
       }));
 
       interactionLog.roleInteractions[roleId].messages.push(assistantMsg);
+      // Flagged messages are answered without the model; the server has
+      // already attached the flag to the stored log
+      if (data.flag) {
+        interactionLog.flags = [...(interactionLog.flags || []), data.flag];
+      }
       interactionLog.events.push({
         type: "receive_message",
         roleId,
@@ -254,7 +253,11 @@ export default function CasePlayPage() {
       setInteractionLog({ ...interactionLog });
     } catch (err) {
       console.error("Chat error:", err);
-      addToast({ title: "Failed to get response", color: "danger" });
+      addToast({
+        title: "Failed to get response",
+        description: err instanceof RateLimitError ? err.message : undefined,
+        color: "danger",
+      });
     } finally {
       setSending(false);
     }
@@ -9,6 +9,8 @@ import { Chip } from "@heroui/chip";
 import { ScrollShadow } from "@heroui/scroll-shadow";
 import { User, Bot, ArrowLeft, Trash2, Copy, Check } from "lucide-react";
 import type { ChatSession } from "@/types";
+import SourceCitations from "@/components/source-citations";
+import ToolActivity from "@/components/tool-activity";
 
 // Utility to format timestamps as readable dates
 function formatDate(ts?: number) {
@@ -408,10 +410,22 @@ export default function ChatViewPage() {
                             <span className="text-xs text-gray-500">
                               {formatDate(message.timestamp)}
                             </span>
+                            {message.truncated && (
+                              <Chip size="sm" color="warning" variant="flat">
+                                {message.truncated === "interrupted"
+                                  ? "Interrupted by user"
+                                  : "Cut off"}
+                              </Chip>
+                            )}
                           </div>
+                          <ToolActivity className="mb-2" tools={message.tools} />
                           <div className="text-sm whitespace-pre-wrap leading-relaxed">
                             {message.content}
                           </div>
+                          <SourceCitations
+                            className="mt-2"
+                            sources={message.sources}
+                          />
                         </div>
                       </div>
                     ))}
@@ -17,10 +17,12 @@ import {
   Trophy,
   TrendingUp,
   ChevronRight,
+  ShieldAlert,
 } from "lucide-react";
 import { cohortStorage } from "@/lib/cohort-storage";
 import { title } from "@/components/primitives";
 import type { CachedCohort } from "@/types/cohort";
+import type { InteractionFlag } from "@/types";
 
 interface AttemptData {
   attemptNumber: number;
@@ -338,6 +340,36 @@ function CaseDetailView({ data, studentEmail }: { data: CaseDetailData; studentE
 
       {selectedAttemptLog && !loadingLog && (
         <>
+          {/* Messages flagged during role chats */}
+          {selectedAttemptLog.flags?.length > 0 && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <ShieldAlert size={20} className="text-danger" />
+                  <h3 className="font-semibold">Flagged Messages</h3>
+                  <Chip size="sm" color="danger" variant="flat">
+                    {selectedAttemptLog.flags.length}
+                  </Chip>
+                </div>
+              </CardHeader>
+              <CardBody className="pt-0 space-y-2">
+                {selectedAttemptLog.flags.map((flag: InteractionFlag) => (
+                  <div key={flag.id} className="text-sm border rounded-lg p-3 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Chip size="sm" color={flag.type === "prompt_injection" ? "danger" : "warning"} variant="flat">
+                        {flag.type === "prompt_injection" ? "Prompt injection attempt" : "Blocked topic"}
+                      </Chip>
+                      <span className="text-default-500">
+                        To {flag.roleName} at {new Date(flag.timestamp).toLocaleTimeString()} ({flag.rule})
+                      </span>
+                    </div>
+                    <p className="text-default-700">{flag.messageContent}</p>
+                  </div>
+                ))}
+              </CardBody>
+            </Card>
+          )}
+
           {/* Eval Result */}
           {selectedAttemptLog.evalResult && (
             <Card className="md:col-span-2">
@@ -24,6 +24,7 @@ import {
   CheckCircle
 } from "lucide-react";
 import { title } from "@/components/primitives";
+import ConfigHistory from "@/components/config-history";
 import type { CTAConfig } from "@/types";
 
 export default function CTAConfigurationPage() {
@@ -415,6 +416,9 @@ export default function CTAConfigurationPage() {
         </div>
       </div>
 
+      {/* Saved versions, with rollback */}
+      <ConfigHistory configs={["cta"]} onRestored={loadConfiguration} />
+
       {/* Save Reminder */}
       {hasChanges && (
         <div className="fixed bottom-4 right-4 p-4 bg-warning-50 border border-warning-200 rounded-lg shadow-lg">
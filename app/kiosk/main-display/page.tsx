@@ -97,6 +97,7 @@ export default function MainDisplay() {
   const [loadingProgress, setLoadingProgress] = useState<number>(0);
   const [loadingMessage, setLoadingMessage] = useState<string>("");
   const [isAIResponding, setIsAIResponding] = useState<boolean>(false);
+  const [toolStatus, setToolStatus] = useState<string>("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const avatarRef = useRef<InteractiveAvatarRef>(null);
   const pendingSpeechRef = useRef<string | null>(null);
@@ -233,6 +234,9 @@ export default function MainDisplay() {
       if (aiResponding !== null) {
         setIsAIResponding(aiResponding === "true");
       }
+
+      // Status of a tool the avatar is running, shown in place of "Thinking..."
+      setToolStatus(localStorage.getItem("kioskToolStatus") || "");
     };
 
     // Only initialize clean state if we're actually starting fresh
@@ -351,7 +355,10 @@ export default function MainDisplay() {
           <AnimatedBackground />
           <WeatherheadLogo className="h-24 w-auto object-contain" />
           <XLabLogo className="h-20 w-auto object-contain" bottom="bottom-8" />
-          <ThinkingIndicator isVisible={isAIResponding} />
+          <ThinkingIndicator
+            isVisible={isAIResponding}
+            message={toolStatus || undefined}
+          />
 
           {/* Main Content - Absolutely no scroll, responsive layout */}
           <div className="absolute inset-0 flex flex-col items-center justify-center p-4 z-10">
@@ -463,7 +470,10 @@ export default function MainDisplay() {
         <div className="absolute inset-0 w-full h-full overflow-hidden bg-black">
           <WeatherheadLogo className="h-24 w-auto object-contain" />
           <XLabLogo className="h-20 w-auto object-contain" bottom="bottom-8" />
-          <ThinkingIndicator isVisible={isAIResponding} />
+          <ThinkingIndicator
+            isVisible={isAIResponding}
+            message={toolStatus || undefined}
+          />
 
           {/* Clean Mode Avatar - Full Screen (loads when avatar is selected) */}
           {(() => {
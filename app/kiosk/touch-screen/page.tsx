@@ -50,6 +50,18 @@ import {
 } from "@/components/kiosk";
 import { ScrollShadow } from "@heroui/scroll-shadow";
 import { chatStorage } from "@/lib/chat-storage";
+import { readLLMStream, upsertToolActivity } from "@/lib/llm/stream-client";
+import {
+  type LLMAbortReason,
+  type LLMSourceCitation,
+  type LLMToolActivity,
+} from "@/lib/llm/stream-protocol";
+import {
+  KIOSK_DEVICE_HEADER,
+  RateLimitError,
+  getKioskDeviceId,
+  throwIfRateLimited,
+} from "@/lib/rate-limit/client";
 import { type ConversationStarter, type ChatMessage } from "@/types";
 
 type KioskState = "grid" | "selected" | "chatting";
@@ -81,6 +93,15 @@ export default function TouchScreen() {
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [isAIResponding, setIsAIResponding] = useState(false);
   const [recordingStatus, setRecordingStatus] = useState<string>("");
+  const [rateLimitNotice, setRateLimitNotice] = useState<string>("");
+  // Tool calls made by the avatar: what it is doing right now, another
+  // avatar it suggested and whether it pointed the visitor at the QR code
+  const [toolStatus, setToolStatus] = useState<string>("");
+  const [recommendedAvatar, setRecommendedAvatar] = useState<{
+    avatar: CachedAvatar;
+    reason?: string;
+  } | null>(null);
+  const [highlightQRCode, setHighlightQRCode] = useState(false);
   const [showChatHistory, setShowChatHistory] = useState(false);
 
   // Avatar loading states (synced from main display)
@@ -94,6 +115,11 @@ export default function TouchScreen() {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
 
+  // Stream id of the reply being generated, so an interrupt can stop it
+  const activeStreamIdRef = useRef<string | null>(null);
+  // Cancels the request of the reply being generated
+  const generationAbortRef = useRef<AbortController | null>(null);
+
   // Timeout management for auto-return to grid
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const warningTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -166,6 +192,7 @@ export default function TouchScreen() {
     localStorage.removeItem("kioskShowChat");
     localStorage.removeItem("kioskAIResponseToSpeak");
     localStorage.removeItem("kioskIsAIResponding");
+    localStorage.removeItem("kioskToolStatus");
     localStorage.setItem("kioskState", "grid");
     setShowChatHistory(false);
     // Notify main display of state change
@@ -424,6 +451,8 @@ export default function TouchScreen() {
 
     // Clear any existing chat when selecting a new avatar
     setChatMessages([]);
+    setRecommendedAvatar(null);
+    setHighlightQRCode(false);
     setSelectedAvatar(avatar);
     setState("selected");
 
@@ -503,9 +532,49 @@ export default function TouchScreen() {
     }
   };
 
+  // Tell the visitor why nothing happened; the notice clears itself
+  const showRateLimitNotice = (error: RateLimitError) => {
+    setRateLimitNotice(error.message);
+    setTimeout(
+      () => setRateLimitNotice(""),
+      Math.min(error.retryAfter, 30) * 1000
+    );
+  };
+
+  // Status line while a tool runs; the main display shows it too
+  const updateToolStatus = (status: string) => {
+    setToolStatus(status);
+    if (status) {
+      localStorage.setItem("kioskToolStatus", status);
+    } else {
+      localStorage.removeItem("kioskToolStatus");
+    }
+    window.dispatchEvent(new Event("storage"));
+  };
+
+  // Carry out what a finished tool call asks the kiosk to show
+  const handleToolActivity = (tool: LLMToolActivity) => {
+    updateToolStatus(tool.status === "running" ? tool.label : "");
+
+    if (tool.display?.type === "recommend-avatar") {
+      const { avatarId, reason } = tool.display;
+      const match = avatars.find((candidate) => candidate.id === avatarId);
+
+      if (match) setRecommendedAvatar({ avatar: match, reason });
+    } else if (tool.display?.type === "show-cta-qr") {
+      setHighlightQRCode(true);
+      setTimeout(() => setHighlightQRCode(false), 20 * 1000);
+    }
+  };
+
   const sendToAI = async (messages: ChatMessage[], avatar: CachedAvatar) => {
+    const generation = new AbortController();
+
+    generationAbortRef.current = generation;
+
     try {
       setIsAIResponding(true);
+      setRecommendedAvatar(null);
 
       // Sync AI responding state to localStorage for main display
       localStorage.setItem("kioskIsAIResponding", "true");
@@ -515,6 +584,7 @@ export default function TouchScreen() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          [KIOSK_DEVICE_HEADER]: getKioskDeviceId(),
         },
         body: JSON.stringify({
           messages: messages.map((msg) => ({
@@ -522,70 +592,83 @@ export default function TouchScreen() {
             content: msg.content,
           })),
           avatarId: avatar.id,
-          systemPrompt: avatar.systemPrompt,
+          protocol: 2, // Delta stream that can resume after a dropped connection
+          chatSessionId: chatStorage.getActiveSession()?.sessionId,
         }),
+        signal: generation.signal,
       });
 
+      await throwIfRateLimited(response);
       if (!response.ok)
         throw new Error(`HTTP error! status: ${response.status}`);
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      if (!reader) throw new Error("No reader available");
-
-      let buffer = "";
-      let assistantContent = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      const ending: {
+        abortReason?: LLMAbortReason;
+        sources?: LLMSourceCitation[];
+        tools?: LLMToolActivity[];
+      } = {};
+      const assistantContent = await readLLMStream(
+        response,
+        {
+          onStart: (event) => {
+            activeStreamIdRef.current = event.streamId;
+          },
+          onSources: (sources) => {
+            ending.sources = sources;
+          },
+          onTool: (tool) => {
+            ending.tools = upsertToolActivity(ending.tools || [], tool);
+            handleToolActivity(tool);
+          },
+          onDelta: (_delta, content) => {
+            // Update streaming content on main display
+            localStorage.setItem("kioskStreamingContent", content);
+            window.dispatchEvent(new Event("storage"));
+          },
+          onEnd: (event) => {
+            ending.abortReason = event.metadata?.abortReason;
+          },
+        },
+        { signal: generation.signal },
+      );
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+      const assistantMessage: ChatMessage = {
+        role: "assistant",
+        // Interrupted before any text arrived; sessions need non-empty content
+        content: assistantContent || "(interrupted)",
+        timestamp: Date.now(),
+        truncated: ending.abortReason, // Recorded so the session shows the reply was cut short
+        sources: ending.sources,
+        tools: ending.tools, // Logged with the session
+      };
+      const updatedMessages = [...messages, assistantMessage];
+      setChatMessages(updatedMessages);
+      updateMainDisplay(updatedMessages, avatar);
+      // Add assistant message to chat storage
+      addMessageToSession(assistantMessage);
+      localStorage.removeItem("kioskStreamingContent");
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              if (data.type === "content") {
-                assistantContent = data.content;
-                // Update streaming content on main display
-                localStorage.setItem("kioskStreamingContent", assistantContent);
-                window.dispatchEvent(new Event("storage"));
-              } else if (data.type === "end") {
-                const assistantMessage: ChatMessage = {
-                  role: "assistant",
-                  content: assistantContent,
-                  timestamp: Date.now(),
-                };
-                const updatedMessages = [...messages, assistantMessage];
-                setChatMessages(updatedMessages);
-                updateMainDisplay(updatedMessages, avatar);
-                // Add assistant message to chat storage
-                addMessageToSession(assistantMessage);
-                localStorage.removeItem("kioskStreamingContent");
-
-                // Trigger avatar to speak the response
-                localStorage.setItem(
-                  "kioskAIResponseToSpeak",
-                  assistantContent
-                );
-
-                window.dispatchEvent(new Event("storage"));
-                break;
-              }
-            } catch (parseError) {
-              console.error("Error parsing AI response:", parseError);
-            }
-          }
-        }
+      // Trigger avatar to speak the response, unless the user interrupted it
+      if (!ending.abortReason) {
+        localStorage.setItem("kioskAIResponseToSpeak", assistantContent);
       }
+
+      window.dispatchEvent(new Event("storage"));
     } catch (error) {
+      // Stopped because the visitor left the chat; nothing to show
+      if (generation.signal.aborted) return;
+
       console.error("AI response error:", error);
+      if (error instanceof RateLimitError) showRateLimitNotice(error);
     } finally {
+      if (generationAbortRef.current === generation) {
+        generationAbortRef.current = null;
+      }
+
       // Always reset the AI responding state
+      activeStreamIdRef.current = null;
       setIsAIResponding(false);
+      updateToolStatus("");
 
       // Sync AI responding state to localStorage for main display
       localStorage.setItem("kioskIsAIResponding", "false");
@@ -670,12 +753,15 @@ export default function TouchScreen() {
       });
       const formData = new FormData();
       formData.append("audio", audioBlob, "recording.webm");
+      if (selectedAvatar) formData.append("avatarId", selectedAvatar.id);
 
       const response = await fetch("/api/audio/transcribe", {
         method: "POST",
+        headers: { [KIOSK_DEVICE_HEADER]: getKioskDeviceId() },
         body: formData,
       });
 
+      await throwIfRateLimited(response);
       if (!response.ok)
         throw new Error(`HTTP error! status: ${response.status}`);
 
@@ -764,16 +850,38 @@ export default function TouchScreen() {
     } catch (error) {
       console.error("Error processing recording:", error);
       setRecordingStatus("Failed to transcribe audio");
+      if (error instanceof RateLimitError) showRateLimitNotice(error);
     } finally {
       setIsTranscribing(false);
     }
   };
 
+  // Stop the reply still being generated, on the server as well: it keeps
+  // generating for a resume after the request is cancelled
+  const stopGeneration = () => {
+    const generation = generationAbortRef.current;
+
+    if (!generation) return;
+
+    generation.abort();
+    fetch("/api/avatar/interrupt", {
+      method: "POST",
+      body: JSON.stringify({
+        stream_id: activeStreamIdRef.current || undefined,
+        chat_session_id: chatStorage.getActiveSession()?.sessionId,
+      }),
+    }).catch((error) => console.error("Failed to stop the reply:", error));
+  };
+
   const handleBack = async (targetState?: "grid" | "selected") => {
     // Reset timeout on user interaction
     resetTimeout();
 
     if (state === "chatting") {
+      // Leaving the chat, e.g. on the inactivity timeout, drops the reply
+      // it was waiting for
+      stopGeneration();
+
       // End current session when leaving chat
       await endCurrentSession();
 
@@ -824,7 +932,10 @@ export default function TouchScreen() {
     // Reset timeout on user interaction
     resetTimeout();
 
-    if (!isAIResponding && !isTranscribing) {
+    if (isAIResponding) {
+      // Pressing while a reply is still generating stops it instead
+      interruptAvatar();
+    } else if (!isTranscribing) {
       interruptAvatar();
       startRecording();
     }
@@ -841,7 +952,10 @@ export default function TouchScreen() {
     // Reset timeout on user interaction
     resetTimeout();
 
-    if (!isAIResponding && !isTranscribing) {
+    if (isAIResponding) {
+      // Pressing while a reply is still generating stops it instead
+      interruptAvatar();
+    } else if (!isTranscribing) {
       interruptAvatar();
       startRecording();
     }
@@ -856,10 +970,15 @@ export default function TouchScreen() {
 
   const interruptAvatar = async () => {
     const sessionId = localStorage.getItem("kioskHeygenSessionId");
-    if (sessionId) {
+    const streamId = activeStreamIdRef.current;
+    if (sessionId || streamId) {
+      // Stops both the avatar's speech and the reply still being generated
       await fetch("/api/avatar/interrupt", {
         method: "POST",
-        body: JSON.stringify({ session_id: sessionId }),
+        body: JSON.stringify({
+          session_id: sessionId || undefined,
+          stream_id: streamId || undefined,
+        }),
       });
     }
   };
@@ -1230,6 +1349,7 @@ export default function TouchScreen() {
               selectedAvatar={selectedAvatar}
               sessionId={currentSessionId}
               className="w-72"
+              highlighted={highlightQRCode}
             />
           </div>
 
@@ -1397,7 +1517,7 @@ export default function TouchScreen() {
                 }`}
                 isIconOnly
                 size="lg"
-                isDisabled={isAIResponding || isTranscribing}
+                isDisabled={isTranscribing}
                 onMouseDown={handleMouseDown}
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseUp}
@@ -1415,8 +1535,45 @@ export default function TouchScreen() {
                 )}
               </Button>
               <p className="text-4xl font-medium text-gray-800">
-                <strong>Hold</strong> to talk
+                {isAIResponding ? (
+                  <>
+                    <strong>Tap</strong> to stop
+                  </>
+                ) : (
+                  <>
+                    <strong>Hold</strong> to talk
+                  </>
+                )}
               </p>
+              {rateLimitNotice && (
+                <p className="text-xl text-red-600 text-center max-w-md">
+                  {rateLimitNotice}
+                </p>
+              )}
+              {toolStatus && (
+                <p className="text-xl text-gray-600 text-center max-w-md animate-pulse">
+                  {toolStatus}
+                </p>
+              )}
+              {recommendedAvatar && !isAIResponding && (
+                <div className="flex flex-col items-center gap-2 max-w-md">
+                  {recommendedAvatar.reason && (
+                    <p className="text-lg text-gray-600 text-center">
+                      {recommendedAvatar.reason}
+                    </p>
+                  )}
+                  <Button
+                    color="primary"
+                    size="lg"
+                    variant="flat"
+                    onPress={() =>
+                      handleAvatarSelect(recommendedAvatar.avatar)
+                    }
+                  >
+                    Talk to {recommendedAvatar.avatar.name}
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </div>
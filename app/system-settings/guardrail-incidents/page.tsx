@@ -0,0 +1,392 @@
+"use client";
+
+import type { GuardrailIntervention } from "@prisma/client";
+import type {
+  GuardrailReviewStatus,
+  GuardrailRuleStats,
+} from "@/lib/guardrail-incidents";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Spinner } from "@heroui/spinner";
+import { addToast } from "@heroui/toast";
+import { ArrowLeft, Check, ExternalLink, RotateCcw, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+import { title } from "@/components/primitives";
+import { useAuth } from "@/lib/auth-context";
+
+// Dates arrive as ISO strings
+type Incident = Omit<GuardrailIntervention, "createdAt" | "reviewedAt"> & {
+  createdAt: string;
+  reviewedAt: string | null;
+};
+
+// Sentinel key for "no filter" since Select keys cannot be empty
+const ALL_KEY = "all";
+
+const STATUS_LABELS: Record<GuardrailReviewStatus, string> = {
+  pending: "Pending review",
+  confirmed: "Confirmed",
+  false_positive: "False positive",
+};
+
+const STATUS_COLORS = {
+  pending: "warning",
+  confirmed: "success",
+  false_positive: "danger",
+} as const;
+
+const CHECK_LABELS: Record<string, string> = {
+  blockedTopics: "Blocked topic",
+  mentalHealthTopics: "Mental health",
+  pii: "Personal information",
+  realPeople: "Claim about a person",
+  promptLeakage: "Prompt leakage",
+  promptInjection: "Prompt injection",
+};
+
+// Only topic rules can be removed from the topic lists from here
+function isTopicRule(incident: Incident): boolean {
+  return (
+    incident.check === "blockedTopics" ||
+    (incident.stage === "input" && incident.check === "mentalHealthTopics")
+  );
+}
+
+// Admin review queue for blocked messages, redirections and withheld replies
+export default function GuardrailIncidentsPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [status, setStatus] = useState<string>("pending");
+  const [stage, setStage] = useState<string>(ALL_KEY);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [rules, setRules] = useState<GuardrailRuleStats[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadIncidents = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams();
+
+      if (status !== ALL_KEY) params.set("status", status);
+      if (stage !== ALL_KEY) params.set("stage", stage);
+
+      const response = await fetch(`/api/guardrails/incidents?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Failed to load");
+
+      setIncidents(data.incidents);
+      setRules(data.rules);
+    } catch (error) {
+      addToast({
+        title: "Failed to Load Incidents",
+        description: error instanceof Error ? error.message : "Load failed",
+        color: "danger",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, stage]);
+
+  useEffect(() => {
+    loadIncidents();
+  }, [loadIncidents]);
+
+  const review = async (
+    incident: Incident,
+    reviewStatus: GuardrailReviewStatus,
+    removeRule = false
+  ) => {
+    setReviewingId(incident.id);
+
+    try {
+      const response = await fetch("/api/guardrails/incidents", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: incident.id,
+          status: reviewStatus,
+          note: notes[incident.id] ?? incident.reviewNote ?? undefined,
+          reviewedBy: user?.name || "Unknown Admin",
+          removeRule,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Review failed");
+
+      if (removeRule) {
+        addToast({
+          title: data.ruleRemoved ? "Topic Removed" : "Topic Not Removed",
+          description: data.ruleRemoved
+            ? `"${incident.rule}" is no longer matched (within 5 minutes)`
+            : `"${incident.rule}" is not in a global list; check the guardrail profile`,
+          color: data.ruleRemoved ? "success" : "warning",
+        });
+      }
+
+      await loadIncidents();
+    } catch (error) {
+      addToast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : "Review failed",
+        color: "danger",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6 text-left">
+      <div className="flex items-center gap-3">
+        <Button
+          isIconOnly
+          aria-label="Back to system settings"
+          variant="light"
+          onPress={() => router.push("/system-settings")}
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className={title({ size: "sm" })}>Guardrail Incidents</h1>
+          <p className="text-default-600">
+            Blocked messages, mental health redirections and withheld reply
+            sentences. Mark false positives to find rules that block too much.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          disallowEmptySelection
+          label="Review status"
+          selectedKeys={[status]}
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0];
+
+            if (key) setStatus(String(key));
+          }}
+        >
+          {[
+            <SelectItem key={ALL_KEY}>All</SelectItem>,
+            ...Object.entries(STATUS_LABELS).map(([key, label]) => (
+              <SelectItem key={key}>{label}</SelectItem>
+            )),
+          ]}
+        </Select>
+        <Select
+          disallowEmptySelection
+          label="Stage"
+          selectedKeys={[stage]}
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0];
+
+            if (key) setStage(String(key));
+          }}
+        >
+          <SelectItem key={ALL_KEY}>Messages and replies</SelectItem>
+          <SelectItem key="input">Visitor messages</SelectItem>
+          <SelectItem key="output">Model replies</SelectItem>
+        </Select>
+      </div>
+
+      {/* Rules ranked by false positives */}
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold">Rules</h3>
+        </CardHeader>
+        <CardBody>
+          {rules.length === 0 ? (
+            <p className="text-sm text-default-500">No incidents recorded.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border text-sm">
+                <thead>
+                  <tr className="bg-gray-100 dark:bg-gray-800">
+                    <th className="p-2 border">Rule</th>
+                    <th className="p-2 border">Check</th>
+                    <th className="p-2 border">Language</th>
+                    <th className="p-2 border">Incidents</th>
+                    <th className="p-2 border">False positives</th>
+                    <th className="p-2 border">Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.slice(0, 20).map((rule) => {
+                    const reviewed = rule.incidents - rule.pending;
+
+                    return (
+                      <tr key={`${rule.check}:${rule.rule}:${rule.language}`}>
+                        <td className="p-2 border">{rule.rule}</td>
+                        <td className="p-2 border">
+                          {CHECK_LABELS[rule.check] || rule.check}
+                        </td>
+                        <td className="p-2 border">{rule.language || "-"}</td>
+                        <td className="p-2 border text-center">
+                          {rule.incidents}
+                        </td>
+                        <td className="p-2 border text-center">
+                          {rule.falsePositives}
+                          {reviewed > 0 &&
+                            ` (${Math.round((rule.falsePositives / reviewed) * 100)}% of reviewed)`}
+                        </td>
+                        <td className="p-2 border text-center">
+                          {rule.pending}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : incidents.length === 0 ? (
+        <p className="text-center text-default-500 py-8">
+          No incidents match these filters.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {incidents.map((incident) => (
+            <Card key={incident.id}>
+              <CardBody className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Chip
+                    color={STATUS_COLORS[incident.reviewStatus as GuardrailReviewStatus]}
+                    size="sm"
+                    variant="flat"
+                  >
+                    {STATUS_LABELS[incident.reviewStatus as GuardrailReviewStatus] ||
+                      incident.reviewStatus}
+                  </Chip>
+                  <Chip size="sm" variant="flat">
+                    {incident.stage === "input" ? "Visitor message" : "Model reply"}
+                  </Chip>
+                  <Chip size="sm" variant="flat">
+                    {CHECK_LABELS[incident.check] || incident.check}:{" "}
+                    {incident.rule}
+                    {incident.language && incident.language !== "en"
+                      ? ` (${incident.language})`
+                      : ""}
+                  </Chip>
+                  <span className="text-xs text-default-500">
+                    {incident.action}
+                    {incident.method === "semantic" &&
+                      ` · by meaning, ${incident.similarity?.toFixed(2)}`}
+                    {" · "}
+                    {new Date(incident.createdAt).toLocaleString()}
+                  </span>
+                </div>
+
+                <p className="text-sm whitespace-pre-wrap">{incident.content}</p>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-default-500">
+                  {incident.avatarId && <span>Avatar: {incident.avatarId}</span>}
+                  {incident.route && <span>Route: {incident.route}</span>}
+                  {incident.profileId && (
+                    <span>Profile: {incident.profileId}</span>
+                  )}
+                  {incident.userId && <span>User: {incident.userId}</span>}
+                  {incident.chatSessionId && (
+                    <a
+                      className="inline-flex items-center gap-1 text-primary"
+                      href={`/chat/view/${incident.chatSessionId}`}
+                      rel="noreferrer"
+                      target="_blank"
+                    >
+                      Session <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                  {incident.reviewedBy && (
+                    <span>
+                      Reviewed by {incident.reviewedBy}
+                      {incident.reviewedAt &&
+                        ` on ${new Date(incident.reviewedAt).toLocaleString()}`}
+                    </span>
+                  )}
+                </div>
+
+                <Input
+                  placeholder="Note for rule tuning (optional)"
+                  size="sm"
+                  value={notes[incident.id] ?? incident.reviewNote ?? ""}
+                  onValueChange={(value) =>
+                    setNotes((current) => ({ ...current, [incident.id]: value }))
+                  }
+                />
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  {incident.reviewStatus !== "pending" && (
+                    <Button
+                      isDisabled={reviewingId === incident.id}
+                      size="sm"
+                      startContent={<RotateCcw className="w-4 h-4" />}
+                      variant="light"
+                      onPress={() => review(incident, "pending")}
+                    >
+                      Back to pending
+                    </Button>
+                  )}
+                  <Button
+                    color="success"
+                    isDisabled={reviewingId === incident.id}
+                    size="sm"
+                    startContent={<Check className="w-4 h-4" />}
+                    variant="flat"
+                    onPress={() => review(incident, "confirmed")}
+                  >
+                    Correct
+                  </Button>
+                  <Button
+                    color="danger"
+                    isDisabled={reviewingId === incident.id}
+                    size="sm"
+                    startContent={<X className="w-4 h-4" />}
+                    variant="flat"
+                    onPress={() => review(incident, "false_positive")}
+                  >
+                    False positive
+                  </Button>
+                  {isTopicRule(incident) && (
+                    <Button
+                      color="danger"
+                      isDisabled={reviewingId === incident.id}
+                      size="sm"
+                      onPress={() => {
+                        if (
+                          confirm(
+                            `Remove "${incident.rule}" from the global topic list?`
+                          )
+                        ) {
+                          review(incident, "false_positive", true);
+                        }
+                      }}
+                    >
+                      False positive, remove topic
+                    </Button>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,13 +5,21 @@ import { Divider } from "@heroui/divider";
 import { Button } from "@heroui/button";
 import { Input, Textarea } from "@heroui/input";
 import { Chip } from "@heroui/chip";
+import { Link } from "@heroui/link";
 import { addToast } from "@heroui/toast";
 import { Plus, X, Shield, MessageSquare, Heart } from "lucide-react";
 
 import { title } from "@/components/primitives";
+import ConfigHistory from "@/components/config-history";
 import DocumentUpload, { type PendingDocument, type ProcessingDocument } from "@/components/document-upload";
+import EventsFeedEditor from "@/components/events-feed-editor";
+import GuardrailProfilesEditor from "@/components/guardrail-profiles-editor";
+import GuardrailsTestSuite from "@/components/guardrails-test-suite";
+import LocalizedTopicsEditor from "@/components/localized-topics-editor";
+import OutputModerationEditor from "@/components/output-moderation-editor";
 import { useAuth } from "@/lib/auth-context";
 import { DEFAULT_GUARDRAILS_CONFIG } from "@/lib/guardrails-storage";
+import type { SystemConfigName } from "@/lib/config-revisions";
 
 export default function SystemSettingsPage() {
   const documentUploadRef = useRef<any>(null);
@@ -24,6 +32,11 @@ export default function SystemSettingsPage() {
   const [mentalHealthTopics, setMentalHealthTopics] = useState<string[]>(DEFAULT_GUARDRAILS_CONFIG.mentalHealthTopics);
   const [blockedResponses, setBlockedResponses] = useState<string[]>(DEFAULT_GUARDRAILS_CONFIG.blockedResponses);
   const [mentalHealthResources, setMentalHealthResources] = useState(DEFAULT_GUARDRAILS_CONFIG.mentalHealthResources);
+  // Topic lists as last saved; edits are only saved after the test suite runs
+  const [savedTopics, setSavedTopics] = useState({
+    blockedTopics: DEFAULT_GUARDRAILS_CONFIG.blockedTopics,
+    mentalHealthTopics: DEFAULT_GUARDRAILS_CONFIG.mentalHealthTopics,
+  });
   const [newTopic, setNewTopic] = useState("");
   const [newMentalHealthTopic, setNewMentalHealthTopic] = useState("");
   const [newResponse, setNewResponse] = useState("");
@@ -31,6 +44,8 @@ export default function SystemSettingsPage() {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const autosaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped after a rollback so the editors below reload what is now saved
+  const [restoreCount, setRestoreCount] = useState(0);
 
   // Cleanup function to cancel all active polling
   const cleanupPolling = useCallback(() => {
@@ -178,8 +193,13 @@ export default function SystemSettingsPage() {
       const response = await fetch("/api/guardrails");
       if (response.ok) {
         const config = await response.json();
-        setBlockedTopics(config.blockedTopics || DEFAULT_GUARDRAILS_CONFIG.blockedTopics);
-        setMentalHealthTopics(config.mentalHealthTopics || DEFAULT_GUARDRAILS_CONFIG.mentalHealthTopics);
+        const topics = {
+          blockedTopics: config.blockedTopics || DEFAULT_GUARDRAILS_CONFIG.blockedTopics,
+          mentalHealthTopics: config.mentalHealthTopics || DEFAULT_GUARDRAILS_CONFIG.mentalHealthTopics,
+        };
+        setBlockedTopics(topics.blockedTopics);
+        setMentalHealthTopics(topics.mentalHealthTopics);
+        setSavedTopics(topics);
         setBlockedResponses(config.blockedResponses || DEFAULT_GUARDRAILS_CONFIG.blockedResponses);
         setMentalHealthResources(config.mentalHealthResources || DEFAULT_GUARDRAILS_CONFIG.mentalHealthResources);
       }
@@ -196,7 +216,54 @@ export default function SystemSettingsPage() {
   };
 
 
-  // Autosave function with debouncing
+  const hasTopicChanges =
+    JSON.stringify(blockedTopics) !== JSON.stringify(savedTopics.blockedTopics) ||
+    JSON.stringify(mentalHealthTopics) !== JSON.stringify(savedTopics.mentalHealthTopics);
+
+  // Save the topic lists once the test suite has shown what they change
+  const saveTopics = async () => {
+    try {
+      const response = await fetch("/api/guardrails", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          blockedTopics,
+          mentalHealthTopics,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+
+      if (!response.ok) throw new Error("Save failed");
+
+      setSavedTopics({ blockedTopics, mentalHealthTopics });
+      addToast({
+        title: "Topics Saved",
+        description: "Messages are checked with the new topic lists",
+        color: "success",
+      });
+    } catch (error) {
+      console.error("Failed to save topics:", error);
+      addToast({
+        title: "Save Failed",
+        description: "Failed to save the topic lists",
+        color: "danger",
+      });
+    }
+  };
+
+  const discardTopicChanges = () => {
+    setBlockedTopics(savedTopics.blockedTopics);
+    setMentalHealthTopics(savedTopics.mentalHealthTopics);
+  };
+
+  const handleConfigRestored = (config: SystemConfigName) => {
+    if (config === "guardrails") loadGuardrails();
+    setRestoreCount((count) => count + 1);
+  };
+
+  // Autosave function with debouncing (topic lists are saved by the test suite)
   const triggerAutosave = useCallback(() => {
     // Clear existing timeout
     if (autosaveTimeoutRef.current) {
@@ -219,8 +286,6 @@ export default function SystemSettingsPage() {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            blockedTopics,
-            mentalHealthTopics,
             blockedResponses,
             mentalHealthResources,
             updatedBy: user?.name || "Unknown Admin",
@@ -242,14 +307,14 @@ export default function SystemSettingsPage() {
         setTimeout(() => setSaveStatus('idle'), 3000);
       }
     }, 2000);
-  }, [blockedTopics, mentalHealthTopics, blockedResponses, mentalHealthResources, user?.name]);
+  }, [blockedResponses, mentalHealthResources, user?.name]);
 
   // Trigger autosave when data changes
   useEffect(() => {
     if (!isLoading) {
       triggerAutosave();
     }
-  }, [blockedTopics, mentalHealthTopics, blockedResponses, mentalHealthResources, triggerAutosave, isLoading]);
+  }, [blockedResponses, mentalHealthResources, triggerAutosave, isLoading]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -298,6 +363,9 @@ export default function SystemSettingsPage() {
                 formData.append("file", document.file);
                 formData.append("title", document.title);
                 formData.append("isShared", "true");
+                if (document.chunkSize) {
+                  formData.append("chunkSize", String(document.chunkSize));
+                }
 
                 const response = await fetch("/api/documents/upload", {
                   method: "POST",
@@ -311,7 +379,17 @@ export default function SystemSettingsPage() {
                   if (documentUploadRef.current?.removePendingDocument) {
                     documentUploadRef.current.removePendingDocument(document.id);
                   }
-                  
+
+                  if (data.duplicate) {
+                    addToast({
+                      title: "Already Uploaded",
+                      description: data.message,
+                      color: "warning",
+                    });
+
+                    return;
+                  }
+
                   if (data.processingId && documentUploadRef.current?.addProcessingDocument) {
                     const processingDoc: ProcessingDocument = {
                       id: document.id,
@@ -369,6 +447,12 @@ export default function SystemSettingsPage() {
             <p className="text-default-600">
               Configure content filtering and response guidelines for avatar interactions
             </p>
+            <Link
+              className="text-sm"
+              href="/system-settings/guardrail-incidents"
+            >
+              Review blocked messages and withheld replies
+            </Link>
             
             {/* Save Status Indicator */}
             <div className="mt-2">
@@ -392,6 +476,11 @@ export default function SystemSettingsPage() {
                   Unsaved changes
                 </Chip>
               )}
+              {hasTopicChanges && (
+                <Chip color="warning" variant="flat" size="sm">
+                  Topic changes to test and save below
+                </Chip>
+              )}
             </div>
           </div>
         </div>
@@ -568,12 +657,49 @@ export default function SystemSettingsPage() {
           </CardBody>
         </Card>
 
+        {/* Topic changes are tested before they are saved */}
+        <GuardrailsTestSuite
+          key={`test-suite-${restoreCount}`}
+          draft={{ blockedTopics, mentalHealthTopics }}
+          hasDraftChanges={hasTopicChanges}
+          onDiscardDraft={discardTopicChanges}
+          onSaveDraft={saveTopics}
+        />
+
+        {/* Topic lists for non-English messages */}
+        <LocalizedTopicsEditor key={restoreCount} />
+
+        {/* Checks on model replies */}
+        <OutputModerationEditor key={restoreCount} />
+
+        {/* Per-avatar and per-case adjustments */}
+        <GuardrailProfilesEditor key={restoreCount} />
+
         </>
         )}
       </div>
 
       <Divider />
 
+      {/* Events feed for the avatar events tool */}
+      <EventsFeedEditor key={restoreCount} />
+
+      <Divider />
+
+      {/* Saved versions of the settings above, with rollback */}
+      <ConfigHistory
+        configs={[
+          "guardrails",
+          "guardrail-profiles",
+          "guardrails-test-suite",
+          "events-feed",
+          "cta",
+        ]}
+        onRestored={handleConfigRestored}
+      />
+
+      <Divider />
+
       {/* System Status */}
       <Card>
         <CardHeader>
@@ -1,5 +1,7 @@
 "use client";
 
+import type { RetrievalTrace } from "@/lib/rag/rag-service";
+
 import { useState } from "react";
 import { Button } from "@heroui/button";
 import { Input } from "@heroui/input";
@@ -32,6 +34,7 @@ interface SearchResult {
     }>;
     sources: string[];
   };
+  trace?: RetrievalTrace;
   error?: string;
   details?: string;
 }
@@ -64,6 +67,7 @@ export default function TestLLMKnowledge() {
           query: searchQuery,
           avatarId: avatarId || undefined,
           topK: topK,
+          trace: true,
         }),
       });
 
@@ -207,6 +211,45 @@ export default function TestLLMKnowledge() {
                     </p>
                   </div>
                 )}
+
+                {searchResult.trace && (
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Retrieval Trace</h3>
+                    <p className="text-xs text-default-500">
+                      Weights: vector {searchResult.trace.settings.vectorWeight.toFixed(2)}, keyword{" "}
+                      {searchResult.trace.settings.lexicalWeight.toFixed(2)} · Reranker:{" "}
+                      {searchResult.trace.settings.reranker} · {searchResult.trace.vectorHits.length} vector /{" "}
+                      {searchResult.trace.lexicalHits.length} keyword hits · Index:{" "}
+                      {searchResult.trace.indexVersions.join(", ")} · {searchResult.trace.timings.totalMs} ms
+                      {searchResult.trace.rerankError && ` · Reranker failed: ${searchResult.trace.rerankError}`}
+                    </p>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-default-500">
+                          <th className="py-1">Chunk</th>
+                          <th>Vector</th>
+                          <th>Keyword</th>
+                          <th>Fused</th>
+                          <th>Reranked</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {searchResult.trace.fused.map((hit) => (
+                          <tr
+                            key={hit.id}
+                            className={searchResult.trace!.results.includes(hit.id) ? "font-medium" : "text-default-500"}
+                          >
+                            <td className="py-1">{hit.title} <span className="text-default-400">{hit.id}</span></td>
+                            <td>{hit.vectorScore ?? "–"}</td>
+                            <td>{hit.lexicalScore ?? "–"}</td>
+                            <td>{hit.score}</td>
+                            <td>{searchResult.trace!.reranked?.find((reranked) => reranked.id === hit.id)?.score ?? "–"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
             )}
           </div>
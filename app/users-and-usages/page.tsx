@@ -23,6 +23,7 @@ import { Input } from "@heroui/input";
 import { DatePicker } from "@heroui/date-picker";
 import { parseDate, type DateValue } from "@internationalized/date";
 import { avatarStorage, type CachedAvatar } from "@/lib/avatar-storage";
+import UsageBreakdown from "@/components/usage-breakdown";
 
 // Utility to format timestamps as readable dates
 function formatDate(ts?: number) {
@@ -707,6 +708,17 @@ export default function UsersAndUsagesPage() {
         Welcome to the admin dashboard. Use the sections below to manage users,
         usage, and chat sessions.
       </p>
+      {/* Token and Cost Usage Section */}
+      <section className="mt-12 w-full">
+        <h2 className="text-xl font-bold mb-4">Usage</h2>
+        <p className="mb-2 text-gray-600 dark:text-gray-400">
+          Tokens and estimated cost of every model call, by avatar, case,
+          cohort, user, model or operation.
+        </p>
+        <Card className="p-4">
+          <UsageBreakdown />
+        </Card>
+      </section>
       {/* Chat Sessions Admin Section */}
       <section className="mt-12 w-full">
         <h2 className="text-xl font-bold mb-4">Chat Sessions</h2>
@@ -0,0 +1,295 @@
+"use client";
+
+import type {
+  ConfigChange,
+  ConfigRevision,
+  ConfigRevisionSummary,
+  SystemConfigName,
+} from "@/lib/config-revisions";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Select, SelectItem } from "@heroui/select";
+import { addToast } from "@heroui/toast";
+import { History, RotateCcw } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+
+interface ConfigHistoryProps {
+  configs: SystemConfigName[]; // Selectable configs; the first is shown first
+  onRestored?: (config: SystemConfigName) => void;
+}
+
+export const SYSTEM_CONFIG_LABELS: Record<SystemConfigName, string> = {
+  guardrails: "Content Guardrails",
+  cta: "Call to Action",
+  "guardrail-profiles": "Guardrail Profiles",
+  "events-feed": "Events Feed",
+  "guardrails-test-suite": "Guardrails Test Suite",
+};
+
+const PAGE_SIZE = 20;
+
+function formatValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+function ChangeLine({ change }: { change: ConfigChange }) {
+  return (
+    <li className="text-sm">
+      <span className="font-mono text-default-600">{change.path}</span>{" "}
+      {change.type === "added" && (
+        <span className="text-success-600">+ {formatValue(change.after)}</span>
+      )}
+      {change.type === "removed" && (
+        <span className="text-danger-600 line-through">
+          {formatValue(change.before)}
+        </span>
+      )}
+      {change.type === "changed" && (
+        <>
+          <span className="text-danger-600 line-through">
+            {formatValue(change.before)}
+          </span>{" "}
+          → <span className="text-success-600">{formatValue(change.after)}</span>
+        </>
+      )}
+    </li>
+  );
+}
+
+// Revisions of system configs, with their diffs and one-click rollback
+export default function ConfigHistory({
+  configs,
+  onRestored,
+}: ConfigHistoryProps) {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<SystemConfigName>(configs[0]);
+  const [revisions, setRevisions] = useState<ConfigRevisionSummary[]>([]);
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [expanded, setExpanded] = useState<ConfigRevision | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(
+    null
+  );
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(
+        `/api/system-configs/revisions?config=${config}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Failed to load");
+
+      setRevisions(data.revisions || []);
+    } catch (error) {
+      console.error("Failed to load config history:", error);
+      setRevisions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config]);
+
+  useEffect(() => {
+    setExpanded(null);
+    setShown(PAGE_SIZE);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const toggleChanges = async (version: number) => {
+    if (expanded?.version === version) {
+      setExpanded(null);
+
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/system-configs/revisions?config=${config}&version=${version}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Failed to load");
+
+      setExpanded(data.revision);
+    } catch (error) {
+      addToast({
+        title: "Could Not Load Changes",
+        description: error instanceof Error ? error.message : "Failed to load",
+        color: "danger",
+      });
+    }
+  };
+
+  const rollback = async (version: number) => {
+    if (
+      !confirm(
+        `Roll ${SYSTEM_CONFIG_LABELS[config]} back to version ${version}? This takes effect immediately.`
+      )
+    ) {
+      return;
+    }
+
+    setRestoringVersion(version);
+
+    try {
+      const response = await fetch("/api/system-configs/revisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          config,
+          version,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Rollback failed");
+
+      addToast({
+        title: "Rolled Back",
+        description: data.revision
+          ? `Saved as version ${data.revision.version}`
+          : `Already matches version ${version}`,
+        color: "success",
+      });
+      await loadRevisions();
+      onRestored?.(config);
+    } catch (error) {
+      addToast({
+        title: "Rollback Failed",
+        description: error instanceof Error ? error.message : "Rollback failed",
+        color: "danger",
+      });
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-center gap-2">
+        <History className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Version History</h3>
+        {configs.length > 1 && (
+          <Select
+            disallowEmptySelection
+            aria-label="Config"
+            className="ml-auto w-64"
+            selectedKeys={[config]}
+            size="sm"
+            onSelectionChange={(keys) => {
+              const selected = Array.from(keys)[0] as SystemConfigName;
+
+              if (selected) setConfig(selected);
+            }}
+          >
+            {configs.map((name) => (
+              <SelectItem key={name}>{SYSTEM_CONFIG_LABELS[name]}</SelectItem>
+            ))}
+          </Select>
+        )}
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-default-600">
+          Every save is kept. Rolling back saves the earlier version as a new
+          one, so a rollback can be undone the same way.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-default-500">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-default-500">
+            No saves recorded yet for {SYSTEM_CONFIG_LABELS[config]}.
+          </p>
+        ) : (
+          <ul className="divide-y divide-default-200">
+            {revisions.slice(0, shown).map((revision, index) => (
+              <li key={revision.version} className="py-2 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Chip size="sm" variant="flat">
+                    v{revision.version}
+                  </Chip>
+                  {index === 0 && (
+                    <Chip color="success" size="sm" variant="flat">
+                      Current
+                    </Chip>
+                  )}
+                  {revision.restoredFrom && (
+                    <Chip color="warning" size="sm" variant="flat">
+                      Rollback to v{revision.restoredFrom}
+                    </Chip>
+                  )}
+                  <span className="text-sm">
+                    {new Date(revision.createdAt).toLocaleString()} by{" "}
+                    {revision.author}
+                  </span>
+                  <span className="text-sm text-default-500">
+                    {revision.baseline
+                      ? "Before version history was kept"
+                      : revision.changeCount > 0
+                        ? `${revision.changeCount} change(s): ${revision.changedFields.join(", ")}`
+                        : "First saved version"}
+                  </span>
+                  <div className="ml-auto flex gap-1">
+                    {revision.changeCount > 0 && (
+                      <Button
+                        size="sm"
+                        variant="light"
+                        onPress={() => toggleChanges(revision.version)}
+                      >
+                        {expanded?.version === revision.version
+                          ? "Hide changes"
+                          : "Changes"}
+                      </Button>
+                    )}
+                    {index > 0 && (
+                      <Button
+                        isDisabled={restoringVersion !== null}
+                        isLoading={restoringVersion === revision.version}
+                        size="sm"
+                        startContent={
+                          restoringVersion !== revision.version && (
+                            <RotateCcw className="w-4 h-4" />
+                          )
+                        }
+                        variant="flat"
+                        onPress={() => rollback(revision.version)}
+                      >
+                        Roll back
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {expanded?.version === revision.version && (
+                  <ul className="space-y-1 pl-2">
+                    {expanded.changes.map((change, changeIndex) => (
+                      <ChangeLine key={changeIndex} change={change} />
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {revisions.length > shown && (
+          <Button
+            size="sm"
+            variant="light"
+            onPress={() => setShown(shown + PAGE_SIZE)}
+          >
+            Show older versions
+          </Button>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -4,12 +4,17 @@ import { useState, useRef, useCallback, useEffect, useMemo, forwardRef, useImper
 import { Card, CardBody } from "@heroui/card";
 import { Button } from "@heroui/button";
 import { Chip } from "@heroui/chip";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
 import {
   Upload,
   File,
   X,
   Download,
   Check,
+  Globe,
+  RefreshCw,
+  FileUp,
 } from "lucide-react";
 import { addToast } from "@heroui/toast";
 import { downloadFile } from "@/lib/download-utils";
@@ -19,6 +24,37 @@ import { getDownloadFilename } from "@/lib/filename-utils";
 const documentCache = new Map<string, { documents: any[], timestamp: number }>();
 const CACHE_DURATION = 30000; // 30 seconds
 
+// Passage sizes in tokens; smaller passages give more precise citations,
+// larger ones keep long explanations together
+const CHUNK_SIZE_OPTIONS = [
+  { key: "250", label: "Small (about 250 tokens)" },
+  { key: "500", label: "Standard (about 500 tokens)" },
+  { key: "1000", label: "Large (about 1000 tokens)" },
+];
+const DEFAULT_CHUNK_SIZE = "500";
+
+// Extensions the knowledge base can ingest; browsers report no or varying
+// MIME types for several of them, so files are checked by extension
+const SUPPORTED_EXTENSIONS = [
+  ".pdf",
+  ".txt",
+  ".docx",
+  ".md",
+  ".markdown",
+  ".html",
+  ".htm",
+  ".pptx",
+  ".csv",
+  ".xlsx",
+];
+
+// How often web sources are fetched again
+const RECRAWL_OPTIONS = [
+  { key: "0", label: "Manually" },
+  { key: "24", label: "Daily" },
+  { key: "168", label: "Weekly" },
+];
+
 interface DocumentUploadProps {
   avatarId?: string;
   isShared?: boolean;
@@ -36,6 +72,7 @@ export interface PendingDocument {
   source: "file";
   uploadDate: string;
   file: File;
+  chunkSize?: number; // Passage size in tokens
 }
 
 export interface ProcessingDocument {
@@ -55,11 +92,18 @@ export interface PendingDeletion {
 interface ExistingDocument {
   id: string;
   title: string;
-  source: "file";
+  source: "file" | "web";
   sourceId: string;
   uploadDate: string;
   chunkCount: number;
+  status?: "processing" | "completed" | "failed";
+  error?: string;
   filename?: string;
+  version?: number; // Uploaded files
+  pendingVersion?: { version: number }; // A replacement being processed
+  url?: string; // Web sources
+  lastFetchedAt?: string;
+  lastCrawl?: { pagesFailed: number; errors?: string[] };
 }
 
 const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpload({
@@ -78,7 +122,18 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
   const [processingDocuments, setProcessingDocuments] = useState<ProcessingDocument[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isLoadingDocuments, setIsLoadingDocuments] = useState(false);
+  const [chunkSize, setChunkSize] = useState(DEFAULT_CHUNK_SIZE);
+  const [webUrl, setWebUrl] = useState("");
+  const [recrawlInterval, setRecrawlInterval] = useState("24");
+  const [isAddingWebSource, setIsAddingWebSource] = useState(false);
+  const [crawlingSourceId, setCrawlingSourceId] = useState<string | null>(null);
+  // Web sources are crawled right away, so the avatar must exist
+  const canAddWebSource = isShared || (!!avatarId && avatarId !== "new");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [replacingSourceId, setReplacingSourceId] = useState<string | null>(null);
+  // Document the replace file picker was opened for
+  const replaceTargetRef = useRef<string | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
 
   // Memoized cache key
   const cacheKey = useMemo(() => {
@@ -89,11 +144,11 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
   const handleFileUpload = useCallback(
     (files: FileList) => {
       for (const file of Array.from(files)) {
-        const supportedTypes = ["application/pdf", "text/plain", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
-        if (!supportedTypes.includes(file.type)) {
+        const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+        if (!SUPPORTED_EXTENSIONS.includes(extension)) {
           addToast({
             title: "Unsupported File Type",
-            description: `Only PDF, TXT, and DOCX files are supported. Please upload supported file types only.`,
+            description: `Only PDF, TXT, DOCX, Markdown, HTML, PPTX, CSV and XLSX files are supported. Please upload supported file types only.`,
             color: "danger",
           });
           continue;
@@ -116,6 +171,7 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
           source: "file",
           uploadDate: new Date().toISOString(),
           file,
+          chunkSize: Number(chunkSize),
         };
 
         setPendingDocuments((prev) => [...prev, newDoc]);
@@ -125,7 +181,7 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
         }
       }
     },
-    [onDocumentAdded],
+    [onDocumentAdded, chunkSize],
   );
 
 
@@ -176,6 +232,167 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
     }
   }, [isShared, existingDocuments]);
 
+  // Replace a document in the list with its latest state
+  const updateExistingDocument = useCallback((document: ExistingDocument) => {
+    setExistingDocuments((prev) => {
+      const exists = prev.some((doc) => doc.sourceId === document.sourceId);
+
+      return exists
+        ? prev.map((doc) => (doc.sourceId === document.sourceId ? document : doc))
+        : [document, ...prev];
+    });
+    documentCache.delete(cacheKey);
+  }, [cacheKey]);
+
+  // Add a web page or sitemap and crawl it
+  const handleAddWebSource = useCallback(async () => {
+    if (!webUrl.trim()) return;
+
+    setIsAddingWebSource(true);
+    try {
+      const response = await fetch("/api/documents/web-sources", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url: webUrl.trim(),
+          avatarId: isShared ? undefined : avatarId,
+          isShared,
+          recrawlIntervalHours: Number(recrawlInterval),
+          chunkSize: Number(chunkSize),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to add web source");
+      }
+
+      updateExistingDocument(data.document);
+      setWebUrl("");
+
+      const failed = data.document.lastCrawl?.pagesFailed || 0;
+
+      addToast({
+        title: data.document.status === "failed" ? "Crawl Failed" : "Web Source Added",
+        description:
+          data.document.status === "failed"
+            ? data.document.lastCrawl?.errors?.[0] || "No pages could be fetched"
+            : `${data.document.chunkCount} chunks indexed${failed ? `, ${failed} pages failed` : ""}`,
+        color: data.document.status === "failed" ? "danger" : "success",
+      });
+    } catch (error) {
+      console.error("Add web source error:", error);
+      addToast({
+        title: "Add Failed",
+        description: error instanceof Error ? error.message : "Failed to add web source",
+        color: "danger",
+      });
+    } finally {
+      setIsAddingWebSource(false);
+    }
+  }, [webUrl, isShared, avatarId, recrawlInterval, chunkSize, updateExistingDocument]);
+
+  // Re-crawl a web source now
+  const handleRecrawl = useCallback(async (sourceId: string) => {
+    setCrawlingSourceId(sourceId);
+    try {
+      const response = await fetch("/api/documents/web-sources/crawl", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to re-crawl");
+      }
+
+      updateExistingDocument(data.document);
+
+      const crawl = data.document.lastCrawl;
+
+      addToast({
+        title: "Re-crawl Finished",
+        description: crawl
+          ? `${crawl.pagesChanged} of ${crawl.pages} pages changed: ${crawl.chunksAdded} chunks added, ${crawl.chunksRemoved} removed`
+          : "Web source updated",
+        color: crawl?.pagesFailed ? "warning" : "success",
+      });
+    } catch (error) {
+      console.error("Re-crawl error:", error);
+      addToast({
+        title: "Re-crawl Failed",
+        description: error instanceof Error ? error.message : "Failed to re-crawl",
+        color: "danger",
+      });
+    } finally {
+      setCrawlingSourceId(null);
+    }
+  }, [updateExistingDocument]);
+
+  // Upload a new version of a document; the current one stays searchable
+  // until it is processed
+  const handleReplaceDocument = useCallback(async (sourceId: string, file: File) => {
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+
+    if (!SUPPORTED_EXTENSIONS.includes(extension) || file.size > 10 * 1024 * 1024) {
+      addToast({
+        title: "Cannot Replace Document",
+        description: "The new version must be a supported file type under 10MB.",
+        color: "danger",
+      });
+
+      return;
+    }
+
+    setReplacingSourceId(sourceId);
+    try {
+      const formData = new FormData();
+
+      formData.append("file", file);
+      formData.append("sourceId", sourceId);
+      if (!isShared && avatarId) {
+        formData.append("avatarId", avatarId);
+      }
+
+      const response = await fetch("/api/documents/replace", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to replace document");
+      }
+
+      if (data.duplicate) {
+        addToast({
+          title: "No Changes",
+          description: data.message,
+          color: "warning",
+        });
+
+        return;
+      }
+
+      updateExistingDocument(data.document);
+      addToast({
+        title: "Replacing Document",
+        description: `Version ${data.document.pendingVersion?.version} of ${data.document.title} replaces the current one once it is processed.`,
+        color: "primary",
+      });
+    } catch (error) {
+      console.error("Replace error:", error);
+      addToast({
+        title: "Replace Failed",
+        description: error instanceof Error ? error.message : "Failed to replace document",
+        color: "danger",
+      });
+    } finally {
+      setReplacingSourceId(null);
+    }
+  }, [avatarId, isShared, updateExistingDocument]);
+
   // Handle document viewing/download
   const handleViewDocument = useCallback(async (docId: string) => {
     try {
@@ -184,6 +401,12 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
         throw new Error("Document not found");
       }
 
+      // Web sources open the crawled page
+      if (doc.source === "web" && doc.url) {
+        window.open(doc.url, "_blank", "noopener,noreferrer");
+        return;
+      }
+
       // Create download URL
       let downloadUrl = `/api/documents/download?sourceId=${encodeURIComponent(doc.sourceId)}`;
       if (avatarId) {
@@ -383,7 +606,7 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
             Drop files here or click to upload
           </p>
           <p className="text-sm text-default-500 mb-4">
-            Supported formats: PDF, TXT, DOCX (max 10MB)
+            Supported formats: PDF, TXT, DOCX, Markdown, HTML, PPTX, CSV, XLSX (max 10MB)
           </p>
           <Button
             color="primary"
@@ -397,7 +620,7 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
             ref={fileInputRef}
             type="file"
             multiple
-            accept=".pdf,.txt,.docx"
+            accept={SUPPORTED_EXTENSIONS.join(",")}
             onChange={(e) => {
               if (e.target.files) {
                 handleFileUpload(e.target.files);
@@ -405,8 +628,80 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
             }}
             className="hidden"
           />
+          <input
+            ref={replaceInputRef}
+            type="file"
+            accept={SUPPORTED_EXTENSIONS.join(",")}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+
+              if (file && replaceTargetRef.current) {
+                handleReplaceDocument(replaceTargetRef.current, file);
+              }
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
         </div>
 
+        <Select
+          className="max-w-xs"
+          description="Applies to files added from now on"
+          label="Passage size"
+          selectedKeys={[chunkSize]}
+          size="sm"
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0] as string | undefined;
+
+            if (key) setChunkSize(key);
+          }}
+        >
+          {CHUNK_SIZE_OPTIONS.map((option) => (
+            <SelectItem key={option.key}>{option.label}</SelectItem>
+          ))}
+        </Select>
+
+        {/* Web Sources */}
+        {canAddWebSource && (
+          <div className="flex flex-col md:flex-row gap-2 md:items-start">
+            <Input
+              className="flex-1"
+              description="A page, or a sitemap (.xml) of pages"
+              label="Web page or sitemap URL"
+              placeholder="https://"
+              size="sm"
+              type="url"
+              value={webUrl}
+              onValueChange={setWebUrl}
+            />
+            <Select
+              className="md:max-w-[10rem]"
+              label="Re-crawl"
+              selectedKeys={[recrawlInterval]}
+              size="sm"
+              onSelectionChange={(keys) => {
+                const key = Array.from(keys)[0] as string | undefined;
+
+                if (key) setRecrawlInterval(key);
+              }}
+            >
+              {RECRAWL_OPTIONS.map((option) => (
+                <SelectItem key={option.key}>{option.label}</SelectItem>
+              ))}
+            </Select>
+            <Button
+              color="primary"
+              isDisabled={!webUrl.trim()}
+              isLoading={isAddingWebSource}
+              variant="flat"
+              onPress={handleAddWebSource}
+            >
+              <Globe size={16} />
+              Add
+            </Button>
+          </div>
+        )}
+
 
         {/* Documents List */}
         {(isLoadingDocuments || existingDocuments.length > 0 || pendingDocuments.length > 0 || pendingDeletions.length > 0 || processingDocuments.length > 0) && (
@@ -436,16 +731,84 @@ const DocumentUpload = forwardRef<any, DocumentUploadProps>(function DocumentUpl
                   existingDocuments.map((doc) => (
                     <Card key={doc.id} className="p-3">
                       <div className="flex items-center gap-3">
-                        <File size={16} className="flex-shrink-0" />
+                        {doc.source === "web" ? (
+                          <Globe size={16} className="flex-shrink-0" />
+                        ) : (
+                          <File size={16} className="flex-shrink-0" />
+                        )}
                         <div className="flex-1 min-w-0">
                           <p className="font-medium truncate">{doc.title}</p>
                           <div className="flex items-center gap-2 text-sm text-default-500">
-                            <Chip size="sm" color="success" variant="flat">
-                              {doc.chunkCount} chunks
-                            </Chip>
+                            {doc.status === "processing" ? (
+                              <Chip size="sm" color="primary" variant="flat">
+                                Processing
+                              </Chip>
+                            ) : doc.status === "failed" ? (
+                              <Chip size="sm" color="danger" variant="flat" title={doc.error}>
+                                Failed
+                              </Chip>
+                            ) : (
+                              <Chip size="sm" color="success" variant="flat">
+                                {doc.chunkCount} chunks
+                              </Chip>
+                            )}
+                            {!!doc.version && doc.version > 1 && (
+                              <Chip size="sm" variant="flat">
+                                v{doc.version}
+                              </Chip>
+                            )}
+                            {doc.pendingVersion && (
+                              <Chip size="sm" color="primary" variant="flat">
+                                Updating to v{doc.pendingVersion.version}
+                              </Chip>
+                            )}
+                            {doc.source === "web" && doc.lastFetchedAt && (
+                              <span className="truncate">
+                                Fetched {new Date(doc.lastFetchedAt).toLocaleString()}
+                              </span>
+                            )}
+                            {doc.source === "web" && !!doc.lastCrawl?.pagesFailed && (
+                              <Chip
+                                size="sm"
+                                color="warning"
+                                variant="flat"
+                                title={doc.lastCrawl.errors?.join("\n")}
+                              >
+                                {doc.lastCrawl.pagesFailed} failed
+                              </Chip>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-1 flex-shrink-0">
+                          {doc.source === "web" && (
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              isLoading={crawlingSourceId === doc.sourceId}
+                              onPress={() => handleRecrawl(doc.sourceId)}
+                              className="text-default-500 hover:text-primary"
+                              title="Re-crawl now"
+                            >
+                              <RefreshCw size={16} />
+                            </Button>
+                          )}
+                          {doc.source === "file" && doc.status !== "processing" && (
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              isLoading={replacingSourceId === doc.sourceId}
+                              onPress={() => {
+                                replaceTargetRef.current = doc.sourceId;
+                                replaceInputRef.current?.click();
+                              }}
+                              className="text-default-500 hover:text-primary"
+                              title="Upload a new version"
+                            >
+                              <FileUp size={16} />
+                            </Button>
+                          )}
                           <Button
                             isIconOnly
                             size="sm"
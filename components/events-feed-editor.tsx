@@ -0,0 +1,154 @@
+"use client";
+
+import type { EventsFeed, FeedEvent } from "@/lib/events-feed-storage";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Textarea } from "@heroui/input";
+import { addToast } from "@heroui/toast";
+import { CalendarDays } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+
+const EXAMPLE_EVENTS: FeedEvent[] = [
+  {
+    title: "MBA Open House",
+    start: "2026-11-05T17:30:00-05:00",
+    end: "2026-11-05T19:00:00-05:00",
+    location: "Peter B. Lewis Building",
+    description: "Meet faculty and current students",
+    url: "https://weatherhead.case.edu/events",
+  },
+];
+
+// Admin editor for the events feed that avatars with the events tool read
+export default function EventsFeedEditor() {
+  const { user } = useAuth();
+  const [text, setText] = useState("[]");
+  const [feed, setFeed] = useState<EventsFeed | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const response = await fetch("/api/events-feed");
+
+        if (!response.ok) throw new Error("Failed to load events feed");
+
+        const data: EventsFeed = await response.json();
+
+        setFeed(data);
+        setText(JSON.stringify(data.events, null, 2));
+      } catch (loadError) {
+        console.error("Failed to load events feed:", loadError);
+        setError("Failed to load events feed");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFeed();
+  }, []);
+
+  const saveFeed = async () => {
+    let events: FeedEvent[];
+
+    try {
+      events = JSON.parse(text);
+    } catch {
+      setError("Not valid JSON");
+
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/events-feed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          events,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      setFeed(data.feed);
+      setText(JSON.stringify(data.feed.events, null, 2));
+      addToast({
+        title: "Events Saved",
+        description: `${data.feed.events.length} events in the feed`,
+        color: "success",
+      });
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error ? saveError.message : "Save failed"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Events Feed</h3>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <p className="text-sm text-default-600">
+          Upcoming events that avatars with the &quot;Date and events&quot;
+          tool can look up. A JSON array of events with a title, start date
+          and optional end, location, description and url.
+        </p>
+
+        <Textarea
+          classNames={{ input: "font-mono text-xs" }}
+          errorMessage={error}
+          isDisabled={isLoading}
+          isInvalid={!!error}
+          maxRows={20}
+          minRows={8}
+          placeholder={JSON.stringify(EXAMPLE_EVENTS, null, 2)}
+          value={text}
+          onValueChange={(value) => {
+            setText(value);
+            setError(null);
+          }}
+        />
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-default-500">
+            {feed && feed.events.length > 0
+              ? `Last updated ${new Date(feed.lastUpdated).toLocaleString()} by ${feed.updatedBy}`
+              : "No events yet"}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              isDisabled={isLoading}
+              variant="light"
+              onPress={() => setText(JSON.stringify(EXAMPLE_EVENTS, null, 2))}
+            >
+              Insert example
+            </Button>
+            <Button
+              color="primary"
+              isDisabled={isLoading}
+              isLoading={isSaving}
+              onPress={saveFeed}
+            >
+              Save events
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
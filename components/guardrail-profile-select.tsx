@@ -0,0 +1,82 @@
+"use client";
+
+import type { GuardrailProfile } from "@/lib/guardrail-profiles-storage";
+
+import { useEffect, useState } from "react";
+import { Select, SelectItem } from "@heroui/select";
+
+interface GuardrailProfileSelectProps {
+  label: string;
+  description?: string;
+  value?: string; // Empty for no profile
+  inheritLabel?: string; // What applies without a profile
+  onChange: (value: string) => void;
+}
+
+// Sentinel key for "no profile" since Select keys cannot be empty
+const INHERIT_KEY = "inherit";
+
+export default function GuardrailProfileSelect({
+  label,
+  description,
+  value,
+  inheritLabel = "Global guardrails",
+  onChange,
+}: GuardrailProfileSelectProps) {
+  const [profiles, setProfiles] = useState<GuardrailProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await fetch("/api/guardrails/profiles");
+
+        if (!response.ok) throw new Error("Failed to load guardrail profiles");
+
+        const data = await response.json();
+
+        setProfiles(data.profiles || []);
+      } catch (error) {
+        console.error("Failed to load guardrail profiles:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  // A deleted profile stays selectable so the stale choice is visible
+  const isMissing =
+    !!value && !isLoading && !profiles.some((profile) => profile.id === value);
+
+  return (
+    <Select
+      description={
+        isMissing
+          ? "This profile was deleted; the guardrails it inherits from apply"
+          : description
+      }
+      isLoading={isLoading}
+      label={label}
+      selectedKeys={[value || INHERIT_KEY]}
+      onSelectionChange={(keys) => {
+        const key = Array.from(keys)[0] as string | undefined;
+
+        onChange(!key || key === INHERIT_KEY ? "" : key);
+      }}
+    >
+      {[
+        <SelectItem key={INHERIT_KEY}>{inheritLabel}</SelectItem>,
+        ...profiles.map((profile) => (
+          <SelectItem key={profile.id} description={profile.description}>
+            {profile.name}
+          </SelectItem>
+        )),
+        ...(isMissing && value
+          ? [<SelectItem key={value}>{`${value} (deleted)`}</SelectItem>]
+          : []),
+      ]}
+    </Select>
+  );
+}
@@ -0,0 +1,349 @@
+"use client";
+
+import type { GuardrailProfile } from "@/lib/guardrail-profiles-storage";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Input, Textarea } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Switch } from "@heroui/switch";
+import { addToast } from "@heroui/toast";
+import { Layers, Plus, Trash2 } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+
+// Profile being edited; lists are edited as text and parsed when saved
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  description: string;
+  allowedTopics: string;
+  blockedTopics: string;
+  blockedResponses: string;
+  guidelines: string;
+  mentalHealthRedirect: boolean;
+  outputModeration: "inherit" | "on" | "off";
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: "",
+  description: "",
+  allowedTopics: "",
+  blockedTopics: "",
+  blockedResponses: "",
+  guidelines: "",
+  mentalHealthRedirect: true,
+  outputModeration: "inherit",
+};
+
+// Sentinel key for a profile that has not been saved yet
+const NEW_KEY = "new";
+
+function toDraft(profile: GuardrailProfile): ProfileDraft {
+  const moderation = profile.outputModeration?.enabled;
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    allowedTopics: profile.allowedTopics.join("\n"),
+    blockedTopics: profile.blockedTopics.join("\n"),
+    blockedResponses: profile.blockedResponses.join("\n"),
+    guidelines: profile.guidelines || "",
+    mentalHealthRedirect: profile.mentalHealthRedirect !== false,
+    outputModeration:
+      moderation === undefined ? "inherit" : moderation ? "on" : "off",
+  };
+}
+
+function parseLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Admin editor for named guardrail profiles attached to avatars and cases
+export default function GuardrailProfilesEditor() {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<GuardrailProfile[]>([]);
+  const [selectedKey, setSelectedKey] = useState(NEW_KEY);
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await fetch("/api/guardrails/profiles");
+
+        if (!response.ok) throw new Error("Failed to load guardrail profiles");
+
+        const data = await response.json();
+
+        setProfiles(data.profiles || []);
+      } catch (error) {
+        console.error("Failed to load guardrail profiles:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  const selectProfile = (key: string) => {
+    const profile = profiles.find((candidate) => candidate.id === key);
+
+    setSelectedKey(profile ? profile.id : NEW_KEY);
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+  };
+
+  const update = (updates: Partial<ProfileDraft>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  };
+
+  const saveProfile = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/guardrails/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: draft.id,
+          name: draft.name,
+          description: draft.description.trim(),
+          allowedTopics: parseLines(draft.allowedTopics),
+          blockedTopics: parseLines(draft.blockedTopics),
+          blockedResponses: parseLines(draft.blockedResponses),
+          guidelines: draft.guidelines,
+          mentalHealthRedirect: draft.mentalHealthRedirect,
+          outputModeration:
+            draft.outputModeration === "inherit"
+              ? undefined
+              : { enabled: draft.outputModeration === "on" },
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      const saved: GuardrailProfile = data.profile;
+
+      setProfiles((current) =>
+        [...current.filter((profile) => profile.id !== saved.id), saved].sort(
+          (a, b) => a.name.localeCompare(b.name)
+        )
+      );
+      setSelectedKey(saved.id);
+      setDraft(toDraft(saved));
+      addToast({
+        title: "Profile Saved",
+        description: `Avatars and cases using "${saved.name}" follow the new rules`,
+        color: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Save failed",
+        color: "danger",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!draft.id) return;
+    if (
+      !confirm(
+        `Delete "${draft.name}"? Avatars and cases using it fall back to the global guardrails.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({
+        id: draft.id,
+        updatedBy: user?.name || "Unknown Admin",
+      });
+      const response = await fetch(`/api/guardrails/profiles?${params}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) throw new Error("Delete failed");
+
+      setProfiles((current) =>
+        current.filter((profile) => profile.id !== draft.id)
+      );
+      selectProfile(NEW_KEY);
+    } catch (error) {
+      addToast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Delete failed",
+        color: "danger",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center gap-2">
+        <Layers className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Guardrail Profiles</h3>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <p className="text-sm text-default-600">
+          A profile starts from the global guardrails above and changes only
+          what it lists. Attach profiles to avatars on their edit page, and to
+          cases or single case roles in case management. The security
+          guidelines always apply.
+        </p>
+
+        <div className="flex items-end gap-2">
+          <Select
+            disallowEmptySelection
+            className="flex-1"
+            isDisabled={isLoading}
+            label="Profile"
+            selectedKeys={[selectedKey]}
+            onSelectionChange={(keys) => {
+              const key = Array.from(keys)[0];
+
+              if (key) selectProfile(String(key));
+            }}
+          >
+            {[
+              <SelectItem key={NEW_KEY}>New profile</SelectItem>,
+              ...profiles.map((profile) => (
+                <SelectItem key={profile.id}>{profile.name}</SelectItem>
+              )),
+            ]}
+          </Select>
+          <Button
+            isIconOnly
+            aria-label="New profile"
+            variant="flat"
+            onPress={() => selectProfile(NEW_KEY)}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            description={
+              draft.id ? `ID: ${draft.id}` : "The ID is created from the name"
+            }
+            isDisabled={isLoading}
+            label="Name"
+            placeholder="e.g., Labor negotiation"
+            value={draft.name}
+            onValueChange={(name) => update({ name })}
+          />
+          <Input
+            isDisabled={isLoading}
+            label="Description"
+            placeholder="Where this profile is used"
+            value={draft.description}
+            onValueChange={(description) => update({ description })}
+          />
+          <Textarea
+            description="One per line; removed from the blocked topics of every language"
+            isDisabled={isLoading}
+            label="Allowed topics"
+            maxRows={8}
+            minRows={3}
+            placeholder={"politics\nlayoffs"}
+            value={draft.allowedTopics}
+            onValueChange={(allowedTopics) => update({ allowedTopics })}
+          />
+          <Textarea
+            description="One per line; blocked in addition to the global topics"
+            isDisabled={isLoading}
+            label="Additional blocked topics"
+            maxRows={8}
+            minRows={3}
+            value={draft.blockedTopics}
+            onValueChange={(blockedTopics) => update({ blockedTopics })}
+          />
+        </div>
+
+        <Textarea
+          description="One per line; leave empty to use the global responses"
+          isDisabled={isLoading}
+          label="Blocked content responses"
+          maxRows={6}
+          value={draft.blockedResponses}
+          onValueChange={(blockedResponses) => update({ blockedResponses })}
+        />
+
+        <Textarea
+          description="Replaces the CWRU kiosk guidelines added to every prompt; leave empty to keep them"
+          isDisabled={isLoading}
+          label="Conversation guidelines"
+          maxRows={10}
+          minRows={3}
+          placeholder="- Stay in character as the negotiator described in the case"
+          value={draft.guidelines}
+          onValueChange={(guidelines) => update({ guidelines })}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+          <Switch
+            isDisabled={isLoading}
+            isSelected={draft.mentalHealthRedirect}
+            onValueChange={(mentalHealthRedirect) =>
+              update({ mentalHealthRedirect })
+            }
+          >
+            Point to support resources on mental health topics
+          </Switch>
+          <Select
+            disallowEmptySelection
+            isDisabled={isLoading}
+            label="Output moderation"
+            selectedKeys={[draft.outputModeration]}
+            onSelectionChange={(keys) => {
+              const value = Array.from(keys)[0];
+
+              if (value === "inherit" || value === "on" || value === "off") {
+                update({ outputModeration: value });
+              }
+            }}
+          >
+            <SelectItem key="inherit">Same as the global setting</SelectItem>
+            <SelectItem key="on">On</SelectItem>
+            <SelectItem key="off">Off</SelectItem>
+          </Select>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {draft.id && (
+            <Button
+              color="danger"
+              isDisabled={isLoading || isSaving}
+              startContent={<Trash2 className="w-4 h-4" />}
+              variant="flat"
+              onPress={deleteProfile}
+            >
+              Delete
+            </Button>
+          )}
+          <Button
+            color="primary"
+            isDisabled={isLoading || !draft.name.trim()}
+            isLoading={isSaving}
+            onPress={saveProfile}
+          >
+            Save profile
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
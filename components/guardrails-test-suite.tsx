@@ -0,0 +1,434 @@
+"use client";
+
+import type { GuardrailsConfig } from "@/lib/guardrails-storage";
+import type { GuardrailsOutcome } from "@/lib/guardrails";
+import type {
+  GuardrailsTestOutcome,
+  GuardrailsTestRun,
+} from "@/lib/guardrails-regression";
+import type { GuardrailsTestCase } from "@/lib/guardrails-test-suite-storage";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Switch } from "@heroui/switch";
+import { addToast } from "@heroui/toast";
+import { FlaskConical, Play, Plus, X } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+
+type TopicDraft = Pick<GuardrailsConfig, "blockedTopics" | "mentalHealthTopics">;
+
+interface GuardrailsTestSuiteProps {
+  draft: TopicDraft; // Topic lists as currently edited
+  hasDraftChanges: boolean;
+  onSaveDraft: () => Promise<void>;
+  onDiscardDraft: () => void;
+}
+
+const OUTCOME_LABELS: Record<GuardrailsOutcome, string> = {
+  allowed: "Allowed",
+  blocked: "Blocked",
+  mentalHealthRedirect: "Mental health redirect",
+};
+
+const OUTCOME_COLORS = {
+  allowed: "success",
+  blocked: "danger",
+  mentalHealthRedirect: "secondary",
+} as const;
+
+function OutcomeChip({ result }: { result: GuardrailsTestOutcome }) {
+  return (
+    <Chip color={OUTCOME_COLORS[result.outcome]} size="sm" variant="flat">
+      {OUTCOME_LABELS[result.outcome]}
+      {result.topic &&
+        `: ${result.topic}${result.method === "semantic" ? " (meaning)" : ""}`}
+    </Chip>
+  );
+}
+
+// Stored test utterances, run against the saved and the edited topic lists
+export default function GuardrailsTestSuite({
+  draft,
+  hasDraftChanges,
+  onSaveDraft,
+  onDiscardDraft,
+}: GuardrailsTestSuiteProps) {
+  const { user } = useAuth();
+  const [cases, setCases] = useState<GuardrailsTestCase[]>([]);
+  const [newUtterance, setNewUtterance] = useState("");
+  const [newExpected, setNewExpected] = useState<GuardrailsOutcome>("allowed");
+  const [casesChanged, setCasesChanged] = useState(false);
+  const [run, setRun] = useState<GuardrailsTestRun | null>(null);
+  const [showOnlyChanges, setShowOnlyChanges] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSuite = async () => {
+      try {
+        const response = await fetch("/api/guardrails/test-suite");
+
+        if (!response.ok) throw new Error("Failed to load test suite");
+
+        const data = await response.json();
+
+        setCases(data.cases || []);
+      } catch (error) {
+        console.error("Failed to load guardrails test suite:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSuite();
+  }, []);
+
+  // A run only describes the lists it was made with
+  useEffect(() => {
+    setRun(null);
+  }, [draft.blockedTopics, draft.mentalHealthTopics]);
+
+  const updateCases = (next: GuardrailsTestCase[]) => {
+    setCases(next);
+    setCasesChanged(true);
+    setRun(null);
+  };
+
+  const addCase = () => {
+    const utterance = newUtterance.trim();
+
+    if (!utterance) return;
+
+    updateCases([
+      ...cases,
+      { id: crypto.randomUUID(), utterance, expected: newExpected },
+    ]);
+    setNewUtterance("");
+  };
+
+  const saveCases = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/guardrails/test-suite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cases,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      setCasesChanged(false);
+      addToast({
+        title: "Test Suite Saved",
+        description: `${cases.length} test utterances stored`,
+        color: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Save failed",
+        color: "danger",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runSuite = async () => {
+    setIsRunning(true);
+
+    try {
+      // Runs use the stored cases, so unsaved case edits are saved first
+      if (casesChanged) await saveCases();
+
+      const response = await fetch("/api/guardrails/test-suite/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ draft: hasDraftChanges ? draft : undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Run failed");
+
+      setRun(data.run);
+    } catch (error) {
+      addToast({
+        title: "Test Run Failed",
+        description: error instanceof Error ? error.message : "Run failed",
+        color: "danger",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (
+      run?.summary.regressions &&
+      !confirm(
+        `${run.summary.regressions} test utterance(s) that pass today would fail. Save the topic changes anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      await onSaveDraft();
+      setRun(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const results = (run?.results || []).filter(
+    (result) => !showOnlyChanges || result.changed || !result.passed
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center gap-2">
+        <FlaskConical className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Guardrails Test Suite</h3>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <p className="text-sm text-default-600">
+          Topic list changes above are not saved until they are tested here.
+          Each utterance is checked against the saved lists and your edits, in
+          every configured language.
+        </p>
+
+        <div className="space-y-2">
+          {cases.map((testCase) => (
+            <div key={testCase.id} className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                size="sm"
+                value={testCase.utterance}
+                onValueChange={(utterance) =>
+                  updateCases(
+                    cases.map((existing) =>
+                      existing.id === testCase.id
+                        ? { ...existing, utterance }
+                        : existing
+                    )
+                  )
+                }
+              />
+              <Select
+                disallowEmptySelection
+                aria-label="Expected outcome"
+                className="w-56"
+                selectedKeys={[testCase.expected]}
+                size="sm"
+                onSelectionChange={(keys) => {
+                  const expected = Array.from(keys)[0] as GuardrailsOutcome;
+
+                  if (!expected) return;
+                  updateCases(
+                    cases.map((existing) =>
+                      existing.id === testCase.id
+                        ? { ...existing, expected }
+                        : existing
+                    )
+                  );
+                }}
+              >
+                {Object.entries(OUTCOME_LABELS).map(([key, label]) => (
+                  <SelectItem key={key}>{label}</SelectItem>
+                ))}
+              </Select>
+              <Button
+                isIconOnly
+                aria-label="Remove test utterance"
+                color="danger"
+                size="sm"
+                variant="light"
+                onPress={() =>
+                  updateCases(
+                    cases.filter((existing) => existing.id !== testCase.id)
+                  )
+                }
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input
+              className="flex-1"
+              isDisabled={isLoading}
+              placeholder="Add a test utterance..."
+              size="sm"
+              value={newUtterance}
+              onKeyDown={(e) => e.key === "Enter" && addCase()}
+              onValueChange={setNewUtterance}
+            />
+            <Select
+              disallowEmptySelection
+              aria-label="Expected outcome"
+              className="w-56"
+              selectedKeys={[newExpected]}
+              size="sm"
+              onSelectionChange={(keys) => {
+                const expected = Array.from(keys)[0] as GuardrailsOutcome;
+
+                if (expected) setNewExpected(expected);
+              }}
+            >
+              {Object.entries(OUTCOME_LABELS).map(([key, label]) => (
+                <SelectItem key={key}>{label}</SelectItem>
+              ))}
+            </Select>
+            <Button
+              isIconOnly
+              aria-label="Add test utterance"
+              color="primary"
+              size="sm"
+              onPress={addCase}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {casesChanged && (
+            <Button isLoading={isSaving} variant="flat" onPress={saveCases}>
+              Save test utterances
+            </Button>
+          )}
+          <Button
+            color="primary"
+            isDisabled={isLoading || cases.length === 0}
+            isLoading={isRunning}
+            startContent={!isRunning && <Play className="w-4 h-4" />}
+            onPress={runSuite}
+          >
+            {hasDraftChanges ? "Test topic changes" : "Run against saved lists"}
+          </Button>
+        </div>
+
+        {run && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Chip size="sm" variant="flat">
+                Saved lists: {run.summary.currentPassed}/{run.summary.total}{" "}
+                passing
+              </Chip>
+              {run.summary.draftPassed !== undefined && (
+                <>
+                  <Chip size="sm" variant="flat">
+                    With your changes: {run.summary.draftPassed}/
+                    {run.summary.total} passing
+                  </Chip>
+                  <Chip
+                    color={run.summary.regressions > 0 ? "danger" : "default"}
+                    size="sm"
+                    variant="flat"
+                  >
+                    {run.summary.regressions} newly failing
+                  </Chip>
+                  <Chip
+                    color={run.summary.fixes > 0 ? "success" : "default"}
+                    size="sm"
+                    variant="flat"
+                  >
+                    {run.summary.fixes} newly passing
+                  </Chip>
+                </>
+              )}
+              <Switch
+                className="ml-auto"
+                isSelected={showOnlyChanges}
+                size="sm"
+                onValueChange={setShowOnlyChanges}
+              >
+                Only changes and failures
+              </Switch>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full border text-sm">
+                <thead>
+                  <tr className="bg-gray-100 dark:bg-gray-800">
+                    <th className="p-2 border text-left">Utterance</th>
+                    <th className="p-2 border">Expected</th>
+                    <th className="p-2 border">Saved lists</th>
+                    {run.summary.draftPassed !== undefined && (
+                      <th className="p-2 border">With your changes</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr
+                      key={result.id}
+                      className={
+                        result.changed
+                          ? "bg-warning-50"
+                          : result.passed
+                            ? undefined
+                            : "bg-danger-50"
+                      }
+                    >
+                      <td className="p-2 border">
+                        {result.passed ? "✓ " : "✗ "}
+                        {result.utterance}
+                      </td>
+                      <td className="p-2 border text-center">
+                        {OUTCOME_LABELS[result.expected]}
+                      </td>
+                      <td className="p-2 border text-center">
+                        <OutcomeChip result={result.current} />
+                      </td>
+                      {result.draft && (
+                        <td className="p-2 border text-center">
+                          <OutcomeChip result={result.draft} />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {hasDraftChanges && (
+          <div className="flex flex-wrap items-center justify-end gap-2 border-t border-default-200 pt-4">
+            <span className="text-sm text-default-500 mr-auto">
+              {run
+                ? "Review the changed outcomes, then save"
+                : "Test your topic changes before saving them"}
+            </span>
+            <Button variant="light" onPress={onDiscardDraft}>
+              Discard topic changes
+            </Button>
+            <Button
+              color={run?.summary.regressions ? "danger" : "primary"}
+              isDisabled={!run}
+              isLoading={isSaving}
+              onPress={saveDraft}
+            >
+              Save topic changes
+            </Button>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
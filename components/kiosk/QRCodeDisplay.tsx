@@ -10,6 +10,7 @@
  * - Responsive design for kiosk display
  * - Session change detection
  * - Configurable refresh intervals
+ * - Highlighting when the avatar points the visitor at the QR code
  */
 
 "use client";
@@ -28,6 +29,7 @@ interface QRCodeDisplayProps {
   selectedAvatar: CachedAvatar | null;
   sessionId: string | null;
   className?: string;
+  highlighted?: boolean; // Set when the avatar asks the visitor to scan the code
 }
 
 interface QRCodeResponse {
@@ -38,7 +40,7 @@ interface QRCodeResponse {
   error?: string;
 }
 
-export function QRCodeDisplay({ selectedAvatar, sessionId, className = "" }: QRCodeDisplayProps) {
+export function QRCodeDisplay({ selectedAvatar, sessionId, className = "", highlighted = false }: QRCodeDisplayProps) {
   const [qrCodeData, setQrCodeData] = useState<QRCodeResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -189,7 +191,11 @@ export function QRCodeDisplay({ selectedAvatar, sessionId, className = "" }: QRC
    */
   if (qrCodeData?.success && qrCodeData.qrCodeDataUrl) {
     return (
-      <Card className={`bg-white/60 backdrop-blur-md border border-white/80 shadow-lg ${className}`}>
+      <Card
+        className={`bg-white/60 backdrop-blur-md border border-white/80 shadow-lg transition-transform ${
+          highlighted ? "ring-4 ring-primary scale-105 animate-pulse" : ""
+        } ${className}`}
+      >
         <CardBody className="px-5 py-4">
           {/* Header */}
           <div className="text-center mb-4">
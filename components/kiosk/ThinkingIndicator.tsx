@@ -5,11 +5,13 @@ import { Spinner } from "@heroui/spinner";
 
 interface ThinkingIndicatorProps {
   isVisible?: boolean;
+  message?: string; // e.g. what a tool the avatar called is doing
   className?: string;
 }
 
 export const ThinkingIndicator = ({
   isVisible = false,
+  message = "Thinking...",
   className = "",
 }: ThinkingIndicatorProps) => {
   if (!isVisible) return null;
@@ -19,7 +21,7 @@ export const ThinkingIndicator = ({
       <Card className="shadow-medium bg-white/90 backdrop-blur-sm">
         <CardBody className="p-4 flex flex-row items-center gap-3">
           <Spinner size="md" color="primary" />
-          <span className="text-base font-medium text-gray-700">Thinking...</span>
+          <span className="text-base font-medium text-gray-700">{message}</span>
         </CardBody>
       </Card>
     </div>
@@ -0,0 +1,67 @@
+"use client";
+
+import type { LLMModelOverride, LLMProviderName } from "@/lib/llm/types";
+
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+
+import { DEFAULT_MODELS, LLM_PROVIDER_OPTIONS } from "@/lib/llm/models";
+
+interface LLMModelSelectProps {
+  label: string;
+  description?: string;
+  value?: LLMModelOverride;
+  onChange: (value: LLMModelOverride | undefined) => void;
+}
+
+// Sentinel key for "no override" since Select keys cannot be empty
+const DEFAULT_KEY = "default";
+
+export default function LLMModelSelect({
+  label,
+  description,
+  value,
+  onChange,
+}: LLMModelSelectProps) {
+  const provider = value?.provider;
+
+  const handleProviderChange = (key: string) => {
+    if (!key || key === DEFAULT_KEY) {
+      onChange(undefined);
+
+      return;
+    }
+
+    onChange({ ...value, provider: key as LLMProviderName, model: undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <Select
+        description={description}
+        label={label}
+        selectedKeys={[provider || DEFAULT_KEY]}
+        onSelectionChange={(keys) =>
+          handleProviderChange(Array.from(keys)[0] as string)
+        }
+      >
+        {[
+          <SelectItem key={DEFAULT_KEY}>Default for this route</SelectItem>,
+          ...LLM_PROVIDER_OPTIONS.map((option) => (
+            <SelectItem key={option.key}>{option.label}</SelectItem>
+          )),
+        ]}
+      </Select>
+      <Input
+        description="Leave empty to use the provider's default model"
+        isDisabled={!provider}
+        label="Model"
+        placeholder={provider ? DEFAULT_MODELS[provider] : "Route default"}
+        value={value?.model || ""}
+        onValueChange={(model) =>
+          onChange({ ...value, model: model.trim() || undefined })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import type {
+  GuardrailsConfig,
+  LocalizedTopics,
+  SemanticMatchingConfig,
+} from "@/lib/guardrails-storage";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Textarea } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Slider } from "@heroui/slider";
+import { Switch } from "@heroui/switch";
+import { addToast } from "@heroui/toast";
+import { Languages } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+import {
+  DEFAULT_LOCALIZED_TOPICS,
+  DEFAULT_SEMANTIC_MATCHING_CONFIG,
+  TOPIC_LANGUAGES,
+} from "@/lib/guardrails-storage";
+
+// Topic lists are edited one per line and parsed when saved
+type TopicText = Record<keyof LocalizedTopics, string>;
+
+function toTopicText(
+  topics: Record<string, LocalizedTopics>
+): Record<string, TopicText> {
+  return Object.fromEntries(
+    TOPIC_LANGUAGES.map(({ code }) => [
+      code,
+      {
+        blockedTopics: (topics[code]?.blockedTopics || []).join("\n"),
+        mentalHealthTopics: (topics[code]?.mentalHealthTopics || []).join(
+          "\n"
+        ),
+      },
+    ])
+  );
+}
+
+function parseTopics(value: string): string[] {
+  return value
+    .split("\n")
+    .map((topic) => topic.trim())
+    .filter(Boolean);
+}
+
+// Admin editor for topic lists in the languages visitors are invited to speak
+export default function LocalizedTopicsEditor() {
+  const { user } = useAuth();
+  const [language, setLanguage] = useState(TOPIC_LANGUAGES[0].code);
+  const [topicText, setTopicText] = useState(() =>
+    toTopicText(DEFAULT_LOCALIZED_TOPICS)
+  );
+  const [semantic, setSemantic] = useState<SemanticMatchingConfig>(
+    DEFAULT_SEMANTIC_MATCHING_CONFIG
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch("/api/guardrails");
+
+        if (!response.ok) throw new Error("Failed to load guardrails config");
+
+        const data: GuardrailsConfig = await response.json();
+
+        setTopicText(
+          toTopicText(data.localizedTopics || DEFAULT_LOCALIZED_TOPICS)
+        );
+        setSemantic(data.semanticMatching || DEFAULT_SEMANTIC_MATCHING_CONFIG);
+      } catch (error) {
+        console.error("Failed to load localized topics:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConfig();
+  }, []);
+
+  const updateText = (field: keyof LocalizedTopics, value: string) => {
+    setTopicText((current) => ({
+      ...current,
+      [language]: { ...current[language], [field]: value },
+    }));
+  };
+
+  const saveConfig = async () => {
+    const localizedTopics = Object.fromEntries(
+      Object.entries(topicText).map(([code, text]) => [
+        code,
+        {
+          blockedTopics: parseTopics(text.blockedTopics),
+          mentalHealthTopics: parseTopics(text.mentalHealthTopics),
+        },
+      ])
+    );
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/guardrails", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          localizedTopics,
+          semanticMatching: semantic,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      addToast({
+        title: "Language Topics Saved",
+        description: "Messages in every language are checked with the new lists",
+        color: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Save failed",
+        color: "danger",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const current = topicText[language];
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center gap-2">
+        <Languages className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">Topics in Other Languages</h3>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <p className="text-sm text-default-600">
+          Every message is checked against the English lists above and the
+          lists of every language here. Matching ignores case, accents and
+          full-width characters; Chinese, Japanese and Korean topics match
+          anywhere in a message.
+        </p>
+
+        <Select
+          disallowEmptySelection
+          isDisabled={isLoading}
+          label="Language"
+          selectedKeys={[language]}
+          onSelectionChange={(keys) => {
+            const code = Array.from(keys)[0];
+
+            if (code) setLanguage(String(code));
+          }}
+        >
+          {TOPIC_LANGUAGES.map(({ code, label }) => (
+            <SelectItem key={code}>{label}</SelectItem>
+          ))}
+        </Select>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Textarea
+            description="One topic or phrase per line"
+            isDisabled={isLoading}
+            label="Blocked topics"
+            maxRows={10}
+            minRows={4}
+            value={current?.blockedTopics || ""}
+            onValueChange={(value) => updateText("blockedTopics", value)}
+          />
+          <Textarea
+            description="One topic or phrase per line"
+            isDisabled={isLoading}
+            label="Mental health topics"
+            maxRows={10}
+            minRows={4}
+            value={current?.mentalHealthTopics || ""}
+            onValueChange={(value) => updateText("mentalHealthTopics", value)}
+          />
+        </div>
+
+        <div className="space-y-3 pt-2">
+          <Switch
+            isDisabled={isLoading}
+            isSelected={semantic.enabled}
+            onValueChange={(enabled) => setSemantic({ ...semantic, enabled })}
+          >
+            Also match by meaning (embedding similarity)
+          </Switch>
+          <p className="text-xs text-default-500">
+            Catches paraphrases and languages without a list, at the cost of
+            one embedding request per message. Keywords are always checked
+            first.
+          </p>
+          <Slider
+            getValue={(value) => Number(value).toFixed(2)}
+            isDisabled={isLoading || !semantic.enabled}
+            label="Similarity threshold"
+            maxValue={0.9}
+            minValue={0.3}
+            step={0.01}
+            value={semantic.threshold}
+            onChange={(value) =>
+              setSemantic({
+                ...semantic,
+                threshold: Array.isArray(value) ? value[0] : value,
+              })
+            }
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            color="primary"
+            isDisabled={isLoading}
+            isLoading={isSaving}
+            onPress={saveConfig}
+          >
+            Save language topics
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
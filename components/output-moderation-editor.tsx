@@ -0,0 +1,284 @@
+"use client";
+
+import type {
+  GuardrailsConfig,
+  OutputModerationCheck,
+  OutputModerationConfig,
+} from "@/lib/guardrails-storage";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import { Checkbox } from "@heroui/checkbox";
+import { Input, Textarea } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Switch } from "@heroui/switch";
+import { addToast } from "@heroui/toast";
+import { ShieldCheck } from "lucide-react";
+
+import { useAuth } from "@/lib/auth-context";
+import { DEFAULT_OUTPUT_MODERATION_CONFIG } from "@/lib/guardrails-storage";
+
+const CHECKS: Array<{
+  name: OutputModerationCheck;
+  label: string;
+  description: string;
+}> = [
+  {
+    name: "blockedTopics",
+    label: "Blocked topics",
+    description: "Sentences that mention a topic listed below",
+  },
+  {
+    name: "pii",
+    label: "Personal information",
+    description:
+      "Emails, phone numbers, social security and card numbers that are not allowed below",
+  },
+  {
+    name: "realPeople",
+    label: "Claims about real people",
+    description: "Sentences naming a person together with a claim phrase",
+  },
+  {
+    name: "promptLeakage",
+    label: "System prompt leakage",
+    description: "Sentences quoting the system prompt or talking about it",
+  },
+];
+
+type ListField =
+  | "blockedTopics"
+  | "realPeopleClaims"
+  | "allowedContacts"
+  | "allowedEmailDomains";
+
+const LIST_FIELDS: ListField[] = [
+  "blockedTopics",
+  "realPeopleClaims",
+  "allowedContacts",
+  "allowedEmailDomains",
+];
+
+function toListText(
+  config: OutputModerationConfig
+): Record<ListField, string> {
+  return {
+    blockedTopics: config.blockedTopics.join("\n"),
+    realPeopleClaims: config.realPeopleClaims.join("\n"),
+    allowedContacts: config.allowedContacts.join("\n"),
+    allowedEmailDomains: config.allowedEmailDomains.join(", "),
+  };
+}
+
+// One entry per line or comma
+function parseList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Admin editor for the checks run on avatar replies before they are spoken
+export default function OutputModerationEditor() {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<OutputModerationConfig>(
+    DEFAULT_OUTPUT_MODERATION_CONFIG
+  );
+  // Lists are edited as text and parsed when saved
+  const [lists, setLists] = useState(() =>
+    toListText(DEFAULT_OUTPUT_MODERATION_CONFIG)
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch("/api/guardrails");
+
+        if (!response.ok) throw new Error("Failed to load guardrails config");
+
+        const data: GuardrailsConfig = await response.json();
+
+        const loaded = {
+          ...DEFAULT_OUTPUT_MODERATION_CONFIG,
+          ...data.outputModeration,
+        };
+
+        setConfig(loaded);
+        setLists(toListText(loaded));
+      } catch (error) {
+        console.error("Failed to load output moderation config:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConfig();
+  }, []);
+
+  const update = (updates: Partial<OutputModerationConfig>) => {
+    setConfig((current) => ({ ...current, ...updates }));
+  };
+
+  const updateList = (field: ListField, value: string) => {
+    setLists((current) => ({ ...current, [field]: value }));
+  };
+
+  const saveConfig = async () => {
+    const outputModeration: OutputModerationConfig = { ...config };
+
+    for (const field of LIST_FIELDS) {
+      outputModeration[field] = parseList(lists[field]);
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/guardrails", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          outputModeration,
+          updatedBy: user?.name || "Unknown Admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || "Save failed");
+
+      setConfig(outputModeration);
+      setLists(toListText(outputModeration));
+      addToast({
+        title: "Output Moderation Saved",
+        description: "Replies are checked with the new settings",
+        color: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Save failed",
+        color: "danger",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Output Moderation</h3>
+        </div>
+        <Switch
+          isDisabled={isLoading}
+          isSelected={config.enabled}
+          onValueChange={(enabled) => update({ enabled })}
+        >
+          {config.enabled ? "On" : "Off"}
+        </Switch>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <p className="text-sm text-default-600">
+          Avatar replies are checked one sentence at a time before they are
+          sent to the kiosk. A flagged sentence is never spoken, and every
+          intervention is recorded.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {CHECKS.map((check) => (
+            <Checkbox
+              key={check.name}
+              isDisabled={isLoading || !config.enabled}
+              isSelected={config.checks[check.name]}
+              onValueChange={(selected) =>
+                update({ checks: { ...config.checks, [check.name]: selected } })
+              }
+            >
+              <div className="flex flex-col">
+                <span className="text-sm">{check.label}</span>
+                <span className="text-xs text-default-500">
+                  {check.description}
+                </span>
+              </div>
+            </Checkbox>
+          ))}
+        </div>
+
+        <Select
+          description="Ending the reply is safer; dropping the sentence keeps the rest of the answer"
+          isDisabled={isLoading || !config.enabled}
+          label="When a sentence is flagged"
+          selectedKeys={[config.action]}
+          onSelectionChange={(keys) => {
+            const action = Array.from(keys)[0];
+
+            if (action === "truncate" || action === "omit") update({ action });
+          }}
+        >
+          <SelectItem key="truncate">
+            End the reply with the fallback response
+          </SelectItem>
+          <SelectItem key="omit">Drop only the flagged sentence</SelectItem>
+        </Select>
+
+        <Textarea
+          description="Spoken in place of the flagged sentence when the reply is ended"
+          isDisabled={isLoading || !config.enabled}
+          label="Fallback response"
+          maxRows={3}
+          value={config.fallbackResponse}
+          onValueChange={(fallbackResponse) => update({ fallbackResponse })}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Textarea
+            description="One per line; usually narrower than the topics blocked in questions"
+            isDisabled={isLoading || !config.enabled}
+            label="Blocked topics in replies"
+            maxRows={8}
+            value={lists.blockedTopics}
+            onValueChange={(value) => updateList("blockedTopics", value)}
+          />
+          <Textarea
+            description="One per line; flagged when the sentence also names a person"
+            isDisabled={isLoading || !config.enabled}
+            label="Claim phrases about people"
+            maxRows={8}
+            value={lists.realPeopleClaims}
+            onValueChange={(value) => updateList("realPeopleClaims", value)}
+          />
+          <Textarea
+            description="Emails and phone numbers replies may contain; the mental health resources are always allowed"
+            isDisabled={isLoading || !config.enabled}
+            label="Allowed contacts"
+            maxRows={6}
+            value={lists.allowedContacts}
+            onValueChange={(value) => updateList("allowedContacts", value)}
+          />
+          <Input
+            description="Comma separated; any address on these domains is allowed"
+            isDisabled={isLoading || !config.enabled}
+            label="Allowed email domains"
+            value={lists.allowedEmailDomains}
+            onValueChange={(value) => updateList("allowedEmailDomains", value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            color="primary"
+            isDisabled={isLoading}
+            isLoading={isSaving}
+            onPress={saveConfig}
+          >
+            Save output moderation
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -24,11 +24,27 @@ import {
 } from "lucide-react";
 import { addToast } from "@heroui/toast";
 import { type ConversationStarter } from "@/types";
+import type {
+  LLMConversationSummary,
+  LLMModelOverride,
+} from "@/lib/llm/types";
+import type {
+  LLMSourceCitation,
+  LLMToolActivity,
+} from "@/lib/llm/stream-protocol";
+import type { AvatarToolName } from "@/lib/tools/catalog";
+import type { RetrievalSettingsOverride } from "@/lib/rag/retrieval-settings";
+import { upsertToolActivity } from "@/lib/llm/stream-client";
+import { RateLimitError, throwIfRateLimited } from "@/lib/rate-limit/client";
+import SourceCitations from "@/components/source-citations";
+import ToolActivity from "@/components/tool-activity";
 
 interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  sources?: LLMSourceCitation[];
+  tools?: LLMToolActivity[];
 }
 
 interface PreviewChatFullProps {
@@ -37,6 +53,10 @@ interface PreviewChatFullProps {
   avatarId: string;
   avatarName: string;
   systemPrompt: string;
+  llm?: LLMModelOverride;
+  tools?: AvatarToolName[];
+  guardrailProfileId?: string;
+  retrieval?: RetrievalSettingsOverride;
   conversationStarters?: ConversationStarter[];
   messages: ChatMessage[];
   onMessagesUpdate: (messages: ChatMessage[]) => void;
@@ -48,6 +68,10 @@ export default function PreviewChatFull({
   avatarId,
   avatarName,
   systemPrompt,
+  llm,
+  tools,
+  guardrailProfileId,
+  retrieval,
   conversationStarters = [],
   messages,
   onMessagesUpdate,
@@ -55,7 +79,10 @@ export default function PreviewChatFull({
   const [newMessage, setNewMessage] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [streamingTools, setStreamingTools] = useState<LLMToolActivity[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Rolling summary from the preview route, sent back with the next message
+  const summaryRef = useRef<LLMConversationSummary | undefined>(undefined);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -66,6 +93,7 @@ export default function PreviewChatFull({
   }, [messages, streamingContent]);
 
   const clearChat = () => {
+    summaryRef.current = undefined;
     onMessagesUpdate([]);
     addToast({
       title: "Chat Cleared",
@@ -90,6 +118,7 @@ export default function PreviewChatFull({
     setNewMessage("");
     setIsStreaming(true);
     setStreamingContent("");
+    setStreamingTools([]);
 
     try {
       // Send the POST request to the preview endpoint
@@ -105,9 +134,15 @@ export default function PreviewChatFull({
           })),
           avatarId: avatarId,
           systemPrompt: systemPrompt,
+          llm,
+          tools,
+          guardrailProfileId,
+          retrieval,
+          summary: summaryRef.current,
         }),
       });
 
+      await throwIfRateLimited(response);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -123,6 +158,8 @@ export default function PreviewChatFull({
 
         let buffer = "";
         let assistantContent = "";
+        let sources: LLMSourceCitation[] | undefined;
+        let toolActivity: LLMToolActivity[] = [];
 
         while (true) {
           const { done, value } = await reader.read();
@@ -138,7 +175,14 @@ export default function PreviewChatFull({
               try {
                 const data = JSON.parse(line.slice(6));
 
-                if (data.type === "content") {
+                if (data.type === "start" && data.metadata?.summary) {
+                  summaryRef.current = data.metadata.summary;
+                } else if (data.type === "sources") {
+                  sources = data.sources;
+                } else if (data.type === "tool") {
+                  toolActivity = upsertToolActivity(toolActivity, data.tool);
+                  setStreamingTools(toolActivity);
+                } else if (data.type === "content") {
                   assistantContent = data.content;
                   setStreamingContent(assistantContent);
                 } else if (data.type === "end") {
@@ -147,9 +191,12 @@ export default function PreviewChatFull({
                     role: "assistant",
                     content: assistantContent,
                     timestamp: Date.now(),
+                    sources,
+                    tools: toolActivity.length > 0 ? toolActivity : undefined,
                   };
                   onMessagesUpdate([...updatedMessages, assistantMessage]);
                   setStreamingContent("");
+                  setStreamingTools([]);
                   break;
                 } else if (data.type === "error") {
                   throw new Error(data.message);
@@ -167,12 +214,16 @@ export default function PreviewChatFull({
       console.error("Chat error:", error);
       addToast({
         title: "Chat Error",
-        description: "Failed to get response from avatar",
+        description:
+          error instanceof RateLimitError
+            ? error.message
+            : "Failed to get response from avatar",
         color: "danger",
       });
     } finally {
       setIsStreaming(false);
       setStreamingContent("");
+      setStreamingTools([]);
     }
   };
 
@@ -311,9 +362,14 @@ export default function PreviewChatFull({
                             : "bg-default-100 text-default-700"
                         }`}
                       >
+                        <ToolActivity className="mb-2" tools={message.tools} />
                         <p className="whitespace-pre-wrap break-words">
                           {message.content}
                         </p>
+                        <SourceCitations
+                          className="mt-2"
+                          sources={message.sources}
+                        />
                         <p className="text-xs opacity-60 mt-1">
                           {new Date(message.timestamp).toLocaleTimeString()}
                         </p>
@@ -327,12 +383,13 @@ export default function PreviewChatFull({
                   ))}
 
                   {/* Streaming message */}
-                  {streamingContent && (
+                  {(streamingContent || streamingTools.length > 0) && (
                     <div className="flex items-start gap-3 justify-start">
                       <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center flex-shrink-0">
                         <Bot className="w-4 h-4 text-primary-foreground" />
                       </div>
                       <div className="max-w-[75%] p-3 rounded-lg bg-default-100 text-default-700">
+                        <ToolActivity className="mb-2" tools={streamingTools} />
                         <p className="whitespace-pre-wrap break-words">
                           {streamingContent}
                           <span className="animate-pulse">|</span>
@@ -0,0 +1,247 @@
+"use client";
+
+import type {
+  PromptSectionName,
+  PromptTemplate,
+  PromptTemplateVariables,
+} from "@/lib/prompts/prompt-template";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Input, Textarea } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { AlertCircle, History, RotateCcw } from "lucide-react";
+
+import {
+  PROMPT_SECTIONS,
+  PROMPT_VARIABLES,
+  renderPromptTemplate,
+} from "@/lib/prompts/prompt-template";
+
+interface PromptTemplateEditorProps {
+  avatarId?: string; // Unset for avatars that have not been saved yet
+  avatarName: string;
+  avatarTitle: string;
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+  onRestore: (template: PromptTemplate) => void;
+}
+
+// Sections edited here; persona and speech pattern have their own controls
+const EDITABLE_SECTIONS: PromptSectionName[] = ["guardrails", "knowledge"];
+
+const SECTION_PLACEHOLDERS: Partial<Record<PromptSectionName, string>> = {
+  guardrails:
+    "e.g. Do not discuss admissions decisions for individual applicants.",
+  knowledge:
+    "e.g. Prefer the knowledge base over general knowledge and say when it has no answer.",
+};
+
+// Template sections, variables, rendered preview and version history for an
+// avatar's system prompt
+export default function PromptTemplateEditor({
+  avatarId,
+  avatarName,
+  avatarTitle,
+  template,
+  onChange,
+  onRestore,
+}: PromptTemplateEditorProps) {
+  const [versions, setVersions] = useState<PromptTemplate[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<string>("");
+
+  const rendered = useMemo(
+    () => renderPromptTemplate(template, { avatarName, avatarTitle }),
+    [template, avatarName, avatarTitle]
+  );
+
+  useEffect(() => {
+    if (!avatarId) return;
+
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(
+          `/api/avatar/prompt-versions?id=${encodeURIComponent(avatarId)}`
+        );
+
+        if (!response.ok) throw new Error("Failed to load prompt versions");
+
+        const data = await response.json();
+
+        setVersions(data.versions || []);
+      } catch (error) {
+        console.error("Failed to load prompt versions:", error);
+      }
+    };
+
+    loadVersions();
+  }, [avatarId]);
+
+  const updateSection = (name: PromptSectionName, content: string) => {
+    onChange({
+      ...template,
+      sections: {
+        ...template.sections,
+        [name]: { ...template.sections[name], content },
+      },
+    });
+  };
+
+  const updateVariable = (
+    name: keyof PromptTemplateVariables,
+    value: string
+  ) => {
+    onChange({
+      ...template,
+      variables: { ...template.variables, [name]: value || undefined },
+    });
+  };
+
+  const restoreVersion = () => {
+    const version = versions.find(
+      (candidate) => String(candidate.version) === selectedVersion
+    );
+
+    if (version) {
+      onRestore(version);
+      setSelectedVersion("");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Prompt Template</h3>
+        <p className="text-sm text-default-500">
+          The system prompt is rendered from these sections in order. Use{" "}
+          <code>{"{{variable}}"}</code> placeholders in any section.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          description="Fills {{kioskLocation}}"
+          label="Kiosk location"
+          placeholder="e.g. Peter B. Lewis Building lobby"
+          value={template.variables.kioskLocation || ""}
+          onValueChange={(value) => updateVariable("kioskLocation", value)}
+        />
+        <Select
+          description="Fills {{language}}"
+          label="Language"
+          selectedKeys={[template.variables.language || "English"]}
+          onSelectionChange={(keys) => {
+            const value = Array.from(keys)[0];
+
+            if (value) updateVariable("language", String(value));
+          }}
+        >
+          {(
+            PROMPT_VARIABLES.find((variable) => variable.name === "language")
+              ?.options || []
+          ).map((option) => (
+            <SelectItem key={option}>{option}</SelectItem>
+          ))}
+        </Select>
+      </div>
+
+      {EDITABLE_SECTIONS.map((name) => {
+        const info = PROMPT_SECTIONS.find((section) => section.name === name);
+
+        return (
+          <Textarea
+            key={name}
+            description={info?.description}
+            label={info?.label}
+            maxRows={20}
+            minRows={3}
+            placeholder={SECTION_PLACEHOLDERS[name]}
+            value={template.sections[name].content}
+            onValueChange={(value) => updateSection(name, value)}
+          />
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        {PROMPT_VARIABLES.map((variable) => (
+          <Chip
+            key={variable.name}
+            size="sm"
+            title={variable.description}
+            variant="flat"
+          >
+            {`{{${variable.name}}}`}
+          </Chip>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Rendered Prompt</h4>
+        {(rendered.missingVariables.length > 0 ||
+          rendered.unknownVariables.length > 0) && (
+          <div className="flex items-start gap-2 text-sm text-warning-600">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              {rendered.missingVariables.length > 0 && (
+                <p>
+                  No value for: {rendered.missingVariables.join(", ")}
+                </p>
+              )}
+              {rendered.unknownVariables.length > 0 && (
+                <p>
+                  Unknown placeholders left as written:{" "}
+                  {rendered.unknownVariables.join(", ")}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-lg bg-default-100 p-3 text-xs">
+          {rendered.prompt || "The prompt is empty"}
+        </pre>
+        <p className="text-xs text-default-500">
+          Global guardrails and retrieved knowledge base passages are added to
+          this prompt when each message is answered.
+        </p>
+      </div>
+
+      {avatarId && (
+        <div className="flex items-end gap-2">
+          <Select
+            className="flex-1"
+            isDisabled={versions.length === 0}
+            label="Version history"
+            placeholder={
+              versions.length === 0
+                ? "No saved versions yet"
+                : "Choose a version to restore"
+            }
+            selectedKeys={selectedVersion ? [selectedVersion] : []}
+            startContent={<History className="w-4 h-4" />}
+            onSelectionChange={(keys) =>
+              setSelectedVersion(String(Array.from(keys)[0] || ""))
+            }
+          >
+            {versions.map((version) => (
+              <SelectItem
+                key={String(version.version)}
+                textValue={`Version ${version.version}`}
+              >
+                {`Version ${version.version} · ${new Date(version.updatedAt).toLocaleString()} · ${version.updatedBy}`}
+              </SelectItem>
+            ))}
+          </Select>
+          <Button
+            isDisabled={!selectedVersion}
+            startContent={<RotateCcw className="w-4 h-4" />}
+            variant="bordered"
+            onPress={restoreVersion}
+          >
+            Restore
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import type {
+  QueryRewriteMode,
+  RerankerName,
+  RetrievalSettingsOverride,
+} from "@/lib/rag/retrieval-settings";
+
+import { Button } from "@heroui/button";
+import { Select, SelectItem } from "@heroui/select";
+import { Slider } from "@heroui/slider";
+
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  QUERY_REWRITE_OPTIONS,
+  RERANKER_OPTIONS,
+} from "@/lib/rag/retrieval-settings";
+
+interface RetrievalSettingsEditorProps {
+  value?: RetrievalSettingsOverride;
+  onChange: (value: RetrievalSettingsOverride | undefined) => void;
+}
+
+// Sentinel key for "no override" since Select keys cannot be empty
+const DEFAULT_KEY = "default";
+
+export default function RetrievalSettingsEditor({
+  value,
+  onChange,
+}: RetrievalSettingsEditorProps) {
+  const vectorWeight =
+    value?.vectorWeight ?? DEFAULT_RETRIEVAL_SETTINGS.vectorWeight;
+  const update = (changes: RetrievalSettingsOverride) =>
+    onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <Slider
+        getValue={(weight) =>
+          `${Math.round(Number(weight) * 100)}% meaning / ${Math.round((1 - Number(weight)) * 100)}% keywords`
+        }
+        label="Meaning vs. exact keywords"
+        maxValue={1}
+        minValue={0}
+        size="sm"
+        step={0.05}
+        value={vectorWeight}
+        onChange={(weight) => {
+          const vector = Number(weight);
+
+          update({
+            vectorWeight: vector,
+            lexicalWeight: Math.round((1 - vector) * 100) / 100,
+          });
+        }}
+      />
+      <p className="text-xs text-default-500">
+        Raise the keyword share if visitors ask for names, course codes or phone
+        numbers that the avatar misses.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Select
+          description="Rescores the best passages before they reach the prompt"
+          label="Reranker"
+          selectedKeys={[value?.reranker || DEFAULT_KEY]}
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0] as string;
+
+            update({
+              reranker:
+                !key || key === DEFAULT_KEY ? undefined : (key as RerankerName),
+            });
+          }}
+        >
+          {[
+            <SelectItem key={DEFAULT_KEY}>Server default</SelectItem>,
+            ...RERANKER_OPTIONS.map((option) => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            )),
+          ]}
+        </Select>
+        <Slider
+          label="Candidates per retriever"
+          maxValue={50}
+          minValue={5}
+          size="sm"
+          step={5}
+          value={value?.candidates ?? DEFAULT_RETRIEVAL_SETTINGS.candidates}
+          onChange={(candidates) => update({ candidates: Number(candidates) })}
+        />
+        <Select
+          description="Turns follow-ups like “what about its tuition?” into a search the knowledge base can answer"
+          label="Query rewriting"
+          selectedKeys={[
+            value?.queryRewrite || DEFAULT_RETRIEVAL_SETTINGS.queryRewrite,
+          ]}
+          onSelectionChange={(keys) => {
+            const key = Array.from(keys)[0] as QueryRewriteMode | undefined;
+
+            if (key) update({ queryRewrite: key });
+          }}
+        >
+          {QUERY_REWRITE_OPTIONS.map((option) => (
+            <SelectItem key={option.key}>{option.label}</SelectItem>
+          ))}
+        </Select>
+      </div>
+      {value && (
+        <Button size="sm" variant="light" onPress={() => onChange(undefined)}>
+          Reset to defaults
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import type { LLMSourceCitation } from "@/lib/llm/stream-protocol";
+
+import { FileText } from "lucide-react";
+
+import { formatCitationLocation, getCitationUrl } from "@/lib/rag/citations";
+
+interface SourceCitationsProps {
+  sources?: LLMSourceCitation[];
+  className?: string;
+}
+
+// Knowledge base passages an assistant reply was grounded in, as links to
+// the cited documents
+export default function SourceCitations({
+  sources,
+  className = "",
+}: SourceCitationsProps) {
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {sources.map((source) => {
+        const location = formatCitationLocation(source);
+
+        return (
+          <a
+            key={`${source.label}-${source.sourceId}-${source.chunkIndex}`}
+            className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-default-200 text-default-700 hover:bg-default-300"
+            href={getCitationUrl(source)}
+            rel="noopener noreferrer"
+            target="_blank"
+            title={`Passage ${source.chunkIndex + 1} · relevance ${Math.round(source.score * 100)}%`}
+          >
+            <FileText className="w-3 h-3" />
+            <span>
+              [{source.label}] {source.title}
+              {location && (
+                <span className="text-default-500"> · {location}</span>
+              )}
+            </span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import type { LLMToolActivity } from "@/lib/llm/stream-protocol";
+
+import { Wrench } from "lucide-react";
+
+import { AVATAR_TOOL_CATALOG } from "@/lib/tools/catalog";
+
+interface ToolActivityProps {
+  tools?: LLMToolActivity[];
+  className?: string;
+}
+
+function getToolLabel(tool: LLMToolActivity): string {
+  if (tool.status === "running") return tool.label;
+
+  const name =
+    AVATAR_TOOL_CATALOG.find((entry) => entry.name === tool.name)?.label ||
+    tool.name;
+
+  return tool.status === "failed" ? `${name} (failed)` : name;
+}
+
+// Tools the avatar called while producing a reply
+export default function ToolActivity({
+  tools,
+  className = "",
+}: ToolActivityProps) {
+  if (!tools || tools.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tools.map((tool) => (
+        <span
+          key={tool.callId}
+          className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${
+            tool.status === "failed"
+              ? "bg-danger-100 text-danger-700"
+              : "bg-secondary-100 text-secondary-700"
+          } ${tool.status === "running" ? "animate-pulse" : ""}`}
+          title={tool.resultPreview || JSON.stringify(tool.arguments || {})}
+        >
+          <Wrench className="w-3 h-3" />
+          <span>{getToolLabel(tool)}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import type { UsageGroupBy, UsageReport } from "@/lib/usage/usage-ledger";
+
+import { useEffect, useState } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody } from "@heroui/card";
+import { Select, SelectItem } from "@heroui/select";
+import { Spinner } from "@heroui/spinner";
+import { Download } from "lucide-react";
+
+import { avatarStorage } from "@/lib/avatar-storage";
+
+const RANGE_OPTIONS = [
+  { key: "7", label: "Last 7 days" },
+  { key: "30", label: "Last 30 days" },
+  { key: "90", label: "Last 90 days" },
+];
+
+const GROUP_BY_OPTIONS: { key: UsageGroupBy; label: string }[] = [
+  { key: "avatar", label: "Avatar" },
+  { key: "case", label: "Case" },
+  { key: "cohort", label: "Cohort" },
+  { key: "user", label: "User" },
+  { key: "model", label: "Model" },
+  { key: "operation", label: "Operation" },
+];
+
+function formatCost(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(value: number) {
+  return value.toLocaleString();
+}
+
+// Token and cost usage from the usage ledger, for the admin dashboard
+export default function UsageBreakdown() {
+  const [range, setRange] = useState("30");
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>("avatar");
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [avatarNames, setAvatarNames] = useState<Record<string, string>>({});
+
+  // Load avatar names so the avatar breakdown is readable
+  useEffect(() => {
+    async function loadAvatars() {
+      try {
+        const avatarList = await avatarStorage.list();
+
+        setAvatarNames(
+          Object.fromEntries(
+            avatarList.map((avatar) => [avatar.id, avatar.name])
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load avatars:", err);
+      }
+    }
+    loadAvatars();
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [range, groupBy]);
+
+  function buildParams() {
+    const startDate = new Date();
+
+    startDate.setDate(startDate.getDate() - parseInt(range));
+    startDate.setHours(0, 0, 0, 0);
+
+    return new URLSearchParams({
+      startDate: startDate.toISOString(),
+      groupBy,
+    });
+  }
+
+  async function fetchReport() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/usage?${buildParams().toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setReport(data.report);
+      } else {
+        setError(data.error || "Unknown error");
+      }
+    } catch (e: any) {
+      setError(e.message || "Failed to fetch usage");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleExport = () => {
+    const params = buildParams();
+
+    params.set("format", "csv");
+    window.open(`/api/usage?${params.toString()}`, "_blank");
+  };
+
+  function formatKey(key: string | null) {
+    if (key === null) return "(unattributed)";
+    if (groupBy === "avatar") return avatarNames[key] || key;
+
+    return key;
+  }
+
+  const maxDailyCost = Math.max(
+    0,
+    ...(report?.daily || []).map((d) => d.costUsd)
+  );
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex gap-3">
+          <Select
+            className="w-44"
+            label="Date range"
+            selectedKeys={[range]}
+            size="sm"
+            onSelectionChange={(keys) =>
+              setRange((Array.from(keys)[0] as string) || "30")
+            }
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
+          <Select
+            className="w-44"
+            label="Group by"
+            selectedKeys={[groupBy]}
+            size="sm"
+            onSelectionChange={(keys) =>
+              setGroupBy((Array.from(keys)[0] as UsageGroupBy) || "avatar")
+            }
+          >
+            {GROUP_BY_OPTIONS.map((option) => (
+              <SelectItem key={option.key}>{option.label}</SelectItem>
+            ))}
+          </Select>
+        </div>
+        <Button
+          color="success"
+          startContent={<Download size={16} />}
+          variant="bordered"
+          onPress={handleExport}
+        >
+          Export CSV
+        </Button>
+      </div>
+
+      {loading && <Spinner label="Loading usage..." />}
+      {error && <div className="text-red-500">Error: {error}</div>}
+
+      {!loading && !error && report && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">Requests</p>
+                <p className="text-2xl font-bold">
+                  {report.totals.requests.toLocaleString()}
+                </p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">Input tokens</p>
+                <p className="text-2xl font-bold">
+                  {formatTokens(report.totals.inputTokens)}
+                </p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">Output tokens</p>
+                <p className="text-2xl font-bold">
+                  {formatTokens(report.totals.outputTokens)}
+                </p>
+              </CardBody>
+            </Card>
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">Cost</p>
+                <p className="text-2xl font-bold">
+                  {formatCost(report.totals.costUsd)}
+                </p>
+              </CardBody>
+            </Card>
+          </div>
+
+          {/* Daily cost trend */}
+          {report.daily.length > 0 && (
+            <div className="mb-6">
+              <h3 className="font-semibold mb-3">Daily cost</h3>
+              <div className="space-y-2">
+                {report.daily.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <span className="text-sm w-28">
+                      {new Date(`${day.date}T00:00:00`).toLocaleDateString(
+                        "en-US",
+                        { weekday: "short", month: "short", day: "numeric" }
+                      )}
+                    </span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-blue-500 h-2 rounded-full"
+                        style={{
+                          width: `${maxDailyCost > 0 ? Math.max(2, (day.costUsd / maxDailyCost) * 100) : 0}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="text-sm font-medium w-24 text-right">
+                      {formatCost(day.costUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Breakdown */}
+          {report.breakdown.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border text-sm bg-white dark:bg-black">
+                <thead>
+                  <tr className="bg-gray-100 dark:bg-gray-800">
+                    <th className="p-2 border">
+                      {GROUP_BY_OPTIONS.find((o) => o.key === groupBy)?.label}
+                    </th>
+                    <th className="p-2 border">Requests</th>
+                    <th className="p-2 border">Input tokens</th>
+                    <th className="p-2 border">Output tokens</th>
+                    <th className="p-2 border">Avg latency</th>
+                    <th className="p-2 border">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.breakdown.map((row) => (
+                    <tr
+                      key={row.key ?? "__none__"}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-900"
+                    >
+                      <td className="p-2 border truncate max-w-xs">
+                        {formatKey(row.key)}
+                      </td>
+                      <td className="p-2 border text-right">{row.requests}</td>
+                      <td className="p-2 border text-right">
+                        {formatTokens(row.inputTokens)}
+                      </td>
+                      <td className="p-2 border text-right">
+                        {formatTokens(row.outputTokens)}
+                      </td>
+                      <td className="p-2 border text-right">
+                        {row.avgLatencyMs} ms
+                      </td>
+                      <td className="p-2 border text-right">
+                        {formatCost(row.costUsd)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-500">No usage recorded in this period.</p>
+          )}
+        </>
+      )}
+    </>
+  );
+}
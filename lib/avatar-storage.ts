@@ -2,13 +2,18 @@ import { openDB, DBSchema, IDBPDatabase } from "idb";
 
 import type { ConversationStarter, StartAvatarRequest } from "../types";
 import type { SpeechPatternAnalysis } from "./speech-analysis";
+import type { LLMModelOverride } from "./llm/types";
+import type { AvatarToolName } from "./tools/catalog";
+import type { PromptTemplate } from "./prompts/prompt-template";
+import type { RetrievalSettingsOverride } from "./rag/retrieval-settings";
 
 // Core avatar data structure
 export interface Avatar {
   id: string;
   name: string;
   title?: string; // Professional title (e.g., "Professor, Organizational Behavior")
-  systemPrompt: string;
+  systemPrompt: string; // Rendered from promptTemplate when saved; the whole prompt for older avatars
+  promptTemplate?: PromptTemplate;
   conversationStarters?: ConversationStarter[];
   topics?: string[]; // Separate topics array for display
   portrait?: string; // URL to portrait photo
@@ -26,6 +31,10 @@ export interface Avatar {
     type: "audio" | "transcript" | "pdf";
     uploadedAt: string;
   }>;
+  llm?: LLMModelOverride; // Model used for this avatar's chats; unset fields use the route default
+  tools?: AvatarToolName[]; // Tools the model may call during this avatar's chats
+  guardrailProfileId?: string; // Guardrail profile adjusting the global guardrails; empty for none
+  retrieval?: RetrievalSettingsOverride; // Knowledge base search weights, reranker and query rewriting; unset fields use the defaults
 }
 
 // Version tracking
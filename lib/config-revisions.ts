@@ -0,0 +1,439 @@
+/**
+ * Version history for system config objects
+ * Every save of a revisioned config (guardrails, CTA config, guardrail
+ * profiles, ...) is kept as an immutable revision with its author and a diff
+ * against the revision before it. Stored in AWS S3 as JSON (following
+ * existing pattern):
+ *
+ *   system/revisions/{config}/index.json       - summaries, newest first
+ *   system/revisions/{config}/{version}.json   - one snapshot per revision
+ *
+ * The index is only written if it is unchanged since it was read (S3
+ * conditional writes), so two saves at once cannot both take a version or
+ * drop each other's revision; the one that loses diffs against the winner's
+ * revision and tries again.
+ *
+ * Rollbacks live in lib/system-configs.ts, which knows how to write each
+ * config back; this module only records and reads revisions.
+ */
+
+import type { PutObjectCommandInput } from "@aws-sdk/client-s3";
+
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+
+// S3 client configuration (following existing pattern)
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION || "us-east-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+});
+
+const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
+const REVISIONS_PREFIX = "system/revisions/";
+
+// Saves racing for the same version re-read the index and diff again
+const MAX_RECORD_ATTEMPTS = 5;
+
+// Save metadata, which changes on every save and says nothing about the config
+const METADATA_FIELDS = new Set(["lastUpdated", "updatedBy"]);
+
+export type SystemConfigName =
+  | "guardrails"
+  | "cta"
+  | "guardrail-profiles"
+  | "events-feed"
+  | "guardrails-test-suite";
+
+export const SYSTEM_CONFIG_NAMES: SystemConfigName[] = [
+  "guardrails",
+  "cta",
+  "guardrail-profiles",
+  "events-feed",
+  "guardrails-test-suite",
+];
+
+export interface ConfigChange {
+  path: string; // e.g. blockedTopics, outputModeration.action, profiles[mba]
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ConfigRevisionSummary {
+  version: number;
+  createdAt: string;
+  author: string;
+  changedFields: string[]; // Top-level fields touched by the revision
+  changeCount: number;
+  restoredFrom?: number; // Set when the revision is a rollback
+  baseline?: boolean; // The config as found before history was kept
+}
+
+export interface ConfigRevision extends ConfigRevisionSummary {
+  config: SystemConfigName;
+  changes: ConfigChange[];
+  snapshot: unknown;
+}
+
+export interface ConfigRevisionOptions {
+  previous?: unknown; // The config being replaced, for the first revision's diff
+  restoredFrom?: number;
+}
+
+export function isSystemConfigName(value: unknown): value is SystemConfigName {
+  return SYSTEM_CONFIG_NAMES.includes(value as SystemConfigName);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Arrays of objects with ids (profiles, test cases) are compared item by item
+function hasIds(items: unknown[]): items is Array<{ id: string }> {
+  return items.every(
+    (item) => isPlainObject(item) && typeof item.id === "string"
+  );
+}
+
+/**
+ * Changes between two config snapshots. Lists of strings report the items
+ * added and removed; lists of objects with ids are matched by id; everything
+ * else is compared field by field. Save metadata is ignored.
+ */
+export function diffConfigs(
+  before: unknown,
+  after: unknown,
+  path: string = ""
+): ConfigChange[] {
+  if (isEqual(before, after)) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (hasIds(before) && hasIds(after)) {
+      const previous = new Map(before.map((item) => [item.id, item]));
+      const next = new Map(after.map((item) => [item.id, item]));
+      const changes: ConfigChange[] = [];
+
+      previous.forEach((item, id) => {
+        if (!next.has(id)) {
+          changes.push({ path: `${path}[${id}]`, type: "removed", before: item });
+        }
+      });
+      next.forEach((item, id) => {
+        changes.push(
+          ...(previous.has(id)
+            ? diffConfigs(previous.get(id), item, `${path}[${id}]`)
+            : [{ path: `${path}[${id}]`, type: "added" as const, after: item }])
+        );
+      });
+
+      return changes;
+    }
+
+    if (
+      [...before, ...after].every((item) => !isPlainObject(item) && !Array.isArray(item))
+    ) {
+      const removed = before.filter(
+        (item) => !after.some((other) => isEqual(item, other))
+      );
+      const added = after.filter(
+        (item) => !before.some((other) => isEqual(item, other))
+      );
+
+      // Same items in a different order
+      if (removed.length === 0 && added.length === 0) {
+        return [{ path, type: "changed", before, after }];
+      }
+
+      return [
+        ...removed.map((item) => ({ path, type: "removed" as const, before: item })),
+        ...added.map((item) => ({ path, type: "added" as const, after: item })),
+      ];
+    }
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return Array.from(keys)
+      .filter((key) => !METADATA_FIELDS.has(key))
+      .flatMap((key) =>
+        diffConfigs(before[key], after[key], path ? `${path}.${key}` : key)
+      );
+  }
+
+  if (before === undefined) return [{ path, type: "added", after }];
+  if (after === undefined) return [{ path, type: "removed", before }];
+
+  return [{ path, type: "changed", before, after }];
+}
+
+// Another save wrote the index after it was read
+class RevisionIndexConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionIndexConflictError";
+  }
+}
+
+interface RevisionIndex {
+  summaries: ConfigRevisionSummary[];
+  etag?: string; // Unset when the config has no revisions yet
+}
+
+type NewRevision = Pick<ConfigRevision, "snapshot" | "author" | "changes"> &
+  Pick<ConfigRevisionSummary, "restoredFrom" | "baseline">;
+
+function topLevelFields(changes: ConfigChange[]): string[] {
+  return Array.from(
+    new Set(changes.map((change) => change.path.split(/[.[]/)[0]))
+  );
+}
+
+class ConfigRevisionStore {
+  /**
+   * Record a save. Saves that change nothing but the metadata are skipped,
+   * so autosaved settings do not flood the history. The first recorded save
+   * also keeps the config it replaced, so it can be rolled back to.
+   */
+  async record(
+    config: SystemConfigName,
+    snapshot: unknown,
+    author: string,
+    options: ConfigRevisionOptions = {}
+  ): Promise<ConfigRevisionSummary | null> {
+    for (let attempt = 1; ; attempt++) {
+      const index = await this.readIndex(config);
+      const revisions: NewRevision[] = [];
+      let previous: unknown;
+
+      if (index.summaries.length > 0) {
+        const latest = await this.get(config, index.summaries[0].version);
+
+        // Listed by a save still writing it; the last attempt records
+        // without a diff rather than not at all
+        if (!latest && attempt < MAX_RECORD_ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, 100 * attempt));
+          continue;
+        }
+
+        previous = latest?.snapshot;
+      } else if (options.previous !== undefined) {
+        revisions.push({
+          snapshot: options.previous,
+          author:
+            (options.previous as { updatedBy?: string }).updatedBy || "Unknown",
+          changes: [],
+          baseline: true,
+        });
+
+        previous = options.previous;
+      }
+
+      const changes =
+        previous === undefined ? [] : diffConfigs(previous, snapshot);
+
+      if (previous !== undefined && changes.length === 0) return null;
+
+      revisions.push({
+        snapshot,
+        author,
+        changes,
+        restoredFrom: options.restoredFrom,
+      });
+
+      try {
+        return await this.write(config, index, revisions);
+      } catch (error) {
+        if (
+          !(error instanceof RevisionIndexConflictError) ||
+          attempt >= MAX_RECORD_ATTEMPTS
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Revision summaries, newest first
+   */
+  async list(config: SystemConfigName): Promise<ConfigRevisionSummary[]> {
+    return (await this.readIndex(config)).summaries;
+  }
+
+  async get(
+    config: SystemConfigName,
+    version: number
+  ): Promise<ConfigRevision | null> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: this.revisionKey(config, version),
+      });
+
+      const result = await s3Client.send(command);
+
+      return result.Body
+        ? JSON.parse(await result.Body.transformToString())
+        : null;
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") return null;
+      console.error("Error loading config revision:", error);
+      throw new Error("Failed to load config revision");
+    }
+  }
+
+  /**
+   * Takes the next versions for the revisions, oldest first, by writing the
+   * index as it was read plus their summaries, then writes the revision
+   * objects. Returns the newest revision's summary.
+   */
+  private async write(
+    config: SystemConfigName,
+    index: RevisionIndex,
+    revisions: NewRevision[]
+  ): Promise<ConfigRevisionSummary> {
+    const latestVersion = index.summaries[0]?.version || 0;
+    const createdAt = new Date().toISOString();
+    const summaries: ConfigRevisionSummary[] = revisions.map((revision, i) => ({
+      version: latestVersion + i + 1,
+      createdAt,
+      author: revision.author,
+      changedFields: topLevelFields(revision.changes),
+      changeCount: revision.changes.length,
+      restoredFrom: revision.restoredFrom,
+      baseline: revision.baseline,
+    }));
+    const newest = summaries[summaries.length - 1];
+
+    const etag = await this.putIndex(
+      config,
+      [...summaries].reverse().concat(index.summaries),
+      index.etag
+    );
+
+    try {
+      for (const [i, summary] of summaries.entries()) {
+        const stored: ConfigRevision = {
+          ...summary,
+          config,
+          changes: revisions[i].changes,
+          snapshot: revisions[i].snapshot,
+        };
+
+        await this.put(this.revisionKey(config, summary.version), stored);
+      }
+    } catch (error) {
+      // Give the versions back rather than list revisions that are missing
+      await this.putIndex(config, index.summaries, etag).catch((rollbackError) =>
+        console.error("Error removing unsaved config revisions:", rollbackError)
+      );
+      throw error;
+    }
+
+    return newest;
+  }
+
+  private async readIndex(config: SystemConfigName): Promise<RevisionIndex> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: this.indexKey(config),
+      });
+
+      const result = await s3Client.send(command);
+
+      return {
+        summaries: result.Body
+          ? JSON.parse(await result.Body.transformToString())
+          : [],
+        etag: result.ETag,
+      };
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") return { summaries: [] };
+      console.error("Error loading config revision index:", error);
+      throw new Error("Failed to load config revisions");
+    }
+  }
+
+  /**
+   * Write the index only if it is still the one read (`etag`), or still
+   * missing when there was none. Returns the new index's ETag.
+   */
+  private async putIndex(
+    config: SystemConfigName,
+    summaries: ConfigRevisionSummary[],
+    etag: string | undefined
+  ): Promise<string | undefined> {
+    try {
+      return await this.put(this.indexKey(config), summaries, {
+        IfMatch: etag,
+        IfNoneMatch: etag ? undefined : "*",
+      });
+    } catch (error: any) {
+      const status = error?.$metadata?.httpStatusCode;
+
+      // 412 when the index changed, 409 when another write is in progress
+      if (status === 412 || status === 409) {
+        throw new RevisionIndexConflictError(
+          `The ${config} revision index was changed by another save`
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async put(
+    key: string,
+    body: unknown,
+    conditions: Pick<PutObjectCommandInput, "IfMatch" | "IfNoneMatch"> = {}
+  ): Promise<string | undefined> {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      Body: JSON.stringify(body, null, 2),
+      ContentType: "application/json",
+      ...conditions,
+    });
+
+    return (await s3Client.send(command)).ETag;
+  }
+
+  private indexKey(config: SystemConfigName): string {
+    return `${REVISIONS_PREFIX}${config}/index.json`;
+  }
+
+  private revisionKey(config: SystemConfigName, version: number): string {
+    return `${REVISIONS_PREFIX}${config}/${String(version).padStart(6, "0")}.json`;
+  }
+}
+
+// Export singleton instance
+export const configRevisions = new ConfigRevisionStore();
+
+/**
+ * Record a save without failing it: the config is already written, and a
+ * missing revision is better than an error for a save that succeeded
+ */
+export async function recordConfigRevision(
+  config: SystemConfigName,
+  snapshot: unknown,
+  author: string,
+  options?: ConfigRevisionOptions
+): Promise<void> {
+  try {
+    await configRevisions.record(config, snapshot, author, options);
+  } catch (error) {
+    console.error(`Failed to record ${config} config revision:`, error);
+  }
+}
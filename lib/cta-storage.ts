@@ -20,6 +20,7 @@
  */
 
 import { s3Storage } from "./s3-client";
+import { recordConfigRevision } from "./config-revisions";
 import type { 
   CTAConfig, 
   CTASubmission, 
@@ -100,10 +101,11 @@ class CTAStorage {
   /**
    * Update CTA Configuration
    * 
-   * Saves updated CTA configuration to S3.
-   * Used by admin portal to update settings.
+   * Saves updated CTA configuration to S3 and keeps it in the version history.
+   * Used by admin portal to update settings, and for rollbacks, where
+   * `restoredFrom` is the revision being restored.
    */
-  async updateConfig(config: Partial<CTAConfig>, updatedBy: string): Promise<CTAConfig> {
+  async updateConfig(config: Partial<CTAConfig>, updatedBy: string, restoredFrom?: number): Promise<CTAConfig> {
     // Get current config and merge with updates
     const currentConfig = await this.getConfig();
     const updatedConfig: CTAConfig = {
@@ -115,11 +117,39 @@ class CTAStorage {
 
     // Save to S3
     await this.saveConfigToS3(updatedConfig);
+    await recordConfigRevision("cta", updatedConfig, updatedBy, {
+      previous: currentConfig,
+      restoredFrom,
+    });
     
     console.log(`CTA config updated by ${updatedBy}`);
     return updatedConfig;
   }
 
+  /**
+   * Replace CTA Configuration
+   * 
+   * Writes a revision's snapshot back as the whole configuration, without
+   * merging it into the current one. Used for rollbacks.
+   */
+  async replaceConfig(config: CTAConfig, updatedBy: string, restoredFrom?: number): Promise<CTAConfig> {
+    const currentConfig = await this.getConfig();
+    const replacedConfig: CTAConfig = {
+      ...config,
+      lastUpdated: new Date().toISOString(),
+      updatedBy
+    };
+
+    await this.saveConfigToS3(replacedConfig);
+    await recordConfigRevision("cta", replacedConfig, updatedBy, {
+      previous: currentConfig,
+      restoredFrom,
+    });
+
+    console.log(`CTA config restored from revision ${restoredFrom} by ${updatedBy}`);
+    return replacedConfig;
+  }
+
   /**
    * Save Form Submission
    * 
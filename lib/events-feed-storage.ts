@@ -0,0 +1,149 @@
+/**
+ * Storage service for the events feed
+ * Admin-managed list of upcoming events that avatars can look up through the
+ * events tool. Stored in AWS S3 as JSON (following existing pattern)
+ */
+
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+
+import { recordConfigRevision } from "./config-revisions";
+
+// S3 client configuration (following existing pattern)
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION || "us-east-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+});
+
+const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
+const EVENTS_FEED_KEY = "system/events-feed.json";
+
+export interface FeedEvent {
+  title: string;
+  start: string; // ISO date or date-time
+  end?: string;
+  location?: string;
+  description?: string;
+  url?: string;
+}
+
+export interface EventsFeed {
+  events: FeedEvent[];
+  lastUpdated: string;
+  updatedBy: string;
+}
+
+export const EMPTY_EVENTS_FEED: EventsFeed = {
+  events: [],
+  lastUpdated: new Date(0).toISOString(),
+  updatedBy: "System",
+};
+
+// Returns a list of problems; an empty list means the events are valid
+export function validateFeedEvents(events: unknown): string[] {
+  if (!Array.isArray(events)) {
+    return ["events must be an array"];
+  }
+
+  const errors: string[] = [];
+
+  events.forEach((event, index) => {
+    if (!event || typeof event !== "object") {
+      errors.push(`Event ${index + 1} must be an object`);
+
+      return;
+    }
+
+    const { title, start, end } = event as Partial<FeedEvent>;
+
+    if (!title || typeof title !== "string") {
+      errors.push(`Event ${index + 1} needs a title`);
+    }
+    if (!start || isNaN(new Date(start).getTime())) {
+      errors.push(`Event ${index + 1} needs a valid start date`);
+    }
+    if (end && isNaN(new Date(end).getTime())) {
+      errors.push(`Event ${index + 1} has an invalid end date`);
+    }
+  });
+
+  return errors;
+}
+
+class EventsFeedStorage {
+  /**
+   * Get the events feed; an empty feed when none has been saved yet
+   */
+  async getFeed(): Promise<EventsFeed> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: EVENTS_FEED_KEY,
+      });
+
+      const result = await s3Client.send(command);
+
+      if (result.Body) {
+        return JSON.parse(await result.Body.transformToString());
+      }
+
+      return EMPTY_EVENTS_FEED;
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") {
+        return EMPTY_EVENTS_FEED;
+      }
+      console.error("Error loading events feed:", error);
+      throw new Error("Failed to load events feed");
+    }
+  }
+
+  /**
+   * Replace the events in the feed. `restoredFrom` marks a rollback to that
+   * revision in the version history
+   */
+  async saveEvents(
+    events: FeedEvent[],
+    updatedBy: string = "Unknown",
+    restoredFrom?: number
+  ): Promise<EventsFeed> {
+    const previous = await this.getFeed();
+    const feed: EventsFeed = {
+      // Kept in date order so the feed reads naturally when edited by hand
+      events: [...events].sort(
+        (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+      ),
+      lastUpdated: new Date().toISOString(),
+      updatedBy,
+    };
+
+    try {
+      const command = new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: EVENTS_FEED_KEY,
+        Body: JSON.stringify(feed, null, 2),
+        ContentType: "application/json",
+      });
+
+      await s3Client.send(command);
+    } catch (error) {
+      console.error("Error saving events feed:", error);
+      throw new Error("Failed to save events feed");
+    }
+
+    await recordConfigRevision("events-feed", feed, updatedBy, {
+      previous,
+      restoredFrom,
+    });
+
+    return feed;
+  }
+}
+
+// Export singleton instance
+export const eventsFeedStorage = new EventsFeedStorage();
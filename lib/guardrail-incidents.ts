@@ -0,0 +1,243 @@
+/**
+ * Guardrail incident log - one PostgreSQL row per guardrail intervention.
+ *
+ * Blocked visitor messages, mental health redirections and withheld reply
+ * sentences are all recorded with the rule that matched and the avatar,
+ * session and user involved. Admins review them on
+ * /system-settings/guardrail-incidents; rules with many false positives can be
+ * removed from the topic lists from there.
+ */
+
+import type { GuardrailIntervention } from "@prisma/client";
+import type { GuardrailsConfig } from "./guardrails-storage";
+import type { UsageAttribution } from "./usage/usage-ledger";
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "./prisma";
+
+export type GuardrailIncidentStage = "input" | "output";
+
+export type GuardrailIncidentAction = "block" | "redirect" | "truncate" | "omit";
+
+export type GuardrailReviewStatus = "pending" | "confirmed" | "false_positive";
+
+export const GUARDRAIL_REVIEW_STATUSES: GuardrailReviewStatus[] = [
+  "pending",
+  "confirmed",
+  "false_positive",
+];
+
+export interface GuardrailIncidentEntry {
+  stage: GuardrailIncidentStage;
+  check: string; // blockedTopics, mentalHealthTopics, pii, realPeople, promptLeakage, promptInjection
+  rule: string;
+  action: GuardrailIncidentAction;
+  content: string;
+  route?: string;
+  language?: string;
+  method?: string;
+  similarity?: number;
+  profileId?: string;
+  chatSessionId?: string;
+  attribution?: UsageAttribution;
+}
+
+export interface GuardrailIncidentFilters {
+  startDate?: Date;
+  endDate?: Date;
+  stage?: GuardrailIncidentStage;
+  check?: string;
+  reviewStatus?: GuardrailReviewStatus;
+  avatarId?: string;
+}
+
+// Review outcome per rule, to find rules that block too much
+export interface GuardrailRuleStats {
+  check: string;
+  rule: string;
+  language: string | null;
+  incidents: number;
+  pending: number;
+  confirmed: number;
+  falsePositives: number;
+}
+
+export function isGuardrailReviewStatus(
+  value: unknown
+): value is GuardrailReviewStatus {
+  return GUARDRAIL_REVIEW_STATUSES.includes(value as GuardrailReviewStatus);
+}
+
+function buildWhere(
+  filters: GuardrailIncidentFilters
+): Prisma.GuardrailInterventionWhereInput {
+  return {
+    createdAt: {
+      gte: filters.startDate,
+      lte: filters.endDate,
+    },
+    stage: filters.stage,
+    check: filters.check,
+    reviewStatus: filters.reviewStatus,
+    avatarId: filters.avatarId,
+  };
+}
+
+/**
+ * Config updates that stop a topic rule from matching, or null when the rule
+ * is not in a global topic list (e.g. it comes from a guardrail profile, or
+ * the check is not topic based)
+ */
+export function withoutTopicRule(
+  config: GuardrailsConfig,
+  incident: Pick<GuardrailIntervention, "stage" | "check" | "rule" | "language">
+): Partial<GuardrailsConfig> | null {
+  const { check, rule } = incident;
+  const without = (topics: string[]) =>
+    topics.includes(rule) ? topics.filter((topic) => topic !== rule) : null;
+
+  if (incident.stage === "output") {
+    const moderation = config.outputModeration;
+    const topics =
+      check === "blockedTopics" && moderation
+        ? without(moderation.blockedTopics)
+        : null;
+
+    return moderation && topics
+      ? { outputModeration: { ...moderation, blockedTopics: topics } }
+      : null;
+  }
+
+  if (check !== "blockedTopics" && check !== "mentalHealthTopics") {
+    return null;
+  }
+
+  const language = incident.language || "en";
+
+  if (language === "en") {
+    const topics = without(config[check]);
+
+    return topics && { [check]: topics };
+  }
+
+  const lists = config.localizedTopics?.[language];
+  const topics = lists ? without(lists[check]) : null;
+
+  return lists && topics
+    ? {
+        localizedTopics: {
+          ...config.localizedTopics,
+          [language]: { ...lists, [check]: topics },
+        },
+      }
+    : null;
+}
+
+export class GuardrailIncidentLog {
+  /**
+   * Record one intervention. Errors are logged rather than thrown, so a
+   * logging failure never lets a flagged message through; the write is still
+   * awaited so the function is not suspended before the row is stored.
+   */
+  async record(entry: GuardrailIncidentEntry): Promise<void> {
+    await prisma.guardrailIntervention
+      .create({
+        data: {
+          stage: entry.stage,
+          check: entry.check,
+          rule: entry.rule,
+          action: entry.action,
+          content: entry.content.trim(),
+          route: entry.route,
+          language: entry.language,
+          method: entry.method,
+          similarity: entry.similarity,
+          profileId: entry.profileId,
+          avatarId: entry.attribution?.avatarId,
+          chatSessionId: entry.chatSessionId,
+          userId: entry.attribution?.userId,
+        },
+      })
+      .catch((error) => {
+        console.error("Failed to record guardrail incident:", error);
+      });
+  }
+
+  // Newest first
+  async list(
+    filters: GuardrailIncidentFilters,
+    limit: number = 200
+  ): Promise<GuardrailIntervention[]> {
+    return prisma.guardrailIntervention.findMany({
+      where: buildWhere(filters),
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  async review(
+    id: string,
+    reviewStatus: GuardrailReviewStatus,
+    reviewedBy: string,
+    reviewNote?: string
+  ): Promise<GuardrailIntervention> {
+    return prisma.guardrailIntervention.update({
+      where: { id },
+      data: {
+        reviewStatus,
+        reviewedBy: reviewStatus === "pending" ? null : reviewedBy,
+        reviewedAt: reviewStatus === "pending" ? null : new Date(),
+        reviewNote: reviewNote?.trim() || null,
+      },
+    });
+  }
+
+  async get(id: string): Promise<GuardrailIntervention | null> {
+    return prisma.guardrailIntervention.findUnique({ where: { id } });
+  }
+
+  // Rules ordered by false positives, then by how often they fire. Every
+  // review status is counted, whatever the filter, so the rates add up
+  async getRuleStats(
+    filters: GuardrailIncidentFilters
+  ): Promise<GuardrailRuleStats[]> {
+    const groups = await prisma.guardrailIntervention.groupBy({
+      by: ["check", "rule", "language", "reviewStatus"],
+      where: buildWhere({ ...filters, reviewStatus: undefined }),
+      _count: { _all: true },
+    });
+    const stats = new Map<string, GuardrailRuleStats>();
+
+    for (const group of groups) {
+      const key = `${group.check}\u0000${group.rule}\u0000${group.language}`;
+      let row = stats.get(key);
+
+      if (!row) {
+        row = {
+          check: group.check,
+          rule: group.rule,
+          language: group.language,
+          incidents: 0,
+          pending: 0,
+          confirmed: 0,
+          falsePositives: 0,
+        };
+        stats.set(key, row);
+      }
+
+      const count = group._count._all;
+
+      row.incidents += count;
+      if (group.reviewStatus === "false_positive") row.falsePositives += count;
+      else if (group.reviewStatus === "confirmed") row.confirmed += count;
+      else row.pending += count;
+    }
+
+    return Array.from(stats.values()).sort(
+      (a, b) => b.falsePositives - a.falsePositives || b.incidents - a.incidents
+    );
+  }
+}
+
+export const guardrailIncidentLog = new GuardrailIncidentLog();
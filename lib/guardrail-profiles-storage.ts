@@ -0,0 +1,238 @@
+/**
+ * Storage service for guardrail profiles
+ * Named adjustments to the global guardrails that can be attached to an
+ * avatar, a case or a single case role. Stored in AWS S3 as JSON (following
+ * existing pattern)
+ */
+
+import type { OutputModerationCheck } from "./guardrails-storage";
+
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+
+import {
+  recordConfigRevision,
+  type ConfigRevisionOptions,
+} from "./config-revisions";
+
+// S3 client configuration (following existing pattern)
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION || "us-east-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+});
+
+const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
+const GUARDRAIL_PROFILES_KEY = "system/guardrail-profiles.json";
+
+/**
+ * A profile inherits everything from the global guardrails config and only
+ * records what differs. Empty lists and unset fields inherit.
+ */
+export interface GuardrailProfile {
+  id: string;
+  name: string;
+  description: string;
+  allowedTopics: string[]; // Removed from the inherited blocked topics, in every language
+  blockedTopics: string[]; // Added to the inherited blocked topics
+  blockedResponses: string[]; // Replace the inherited responses when not empty
+  guidelines?: string; // Replaces the kiosk guidelines added to every prompt
+  mentalHealthRedirect?: boolean; // False turns off the support resources guidance
+  outputModeration?: {
+    enabled?: boolean;
+    checks?: Partial<Record<OutputModerationCheck, boolean>>;
+  };
+  lastUpdated: string;
+  updatedBy: string;
+}
+
+export interface GuardrailProfilesFile {
+  profiles: GuardrailProfile[];
+  lastUpdated: string;
+  updatedBy: string;
+}
+
+const EMPTY_PROFILES_FILE: GuardrailProfilesFile = {
+  profiles: [],
+  lastUpdated: new Date(0).toISOString(),
+  updatedBy: "System",
+};
+
+// Profile ids are slugs of the name, like avatar and case ids
+export function toProfileId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Returns a list of problems; an empty list means the profile is valid
+export function validateGuardrailProfile(profile: unknown): string[] {
+  if (!profile || typeof profile !== "object") {
+    return ["profile must be an object"];
+  }
+
+  const { name, allowedTopics, blockedTopics, blockedResponses, guidelines } =
+    profile as Partial<GuardrailProfile>;
+  const errors: string[] = [];
+
+  if (!name || typeof name !== "string" || !toProfileId(name)) {
+    errors.push("Profile needs a name with letters or numbers");
+  }
+  for (const [field, value] of Object.entries({
+    allowedTopics,
+    blockedTopics,
+    blockedResponses,
+  })) {
+    if (value !== undefined && !Array.isArray(value)) {
+      errors.push(`${field} must be an array`);
+    }
+  }
+  if (guidelines !== undefined && typeof guidelines !== "string") {
+    errors.push("guidelines must be text");
+  }
+
+  return errors;
+}
+
+class GuardrailProfilesStorage {
+  /**
+   * Get all profiles; none when nothing has been saved yet
+   */
+  async listProfiles(): Promise<GuardrailProfile[]> {
+    return (await this.getFile()).profiles;
+  }
+
+  async getProfile(id: string): Promise<GuardrailProfile | null> {
+    const profiles = await this.listProfiles();
+
+    return profiles.find((profile) => profile.id === id) || null;
+  }
+
+  /**
+   * Create or replace the profile with the same id
+   */
+  async saveProfile(
+    profile: Omit<GuardrailProfile, "id" | "lastUpdated" | "updatedBy"> & {
+      id?: string;
+    },
+    updatedBy: string = "Unknown"
+  ): Promise<GuardrailProfile> {
+    const file = await this.getFile();
+    const saved: GuardrailProfile = {
+      ...profile,
+      id: profile.id || toProfileId(profile.name),
+      allowedTopics: profile.allowedTopics || [],
+      blockedTopics: profile.blockedTopics || [],
+      blockedResponses: profile.blockedResponses || [],
+      lastUpdated: new Date().toISOString(),
+      updatedBy,
+    };
+
+    await this.saveFile(
+      {
+        profiles: [
+          ...file.profiles.filter((existing) => existing.id !== saved.id),
+          saved,
+        ].sort((a, b) => a.name.localeCompare(b.name)),
+        lastUpdated: saved.lastUpdated,
+        updatedBy,
+      },
+      { previous: file }
+    );
+
+    return saved;
+  }
+
+  /**
+   * Delete a profile; avatars and cases still naming it fall back to the
+   * global guardrails
+   */
+  async deleteProfile(id: string, updatedBy: string = "Unknown"): Promise<void> {
+    const file = await this.getFile();
+
+    await this.saveFile(
+      {
+        profiles: file.profiles.filter((profile) => profile.id !== id),
+        lastUpdated: new Date().toISOString(),
+        updatedBy,
+      },
+      { previous: file }
+    );
+  }
+
+  /**
+   * Replace every profile at once; used to roll back to an earlier revision
+   */
+  async replaceProfiles(
+    profiles: GuardrailProfile[],
+    updatedBy: string = "Unknown",
+    restoredFrom?: number
+  ): Promise<void> {
+    const file = await this.getFile();
+
+    await this.saveFile(
+      { profiles, lastUpdated: new Date().toISOString(), updatedBy },
+      { previous: file, restoredFrom }
+    );
+  }
+
+  private async getFile(): Promise<GuardrailProfilesFile> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: GUARDRAIL_PROFILES_KEY,
+      });
+
+      const result = await s3Client.send(command);
+
+      if (result.Body) {
+        return JSON.parse(await result.Body.transformToString());
+      }
+
+      return EMPTY_PROFILES_FILE;
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") {
+        return EMPTY_PROFILES_FILE;
+      }
+      console.error("Error loading guardrail profiles:", error);
+      throw new Error("Failed to load guardrail profiles");
+    }
+  }
+
+  private async saveFile(
+    file: GuardrailProfilesFile,
+    revision: ConfigRevisionOptions
+  ): Promise<void> {
+    try {
+      const command = new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: GUARDRAIL_PROFILES_KEY,
+        Body: JSON.stringify(file, null, 2),
+        ContentType: "application/json",
+      });
+
+      await s3Client.send(command);
+    } catch (error) {
+      console.error("Error saving guardrail profiles:", error);
+      throw new Error("Failed to save guardrail profiles");
+    }
+
+    await recordConfigRevision(
+      "guardrail-profiles",
+      file,
+      file.updatedBy,
+      revision
+    );
+  }
+}
+
+// Export singleton instance
+export const guardrailProfilesStorage = new GuardrailProfilesStorage();
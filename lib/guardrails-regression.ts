@@ -0,0 +1,118 @@
+/**
+ * Guardrails regression runner - evaluates the stored test suite against the
+ * saved guardrails config and, optionally, a draft of it, so admins see which
+ * outcomes a topic change would flip before it is saved.
+ */
+
+import type { GuardrailsConfig } from "./guardrails-storage";
+import type { GuardrailsTestCase } from "./guardrails-test-suite-storage";
+import type { UsageAttribution } from "./usage/usage-ledger";
+
+import { evaluateGuardrails, type GuardrailsOutcome } from "./guardrails";
+
+export interface GuardrailsTestOutcome {
+  outcome: GuardrailsOutcome;
+  topic?: string; // Topic behind a block or redirection
+  language?: string;
+  method?: "keyword" | "semantic";
+}
+
+export interface GuardrailsTestResult extends GuardrailsTestCase {
+  current: GuardrailsTestOutcome;
+  draft?: GuardrailsTestOutcome; // Only when a draft was given
+  passed: boolean; // Of the draft when given, otherwise of the saved config
+  changed: boolean; // The draft reaches a different outcome
+}
+
+export interface GuardrailsTestRun {
+  results: GuardrailsTestResult[];
+  summary: {
+    total: number;
+    currentPassed: number;
+    draftPassed?: number;
+    changed: number;
+    regressions: number; // Passing with the saved config, failing with the draft
+    fixes: number; // Failing with the saved config, passing with the draft
+  };
+}
+
+async function evaluate(
+  config: GuardrailsConfig,
+  utterance: string,
+  attribution?: UsageAttribution
+): Promise<GuardrailsTestOutcome> {
+  const { outcome, topic } = await evaluateGuardrails(
+    config,
+    utterance,
+    attribution
+  );
+
+  return {
+    outcome,
+    topic: topic?.topic,
+    language: topic?.language,
+    method: topic?.method,
+  };
+}
+
+/**
+ * Run every case against the saved config and the draft. Cases run one at a
+ * time so semantic matching does not burst the embeddings API; its embedding
+ * calls are metered against `attribution`, the admin running the suite.
+ */
+export async function runGuardrailsTestSuite(
+  cases: GuardrailsTestCase[],
+  current: GuardrailsConfig,
+  draft?: GuardrailsConfig,
+  attribution?: UsageAttribution
+): Promise<GuardrailsTestRun> {
+  const results: GuardrailsTestResult[] = [];
+
+  for (const testCase of cases) {
+    const currentOutcome = await evaluate(
+      current,
+      testCase.utterance,
+      attribution
+    );
+    const draftOutcome = draft
+      ? await evaluate(draft, testCase.utterance, attribution)
+      : undefined;
+    const outcome = (draftOutcome || currentOutcome).outcome;
+
+    results.push({
+      ...testCase,
+      current: currentOutcome,
+      draft: draftOutcome,
+      passed: outcome === testCase.expected,
+      changed: !!draftOutcome && draftOutcome.outcome !== currentOutcome.outcome,
+    });
+  }
+
+  const currentPassed = results.filter(
+    (result) => result.current.outcome === result.expected
+  ).length;
+
+  return {
+    results,
+    summary: {
+      total: results.length,
+      currentPassed,
+      draftPassed: draft
+        ? results.filter((result) => result.passed).length
+        : undefined,
+      changed: results.filter((result) => result.changed).length,
+      regressions: results.filter(
+        (result) =>
+          result.changed &&
+          !result.passed &&
+          result.current.outcome === result.expected
+      ).length,
+      fixes: results.filter(
+        (result) =>
+          result.changed &&
+          result.passed &&
+          result.current.outcome !== result.expected
+      ).length,
+    },
+  };
+}
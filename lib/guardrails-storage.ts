@@ -9,6 +9,8 @@ import {
   PutObjectCommand,
 } from "@aws-sdk/client-s3";
 
+import { recordConfigRevision, type ConfigRevisionOptions } from "./config-revisions";
+
 // S3 client configuration (following existing pattern)
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || "us-east-1",
@@ -21,6 +23,52 @@ const s3Client = new S3Client({
 const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
 const GUARDRAILS_CONFIG_KEY = 'system/guardrails-config.json';
 
+export type OutputModerationCheck =
+  | 'blockedTopics'
+  | 'pii'
+  | 'realPeople'
+  | 'promptLeakage';
+
+// Checks run on model replies, one sentence at a time, before they are sent
+export interface OutputModerationConfig {
+  enabled: boolean;
+  checks: Record<OutputModerationCheck, boolean>;
+  // "truncate" ends the reply at a flagged sentence, "omit" drops only that sentence
+  action: 'truncate' | 'omit';
+  blockedTopics: string[]; // Usually narrower than the topics blocked in questions
+  realPeopleClaims: string[]; // Phrases that make a sentence naming a person a claim about them
+  allowedContacts: string[]; // Emails and phone numbers replies may contain
+  allowedEmailDomains: string[];
+  fallbackResponse: string; // Spoken in place of a truncated reply's flagged sentence
+}
+
+// Topic lists for one language; the top-level lists in the config are English
+export interface LocalizedTopics {
+  blockedTopics: string[];
+  mentalHealthTopics: string[];
+}
+
+// Languages the kiosk invites visitors to speak, besides English
+export const TOPIC_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'vi', label: 'Vietnamese' },
+  { code: 'it', label: 'Italian' },
+];
+
+// Compare messages that match no topic with the topics by embedding
+export interface SemanticMatchingConfig {
+  enabled: boolean;
+  threshold: number; // Cosine similarity, 0-1
+}
+
 export interface GuardrailsConfig {
   blockedTopics: string[];
   mentalHealthTopics: string[];
@@ -30,10 +78,63 @@ export interface GuardrailsConfig {
     crisisLine: string;
     additionalInfo: string;
   };
+  localizedTopics?: Record<string, LocalizedTopics>; // Keyed by TOPIC_LANGUAGES code
+  semanticMatching?: SemanticMatchingConfig;
+  outputModeration?: OutputModerationConfig; // Missing in configs saved before it existed
   lastUpdated: string;
   updatedBy: string;
 }
 
+export const DEFAULT_OUTPUT_MODERATION_CONFIG: OutputModerationConfig = {
+  enabled: true,
+  checks: {
+    blockedTopics: true,
+    pii: true,
+    realPeople: true,
+    promptLeakage: true,
+  },
+  action: 'truncate',
+  blockedTopics: [
+    'republican', 'democrat', 'suicide', 'self-harm', 'sexual', 'plagiarize'
+  ],
+  realPeopleClaims: [
+    'arrested', 'convicted', 'charged with', 'sued', 'divorced', 'married to',
+    'affair', 'pregnant', 'diagnosed', 'net worth', 'lives at',
+    'home address', 'was fired'
+  ],
+  allowedContacts: [],
+  allowedEmailDomains: ['case.edu'],
+  fallbackResponse: "I'm not able to go into that. Is there something else about CWRU or the Weatherhead School I can help you with?",
+};
+
+export const DEFAULT_LOCALIZED_TOPICS: Record<string, LocalizedTopics> = {
+  zh: {
+    blockedTopics: ['政治', '选举', '投票', '自杀', '自残', '毒品', '宗教', '代写论文', '代写作业'],
+    mentalHealthTopics: ['抑郁', '焦虑', '压力', '心理健康', '心理咨询'],
+  },
+  ja: {
+    blockedTopics: ['政治', '選挙', '投票', '自殺', '自傷', '薬物', '宗教'],
+    mentalHealthTopics: ['うつ', '不安', 'ストレス', 'メンタルヘルス', 'カウンセリング'],
+  },
+  ko: {
+    blockedTopics: ['정치', '선거', '투표', '자살', '자해', '마약', '종교'],
+    mentalHealthTopics: ['우울', '불안', '스트레스', '정신 건강', '상담'],
+  },
+  hi: {
+    blockedTopics: ['राजनीति', 'चुनाव', 'आत्महत्या', 'नशा', 'धर्म'],
+    mentalHealthTopics: ['अवसाद', 'चिंता', 'तनाव', 'मानसिक स्वास्थ्य'],
+  },
+  es: {
+    blockedTopics: ['política', 'elecciones', 'votar', 'suicidio', 'autolesión', 'drogas', 'religión'],
+    mentalHealthTopics: ['depresión', 'ansiedad', 'estrés', 'salud mental'],
+  },
+};
+
+export const DEFAULT_SEMANTIC_MATCHING_CONFIG: SemanticMatchingConfig = {
+  enabled: false,
+  threshold: 0.5,
+};
+
 // Default configuration - single source of truth
 export const DEFAULT_GUARDRAILS_CONFIG: GuardrailsConfig = {
   blockedTopics: [
@@ -56,6 +157,9 @@ export const DEFAULT_GUARDRAILS_CONFIG: GuardrailsConfig = {
     crisisLine: "988",
     additionalInfo: "Student support services available through Student Affairs"
   },
+  localizedTopics: DEFAULT_LOCALIZED_TOPICS,
+  semanticMatching: DEFAULT_SEMANTIC_MATCHING_CONFIG,
+  outputModeration: DEFAULT_OUTPUT_MODERATION_CONFIG,
   lastUpdated: new Date().toISOString(),
   updatedBy: "System"
 };
@@ -92,9 +196,10 @@ class GuardrailsStorage {
   }
 
   /**
-   * Save guardrails configuration
+   * Save guardrails configuration, keeping it as a revision in the version
+   * history
    */
-  async saveConfig(config: GuardrailsConfig): Promise<void> {
+  async saveConfig(config: GuardrailsConfig, revision: ConfigRevisionOptions = {}): Promise<void> {
     try {
       const command = new PutObjectCommand({
         Bucket: BUCKET_NAME,
@@ -108,12 +213,15 @@ class GuardrailsStorage {
       console.error('Error saving guardrails config:', error);
       throw new Error('Failed to save guardrails configuration');
     }
+
+    await recordConfigRevision('guardrails', config, config.updatedBy, revision);
   }
 
   /**
-   * Update specific parts of the configuration
+   * Update specific parts of the configuration. `restoredFrom` marks a
+   * rollback to that revision in the version history
    */
-  async updateConfig(updates: Partial<GuardrailsConfig>, updatedBy: string = 'Unknown'): Promise<GuardrailsConfig> {
+  async updateConfig(updates: Partial<GuardrailsConfig>, updatedBy: string = 'Unknown', restoredFrom?: number): Promise<GuardrailsConfig> {
     const currentConfig = await this.getConfig();
     const updatedConfig: GuardrailsConfig = {
       ...currentConfig,
@@ -122,21 +230,39 @@ class GuardrailsStorage {
       updatedBy,
     };
 
-    await this.saveConfig(updatedConfig);
+    await this.saveConfig(updatedConfig, { previous: currentConfig, restoredFrom });
     return updatedConfig;
   }
 
+  /**
+   * Replace the whole configuration with a revision's snapshot. Unlike
+   * updateConfig nothing of the current config is kept, so fields added
+   * since the snapshot was taken are dropped again
+   */
+  async replaceConfig(config: GuardrailsConfig, updatedBy: string = 'Unknown', restoredFrom?: number): Promise<GuardrailsConfig> {
+    const currentConfig = await this.getConfig();
+    const replacedConfig: GuardrailsConfig = {
+      ...config,
+      lastUpdated: new Date().toISOString(),
+      updatedBy,
+    };
+
+    await this.saveConfig(replacedConfig, { previous: currentConfig, restoredFrom });
+    return replacedConfig;
+  }
+
   /**
    * Reset configuration to defaults
    */
   async resetToDefaults(updatedBy: string = 'Unknown'): Promise<GuardrailsConfig> {
+    const currentConfig = await this.getConfig();
     const defaultConfig: GuardrailsConfig = {
       ...DEFAULT_GUARDRAILS_CONFIG,
       lastUpdated: new Date().toISOString(),
       updatedBy,
     };
 
-    await this.saveConfig(defaultConfig);
+    await this.saveConfig(defaultConfig, { previous: currentConfig });
     return defaultConfig;
   }
 }
@@ -0,0 +1,296 @@
+import type {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+} from "./types";
+
+import { parseToolArguments } from "./tool-arguments";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+function toBlocks(
+  content: string | AnthropicContentBlock[]
+): AnthropicContentBlock[] {
+  if (typeof content !== "string") return content;
+
+  return content ? [{ type: "text", text: content }] : [];
+}
+
+// Tool calls become tool_use blocks on the assistant turn and tool results
+// tool_result blocks on the following user turn
+function toAnthropicMessage(msg: LLMMessage): AnthropicMessage {
+  if (msg.role === "tool") {
+    return {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: msg.toolCallId || "",
+          content: msg.content,
+        },
+      ],
+    };
+  }
+
+  const role = msg.role === "assistant" ? "assistant" : "user";
+
+  if (!msg.toolCalls?.length) {
+    return { role, content: msg.content };
+  }
+
+  return {
+    role,
+    content: [
+      ...toBlocks(msg.content),
+      ...msg.toolCalls.map(
+        (call): AnthropicContentBlock => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        })
+      ),
+    ],
+  };
+}
+
+/**
+ * Provider for the Anthropic Messages API.
+ *
+ * Talks to the REST endpoint directly with fetch; the request shape is small
+ * enough that an SDK dependency is not worth it.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private options: AnthropicProviderOptions;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.options = options;
+  }
+
+  // Anthropic takes the system prompt separately and requires alternating
+  // user/assistant turns that start with the user
+  private toAnthropicFormat(messages: LLMMessage[]): {
+    system: string;
+    messages: AnthropicMessage[];
+  } {
+    const system = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    const turns: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === "system") continue;
+
+      const turn = toAnthropicMessage(msg);
+      const last = turns[turns.length - 1];
+
+      if (!last || last.role !== turn.role) {
+        turns.push(turn);
+      } else if (
+        typeof last.content === "string" &&
+        typeof turn.content === "string"
+      ) {
+        last.content += `\n\n${turn.content}`;
+      } else {
+        last.content = [...toBlocks(last.content), ...toBlocks(turn.content)];
+      }
+    }
+
+    if (turns.length === 0 || turns[0].role !== "user") {
+      turns.unshift({ role: "user", content: "(conversation start)" });
+    }
+
+    return { system, messages: turns };
+  }
+
+  private async send(
+    request: LLMCompletionRequest,
+    stream: boolean
+  ): Promise<Response> {
+    if (!this.options.apiKey) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is required");
+    }
+
+    const { system, messages } = this.toAnthropicFormat(request.messages);
+    const baseURL = this.options.baseURL || "https://api.anthropic.com";
+
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.options.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: system || undefined,
+        messages,
+        tools: request.tools?.length
+          ? request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            }))
+          : undefined,
+        tool_choice:
+          request.tools?.length && request.toolChoice
+            ? { type: request.toolChoice }
+            : undefined,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      throw new Error(
+        `Anthropic API error ${response.status}: ${errorText.slice(0, 500)}`
+      );
+    }
+
+    return response;
+  }
+
+  async *streamChat(
+    request: LLMCompletionRequest
+  ): AsyncIterable<LLMStreamChunk> {
+    const response = await this.send(request, true);
+    const reader = response.body?.getReader();
+
+    if (!reader) {
+      throw new Error("No response body from Anthropic");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // tool_use blocks by content block index; their input streams as JSON text
+    const toolBlocks = new Map<
+      number,
+      { id: string; name: string; input: string }
+    >();
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data: ")) continue;
+
+        const event = JSON.parse(line.slice(6));
+
+        if (event.type === "message_start") {
+          inputTokens = event.message?.usage?.input_tokens || 0;
+        } else if (
+          event.type === "content_block_start" &&
+          event.content_block?.type === "tool_use"
+        ) {
+          toolBlocks.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            input: "",
+          });
+        } else if (
+          event.type === "content_block_delta" &&
+          event.delta?.type === "input_json_delta"
+        ) {
+          const block = toolBlocks.get(event.index);
+
+          if (block) block.input += event.delta.partial_json || "";
+        } else if (
+          event.type === "content_block_delta" &&
+          event.delta?.type === "text_delta"
+        ) {
+          yield { content: event.delta.text };
+        } else if (event.type === "message_delta") {
+          outputTokens = event.usage?.output_tokens || outputTokens;
+        } else if (event.type === "error") {
+          throw new Error(
+            `Anthropic stream error: ${event.error?.message || "unknown"}`
+          );
+        }
+      }
+    }
+
+    if (toolBlocks.size > 0) {
+      yield {
+        toolCalls: [...toolBlocks.values()].map(
+          (block): LLMToolCall => ({
+            id: block.id,
+            name: block.name,
+            arguments: parseToolArguments(block.input),
+          })
+        ),
+      };
+    }
+
+    yield { usage: { inputTokens, outputTokens } };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const response = await this.send(request, false);
+    const data = await response.json();
+
+    const content = (data.content || [])
+      .filter((block: { type: string }) => block.type === "text")
+      .map((block: { text: string }) => block.text)
+      .join("");
+
+    const toolCalls: LLMToolCall[] = (data.content || [])
+      .filter((block: { type: string }) => block.type === "tool_use")
+      .map(
+        (block: {
+          id: string;
+          name: string;
+          input?: Record<string, unknown>;
+        }) => ({ id: block.id, name: block.name, arguments: block.input || {} })
+      );
+
+    return {
+      content,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.input_tokens,
+            outputTokens: data.usage.output_tokens,
+          }
+        : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Token-aware context building for chat routes.
+ *
+ * The model config's `contextTokens` is split between the reply (`maxTokens`),
+ * the system prompt (avatar/case prompt plus guardrail instructions), the RAG
+ * knowledge section and the conversation history, in that order of priority.
+ * History that no longer fits is folded into a rolling summary instead of
+ * being dropped; the caller stores the returned summary on the server with
+ * the conversation (chat session or role chat transcript) and passes it back
+ * next turn. Summaries are never taken from the client.
+ */
+
+import type {
+  LLMConversationSummary,
+  LLMMessage,
+  LLMModelConfig,
+} from "./types";
+import type { UsageAttribution } from "../usage/usage-ledger";
+
+import { usageLedger } from "../usage/usage-ledger";
+import { getLLMProvider, resolveModelConfig } from "./registry";
+import { ROUTE_CONTEXT_TOKENS } from "./models";
+
+// Most of the space left after the system prompt the knowledge section may take
+const KNOWLEDGE_SHARE = 0.4;
+
+// After summarizing, keep history well under its budget so the next few turns
+// fit without another summarization call
+const HISTORY_LOW_WATER = 0.6;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI character.
+Merge the previous summary (if any) with the new turns into one updated summary.
+Keep names, facts the user shared, questions asked, answers and commitments the assistant gave, and anything still unresolved.
+Write plain prose in the third person, at most 200 words. Reply with the summary only.`;
+
+// Retrieved passages, best first; whole passages are dropped from the end
+// when space runs out so the caller knows exactly which ones the model saw
+export interface ContextWindowKnowledge {
+  passages: string[];
+  wrap: (passages: string) => string; // Adds the section heading and instructions
+}
+
+export interface ContextWindowInput {
+  systemPrompt: string; // Avatar or case prompt, including guardrail instructions
+  knowledge?: ContextWindowKnowledge; // RAG section, trimmed first when space runs out
+  history: LLMMessage[]; // Full user/assistant history, oldest first
+  summary?: LLMConversationSummary; // From the previous turn, if any
+  modelConfig: LLMModelConfig;
+  signal?: AbortSignal;
+  attribution?: UsageAttribution; // Charged for the summarization call
+}
+
+export interface ContextWindowStats {
+  budget: number;
+  systemTokens: number;
+  knowledgeTokens: number;
+  knowledgePassages: number; // Leading passages that fit; the rest were left out
+  summaryTokens: number;
+  historyTokens: number;
+  omittedMessages: number; // History messages represented only by the summary
+}
+
+export interface ContextWindow {
+  messages: LLMMessage[];
+  summary?: LLMConversationSummary; // Store and pass back on the next turn
+  stats: ContextWindowStats;
+}
+
+// Same ~4 characters per token estimate used by the document processor
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateMessageTokens(message: LLMMessage): number {
+  return estimateTokens(message.content) + 4; // Role and formatting overhead
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  return maxChars > 0 ? `${text.slice(0, maxChars).trimEnd()}…` : "";
+}
+
+function fitKnowledge(
+  knowledge: ContextWindowKnowledge | undefined,
+  tokens: number
+): { text: string; passages: number } {
+  if (!knowledge || knowledge.passages.length === 0) {
+    return { text: "", passages: 0 };
+  }
+
+  let used = estimateTokens(knowledge.wrap(""));
+  let passages = 0;
+
+  for (const passage of knowledge.passages) {
+    const passageTokens = estimateTokens(passage) + 1; // Joining newline
+
+    if (used + passageTokens > tokens) break;
+
+    used += passageTokens;
+    passages++;
+  }
+
+  return passages > 0
+    ? {
+        text: knowledge.wrap(knowledge.passages.slice(0, passages).join("\n")),
+        passages,
+      }
+    : { text: "", passages: 0 };
+}
+
+// A stored summary only applies if the history it describes is still there
+function isUsableSummary(
+  summary: LLMConversationSummary | undefined,
+  history: LLMMessage[]
+): summary is LLMConversationSummary {
+  return (
+    !!summary &&
+    typeof summary.content === "string" &&
+    Number.isInteger(summary.summarizedCount) &&
+    summary.summarizedCount > 0 &&
+    summary.summarizedCount < history.length
+  );
+}
+
+async function summarizeTurns(
+  previous: LLMConversationSummary | undefined,
+  turns: LLMMessage[],
+  summarizedCount: number,
+  signal?: AbortSignal,
+  attribution?: UsageAttribution
+): Promise<LLMConversationSummary> {
+  const modelConfig = resolveModelConfig("summary");
+  const startedAt = Date.now();
+  const transcript = turns
+    .map(
+      (turn) =>
+        `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`
+    )
+    .join("\n\n");
+
+  const completion = await getLLMProvider(modelConfig.provider).complete({
+    model: modelConfig.model,
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: `Previous summary:\n${previous?.content || "(none)"}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+    maxTokens: modelConfig.maxTokens,
+    temperature: modelConfig.temperature,
+    signal,
+  });
+
+  await usageLedger.record({
+    operation: "summary",
+    route: "summary",
+    provider: modelConfig.provider,
+    model: modelConfig.model,
+    inputTokens: completion.usage?.inputTokens ?? estimateTokens(transcript),
+    outputTokens:
+      completion.usage?.outputTokens ?? estimateTokens(completion.content),
+    estimated: !completion.usage,
+    latencyMs: Date.now() - startedAt,
+    ...attribution,
+  });
+
+  return {
+    content: completion.content.trim(),
+    summarizedCount,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the messages for one model call within the token budget, updating the
+ * rolling summary when older turns have to leave the window. The latest
+ * message is always kept, even if it alone exceeds the budget.
+ */
+export async function buildContextWindow(
+  input: ContextWindowInput
+): Promise<ContextWindow> {
+  const { systemPrompt, history, modelConfig, signal } = input;
+  const contextTokens =
+    modelConfig.contextTokens || ROUTE_CONTEXT_TOKENS.production;
+  const budget = Math.max(contextTokens - modelConfig.maxTokens, 0);
+  const systemTokens = estimateTokens(systemPrompt);
+
+  const knowledge = fitKnowledge(
+    input.knowledge,
+    Math.floor(Math.max(budget - systemTokens, 0) * KNOWLEDGE_SHARE)
+  );
+  const knowledgeContext = knowledge.text;
+  const knowledgeTokens = estimateTokens(knowledgeContext);
+
+  let summary = isUsableSummary(input.summary, history)
+    ? input.summary
+    : undefined;
+
+  // Reserve room for a summary as long as the summary route may write; a
+  // longer stored one is cut to that size below
+  const summaryReserve = resolveModelConfig("summary").maxTokens;
+  const historyBudget = Math.max(
+    budget - systemTokens - knowledgeTokens - summaryReserve,
+    0
+  );
+
+  // Walk back from the newest message until the history budget is spent,
+  // never reaching into turns the summary already covers
+  const summarizedCount = summary?.summarizedCount || 0;
+  let firstKept = history.length;
+  let historyTokens = 0;
+
+  while (firstKept > summarizedCount) {
+    const tokens = estimateMessageTokens(history[firstKept - 1]);
+
+    if (firstKept < history.length && historyTokens + tokens > historyBudget) {
+      break;
+    }
+
+    historyTokens += tokens;
+    firstKept--;
+  }
+
+  if (firstKept > summarizedCount) {
+    // Turns are about to leave the window; shrink to the low-water mark so
+    // summarization happens in batches rather than on every turn
+    while (
+      firstKept < history.length - 1 &&
+      historyTokens > historyBudget * HISTORY_LOW_WATER
+    ) {
+      historyTokens -= estimateMessageTokens(history[firstKept]);
+      firstKept++;
+    }
+
+    try {
+      summary = await summarizeTurns(
+        summary,
+        history.slice(summarizedCount, firstKept),
+        firstKept,
+        signal,
+        input.attribution
+      );
+    } catch (error) {
+      // Carry on without the dropped turns rather than failing the reply
+      console.error("Failed to update conversation summary:", error);
+    }
+  }
+
+  let systemContent = systemPrompt;
+
+  if (knowledgeContext) {
+    systemContent += `\n\n${knowledgeContext}`;
+  }
+
+  const summaryText = summary
+    ? truncateToTokens(summary.content, summaryReserve)
+    : "";
+
+  if (summaryText) {
+    systemContent += `\n\n## Conversation So Far\n\nEarlier turns of this conversation, summarized:\n${summaryText}`;
+  }
+
+  return {
+    messages: [
+      { role: "system", content: systemContent },
+      ...history.slice(firstKept),
+    ],
+    summary,
+    stats: {
+      budget,
+      systemTokens,
+      knowledgeTokens,
+      knowledgePassages: knowledge.passages,
+      summaryTokens: estimateTokens(summaryText),
+      historyTokens,
+      omittedMessages: firstKept,
+    },
+  };
+}
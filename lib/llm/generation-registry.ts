@@ -0,0 +1,73 @@
+/**
+ * Tracks in-flight LLM generations so they can be cancelled from outside the
+ * request that started them.
+ *
+ * Each generation registers an AbortController under its id (the v2 stream id
+ * or a generated one for v1) and, optionally, the chat session it belongs to.
+ * /api/avatar/interrupt uses this to stop the reply the avatar is about to
+ * speak. Like the stream buffer, entries live in memory on the instance that
+ * runs the generation.
+ */
+
+import type { LLMAbortReason } from "./stream-protocol";
+
+interface ActiveGeneration {
+  controller: AbortController;
+  chatSessionId?: string;
+}
+
+export class LLMGenerationRegistry {
+  private generations: Map<string, ActiveGeneration> = new Map();
+
+  register(
+    generationId: string,
+    controller: AbortController,
+    chatSessionId?: string
+  ): void {
+    this.generations.set(generationId, { controller, chatSessionId });
+  }
+
+  unregister(generationId: string): void {
+    this.generations.delete(generationId);
+  }
+
+  // Returns true when a running generation was found and aborted
+  abort(generationId: string, reason: LLMAbortReason): boolean {
+    const generation = this.generations.get(generationId);
+
+    if (!generation || generation.controller.signal.aborted) {
+      return false;
+    }
+
+    generation.controller.abort(reason);
+
+    return true;
+  }
+
+  // Abort every generation started for a chat session; returns how many stopped
+  abortChatSession(chatSessionId: string, reason: LLMAbortReason): number {
+    let aborted = 0;
+
+    this.generations.forEach((generation, generationId) => {
+      if (
+        generation.chatSessionId === chatSessionId &&
+        this.abort(generationId, reason)
+      ) {
+        aborted++;
+      }
+    });
+
+    return aborted;
+  }
+}
+
+// Shared through globalThis so the interrupt route sees generations started
+// by the LLM routes
+const globalForGenerations = globalThis as unknown as {
+  llmGenerationRegistry?: LLMGenerationRegistry;
+};
+
+export const llmGenerationRegistry =
+  globalForGenerations.llmGenerationRegistry || new LLMGenerationRegistry();
+
+globalForGenerations.llmGenerationRegistry = llmGenerationRegistry;
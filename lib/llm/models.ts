@@ -0,0 +1,64 @@
+/**
+ * Provider and model defaults for the LLM layer.
+ *
+ * Kept free of server-only imports so admin pages can render the same
+ * provider list the server resolves against.
+ */
+
+import type { LLMModelOverride, LLMProviderName, LLMRoute } from "./types";
+
+export const LLM_PROVIDER_OPTIONS: { key: LLMProviderName; label: string }[] = [
+  { key: "openai", label: "OpenAI" },
+  { key: "anthropic", label: "Anthropic" },
+  { key: "openai-compatible", label: "Local (OpenAI-compatible)" },
+  { key: "scripted", label: "Scripted (testing)" },
+];
+
+// Model used when an override switches provider without naming a model
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4.1",
+  anthropic: "claude-sonnet-4-5",
+  "openai-compatible": "llama3.1",
+  scripted: "scripted",
+};
+
+// Response length limits each call site had before the provider layer existed
+export const ROUTE_MAX_TOKENS: Record<LLMRoute, number> = {
+  production: 500,
+  preview: 500,
+  "case-chat": 1000,
+  evaluation: 2000,
+  summary: 400,
+  rerank: 300,
+  "query-rewrite": 200,
+};
+
+// Token budget for prompt plus reply when windowing chat history. Far below
+// the models' real limits: long sessions get slow and expensive well before
+// they overflow.
+export const ROUTE_CONTEXT_TOKENS: Record<LLMRoute, number> = {
+  production: 8000,
+  preview: 8000,
+  "case-chat": 16000,
+  evaluation: 32000,
+  summary: 16000,
+  rerank: 16000,
+  "query-rewrite": 4000,
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return LLM_PROVIDER_OPTIONS.some((option) => option.key === value);
+}
+
+// Human-readable summary of an override for cards and tooltips
+export function describeModelOverride(override?: LLMModelOverride): string {
+  if (!override?.provider && !override?.model) {
+    return "Default";
+  }
+
+  const provider = LLM_PROVIDER_OPTIONS.find(
+    (option) => option.key === override.provider
+  );
+
+  return [provider?.label, override.model].filter(Boolean).join(" · ");
+}
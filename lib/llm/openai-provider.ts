@@ -0,0 +1,202 @@
+import type {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition,
+} from "./types";
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/chat/completions";
+
+import OpenAI from "openai";
+
+import { parseToolArguments } from "./tool-arguments";
+
+export interface OpenAIProviderOptions {
+  name?: LLMProviderName;
+  apiKey?: string;
+  baseURL?: string; // Set for Ollama, vLLM or any other OpenAI-compatible server
+}
+
+function toOpenAIMessages(messages: LLMMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((msg): ChatCompletionMessageParam => {
+    if (msg.role === "tool") {
+      return {
+        role: "tool",
+        tool_call_id: msg.toolCallId || "",
+        content: msg.content,
+      };
+    }
+
+    if (msg.role === "assistant" && msg.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+function toOpenAITools(
+  tools?: LLMToolDefinition[]
+): ChatCompletionTool[] | undefined {
+  if (!tools?.length) return undefined;
+
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Provider for the OpenAI API and for local servers that speak the same
+ * chat completions protocol (Ollama, vLLM, LM Studio...).
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  private client: OpenAI | null = null;
+  private options: OpenAIProviderOptions;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.name = options.name || "openai";
+    this.options = options;
+  }
+
+  // Create the client lazily so a missing key only fails the routes that use it
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers usually ignore the key but the SDK requires one
+        apiKey: this.options.apiKey || "not-needed",
+        baseURL: this.options.baseURL,
+      });
+    }
+
+    return this.client;
+  }
+
+  async *streamChat(
+    request: LLMCompletionRequest
+  ): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        tools: toOpenAITools(request.tools),
+        tool_choice: request.tools?.length ? request.toolChoice : undefined,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    // Tool calls stream in fragments keyed by their position in the reply
+    const pendingCalls = new Map<
+      number,
+      { id: string; name: string; arguments: string }
+    >();
+
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta;
+
+      if (delta?.content) {
+        yield { content: delta.content };
+      }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = pendingCalls.get(fragment.index) || {
+          id: "",
+          name: "",
+          arguments: "",
+        };
+
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) {
+          call.arguments += fragment.function.arguments;
+        }
+        pendingCalls.set(fragment.index, call);
+      }
+
+      if (chunk.usage) {
+        yield {
+          usage: {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          },
+        };
+      }
+    }
+
+    if (pendingCalls.size > 0) {
+      yield {
+        toolCalls: [...pendingCalls.values()].map(
+          (call): LLMToolCall => ({
+            id: call.id,
+            name: call.name,
+            arguments: parseToolArguments(call.arguments),
+          })
+        ),
+      };
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        tools: toOpenAITools(request.tools),
+        tool_choice: request.tools?.length ? request.toolChoice : undefined,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+      { signal: request.signal }
+    );
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || []).flatMap((call) =>
+      call.type === "function"
+        ? [
+            {
+              id: call.id,
+              name: call.function.name,
+              arguments: parseToolArguments(call.function.arguments),
+            },
+          ]
+        : []
+    );
+
+    return {
+      content: message?.content || "",
+      usage: completion.usage
+        ? {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens,
+          }
+        : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+}
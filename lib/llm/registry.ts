@@ -0,0 +1,212 @@
+/**
+ * Provider registry and model resolution for the LLM layer.
+ *
+ * Model selection is resolved in increasing order of precedence:
+ *   1. Built-in default (OpenAI gpt-4.1)
+ *   2. Global environment: LLM_PROVIDER / LLM_MODEL
+ *   3. Route environment: LLM_<ROUTE>_PROVIDER / _MODEL / _MAX_TOKENS /
+ *      _CONTEXT_TOKENS (routes: PRODUCTION, PREVIEW, CASE_CHAT, EVALUATION,
+ *      SUMMARY, RERANK, QUERY_REWRITE)
+ *   4. Overrides stored on the case, then on the avatar
+ *
+ * Provider credentials:
+ *   - openai: OPENAI_API_KEY
+ *   - anthropic: ANTHROPIC_API_KEY (optional ANTHROPIC_BASE_URL)
+ *   - openai-compatible: OPENAI_COMPATIBLE_BASE_URL (e.g. http://localhost:11434/v1
+ *     for Ollama), optional OPENAI_COMPATIBLE_API_KEY
+ *   - scripted: LLM_SCRIPTED_RULES, a JSON array of { match, reply, tool? }
+ */
+
+import type {
+  LLMModelConfig,
+  LLMModelOverride,
+  LLMProvider,
+  LLMProviderName,
+  LLMRoute,
+} from "./types";
+
+import { OpenAIProvider } from "./openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+import {
+  ScriptedProvider,
+  type CompiledScriptedRule,
+} from "./scripted-provider";
+import {
+  DEFAULT_MODELS,
+  ROUTE_CONTEXT_TOKENS,
+  ROUTE_MAX_TOKENS,
+  isLLMProviderName,
+} from "./models";
+
+const ROUTE_ENV_PREFIX: Record<LLMRoute, string> = {
+  production: "LLM_PRODUCTION",
+  preview: "LLM_PREVIEW",
+  "case-chat": "LLM_CASE_CHAT",
+  evaluation: "LLM_EVALUATION",
+  summary: "LLM_SUMMARY",
+  rerank: "LLM_RERANK",
+  "query-rewrite": "LLM_QUERY_REWRITE",
+};
+
+// One provider instance per vendor, created on first use
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+// Rules that are not valid are reported and skipped, the others still apply
+function loadScriptedRules(): CompiledScriptedRule[] {
+  if (!process.env.LLM_SCRIPTED_RULES) {
+    return [];
+  }
+
+  let rules: unknown;
+
+  try {
+    rules = JSON.parse(process.env.LLM_SCRIPTED_RULES);
+  } catch (error) {
+    console.error("Invalid LLM_SCRIPTED_RULES, ignoring:", error);
+
+    return [];
+  }
+
+  if (!Array.isArray(rules)) {
+    console.error("LLM_SCRIPTED_RULES must be a JSON array, ignoring");
+
+    return [];
+  }
+
+  return rules.flatMap((rule, index) => {
+    if (typeof rule?.match !== "string" || typeof rule.reply !== "string") {
+      console.error(
+        `LLM_SCRIPTED_RULES[${index}] needs a match and a reply, skipping it`
+      );
+
+      return [];
+    }
+
+    try {
+      return [{ ...rule, pattern: new RegExp(rule.match, "i") }];
+    } catch (error) {
+      console.error(
+        `Invalid match pattern in LLM_SCRIPTED_RULES[${index}], skipping it:`,
+        error
+      );
+
+      return [];
+    }
+  });
+}
+
+// Loaded with the module so bad rules are reported at startup rather than
+// on the first scripted request
+const scriptedRules = loadScriptedRules();
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+    case "openai-compatible":
+      if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error(
+          "OPENAI_COMPATIBLE_BASE_URL environment variable is required"
+        );
+      }
+
+      return new OpenAIProvider({
+        name: "openai-compatible",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      });
+    case "anthropic":
+      return new AnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseURL: process.env.ANTHROPIC_BASE_URL,
+      });
+    case "scripted":
+      return new ScriptedProvider(scriptedRules);
+  }
+}
+
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  let provider = providers.get(name);
+
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+
+  return provider;
+}
+
+// Read the provider/model/token settings for one env prefix
+function readEnvOverride(prefix: string): LLMModelOverride {
+  const override: LLMModelOverride = {};
+  const provider = process.env[`${prefix}_PROVIDER`];
+  const model = process.env[`${prefix}_MODEL`];
+  const maxTokens = Number(process.env[`${prefix}_MAX_TOKENS`]);
+  const contextTokens = Number(process.env[`${prefix}_CONTEXT_TOKENS`]);
+
+  if (provider) {
+    if (isLLMProviderName(provider)) {
+      override.provider = provider;
+    } else {
+      console.error(`Unknown LLM provider in ${prefix}_PROVIDER: ${provider}`);
+    }
+  }
+
+  if (model) override.model = model;
+  if (maxTokens > 0) override.maxTokens = maxTokens;
+  if (contextTokens > 0) override.contextTokens = contextTokens;
+
+  return override;
+}
+
+function applyOverride(
+  base: LLMModelConfig,
+  override?: LLMModelOverride
+): LLMModelConfig {
+  if (!override) {
+    return base;
+  }
+
+  const provider =
+    override.provider && isLLMProviderName(override.provider)
+      ? override.provider
+      : base.provider;
+
+  // Switching provider without naming a model falls back to that provider's default
+  const model =
+    override.model ||
+    (provider === base.provider ? base.model : DEFAULT_MODELS[provider]);
+
+  return {
+    provider,
+    model,
+    maxTokens: override.maxTokens || base.maxTokens,
+    temperature: override.temperature ?? base.temperature,
+    contextTokens: override.contextTokens || base.contextTokens,
+  };
+}
+
+/**
+ * Resolve the model configuration for a route. Later overrides win, so pass
+ * the case override before the avatar override.
+ */
+export function resolveModelConfig(
+  route: LLMRoute,
+  ...overrides: (LLMModelOverride | undefined)[]
+): LLMModelConfig {
+  let config: LLMModelConfig = {
+    provider: "openai",
+    model: DEFAULT_MODELS.openai,
+    maxTokens: ROUTE_MAX_TOKENS[route],
+    contextTokens: ROUTE_CONTEXT_TOKENS[route],
+  };
+
+  config = applyOverride(config, readEnvOverride("LLM"));
+  config = applyOverride(config, readEnvOverride(ROUTE_ENV_PREFIX[route]));
+
+  for (const override of overrides) {
+    config = applyOverride(config, override);
+  }
+
+  return config;
+}
@@ -0,0 +1,146 @@
+import type {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMUsage,
+} from "./types";
+
+export interface ScriptedRule {
+  match: string; // Case-insensitive regular expression tested against the latest user message
+  reply: string;
+  tool?: { name: string; arguments?: Record<string, unknown> }; // Called first when the request offers it
+}
+
+// A rule with its match compiled, as the provider takes them
+export interface CompiledScriptedRule extends ScriptedRule {
+  pattern: RegExp;
+}
+
+export const DEFAULT_SCRIPTED_REPLY =
+  'This is a scripted reply to: "{message}"';
+
+/**
+ * Deterministic provider for tests and offline development.
+ *
+ * Replies come from an ordered list of rules matched against the latest user
+ * message; the first match wins and `{message}` in a reply is replaced by the
+ * user's text. A rule with a `tool` calls that tool first and replies once
+ * the result is back, with `{toolResult}` replaced by the tool's output. No
+ * network access, same input always gives the same output.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted" as const;
+  private rules: CompiledScriptedRule[];
+  private fallbackReply: string;
+
+  constructor(
+    rules: CompiledScriptedRule[] = [],
+    fallbackReply: string = DEFAULT_SCRIPTED_REPLY
+  ) {
+    this.rules = rules;
+    this.fallbackReply = fallbackReply;
+  }
+
+  private findRule(request: LLMCompletionRequest): {
+    rule?: ScriptedRule;
+    latest: string;
+  } {
+    const userMessages = request.messages.filter((msg) => msg.role === "user");
+    const latest = userMessages[userMessages.length - 1]?.content || "";
+
+    const rule = this.rules.find((candidate) => candidate.pattern.test(latest));
+
+    return { rule, latest };
+  }
+
+  // The rule's tool call, unless it was already answered or is not on offer
+  private buildToolCalls(
+    request: LLMCompletionRequest
+  ): LLMToolCall[] | undefined {
+    const { rule } = this.findRule(request);
+    const lastMessage = request.messages[request.messages.length - 1];
+
+    if (
+      !rule?.tool ||
+      lastMessage?.role === "tool" ||
+      request.toolChoice === "none" ||
+      !request.tools?.some((tool) => tool.name === rule.tool?.name)
+    ) {
+      return undefined;
+    }
+
+    return [
+      {
+        id: `call_${request.messages.length}`,
+        name: rule.tool.name,
+        arguments: rule.tool.arguments || {},
+      },
+    ];
+  }
+
+  private buildReply(request: LLMCompletionRequest): string {
+    const { rule, latest } = this.findRule(request);
+    const lastMessage = request.messages[request.messages.length - 1];
+    const toolResult = lastMessage?.role === "tool" ? lastMessage.content : "";
+
+    // Replacer functions keep "$&" and the like in the text literal
+    return (rule?.reply || this.fallbackReply)
+      .replace("{message}", () => latest)
+      .replace("{toolResult}", () => toolResult);
+  }
+
+  // Same ~4 characters per token estimate used by the document processor
+  private estimateUsage(
+    request: LLMCompletionRequest,
+    reply: string
+  ): LLMUsage {
+    const promptLength = request.messages.reduce(
+      (total, msg) => total + msg.content.length,
+      0
+    );
+
+    return {
+      inputTokens: Math.ceil(promptLength / 4),
+      outputTokens: Math.ceil(reply.length / 4),
+    };
+  }
+
+  async *streamChat(
+    request: LLMCompletionRequest
+  ): AsyncIterable<LLMStreamChunk> {
+    const toolCalls = this.buildToolCalls(request);
+
+    if (toolCalls) {
+      request.signal?.throwIfAborted();
+      yield { toolCalls };
+      yield { usage: this.estimateUsage(request, "") };
+
+      return;
+    }
+
+    const reply = this.buildReply(request);
+
+    // Stream word by word (keeping whitespace) so consumers see real deltas
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+      request.signal?.throwIfAborted();
+      yield { content: piece };
+    }
+
+    yield { usage: this.estimateUsage(request, reply) };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    request.signal?.throwIfAborted();
+    const toolCalls = this.buildToolCalls(request);
+
+    if (toolCalls) {
+      return { content: "", usage: this.estimateUsage(request, ""), toolCalls };
+    }
+
+    const reply = this.buildReply(request);
+
+    return { content: reply, usage: this.estimateUsage(request, reply) };
+  }
+}
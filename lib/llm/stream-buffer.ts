@@ -0,0 +1,154 @@
+/**
+ * Server-side replay buffer for protocol v2 LLM streams.
+ *
+ * The generation writes every event here and HTTP responses are just
+ * subscriptions that replay the buffer from a sequence number, so a kiosk that
+ * drops its connection can reconnect with Last-Event-ID and pick up where it
+ * left off. Buffers live in memory (like the document processing status map),
+ * so a resume only succeeds on the instance that ran the generation.
+ */
+
+import {
+  encodeSSEEvent,
+  formatEventId,
+  type LLMStreamResponseV2,
+} from "./stream-protocol";
+
+// How long a finished stream stays available for resume
+const COMPLETED_STREAM_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// How long a running stream may go without readers before it counts as
+// abandoned; comfortably longer than the client's resume backoff
+const ABANDONED_STREAM_GRACE_MS = 15 * 1000; // 15 seconds
+
+interface BufferedStream {
+  events: LLMStreamResponseV2[];
+  done: boolean;
+  listeners: Set<() => void>;
+  onAbandoned?: () => void;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class LLMStreamBuffer {
+  private streams: Map<string, BufferedStream> = new Map();
+
+  /**
+   * Register a new stream. `onAbandoned` runs when the last reader has been
+   * gone for the grace period while the stream is still running, so the
+   * generation behind it can be stopped.
+   */
+  create(streamId: string, onAbandoned?: () => void): void {
+    this.streams.set(streamId, {
+      events: [],
+      done: false,
+      listeners: new Set(),
+      onAbandoned,
+    });
+  }
+
+  has(streamId: string): boolean {
+    return this.streams.has(streamId);
+  }
+
+  append(event: LLMStreamResponseV2): void {
+    const stream = this.streams.get(event.streamId);
+
+    if (!stream || stream.done) return;
+
+    stream.events.push(event);
+    stream.listeners.forEach((notify) => notify());
+  }
+
+  complete(streamId: string): void {
+    const stream = this.streams.get(streamId);
+
+    if (!stream || stream.done) return;
+
+    stream.done = true;
+    clearTimeout(stream.abandonTimer);
+    stream.listeners.forEach((notify) => notify());
+
+    setTimeout(() => this.streams.delete(streamId), COMPLETED_STREAM_TTL_MS);
+  }
+
+  // Number of open subscriptions, used to tell whether anyone is still reading
+  subscriberCount(streamId: string): number {
+    return this.streams.get(streamId)?.listeners.size || 0;
+  }
+
+  // Start the abandonment countdown once nobody is reading a running stream
+  private watchForAbandonment(stream: BufferedStream): void {
+    if (stream.done || !stream.onAbandoned || stream.listeners.size > 0) {
+      return;
+    }
+
+    clearTimeout(stream.abandonTimer);
+    stream.abandonTimer = setTimeout(() => {
+      if (!stream.done && stream.listeners.size === 0) {
+        stream.onAbandoned?.();
+      }
+    }, ABANDONED_STREAM_GRACE_MS);
+  }
+
+  /**
+   * Replay every event after `afterSeq` and then follow the live stream until
+   * it completes. Returns null when the stream is unknown or has expired.
+   */
+  subscribe(
+    streamId: string,
+    afterSeq: number = -1
+  ): ReadableStream<Uint8Array> | null {
+    const stream = this.streams.get(streamId);
+
+    if (!stream) {
+      return null;
+    }
+
+    const encoder = new TextEncoder();
+    let nextIndex = stream.events.findIndex((event) => event.seq > afterSeq);
+    let notify: (() => void) | null = null;
+
+    if (nextIndex === -1) nextIndex = stream.events.length;
+
+    return new ReadableStream({
+      start: (controller) => {
+        const flush = () => {
+          while (nextIndex < stream.events.length) {
+            const event = stream.events[nextIndex++];
+
+            controller.enqueue(
+              encoder.encode(
+                encodeSSEEvent(event, formatEventId(streamId, event.seq))
+              )
+            );
+          }
+
+          if (stream.done) {
+            if (notify) stream.listeners.delete(notify);
+            controller.close();
+          }
+        };
+
+        notify = flush;
+        stream.listeners.add(notify);
+        clearTimeout(stream.abandonTimer);
+        flush();
+      },
+      cancel: () => {
+        if (notify) stream.listeners.delete(notify);
+        this.watchForAbandonment(stream);
+      },
+    });
+  }
+}
+
+// Shared through globalThis (as with the Prisma client) so the generating
+// route and the resume route see the same buffer
+const globalForStreams = globalThis as unknown as {
+  llmStreamBuffer?: LLMStreamBuffer;
+};
+
+export const llmStreamBuffer =
+  globalForStreams.llmStreamBuffer || new LLMStreamBuffer();
+
+globalForStreams.llmStreamBuffer = llmStreamBuffer;
@@ -0,0 +1,169 @@
+/**
+ * Browser-side reader for protocol v2 LLM streams.
+ *
+ * Rebuilds the reply from delta events and, when the connection drops before
+ * the `end` event, reconnects to /api/llm/stream with the last event id so the
+ * rest of the reply is replayed from the server-side buffer.
+ */
+
+import {
+  parseEventId,
+  type LLMSourceCitation,
+  type LLMStreamResponseV2,
+  type LLMToolActivity,
+} from "./stream-protocol";
+
+export interface LLMStreamHandlers {
+  onStart?: (event: LLMStreamResponseV2) => void;
+  onSources?: (sources: LLMSourceCitation[]) => void; // Knowledge passages the reply draws on
+  onTool?: (tool: LLMToolActivity) => void; // Tool call started or finished
+  onDelta?: (delta: string, content: string) => void;
+  onEnd?: (event: LLMStreamResponseV2) => void; // metadata.abortReason is set for a truncated reply
+}
+
+// Apply a tool event to the calls seen so far: a finished call replaces its
+// running entry
+export function upsertToolActivity(
+  tools: LLMToolActivity[],
+  tool: LLMToolActivity
+): LLMToolActivity[] {
+  return tools.some((entry) => entry.callId === tool.callId)
+    ? tools.map((entry) => (entry.callId === tool.callId ? tool : entry))
+    : [...tools, tool];
+}
+
+export interface LLMStreamReadOptions {
+  maxResumeAttempts?: number;
+  resumeUrl?: string;
+  signal?: AbortSignal; // The request's signal; an abort is not resumed
+}
+
+// Raised for error events sent by the server; these are not retried
+export class LLMStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMStreamError";
+  }
+}
+
+export async function readLLMStream(
+  response: Response,
+  handlers: LLMStreamHandlers = {},
+  options: LLMStreamReadOptions = {}
+): Promise<string> {
+  const {
+    maxResumeAttempts = 3,
+    resumeUrl = "/api/llm/stream",
+    signal,
+  } = options;
+
+  // Progress survives reconnects so replayed events can be skipped
+  const state = {
+    content: "",
+    lastEventId: null as string | null,
+    lastSeq: -1,
+  };
+  let attempts = 0;
+  let current: Response | null = response;
+
+  // Read one connection; resolves true once the end event has arrived
+  const pump = async (res: Response): Promise<boolean> => {
+    const reader = res.body?.getReader();
+
+    if (!reader) throw new Error("No reader available");
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let pendingId: string | null = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) return false;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.startsWith("id: ")) {
+          pendingId = line.slice(4).trim();
+          continue;
+        }
+
+        if (!line.startsWith("data: ")) continue;
+
+        const event: LLMStreamResponseV2 = JSON.parse(line.slice(6));
+
+        // Replayed events we already handled before reconnecting
+        if (event.seq <= state.lastSeq) continue;
+
+        state.lastSeq = event.seq;
+        state.lastEventId = pendingId;
+
+        if (event.type === "start") {
+          handlers.onStart?.(event);
+        } else if (event.type === "sources" && event.sources) {
+          handlers.onSources?.(event.sources);
+        } else if (event.type === "tool" && event.tool) {
+          handlers.onTool?.(event.tool);
+        } else if (event.type === "delta" && event.content) {
+          state.content += event.content;
+          handlers.onDelta?.(event.content, state.content);
+        } else if (event.type === "end") {
+          handlers.onEnd?.(event);
+
+          return true;
+        } else if (event.type === "error") {
+          throw new LLMStreamError(event.message || "Stream failed");
+        }
+      }
+    }
+  };
+
+  while (true) {
+    try {
+      if (current && (await pump(current))) return state.content;
+    } catch (error) {
+      if (error instanceof LLMStreamError || signal?.aborted) throw error;
+      console.warn("LLM stream connection lost, attempting resume:", error);
+    }
+
+    const lastEventId = state.lastEventId;
+
+    if (!lastEventId || !parseEventId(lastEventId)) {
+      throw new Error("LLM stream ended before completion");
+    }
+
+    if (attempts >= maxResumeAttempts) {
+      throw new Error(
+        `LLM stream could not be resumed after ${maxResumeAttempts} attempts`
+      );
+    }
+
+    attempts++;
+    await new Promise((resolve) => setTimeout(resolve, 500 * attempts));
+
+    try {
+      current = await fetch(resumeUrl, {
+        headers: { "Last-Event-ID": lastEventId },
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      // Still offline; try again on the next attempt
+      console.warn("LLM stream resume request failed:", error);
+      current = null;
+      continue;
+    }
+
+    // The buffer expired or lives on another instance - nothing to resume
+    if (current.status === 404) {
+      throw new Error("LLM stream expired before it could be resumed");
+    }
+
+    if (!current.ok) current = null;
+  }
+}
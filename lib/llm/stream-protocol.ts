@@ -0,0 +1,116 @@
+/**
+ * Wire format for streamed LLM replies.
+ *
+ * Version 1 (compatibility mode) re-sends the whole reply so far in every
+ * `content` event. Version 2 sends only the new text in `delta` events, each
+ * carrying a sequence number and an SSE `id:` of the form `<streamId>:<seq>`,
+ * so a client that loses its connection can resume from the server-side
+ * buffer with `Last-Event-ID` instead of losing the reply.
+ *
+ * Both versions send a `sources` event right after `start` when the reply is
+ * grounded in knowledge base passages, listing the passages given to the
+ * model so the client can show citations.
+ *
+ * When the avatar has tools enabled, `tool` events report each tool call the
+ * model makes: once with status "running" while it executes and once more
+ * with its outcome, plus any on-screen action (e.g. recommending another
+ * avatar) for the client to carry out.
+ */
+
+import type { LLMConversationSummary } from "./types";
+
+export type LLMStreamProtocol = 1 | 2;
+
+// Why a generation stopped early: the client went away, or the user
+// interrupted the avatar
+export type LLMAbortReason = "disconnected" | "interrupted";
+
+// One knowledge base passage given to the model; `label` is the number it
+// was shown under ("[Source 2: ...]") so the reply can refer to it
+export interface LLMSourceCitation {
+  label: number;
+  title: string;
+  sourceId: string; // Knowledge base document id
+  avatarId?: string; // Set for avatar-specific documents, unset for shared ones
+  chunkIndex: number;
+  score: number; // Retrieval similarity, 0-1
+  page?: number; // Page the passage starts on, for paged formats
+  section?: string; // Innermost heading above the passage
+  url?: string; // Web sources: the page the passage was crawled from
+}
+
+// Something the client should show as the result of a tool call
+export type LLMToolDisplay =
+  | {
+      type: "recommend-avatar";
+      avatarId: string;
+      avatarName: string;
+      reason?: string;
+    }
+  | { type: "show-cta-qr" };
+
+export interface LLMToolActivity {
+  callId: string;
+  name: string;
+  status: "running" | "completed" | "failed";
+  label: string; // Status line for the visitor, e.g. "Checking upcoming events..."
+  arguments?: Record<string, unknown>;
+  resultPreview?: string; // Start of the result given to the model, for session logs
+  display?: LLMToolDisplay;
+}
+
+export interface LLMStreamMetadata {
+  provider?: string;
+  model?: string;
+  avatarId?: string;
+  userMessage?: string;
+  finalLength?: number;
+  duration?: number;
+  abortReason?: LLMAbortReason; // Set on the end event of a truncated reply
+  moderated?: boolean; // Output moderation withheld part of the reply
+  summary?: LLMConversationSummary; // Sent on the start event; store it with the conversation
+}
+
+export interface LLMStreamResponseV2 {
+  v: 2;
+  streamId: string;
+  seq: number;
+  type: "start" | "sources" | "tool" | "delta" | "end" | "error";
+  content?: string; // Text added since the previous delta
+  sources?: LLMSourceCitation[]; // Only on the sources event
+  tool?: LLMToolActivity; // Only on tool events
+  message?: string;
+  timestamp: string;
+  metadata?: LLMStreamMetadata;
+}
+
+export function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}:${seq}`;
+}
+
+// Returns null for ids that were not produced by formatEventId
+export function parseEventId(
+  eventId: string
+): { streamId: string; seq: number } | null {
+  const separator = eventId.lastIndexOf(":");
+
+  if (separator <= 0) {
+    return null;
+  }
+
+  const seq = Number(eventId.slice(separator + 1));
+
+  if (!Number.isInteger(seq) || seq < 0) {
+    return null;
+  }
+
+  return { streamId: eventId.slice(0, separator), seq };
+}
+
+export function encodeSSEEvent(data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+}
+
+export function generateStreamId(): string {
+  return `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,14 @@
+// Tool call arguments arrive as JSON text; anything unparseable becomes {}
+export function parseToolArguments(json: string): Record<string, unknown> {
+  if (!json.trim()) return {};
+
+  try {
+    const parsed = JSON.parse(json);
+
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : {};
+  } catch {
+    return {};
+  }
+}
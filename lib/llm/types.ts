@@ -0,0 +1,95 @@
+/**
+ * Shared types for the pluggable LLM provider layer.
+ *
+ * Every route that talks to a language model goes through an LLMProvider so the
+ * vendor (OpenAI, Anthropic, a local OpenAI-compatible server or the scripted
+ * test provider) can be chosen per avatar, per case and per route.
+ */
+
+export type LLMProviderName =
+  | "openai"
+  | "anthropic"
+  | "openai-compatible"
+  | "scripted";
+
+// Logical call sites that can each be pointed at a different model
+export type LLMRoute =
+  | "production"
+  | "preview"
+  | "case-chat"
+  | "evaluation"
+  | "summary"
+  | "rerank"
+  | "query-rewrite";
+
+export interface LLMModelConfig {
+  provider: LLMProviderName;
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  contextTokens?: number; // Prompt + reply budget used when windowing history
+}
+
+// Stored on avatars and cases; any field left out falls back to the route default
+export type LLMModelOverride = Partial<LLMModelConfig>;
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: LLMToolCall[]; // Assistant turn that asked for tools to be run
+  toolCallId?: string; // Tool turn: the call this result answers
+}
+
+// A function the model may call; `parameters` is a JSON schema object
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Rolling summary of the turns that no longer fit the context window. The
+// client stores it with the conversation and sends it back on the next turn.
+export interface LLMConversationSummary {
+  content: string;
+  summarizedCount: number; // Leading history messages folded into `content`
+  updatedAt: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  tools?: LLMToolDefinition[]; // Functions the model may call instead of replying
+  toolChoice?: "auto" | "none"; // "none" keeps the tools defined but forces a text reply
+  signal?: AbortSignal; // Aborts the upstream request when the caller goes away
+}
+
+export interface LLMStreamChunk {
+  content?: string; // Text delta produced since the previous chunk
+  usage?: LLMUsage; // Reported once, usually on the final chunk
+  toolCalls?: LLMToolCall[]; // Complete calls, reported once the model has finished them
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  usage?: LLMUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  streamChat(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+}
@@ -0,0 +1,313 @@
+/**
+ * Output moderation - checks model replies before they reach the kiosk.
+ *
+ * Replies are buffered one sentence at a time: a sentence is only released
+ * once it is complete and has passed every enabled check, so the avatar never
+ * speaks a flagged sentence. Every intervention is recorded in the guardrail
+ * incident log.
+ */
+
+import type {
+  GuardrailsConfig,
+  OutputModerationCheck,
+  OutputModerationConfig,
+} from "./guardrails-storage";
+import type { LLMRoute } from "./llm/types";
+import type { UsageAttribution } from "./usage/usage-ledger";
+
+import { DEFAULT_OUTPUT_MODERATION_CONFIG } from "./guardrails-storage";
+import { getEffectiveGuardrails } from "./guardrails";
+import { guardrailIncidentLog } from "./guardrail-incidents";
+import { TopicMatcher } from "./topic-matcher";
+
+export interface OutputModerationFlag {
+  check: OutputModerationCheck;
+  rule: string; // What matched
+  sentence: string;
+}
+
+export interface OutputModerationResult {
+  text: string; // Safe to send now
+  flag?: OutputModerationFlag; // Set when the reply was truncated here
+}
+
+export interface OutputModerationContext {
+  systemPrompt: string; // The prompt sent to the model, to detect leakage
+  route?: LLMRoute;
+  chatSessionId?: string;
+  attribution?: UsageAttribution;
+  profileId?: string; // Guardrail profile that adjusts the global settings
+}
+
+// A sentence ends at terminal punctuation followed by whitespace (so "3.5"
+// and "case.edu" stay whole), at CJK terminal punctuation or at a line break
+const SENTENCE_END = /[.!?]["')\]]*\s+|[。！？]["'）」]*\s*|\n+/g;
+
+// Runs of this many words shared with the system prompt count as leakage
+const LEAKAGE_WORD_RUN = 12;
+
+const LEAKAGE_PHRASES = [
+  /\bmy (?:system prompt|instructions|guidelines) (?:say|says|are|tell)/i,
+  /\b(?:system prompt|system instructions)\b/i,
+  /##\s*(?:Important|Security) Guidelines/i,
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@([\w-]+(?:\.[\w-]+)+)/g;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/;
+const CARD_PATTERN = /\b(?:\d[ -]?){13,16}\b/;
+
+// Two or three capitalized words, as in "Jane Smith" or "Jane Q. Smith"
+const PERSON_NAME_PATTERN = /\b[A-Z][a-z]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z]+\b/;
+
+// Digits of a phone number without the US country code
+function digitsOf(value: string): string {
+  const digits = value.replace(/\D/g, "");
+
+  return digits.length === 11 && digits.startsWith("1")
+    ? digits.slice(1)
+    : digits;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+function wordRuns(text: string, length: number): Set<string> {
+  const all = words(text);
+  const runs = new Set<string>();
+
+  for (let i = 0; i + length <= all.length; i++) {
+    runs.add(all.slice(i, i + length).join(" "));
+  }
+
+  return runs;
+}
+
+/**
+ * Complete sentences at the start of `text` and the incomplete rest. With
+ * `final` the rest is treated as a last sentence.
+ */
+export function splitSentences(
+  text: string,
+  final = false
+): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+
+  const rest = text.slice(start);
+
+  if (final && rest) return { sentences: [...sentences, rest], rest: "" };
+
+  return { sentences, rest };
+}
+
+export class OutputModerator {
+  private buffer = "";
+  private stopped = false;
+  private interventions = 0;
+  private readonly blockedTopics: TopicMatcher;
+  private readonly claims: TopicMatcher;
+  private readonly allowedDigits: Set<string>;
+  private readonly allowedEmails: Set<string>;
+  private readonly promptRuns: Set<string>;
+
+  constructor(
+    private readonly config: OutputModerationConfig,
+    private readonly context: OutputModerationContext,
+    resources?: GuardrailsConfig["mentalHealthResources"]
+  ) {
+    const toMatcher = (phrases: string[]) =>
+      new TopicMatcher(phrases.map((topic) => ({ topic, language: "en" })));
+
+    this.blockedTopics = toMatcher(config.blockedTopics);
+    this.claims = toMatcher(config.realPeopleClaims);
+
+    // Support numbers the guardrails prompt tells the model to give out
+    const contacts = [
+      ...config.allowedContacts,
+      resources?.counselingPhone || "",
+      resources?.crisisLine || "",
+    ];
+
+    this.allowedDigits = new Set(
+      contacts.map(digitsOf).filter((digits) => digits.length >= 3)
+    );
+    this.allowedEmails = new Set(
+      contacts
+        .filter((contact) => contact.includes("@"))
+        .map((contact) => contact.trim().toLowerCase())
+    );
+    this.promptRuns = config.checks.promptLeakage
+      ? wordRuns(context.systemPrompt, LEAKAGE_WORD_RUN)
+      : new Set();
+  }
+
+  get fallbackResponse(): string {
+    return this.config.fallbackResponse;
+  }
+
+  get hasIntervened(): boolean {
+    return this.interventions > 0;
+  }
+
+  /**
+   * Add streamed text; returns the complete sentences that passed. After a
+   * flag in truncate mode every later call returns nothing.
+   */
+  async push(text: string): Promise<OutputModerationResult> {
+    if (this.stopped) return { text: "" };
+
+    this.buffer += text;
+
+    const { sentences, rest } = splitSentences(this.buffer);
+
+    this.buffer = rest;
+
+    return this.release(sentences);
+  }
+
+  // Check and release whatever is still buffered at the end of the reply
+  async flush(): Promise<OutputModerationResult> {
+    if (this.stopped) return { text: "" };
+
+    const { sentences } = splitSentences(this.buffer, true);
+
+    this.buffer = "";
+
+    return this.release(sentences);
+  }
+
+  private async release(sentences: string[]): Promise<OutputModerationResult> {
+    let text = "";
+
+    for (const sentence of sentences) {
+      const flag = this.check(sentence);
+
+      if (!flag) {
+        text += sentence;
+        continue;
+      }
+
+      this.interventions++;
+      await this.record(flag);
+
+      if (this.config.action === "truncate") {
+        this.stopped = true;
+
+        return { text, flag };
+      }
+    }
+
+    return { text };
+  }
+
+  private check(sentence: string): OutputModerationFlag | null {
+    if (!sentence.trim()) return null;
+
+    const { checks } = this.config;
+    const flag = (check: OutputModerationCheck, rule: string) => ({
+      check,
+      rule,
+      sentence,
+    });
+
+    if (checks.blockedTopics) {
+      const topic = this.blockedTopics.match(sentence);
+
+      if (topic) return flag("blockedTopics", topic.topic);
+    }
+
+    if (checks.pii) {
+      const pii = this.findPII(sentence);
+
+      if (pii) return flag("pii", pii);
+    }
+
+    if (checks.realPeople && PERSON_NAME_PATTERN.test(sentence)) {
+      const claim = this.claims.match(sentence);
+
+      if (claim) return flag("realPeople", claim.topic);
+    }
+
+    if (checks.promptLeakage) {
+      const phrase = LEAKAGE_PHRASES.find((pattern) => pattern.test(sentence));
+
+      if (phrase) return flag("promptLeakage", phrase.source);
+
+      const runs = wordRuns(sentence, LEAKAGE_WORD_RUN);
+
+      for (const run of runs) {
+        if (this.promptRuns.has(run)) return flag("promptLeakage", run);
+      }
+    }
+
+    return null;
+  }
+
+  private findPII(sentence: string): string | null {
+    if (SSN_PATTERN.test(sentence)) return "social security number";
+    if (CARD_PATTERN.test(sentence)) return "card number";
+
+    for (const match of sentence.matchAll(EMAIL_PATTERN)) {
+      const email = match[0].toLowerCase();
+      const domain = match[1].toLowerCase();
+      const allowedDomain = this.config.allowedEmailDomains.some(
+        (allowed) =>
+          domain === allowed.toLowerCase() ||
+          domain.endsWith(`.${allowed.toLowerCase()}`)
+      );
+
+      if (!allowedDomain && !this.allowedEmails.has(email)) return "email";
+    }
+
+    for (const match of sentence.matchAll(PHONE_PATTERN)) {
+      if (!this.allowedDigits.has(digitsOf(match[0]))) return "phone number";
+    }
+
+    return null;
+  }
+
+  private async record(flag: OutputModerationFlag): Promise<void> {
+    await guardrailIncidentLog.record({
+      stage: "output",
+      check: flag.check,
+      rule: flag.rule,
+      action: this.config.action,
+      content: flag.sentence,
+      route: this.context.route,
+      profileId: this.context.profileId,
+      chatSessionId: this.context.chatSessionId,
+      attribution: this.context.attribution,
+    });
+  }
+}
+
+/**
+ * Moderator for one reply, or null when output moderation is turned off.
+ * Configs saved before output moderation existed get the defaults.
+ */
+export async function createOutputModerator(
+  context: OutputModerationContext
+): Promise<OutputModerator | null> {
+  const { config } = await getEffectiveGuardrails(context.profileId);
+  const moderation: OutputModerationConfig = {
+    ...DEFAULT_OUTPUT_MODERATION_CONFIG,
+    ...config.outputModeration,
+    checks: {
+      ...DEFAULT_OUTPUT_MODERATION_CONFIG.checks,
+      ...config.outputModeration?.checks,
+    },
+  };
+
+  if (!moderation.enabled) return null;
+
+  return new OutputModerator(moderation, context, config.mentalHealthResources);
+}
@@ -0,0 +1,60 @@
+/**
+ * Prompt injection detection for visitor and student messages.
+ *
+ * Pattern based: each rule names a family of attempts to rewrite the model's
+ * role or read its hidden instructions. Messages are normalized first so
+ * look-alike characters and zero-width spaces do not slip past the patterns.
+ */
+
+export interface PromptInjectionMatch {
+  rule: string; // Name of the pattern family that matched
+  excerpt: string; // The matched text
+}
+
+const INJECTION_RULES: Array<{ rule: string; pattern: RegExp }> = [
+  {
+    rule: "ignore-instructions",
+    pattern:
+      /\b(?:ignore|disregard|forget|override|bypass)\b[^.!?\n]{0,30}\b(?:your|previous|prior|above|earlier|all|any|system)\b[^.!?\n]{0,20}\b(?:instructions?|prompts?|rules|directions|guidelines|programming)\b/i,
+  },
+  {
+    rule: "reveal-instructions",
+    pattern:
+      /\b(?:reveal|show|print|repeat|output|display|recite|dump|tell me|what (?:is|are|was|were))\b[^.!?\n]{0,40}\b(?:system prompt|(?:your|hidden|initial|original|secret) (?:instructions|prompt|guidelines|brief(?:ing)?)|everything above)\b/i,
+  },
+  {
+    rule: "role-override",
+    pattern:
+      /\b(?:you are now|you're now|you are no longer|from now on,? you|stop (?:being|playing|pretending)|break character|out of character|new persona|switch (?:roles?|persona))\b/i,
+  },
+  {
+    rule: "jailbreak",
+    pattern: /\b(?:jailbreak|developer mode|do anything now|DAN mode|god mode)\b/i,
+  },
+  {
+    // Text dressed up as a system or assistant turn, or chat template tokens
+    rule: "fake-turn",
+    pattern:
+      /(?:^|\n)\s*(?:system|assistant|developer)\s*:|<\|?(?:im_start|im_end|system|endoftext)\|?>|\[\/?(?:INST|SYS)\]/i,
+  },
+];
+
+// Zero-width and bidi control characters
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+/**
+ * First injection pattern found in the message, or null
+ */
+export function detectPromptInjection(
+  message: string
+): PromptInjectionMatch | null {
+  const normalized = message.normalize("NFKC").replace(INVISIBLE_CHARACTERS, "");
+
+  for (const { rule, pattern } of INJECTION_RULES) {
+    const match = normalized.match(pattern);
+
+    if (match) return { rule, excerpt: match[0].trim() };
+  }
+
+  return null;
+}
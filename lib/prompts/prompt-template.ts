@@ -0,0 +1,269 @@
+/**
+ * Avatar system prompts as templates: named sections rendered in a fixed
+ * order, with `{{variable}}` placeholders filled in when the prompt is built.
+ *
+ * Generated text (speech patterns) lives in its own section instead of being
+ * spliced into the free-text prompt behind a marker heading. Pure functions,
+ * safe to use from client components and routes alike.
+ */
+
+import type { Avatar } from "../avatar-storage";
+
+export type PromptSectionName =
+  | "persona"
+  | "speechPattern"
+  | "guardrails"
+  | "knowledge";
+
+export interface PromptSectionInfo {
+  name: PromptSectionName;
+  label: string;
+  description: string;
+}
+
+// Render order
+export const PROMPT_SECTIONS: PromptSectionInfo[] = [
+  {
+    name: "persona",
+    label: "Persona",
+    description: "Who the avatar is, its role, tone and expertise",
+  },
+  {
+    name: "speechPattern",
+    label: "Speech pattern",
+    description: "Generated from speech analysis of the avatar's recordings",
+  },
+  {
+    name: "guardrails",
+    label: "Guardrails",
+    description:
+      "Avatar-specific rules; the global guardrails from System Settings are always added after the prompt",
+  },
+  {
+    name: "knowledge",
+    label: "Knowledge context",
+    description:
+      "How to use the knowledge base; retrieved passages are added per message",
+  },
+];
+
+export interface PromptSection {
+  content: string;
+  enabled: boolean;
+}
+
+export type PromptVariableName =
+  | "avatarName"
+  | "avatarTitle"
+  | "date"
+  | "kioskLocation"
+  | "language";
+
+// Variables an admin sets per avatar; the rest come from the avatar or the clock
+export type PromptTemplateVariables = Partial<
+  Record<"kioskLocation" | "language", string>
+>;
+
+export interface PromptVariableInfo {
+  name: PromptVariableName;
+  label: string;
+  type: "text" | "date" | "select";
+  source: "avatar" | "clock" | "template";
+  description: string;
+  options?: string[];
+  defaultValue?: string;
+}
+
+export const PROMPT_VARIABLES: PromptVariableInfo[] = [
+  {
+    name: "avatarName",
+    label: "Avatar name",
+    type: "text",
+    source: "avatar",
+    description: "The avatar's display name",
+  },
+  {
+    name: "avatarTitle",
+    label: "Avatar title",
+    type: "text",
+    source: "avatar",
+    description: "The avatar's professional title",
+  },
+  {
+    name: "date",
+    label: "Date",
+    type: "date",
+    source: "clock",
+    description: "Today's date (US Eastern) when the conversation runs",
+  },
+  {
+    name: "kioskLocation",
+    label: "Kiosk location",
+    type: "text",
+    source: "template",
+    description: "Where the kiosk running this avatar stands",
+  },
+  {
+    name: "language",
+    label: "Language",
+    type: "select",
+    source: "template",
+    description: "Language the avatar answers in by default",
+    options: ["English", "Spanish", "French", "German", "Chinese", "Hindi"],
+    defaultValue: "English",
+  },
+];
+
+export interface PromptTemplate {
+  sections: Record<PromptSectionName, PromptSection>;
+  variables: PromptTemplateVariables;
+  version: number; // Set when the template is recorded in the avatar's history
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface PromptRenderContext {
+  avatarName?: string;
+  avatarTitle?: string;
+  now?: Date;
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  missingVariables: PromptVariableName[]; // Known variables with no value
+  unknownVariables: string[]; // Placeholders that are not variables; left as written
+}
+
+// Same zone as the date line guardrails add to every prompt
+const PROMPT_TIME_ZONE = "America/New_York";
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Headings earlier versions spliced speech patterns in under
+const LEGACY_SPEECH_MARKER =
+  /\n*## (?:PERSONAL SPEECH PATTERN|SPEECH PATTERN|Speech Pattern Enhancement:)/;
+
+export function createPromptTemplate(
+  sections: Partial<Record<PromptSectionName, PromptSection>> = {},
+  variables: PromptTemplateVariables = {}
+): PromptTemplate {
+  const empty = { content: "", enabled: true };
+
+  return {
+    sections: {
+      persona: sections.persona || empty,
+      speechPattern: sections.speechPattern || { content: "", enabled: false },
+      guardrails: sections.guardrails || empty,
+      knowledge: sections.knowledge || empty,
+    },
+    variables,
+    version: 0,
+    updatedAt: new Date().toISOString(),
+    updatedBy: "System",
+  };
+}
+
+/**
+ * Template for an avatar saved before templates existed: the prompt up to the
+ * speech pattern heading becomes the persona and the stored speech addition
+ * its own section.
+ */
+export function templateFromLegacyAvatar(
+  avatar: Pick<Avatar, "systemPrompt" | "speechPromptAddition"> & {
+    originalSystemPrompt?: string;
+  }
+): PromptTemplate {
+  const persona =
+    avatar.originalSystemPrompt ||
+    (avatar.systemPrompt || "").split(LEGACY_SPEECH_MARKER)[0];
+  const speechPattern = (avatar.speechPromptAddition || "").trim();
+
+  return createPromptTemplate({
+    persona: { content: persona.trim(), enabled: true },
+    speechPattern: { content: speechPattern, enabled: !!speechPattern },
+  });
+}
+
+export function getAvatarPromptTemplate(avatar: Avatar): PromptTemplate {
+  return avatar.promptTemplate || templateFromLegacyAvatar(avatar);
+}
+
+function getVariableValues(
+  template: PromptTemplate,
+  context: PromptRenderContext
+): Record<PromptVariableName, string> {
+  const now = context.now || new Date();
+
+  return {
+    avatarName: context.avatarName || "",
+    avatarTitle: context.avatarTitle || "",
+    date: now.toLocaleDateString("en-US", {
+      timeZone: PROMPT_TIME_ZONE,
+      dateStyle: "full",
+    }),
+    kioskLocation: template.variables.kioskLocation || "",
+    language: template.variables.language || "English",
+  };
+}
+
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  context: PromptRenderContext = {}
+): RenderedPrompt {
+  const values = getVariableValues(template, context);
+  const missing = new Set<PromptVariableName>();
+  const unknown = new Set<string>();
+
+  const prompt = PROMPT_SECTIONS.map(({ name }) => template.sections[name])
+    .filter((section) => section?.enabled && section.content.trim())
+    .map((section) =>
+      section.content.trim().replace(VARIABLE_PATTERN, (placeholder, name) => {
+        if (!(name in values)) {
+          unknown.add(name);
+
+          return placeholder;
+        }
+
+        const value = values[name as PromptVariableName];
+
+        if (!value) missing.add(name as PromptVariableName);
+
+        return value;
+      })
+    )
+    .join("\n\n");
+
+  return {
+    prompt,
+    missingVariables: [...missing],
+    unknownVariables: [...unknown],
+  };
+}
+
+/**
+ * The system prompt for a conversation starting now. Avatars without a
+ * template use their stored prompt unchanged.
+ */
+export function renderAvatarPrompt(avatar: Avatar, now?: Date): string {
+  if (!avatar.promptTemplate) return avatar.systemPrompt;
+
+  return renderPromptTemplate(avatar.promptTemplate, {
+    avatarName: avatar.name,
+    avatarTitle: avatar.title,
+    now,
+  }).prompt;
+}
+
+// Whether two templates would render the same prompt; version and
+// authorship are ignored
+export function isSamePromptTemplate(
+  a: PromptTemplate | undefined,
+  b: PromptTemplate | undefined
+): boolean {
+  if (!a || !b) return a === b;
+
+  return (
+    JSON.stringify([a.sections, a.variables]) ===
+    JSON.stringify([b.sections, b.variables])
+  );
+}
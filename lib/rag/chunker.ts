@@ -0,0 +1,512 @@
+/**
+ * Structure-aware chunking for knowledge base documents.
+ *
+ * Extractors turn a document into blocks (headings, paragraphs, lists and
+ * tables, each with its page when the format has pages); the chunker packs
+ * consecutive blocks of one section into chunks of about `maxTokens`. Chunks
+ * never span two sections and carry their heading path and pages, so a
+ * citation can say "page 4, Admissions". Blocks too large for one chunk are
+ * split at sentences, list items or table rows (repeating the table header).
+ */
+
+export type DocumentBlockType = "heading" | "paragraph" | "list" | "table";
+
+export interface DocumentBlock {
+  type: DocumentBlockType;
+  text: string; // Lists: one "- item" per line; tables: one "a | b" row per line, header first
+  level?: number; // Headings only, 1 is the top level
+  page?: number; // 1-based, for paged formats
+}
+
+export interface ChunkingOptions {
+  maxTokens: number;
+  overlapTokens: number; // Carried into the next chunk of the same section
+}
+
+export interface StructuredChunk {
+  text: string;
+  headingPath: string[]; // Enclosing headings, outermost first
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  maxTokens: 500,
+  overlapTokens: 50,
+};
+
+// Rough token estimation: ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+
+const MIN_CHUNK_TOKENS = 100;
+const MAX_CHUNK_TOKENS = 2000;
+
+/**
+ * Defaults with the valid fields of `options` applied; overlap is capped at
+ * half the chunk size
+ */
+export function resolveChunkingOptions(
+  options?: Partial<ChunkingOptions>
+): ChunkingOptions {
+  const maxTokens =
+    typeof options?.maxTokens === "number" && options.maxTokens > 0
+      ? Math.round(
+          Math.min(MAX_CHUNK_TOKENS, Math.max(MIN_CHUNK_TOKENS, options.maxTokens))
+        )
+      : DEFAULT_CHUNKING.maxTokens;
+  const overlapTokens =
+    typeof options?.overlapTokens === "number" && options.overlapTokens >= 0
+      ? Math.round(Math.min(maxTokens / 2, options.overlapTokens))
+      : Math.min(maxTokens / 2, DEFAULT_CHUNKING.overlapTokens);
+
+  return { maxTokens, overlapTokens };
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•▪◦‣]|\d{1,3}[.)]|[a-z][.)])\s+(.*)$/i;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function isTableRow(line: string): boolean {
+  return (line.match(/\|/g) || []).length >= 2;
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => collapseWhitespace(cell));
+}
+
+/**
+ * Blocks of plain text or Markdown: "#" and underlined headings, bulleted and
+ * numbered lists, pipe tables, and paragraphs separated by blank lines. Lines
+ * within a paragraph are joined, so hard-wrapped text reads as one paragraph.
+ */
+export function parsePlainText(text: string, page?: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  let list: string[] = [];
+  let table: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      const joined = collapseWhitespace(paragraph.join(" "));
+
+      if (joined) blocks.push({ type: "paragraph", text: joined, page });
+      paragraph = [];
+    }
+    if (list.length > 0) {
+      blocks.push({ type: "list", text: list.join("\n"), page });
+      list = [];
+    }
+    if (table.length > 0) {
+      blocks.push({ type: "table", text: table.join("\n"), page });
+      table = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING_PATTERN);
+
+    if (heading) {
+      flush();
+      blocks.push({
+        type: "heading",
+        text: collapseWhitespace(heading[2]),
+        level: heading[1].length,
+        page,
+      });
+      continue;
+    }
+
+    // Setext headings: a single line underlined with === or ---
+    const underline = lines[i + 1]?.trim() || "";
+
+    if (
+      paragraph.length === 0 &&
+      list.length === 0 &&
+      table.length === 0 &&
+      /^(={3,}|-{3,})$/.test(underline) &&
+      trimmed.length <= 120
+    ) {
+      flush();
+      blocks.push({
+        type: "heading",
+        text: collapseWhitespace(trimmed),
+        level: underline.startsWith("=") ? 1 : 2,
+        page,
+      });
+      i++;
+      continue;
+    }
+
+    if (isTableRow(trimmed)) {
+      if (table.length === 0) flush();
+      if (!TABLE_SEPARATOR_PATTERN.test(trimmed)) {
+        table.push(tableCells(trimmed).join(" | "));
+      }
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+
+    if (item) {
+      if (list.length === 0) flush();
+      const indent = line.match(/^\s*/)![0].length >= 2 ? "  " : "";
+
+      list.push(`${indent}- ${collapseWhitespace(item[1])}`);
+      continue;
+    }
+
+    // Wrapped continuation of the last list item
+    if (list.length > 0 && /^\s+/.test(line)) {
+      list[list.length - 1] += ` ${collapseWhitespace(trimmed)}`;
+      continue;
+    }
+
+    if (list.length > 0 || table.length > 0) flush();
+    paragraph.push(trimmed);
+  }
+
+  flush();
+
+  return blocks;
+}
+
+// Markdown inline syntax reduced to its text: links and images keep their
+// label, emphasis and code markers are dropped
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/<!--.*?-->/g, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_](?=\S)(.+?)(?<=\S)[*_](?![\w*])/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^(\s*)>\s?/, "$1");
+}
+
+/**
+ * Blocks of a Markdown document: like parsePlainText, after dropping front
+ * matter, link reference definitions and inline syntax. Fenced code blocks
+ * are kept verbatim as paragraphs, so "#" comments in them are not headings.
+ */
+export function parseMarkdown(text: string): DocumentBlock[] {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    .split("\n");
+  const blocks: DocumentBlock[] = [];
+  let prose: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(/^\s*(`{3,}|~{3,})/);
+
+    if (!fence) {
+      if (!/^\s*\[[^\]]+\]:\s+\S+/.test(lines[i])) {
+        prose.push(stripInlineMarkdown(lines[i]));
+      }
+      continue;
+    }
+
+    const code: string[] = [];
+
+    for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+      code.push(lines[i]);
+    }
+
+    blocks.push(...parsePlainText(prose.join("\n")));
+    prose = [];
+
+    if (code.join("").trim()) {
+      blocks.push({ type: "paragraph", text: code.join("\n").trim() });
+    }
+  }
+
+  blocks.push(...parsePlainText(prose.join("\n")));
+
+  return blocks;
+}
+
+/**
+ * Blocks of an HTML document or fragment: h1-h6, paragraphs, lists, tables,
+ * and the text of any other element. Scripts, styles and navigation are
+ * skipped.
+ */
+export async function parseHtml(html: string): Promise<DocumentBlock[]> {
+  const { JSDOM } = await import("jsdom");
+  const { document } = new JSDOM(html).window;
+  const blocks: DocumentBlock[] = [];
+  const SKIPPED = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "NAV", "TEMPLATE", "SVG"]);
+  const BLOCK_LEVEL = /^(P|DIV|SECTION|ARTICLE|MAIN|HEADER|FOOTER|ASIDE|BLOCKQUOTE|PRE|FIGURE|FIGCAPTION|DL|DT|DD|ADDRESS|H[1-6]|UL|OL|TABLE|LI|BR|HR)$/;
+  let inline: string[] = [];
+
+  const flushInline = () => {
+    const text = collapseWhitespace(inline.join(" "));
+
+    if (text) blocks.push({ type: "paragraph", text });
+    inline = [];
+  };
+
+  const listItems = (list: Element, depth: number): string[] =>
+    Array.from(list.children)
+      .filter((child) => child.tagName === "LI")
+      .flatMap((item) => {
+        const nested = Array.from(item.children).filter((child) =>
+          ["UL", "OL"].includes(child.tagName)
+        );
+        const clone = item.cloneNode(true) as Element;
+
+        clone.querySelectorAll("ul, ol").forEach((child) => child.remove());
+
+        const text = collapseWhitespace(clone.textContent || "");
+
+        return [
+          ...(text ? [`${"  ".repeat(Math.min(depth, 1))}- ${text}`] : []),
+          ...nested.flatMap((child) => listItems(child, depth + 1)),
+        ];
+      });
+
+  const visit = (node: Node) => {
+    if (node.nodeType === 3) {
+      inline.push(node.textContent || "");
+
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+
+    if (SKIPPED.has(tag)) return;
+    if (!BLOCK_LEVEL.test(tag)) {
+      inline.push(element.textContent || "");
+
+      return;
+    }
+
+    flushInline();
+
+    if (/^H[1-6]$/.test(tag)) {
+      const text = collapseWhitespace(element.textContent || "");
+
+      if (text) blocks.push({ type: "heading", text, level: Number(tag[1]) });
+    } else if (tag === "UL" || tag === "OL") {
+      const items = listItems(element, 0);
+
+      if (items.length > 0) blocks.push({ type: "list", text: items.join("\n") });
+    } else if (tag === "TABLE") {
+      const rows = Array.from(element.querySelectorAll("tr"))
+        .map((row) =>
+          Array.from(row.querySelectorAll("th, td"))
+            .map((cell) => collapseWhitespace(cell.textContent || ""))
+            .join(" | ")
+        )
+        .filter((row) => row.replace(/[|\s]/g, ""));
+
+      if (rows.length > 0) blocks.push({ type: "table", text: rows.join("\n") });
+    } else if (tag === "PRE") {
+      const text = (element.textContent || "").trim();
+
+      if (text) blocks.push({ type: "paragraph", text });
+    } else {
+      element.childNodes.forEach(visit);
+      flushInline();
+    }
+  };
+
+  (document.body || document.documentElement).childNodes.forEach(visit);
+  flushInline();
+
+  return blocks;
+}
+
+// Sentences of a paragraph, keeping their end punctuation
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=\S)/);
+}
+
+// Pieces of at most maxChars, split at word boundaries
+function splitWords(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(" ", maxChars);
+    const end = space > maxChars / 2 ? space : maxChars;
+
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+// Pack units into pieces of at most maxChars
+function packUnits(units: string[], separator: string, maxChars: number, prefix = ""): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const unit of units.flatMap((unit) =>
+    unit.length + prefix.length > maxChars
+      ? splitWords(unit, maxChars - prefix.length)
+      : [unit]
+  )) {
+    const next = current ? `${current}${separator}${unit}` : unit;
+
+    if (current && prefix.length + next.length > maxChars) {
+      pieces.push(prefix + current);
+      current = unit;
+    } else {
+      current = next;
+    }
+  }
+
+  if (current) pieces.push(prefix + current);
+
+  return pieces;
+}
+
+// A block split into pieces that each fit in a chunk
+function splitBlock(block: DocumentBlock, maxChars: number): string[] {
+  if (block.text.length <= maxChars) return [block.text];
+
+  switch (block.type) {
+    case "list":
+      return packUnits(block.text.split("\n"), "\n", maxChars);
+    case "table": {
+      const [header, ...rows] = block.text.split("\n");
+
+      // Without a header that fits, split the rows alone
+      return header.length < maxChars / 2
+        ? packUnits(rows, "\n", maxChars, `${header}\n`)
+        : packUnits(block.text.split("\n"), "\n", maxChars);
+    }
+    default:
+      return packUnits(splitSentences(block.text), " ", maxChars);
+  }
+}
+
+// The end of a chunk to repeat at the start of the next: whole sentences up
+// to maxChars, or the last words if one sentence is longer
+function overlapTail(text: string, maxChars: number): string {
+  if (maxChars <= 0) return "";
+
+  const sentences = splitSentences(text.split("\n\n").pop() || "");
+  let tail = "";
+
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const next = tail ? `${sentences[i]} ${tail}` : sentences[i];
+
+    if (next.length > maxChars) break;
+    tail = next;
+  }
+
+  if (tail) return tail;
+
+  const last = sentences[sentences.length - 1] || "";
+  const start = last.indexOf(" ", last.length - maxChars);
+
+  return start >= 0 ? last.slice(start + 1) : "";
+}
+
+export function chunkBlocks(
+  blocks: DocumentBlock[],
+  options: ChunkingOptions = DEFAULT_CHUNKING
+): StructuredChunk[] {
+  const maxChars = options.maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = options.overlapTokens * CHARS_PER_TOKEN;
+  const chunks: StructuredChunk[] = [];
+  let headings: { level: number; text: string }[] = [];
+  let parts: string[] = [];
+  let pages: number[] = [];
+  let length = 0;
+  // Overlap only, no new content yet
+  let carriedOnly = false;
+
+  const flush = (carry: boolean) => {
+    if (parts.length > 0 && !carriedOnly) {
+      const text = parts.join("\n\n");
+
+      chunks.push({
+        text,
+        headingPath: headings.map((heading) => heading.text),
+        pageStart: pages.length ? Math.min(...pages) : undefined,
+        pageEnd: pages.length ? Math.max(...pages) : undefined,
+      });
+
+      const tail = carry ? overlapTail(text, overlapChars) : "";
+
+      parts = tail ? [tail] : [];
+      pages = tail && pages.length ? [Math.max(...pages)] : [];
+      length = tail.length;
+      carriedOnly = !!tail;
+
+      return;
+    }
+
+    if (!carry) {
+      parts = [];
+      pages = [];
+      length = 0;
+      carriedOnly = false;
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type === "heading") {
+      flush(false);
+      headings = [
+        ...headings.filter((heading) => heading.level < (block.level || 1)),
+        { level: block.level || 1, text: block.text },
+      ];
+      continue;
+    }
+
+    for (const piece of splitBlock(block, maxChars - overlapChars)) {
+      if (parts.length > 0 && length + piece.length + 2 > maxChars) {
+        flush(true);
+      }
+
+      parts.push(piece);
+      length += piece.length + 2;
+      carriedOnly = false;
+      if (block.page) pages.push(block.page);
+    }
+  }
+
+  flush(false);
+
+  return chunks;
+}
+
+// All blocks as plain text, for summaries and the stored document text
+export function blocksToText(blocks: DocumentBlock[]): string {
+  return blocks.map((block) => block.text).join("\n\n");
+}
+
+/**
+ * A chunk's text prefixed with its heading path ("Admissions > Deadlines"),
+ * so passages that never repeat their section name still match queries
+ * about it. Used for embeddings and the keyword index, not for display.
+ */
+export function withHeadingContext(text: string, headingPath?: string[]): string {
+  return headingPath?.length ? `${headingPath.join(" > ")}\n\n${text}` : text;
+}
@@ -0,0 +1,90 @@
+/**
+ * Knowledge base passages in avatar prompts, and the citations sent to the
+ * client for them.
+ *
+ * Passages are labelled "[Source n: title, page 4, Admissions]" in the prompt
+ * (page and section when known) and the model is asked to cite them by label; the stream's `sources` event lists the same
+ * labels so the client can link a citation back to its document.
+ */
+
+import type { ContextWindowKnowledge } from "../llm/context-window";
+import type { LLMSourceCitation } from "../llm/stream-protocol";
+import type { RAGContext } from "./rag-service";
+
+type RAGChunk = RAGContext["chunks"][number];
+
+// "page 4, Admissions", or whichever part is known
+export function formatCitationLocation(location: {
+  page?: number;
+  section?: string;
+}): string {
+  return [location.page && `page ${location.page}`, location.section]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function getChunkLocation(chunk: RAGChunk): { page?: number; section?: string } {
+  return {
+    page: chunk.metadata.pageNumber || undefined,
+    section: chunk.metadata.headingPath?.[chunk.metadata.headingPath.length - 1],
+  };
+}
+
+function formatPassage(chunk: RAGChunk, index: number): string {
+  const location = formatCitationLocation(getChunkLocation(chunk));
+  const label = location ? `${chunk.source}, ${location}` : chunk.source;
+
+  return `[Source ${index + 1}: ${label}]\n${chunk.text}\n`;
+}
+
+function wrapKnowledge(passages: string): string {
+  return `## Knowledge Base Context\n\nYou have access to the following relevant information from your knowledge base:\n\n${passages}\n\nWhen answering questions, you should prioritize information from your knowledge base when relevant. When you use a passage, cite it by its label, e.g. [Source 1].`;
+}
+
+// Knowledge section input for buildContextWindow
+export function toContextKnowledge(
+  ragContext: RAGContext
+): ContextWindowKnowledge {
+  return {
+    passages: ragContext.chunks.map(formatPassage),
+    wrap: wrapKnowledge,
+  };
+}
+
+/**
+ * Citations for the first `count` chunks, i.e. the passages that made it into
+ * the prompt.
+ */
+export function toSourceCitations(
+  ragContext: RAGContext,
+  count: number = ragContext.chunks.length
+): LLMSourceCitation[] {
+  return ragContext.chunks.slice(0, count).map((chunk, index) => ({
+    label: index + 1,
+    title: chunk.source,
+    sourceId: chunk.metadata.sourceId,
+    avatarId: chunk.metadata.avatarId || undefined,
+    chunkIndex: chunk.metadata.chunkIndex,
+    score: Math.round(chunk.score * 1000) / 1000,
+    ...getChunkLocation(chunk),
+    url: chunk.metadata.url || undefined,
+  }));
+}
+
+// Where the client can open the cited document
+export function getCitationUrl(citation: LLMSourceCitation): string {
+  if (citation.url) return citation.url;
+
+  const params = new URLSearchParams({ sourceId: citation.sourceId });
+
+  if (citation.avatarId) params.set("avatarId", citation.avatarId);
+
+  // Browser PDF viewers open at the page given in the fragment
+  if (citation.page) {
+    params.set("inline", "true");
+
+    return `/api/documents/download?${params.toString()}#page=${citation.page}`;
+  }
+
+  return `/api/documents/download?${params.toString()}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Content hash index of the uploaded documents.
+ *
+ * A knowledge base namespace holds each uploaded file once. Rather than
+ * reading every document's metadata on each upload, the index maps a file's
+ * SHA-256 to the document whose current version has it: an upload claims
+ * its hash before the file is stored, so at most one of two identical
+ * uploads goes through. A replacement moves the hash once it becomes the
+ * current version, and deleting a document releases its hashes.
+ */
+
+import type { KnowledgeContentHash } from "@prisma/client";
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "../prisma";
+
+export interface ContentHashOwner {
+  sourceId: string;
+  claimedAt: Date;
+}
+
+export class ContentHashIndex {
+  // The document holding a file in a namespace, if any. Database errors are
+  // thrown: an upload must not go through unchecked
+  async find(
+    namespace: string,
+    contentHash: string
+  ): Promise<ContentHashOwner | null> {
+    const row: KnowledgeContentHash | null =
+      await prisma.knowledgeContentHash.findUnique({
+        where: { namespace_contentHash: { namespace, contentHash } },
+      });
+
+    return row ? { sourceId: row.sourceId, claimedAt: row.updatedAt } : null;
+  }
+
+  /**
+   * Claim a hash for a document about to be stored. A hash held by another
+   * document is only taken over from `replacing`, the owner the caller found
+   * stale; returns false when another upload got there first.
+   */
+  async claim(
+    namespace: string,
+    contentHash: string,
+    sourceId: string,
+    replacing?: string
+  ): Promise<boolean> {
+    if (replacing) {
+      const { count } = await prisma.knowledgeContentHash.updateMany({
+        where: { namespace, contentHash, sourceId: replacing },
+        data: { sourceId },
+      });
+
+      return count === 1;
+    }
+
+    try {
+      await prisma.knowledgeContentHash.create({
+        data: { namespace, contentHash, sourceId },
+      });
+
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // A replacement became the current version of its document
+  async move(
+    namespace: string,
+    sourceId: string,
+    from: string | undefined,
+    to: string
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.knowledgeContentHash.deleteMany({
+        where: { namespace, sourceId, contentHash: from ?? "" },
+      }),
+      prisma.knowledgeContentHash.upsert({
+        where: { namespace_contentHash: { namespace, contentHash: to } },
+        create: { namespace, contentHash: to, sourceId },
+        update: { sourceId },
+      }),
+    ]);
+  }
+
+  async removeSource(sourceId: string): Promise<void> {
+    await prisma.knowledgeContentHash.deleteMany({ where: { sourceId } });
+  }
+}
+
+// Export singleton instance
+export const contentHashes = new ContentHashIndex();
@@ -0,0 +1,56 @@
+/**
+ * Per-source locks for web crawls.
+ *
+ * A scheduled re-crawl and a manual one of the same source would both diff
+ * against the same crawl state and race on its chunks, so a crawl first
+ * takes its source's lock. Locks are leases in Postgres, shared by every
+ * instance; a crawl that dies without releasing its lock blocks the source
+ * only until the lease runs out.
+ */
+
+import { randomUUID } from "crypto";
+
+import { prisma } from "../prisma";
+
+// Longer than any crawl can run (the crawl routes' maxDuration)
+const LEASE_MS = 15 * 60 * 1000;
+
+// A crawl of the source is already running
+export class CrawlInProgressError extends Error {
+  constructor(sourceId: string) {
+    super(`Web source ${sourceId} is already being crawled`);
+    this.name = "CrawlInProgressError";
+  }
+}
+
+export class CrawlLocks {
+  /**
+   * Take a source's lock, unless another crawl holds an unexpired lease.
+   * Returns the token to release it with, or null.
+   */
+  async acquire(sourceId: string): Promise<string | null> {
+    // The lease is written and tested against the same JS clock; a crawl
+    // that outlived its lease loses the lock to this one
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + LEASE_MS);
+    const token = randomUUID();
+    const rows = await prisma.$queryRaw<{ token: string }[]>`
+      INSERT INTO "WebCrawlLock" ("sourceId", "token", "lockedUntil")
+      VALUES (${sourceId}, ${token}, ${lockedUntil})
+      ON CONFLICT ("sourceId") DO UPDATE SET
+        "token" = EXCLUDED."token",
+        "lockedUntil" = EXCLUDED."lockedUntil"
+      WHERE "WebCrawlLock"."lockedUntil" < ${now}
+      RETURNING "token"
+    `;
+
+    return rows[0]?.token === token ? token : null;
+  }
+
+  async release(sourceId: string, token: string): Promise<void> {
+    await prisma.webCrawlLock.deleteMany({ where: { sourceId, token } });
+  }
+}
+
+// Export singleton instance
+export const crawlLocks = new CrawlLocks();
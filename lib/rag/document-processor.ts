@@ -1,12 +1,90 @@
 import PDFParser from "pdf2json";
 import mammoth from "mammoth";
 
+import {
+  blocksToText,
+  chunkBlocks,
+  parseHtml,
+  parseMarkdown,
+  parsePlainText,
+  resolveChunkingOptions,
+  type ChunkingOptions,
+  type DocumentBlock,
+} from "./chunker";
+import {
+  extractHtmlBlocks,
+  extractPptxBlocks,
+  extractXlsxBlocks,
+  parseCsv,
+  rowsToBlocks,
+} from "./format-extractors";
+
+// Supported formats by MIME type, with their file extensions and label
+const SUPPORTED_FORMATS: {
+  mimeType: string;
+  extensions: string[];
+  label: string;
+}[] = [
+  { mimeType: "application/pdf", extensions: [".pdf"], label: "PDF" },
+  { mimeType: "text/plain", extensions: [".txt"], label: "TXT" },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extensions: [".docx"],
+    label: "DOCX",
+  },
+  {
+    mimeType: "text/markdown",
+    extensions: [".md", ".markdown"],
+    label: "Markdown",
+  },
+  { mimeType: "text/html", extensions: [".html", ".htm"], label: "HTML" },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    extensions: [".pptx"],
+    label: "PPTX",
+  },
+  { mimeType: "text/csv", extensions: [".csv"], label: "CSV" },
+  {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extensions: [".xlsx"],
+    label: "XLSX",
+  },
+];
+
+// Types browsers report for some of these files, and vague ones that the
+// file extension has to settle
+const GENERIC_MIME_TYPES = new Set([
+  "",
+  "application/octet-stream",
+  "text/x-markdown",
+  "application/csv",
+  "text/x-csv",
+  "application/vnd.ms-excel",
+]);
+
 export interface TextChunk {
   text: string;
   chunkIndex: number;
   totalChunks: number;
+  headingPath: string[]; // Enclosing headings, outermost first
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+// One line of PDF text with the style used to spot headings
+interface PdfLine {
+  text: string;
+  size: number;
+  bold: boolean;
+  y: number;
 }
 
+// Running page numbers ("4", "Page 4 of 12") left out of the text
+const PAGE_NUMBER_LINE = /^(?:page\s+)?\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+
 export interface ProcessedDocument {
   title: string;
   chunks: TextChunk[];
@@ -15,39 +93,172 @@ export interface ProcessedDocument {
     sourceId: string;
     originalText: string;
     processingDate: string;
+    chunking: ChunkingOptions;
   };
 }
 
 export class DocumentProcessor {
+  // Parse a PDF into pdf2json's page data
+  private parsePDF(buffer: Buffer): Promise<any> {
+    const pdfParser = new PDFParser();
+
+    return new Promise((resolve, reject) => {
+      pdfParser.on("pdfParser_dataError", (errData: any) => {
+        reject(new Error(`PDF parsing error: ${errData.parserError}`));
+      });
+
+      pdfParser.on("pdfParser_dataReady", (pdfData: any) => resolve(pdfData));
+
+      pdfParser.parseBuffer(buffer);
+    });
+  }
+
   // Extract text from PDF buffer
   async extractTextFromPDF(buffer: Buffer): Promise<string> {
     try {
-      const pdfParser = new PDFParser();
-
-      return new Promise((resolve, reject) => {
-        pdfParser.on("pdfParser_dataError", (errData: any) => {
-          reject(new Error(`PDF parsing error: ${errData.parserError}`));
+      const pdfData = await this.parsePDF(buffer);
+
+      // Extract text from all pages
+      let fullText = "";
+      pdfData.Pages.forEach((page: any) => {
+        page.Texts.forEach((text: any) => {
+          text.R.forEach((run: any) => {
+            fullText += decodeURIComponent(run.T);
+          });
         });
+        fullText += "\n";
+      });
 
-        pdfParser.on("pdfParser_dataReady", (pdfData: any) => {
-          try {
-            // Extract text from all pages
-            let fullText = "";
-            pdfData.Pages.forEach((page: any) => {
-              page.Texts.forEach((text: any) => {
-                text.R.forEach((run: any) => {
-                  fullText += decodeURIComponent(run.T);
-                });
-              });
-              fullText += "\n";
-            });
-            resolve(fullText);
-          } catch (error) {
-            reject(new Error(`Failed to extract text from PDF data: ${error}`));
+      return fullText;
+    } catch (error) {
+      console.error("Failed to extract text from PDF:", error);
+      throw new Error("Failed to extract text from PDF");
+    }
+  }
+
+  // Lines of one PDF page, top to bottom, from text items on the same baseline
+  private getPDFLines(page: any): PdfLine[] {
+    const items = [...(page.Texts || [])].sort(
+      (a: any, b: any) => a.y - b.y || a.x - b.x
+    );
+    const lines: { y: number; items: any[] }[] = [];
+
+    for (const item of items) {
+      const line = lines[lines.length - 1];
+
+      if (line && Math.abs(item.y - line.y) < 0.3) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item] });
+      }
+    }
+
+    return lines
+      .map((line) => {
+        const runs = line.items
+          .sort((a, b) => a.x - b.x)
+          .flatMap((item) => item.R || []);
+        const text = runs
+          .map((run: any) => decodeURIComponent(run.T))
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim();
+
+        return {
+          text,
+          size: Math.max(...runs.map((run: any) => run.TS?.[1] || 0)),
+          bold: runs.length > 0 && runs.every((run: any) => run.TS?.[2] === 1),
+          y: line.y,
+        };
+      })
+      .filter((line) => line.text && !PAGE_NUMBER_LINE.test(line.text));
+  }
+
+  /**
+   * Blocks of a PDF with their page numbers. Headings are lines set larger
+   * than the body text (or bold at body size); vertical gaps start paragraphs.
+   */
+  async extractBlocksFromPDF(buffer: Buffer): Promise<DocumentBlock[]> {
+    try {
+      const pdfData = await this.parsePDF(buffer);
+      const pages: PdfLine[][] = pdfData.Pages.map((page: any) =>
+        this.getPDFLines(page)
+      );
+
+      // Body size: the size most of the text is set in
+      const sizeWeights = new Map<number, number>();
+
+      for (const line of pages.flat()) {
+        sizeWeights.set(
+          line.size,
+          (sizeWeights.get(line.size) || 0) + line.text.length
+        );
+      }
+
+      const bodySize =
+        Array.from(sizeWeights).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+      const isHeading = (line: PdfLine) =>
+        line.text.length <= 120 &&
+        !/[.,;:]$/.test(line.text) &&
+        /\p{L}/u.test(line.text) &&
+        (line.size >= bodySize * 1.15 || (line.bold && line.size >= bodySize));
+      // Larger headings are higher levels; bold body-size lines come last
+      const headingSizes = Array.from(
+        new Set(
+          pages
+            .flat()
+            .filter((line) => isHeading(line) && line.size >= bodySize * 1.15)
+            .map((line) => line.size)
+        )
+      )
+        .sort((a, b) => b - a)
+        .slice(0, 3);
+      const headingLevel = (line: PdfLine) => {
+        const index = headingSizes.indexOf(line.size);
+
+        return index >= 0 ? index + 1 : headingSizes.length + 1;
+      };
+
+      return pages.flatMap((lines, pageIndex) => {
+        const gaps = lines
+          .slice(1)
+          .map((line, index) => line.y - lines[index].y)
+          .filter((gap) => gap > 0)
+          .sort((a, b) => a - b);
+        const lineSpacing = gaps[Math.floor(gaps.length / 2)] || 1;
+        const markdown: string[] = [];
+
+        lines.forEach((line, index) => {
+          const previous = lines[index - 1];
+
+          if (isHeading(line)) {
+            const level = headingLevel(line);
+            // Headings are followed by a blank line
+            const last = markdown[markdown.length - 2] || "";
+
+            // A heading wrapped over two lines
+            if (
+              previous &&
+              isHeading(previous) &&
+              previous.size === line.size &&
+              last.startsWith("#")
+            ) {
+              markdown[markdown.length - 2] = `${last} ${line.text}`;
+            } else {
+              markdown.push("", `${"#".repeat(level)} ${line.text}`, "");
+            }
+
+            return;
+          }
+
+          if (previous && line.y - previous.y > lineSpacing * 1.6) {
+            markdown.push("");
           }
+
+          markdown.push(line.text);
         });
 
-        pdfParser.parseBuffer(buffer);
+        return parsePlainText(markdown.join("\n"), pageIndex + 1);
       });
     } catch (error) {
       console.error("Failed to extract text from PDF:", error);
@@ -105,6 +316,60 @@ export class DocumentProcessor {
     }
   }
 
+  // Blocks of a DOCX file, keeping its headings, lists and tables
+  async extractBlocksFromDOCX(buffer: Buffer): Promise<DocumentBlock[]> {
+    try {
+      const result = await mammoth.convertToHtml({ buffer });
+
+      return await parseHtml(result.value);
+    } catch (error) {
+      console.error("Failed to extract text from DOCX:", error);
+      throw new Error("Failed to extract text from DOCX file");
+    }
+  }
+
+  // Extract structured blocks based on file type
+  async extractBlocks(
+    buffer: Buffer,
+    mimeType: string
+  ): Promise<DocumentBlock[]> {
+    switch (mimeType) {
+      case "application/pdf":
+        return await this.extractBlocksFromPDF(buffer);
+      case "text/plain":
+        return parsePlainText(await this.extractTextFromTXT(buffer));
+      case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+        return await this.extractBlocksFromDOCX(buffer);
+      case "text/markdown":
+        return parseMarkdown(await this.extractTextFromTXT(buffer));
+      case "text/html":
+        return await extractHtmlBlocks(await this.extractTextFromTXT(buffer));
+      case "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+        return await this.extractWith("PPTX", () => extractPptxBlocks(buffer));
+      case "text/csv":
+        return rowsToBlocks(parseCsv(await this.extractTextFromTXT(buffer)));
+      case "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+        return await this.extractWith("XLSX", () => extractXlsxBlocks(buffer));
+      default:
+        throw new Error(
+          `Unsupported file type: ${mimeType}. Supported types: ${this.getSupportedFormatLabels()}`
+        );
+    }
+  }
+
+  // Run an extractor, logging its failure and reporting it by format
+  private async extractWith(
+    label: string,
+    extract: () => Promise<DocumentBlock[]>
+  ): Promise<DocumentBlock[]> {
+    try {
+      return await extract();
+    } catch (error) {
+      console.error(`Failed to extract text from ${label}:`, error);
+      throw new Error(`Failed to extract text from ${label} file`);
+    }
+  }
+
   // Extract text based on file type
   async extractText(buffer: Buffer, mimeType: string): Promise<string> {
     switch (mimeType) {
@@ -115,7 +380,7 @@ export class DocumentProcessor {
       case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
         return await this.extractTextFromDOCX(buffer);
       default:
-        throw new Error(`Unsupported file type: ${mimeType}. Supported types: PDF, TXT, DOCX`);
+        return blocksToText(await this.extractBlocks(buffer, mimeType));
     }
   }
 
@@ -127,73 +392,26 @@ export class DocumentProcessor {
       .trim(); // Remove leading/trailing whitespace
   }
 
-  // Split text into chunks
+  // Split text into chunks along its paragraphs, lists, tables and headings
   chunkText(
     text: string,
     maxTokens: number = 500,
     overlapTokens: number = 50,
   ): TextChunk[] {
-    const cleanedText = this.cleanText(text);
-
-    // Rough token estimation: ~4 characters per token
-    const maxChars = maxTokens * 4;
-    const overlapChars = overlapTokens * 4;
-
-    const chunks: TextChunk[] = [];
-    let startIndex = 0;
-    let chunkIndex = 0;
-
-    while (startIndex < cleanedText.length) {
-      let endIndex = startIndex + maxChars;
-
-      // If we're not at the end of the text, find a good break point
-      if (endIndex < cleanedText.length) {
-        // Look for sentence ending within the last 100 characters
-        const searchStart = Math.max(endIndex - 100, startIndex);
-        const sentenceEnd = cleanedText.lastIndexOf(".", endIndex);
-        const questionEnd = cleanedText.lastIndexOf("?", endIndex);
-        const exclamationEnd = cleanedText.lastIndexOf("!", endIndex);
-
-        const bestEnd = Math.max(sentenceEnd, questionEnd, exclamationEnd);
-
-        if (bestEnd > searchStart) {
-          endIndex = bestEnd + 1;
-        } else {
-          // Fall back to word boundary
-          const spaceIndex = cleanedText.lastIndexOf(" ", endIndex);
-
-          if (spaceIndex > searchStart) {
-            endIndex = spaceIndex;
-          }
-        }
-      }
-
-      const chunkText = cleanedText.slice(startIndex, endIndex).trim();
-
-      if (chunkText.length > 0) {
-        chunks.push({
-          text: chunkText,
-          chunkIndex,
-          totalChunks: 0, // Will be updated after all chunks are created
-        });
-        chunkIndex++;
-      }
-
-      // Move start index with overlap
-      startIndex = endIndex - overlapChars;
-
-      // Ensure we don't go backwards
-      if (startIndex <= 0) {
-        startIndex = endIndex;
-      }
-    }
+    return this.toTextChunks(parsePlainText(text), { maxTokens, overlapTokens });
+  }
 
-    // Update total chunks count
-    chunks.forEach((chunk) => {
-      chunk.totalChunks = chunks.length;
-    });
+  private toTextChunks(
+    blocks: DocumentBlock[],
+    options: ChunkingOptions,
+  ): TextChunk[] {
+    const chunks = chunkBlocks(blocks, options);
 
-    return chunks;
+    return chunks.map((chunk, chunkIndex) => ({
+      ...chunk,
+      chunkIndex,
+      totalChunks: chunks.length,
+    }));
   }
 
   // Process document from buffer
@@ -203,22 +421,22 @@ export class DocumentProcessor {
     sourceId: string,
     title: string,
     source: "file" = "file",
+    chunking?: Partial<ChunkingOptions>,
   ): Promise<ProcessedDocument> {
     try {
-      // Extract text
-      const rawText = await this.extractText(buffer, mimeType);
-
-      // Clean and chunk text
-      const chunks = this.chunkText(rawText);
+      // Extract headings, paragraphs, lists and tables
+      const blocks = await this.extractBlocks(buffer, mimeType);
+      const options = resolveChunkingOptions(chunking);
 
       return {
         title,
-        chunks,
+        chunks: this.toTextChunks(blocks, options),
         metadata: {
           source,
           sourceId,
-          originalText: rawText,
+          originalText: blocksToText(blocks),
           processingDate: new Date().toISOString(),
+          chunking: options,
         },
       };
     } catch (error) {
@@ -229,11 +447,35 @@ export class DocumentProcessor {
 
   // Get supported MIME types
   getSupportedMimeTypes(): string[] {
-    return [
-      "application/pdf",
-      "text/plain",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-    ];
+    return SUPPORTED_FORMATS.map((format) => format.mimeType);
+  }
+
+  // Get supported file extensions, for file pickers
+  getSupportedExtensions(): string[] {
+    return SUPPORTED_FORMATS.flatMap((format) => format.extensions);
+  }
+
+  // "PDF, TXT, DOCX, ..." for error messages
+  getSupportedFormatLabels(): string {
+    return SUPPORTED_FORMATS.map((format) => format.label).join(", ");
+  }
+
+  /**
+   * The MIME type to process a file as: the browser's type when it is a
+   * supported one, otherwise the type for the file's extension (browsers send
+   * Markdown and CSV files as "", text/x-markdown or application/vnd.ms-excel)
+   */
+  resolveMimeType(mimeType: string, filename: string): string {
+    if (this.isSupported(mimeType) && !GENERIC_MIME_TYPES.has(mimeType)) {
+      return mimeType;
+    }
+
+    const extension = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+    const format = SUPPORTED_FORMATS.find((candidate) =>
+      candidate.extensions.includes(extension)
+    );
+
+    return format?.mimeType || mimeType;
   }
 
   // Check if file type is supported
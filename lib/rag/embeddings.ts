@@ -1,10 +1,75 @@
 import OpenAI from "openai";
 
+import { usageLedger, type UsageAttribution } from "../usage/usage-ledger";
+
+import {
+  DEFAULT_EMBEDDING_PROFILE,
+  type EmbeddingProfile,
+} from "./index-versions";
+
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY!,
 });
 
+// Native dimensions of the supported models; text-embedding-3 models can
+// also return shortened vectors
+export const EMBEDDING_MODELS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+/**
+ * A model and dimension to build an index with; the dimension defaults to
+ * the model's native one
+ */
+export function resolveEmbeddingProfile(
+  model: string,
+  dimension?: number,
+): EmbeddingProfile {
+  const nativeDimension = EMBEDDING_MODELS[model];
+
+  if (!nativeDimension) {
+    throw new Error(
+      `Unknown embedding model "${model}"; use ${Object.keys(EMBEDDING_MODELS).join(", ")}`,
+    );
+  }
+
+  const resolved = dimension || nativeDimension;
+
+  if (
+    resolved !== nativeDimension &&
+    (!model.startsWith("text-embedding-3") ||
+      !Number.isInteger(resolved) ||
+      resolved < 1 ||
+      resolved > nativeDimension)
+  ) {
+    throw new Error(`${model} cannot produce ${resolved}-dimensional vectors`);
+  }
+
+  return { model, dimension: resolved };
+}
+
+// Request parameters for a profile; shortened vectors are asked for explicitly
+function getModelParams(profile: EmbeddingProfile) {
+  return {
+    model: profile.model,
+    ...(profile.dimension !== EMBEDDING_MODELS[profile.model] && {
+      dimensions: profile.dimension,
+    }),
+  };
+}
+
+// A vector of another size would be stored or searched without complaint
+function checkDimension(embedding: number[], profile: EmbeddingProfile): void {
+  if (embedding.length !== profile.dimension) {
+    throw new Error(
+      `${profile.model} returned ${embedding.length} dimensions, expected ${profile.dimension}`,
+    );
+  }
+}
+
 export interface EmbeddingRequest {
   text: string;
   chunkIndex?: number;
@@ -16,16 +81,51 @@ export interface EmbeddingResult {
 }
 
 export class EmbeddingService {
-  // Generate single embedding
-  async generateEmbedding(text: string): Promise<number[]> {
+  // One ledger entry per embeddings API call
+  private async recordUsage(
+    model: string,
+    inputTokens: number,
+    startedAt: number,
+    attribution?: UsageAttribution,
+  ): Promise<void> {
+    await usageLedger.record({
+      operation: "embedding",
+      provider: "openai",
+      model,
+      inputTokens,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      ...attribution,
+    });
+  }
+
+  // Generate single embedding; knowledge base queries pass the profile of
+  // the index they search
+  async generateEmbedding(
+    text: string,
+    attribution?: UsageAttribution,
+    profile: EmbeddingProfile = DEFAULT_EMBEDDING_PROFILE,
+  ): Promise<number[]> {
     try {
+      const startedAt = Date.now();
       const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
+        ...getModelParams(profile),
         input: text.trim(),
         encoding_format: "float",
       });
 
-      return response.data[0].embedding;
+      await this.recordUsage(
+        profile.model,
+        response.usage.prompt_tokens,
+        startedAt,
+        attribution,
+      );
+
+      const embedding = response.data[0].embedding;
+
+      checkDimension(embedding, profile);
+
+      return embedding;
     } catch (error) {
       console.error("Failed to generate embedding:", error);
       throw new Error("Failed to generate embedding");
@@ -33,7 +133,11 @@ export class EmbeddingService {
   }
 
   // Generate multiple embeddings in batch
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(
+    texts: string[],
+    attribution?: UsageAttribution,
+    profile: EmbeddingProfile = DEFAULT_EMBEDDING_PROFILE,
+  ): Promise<number[][]> {
     try {
       // Process in batches to avoid API limits
       const batchSize = 100;
@@ -42,14 +146,26 @@ export class EmbeddingService {
       for (let i = 0; i < texts.length; i += batchSize) {
         const batch = texts.slice(i, i + batchSize);
 
+        const startedAt = Date.now();
         const response = await openai.embeddings.create({
-          model: "text-embedding-3-small",
+          ...getModelParams(profile),
           input: batch.map((text) => text.trim()),
           encoding_format: "float",
         });
 
+        await this.recordUsage(
+          profile.model,
+          response.usage.prompt_tokens,
+          startedAt,
+          attribution,
+        );
+
         const batchEmbeddings = response.data.map((item) => item.embedding);
 
+        batchEmbeddings.forEach((embedding) =>
+          checkDimension(embedding, profile),
+        );
+
         results.push(...batchEmbeddings);
       }
 
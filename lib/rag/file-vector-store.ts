@@ -0,0 +1,159 @@
+import type {
+  SearchResult,
+  VectorFilter,
+  VectorRecord,
+  VectorStore,
+} from "./vector-store";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import { cosineSimilarity } from "./vector-store";
+
+const DEFAULT_STORE_PATH = ".data/vector-store";
+
+/**
+ * Knowledge base chunks held in process memory and persisted as one JSON file
+ * per namespace under VECTOR_STORE_PATH. Searches are brute-force cosine
+ * similarity. Suits development and single-instance deployments; instances
+ * do not see each other's writes.
+ */
+export class FileVectorStore implements VectorStore {
+  readonly backend = "file" as const;
+
+  private directory: string;
+  private namespaces = new Map<string, Promise<Map<string, VectorRecord>>>();
+  // Writes to a namespace file run one at a time
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(directory = process.env.VECTOR_STORE_PATH || DEFAULT_STORE_PATH) {
+    this.directory = path.resolve(directory);
+  }
+
+  async ensureIndex(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    if (vectors.length === 0) return;
+
+    const records = await this.load(namespace);
+
+    for (const vector of vectors) {
+      records.set(vector.id, vector);
+    }
+
+    await this.persist(namespace);
+  }
+
+  async query(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    filter?: VectorFilter
+  ): Promise<SearchResult[]> {
+    const records = await this.load(namespace);
+    const conditions = Object.entries(filter || {});
+    const results: SearchResult[] = [];
+
+    for (const record of records.values()) {
+      if (conditions.some(([key, value]) => record.metadata[key] !== value)) {
+        continue;
+      }
+
+      results.push({
+        id: record.id,
+        score: cosineSimilarity(vector, record.values),
+        metadata: record.metadata,
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    return results.slice(0, topK);
+  }
+
+  async deleteBySource(namespace: string, sourceId: string): Promise<void> {
+    const records = await this.load(namespace);
+
+    for (const [id, record] of records) {
+      if (record.metadata.sourceId === sourceId) records.delete(id);
+    }
+
+    await this.persist(namespace);
+  }
+
+  async deleteByIds(namespace: string, ids: string[]): Promise<void> {
+    const records = await this.load(namespace);
+
+    for (const id of ids) records.delete(id);
+
+    await this.persist(namespace);
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    (await this.load(namespace)).clear();
+    await this.persist(namespace);
+  }
+
+  async countVectors(namespace: string): Promise<number> {
+    return (await this.load(namespace)).size;
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.directory, `${encodeURIComponent(namespace)}.json`);
+  }
+
+  private load(namespace: string): Promise<Map<string, VectorRecord>> {
+    let records = this.namespaces.get(namespace);
+
+    if (!records) {
+      records = fs
+        .readFile(this.filePath(namespace), "utf8")
+        .then((content) => {
+          const vectors = JSON.parse(content) as VectorRecord[];
+
+          return new Map(vectors.map((vector) => [vector.id, vector]));
+        })
+        .catch((error) => {
+          if (error.code === "ENOENT") return new Map<string, VectorRecord>();
+          this.namespaces.delete(namespace);
+          throw error;
+        });
+      this.namespaces.set(namespace, records);
+    }
+
+    return records;
+  }
+
+  // Write the namespace to a temporary file and rename it over the old one,
+  // so a crash never leaves a half-written file
+  private persist(namespace: string): Promise<void> {
+    const previous = this.writes.get(namespace) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const records = await this.load(namespace);
+        const file = this.filePath(namespace);
+
+        if (records.size === 0) {
+          await fs.rm(file, { force: true });
+
+          return;
+        }
+
+        const temporary = `${file}.${process.pid}.tmp`;
+
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(
+          temporary,
+          JSON.stringify(Array.from(records.values()))
+        );
+        await fs.rename(temporary, file);
+      });
+
+    this.writes.set(namespace, write);
+
+    return write;
+  }
+}
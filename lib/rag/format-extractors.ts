@@ -0,0 +1,438 @@
+/**
+ * Extractors for the knowledge base formats beyond PDF, TXT and DOCX:
+ *
+ * - HTML pages: the main article (via Readability), without navigation,
+ *   footers and ads
+ * - PPTX decks: each slide's title, text, tables and speaker notes, with the
+ *   slide number as the page
+ * - CSV and XLSX sheets: one record per row, written "Column: value; ..." so
+ *   a retrieved row still says what each value means
+ *
+ * All return DocumentBlocks for the chunker.
+ */
+
+import type { DocumentBlock } from "./chunker";
+
+import JSZip from "jszip";
+
+import { parseHtml } from "./chunker";
+
+// Rows per list block; the chunker packs and splits them further
+const RECORDS_PER_BLOCK = 50;
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+async function parseXml(xml: string): Promise<Document> {
+  const { JSDOM } = await import("jsdom");
+
+  return new JSDOM(xml, { contentType: "application/xml" }).window.document;
+}
+
+// Elements by qualified name ("a:t"), as written in Office XML
+function elements(root: Document | Element, name: string): Element[] {
+  return Array.from(root.getElementsByTagName(name));
+}
+
+async function readZipXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+
+  return file ? parseXml(await file.async("string")) : null;
+}
+
+// Relationship id -> target path, resolved against the part's folder
+async function readRelationships(
+  zip: JSZip,
+  partPath: string
+): Promise<Map<string, { target: string; type: string }>> {
+  const folder = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const name = partPath.slice(folder.length);
+  const rels = await readZipXml(zip, `${folder}_rels/${name}.rels`);
+  const relationships = new Map<string, { target: string; type: string }>();
+
+  for (const rel of rels ? elements(rels, "Relationship") : []) {
+    const target = rel.getAttribute("Target") || "";
+    const parts = (target.startsWith("/") ? target.slice(1) : folder + target)
+      .split("/")
+      .reduce<string[]>((path, part) => {
+        if (part === "..") path.pop();
+        else if (part !== ".") path.push(part);
+
+        return path;
+      }, []);
+
+    relationships.set(rel.getAttribute("Id") || "", {
+      target: parts.join("/"),
+      type: rel.getAttribute("Type") || "",
+    });
+  }
+
+  return relationships;
+}
+
+/**
+ * The title and article of a web page. Falls back to the whole page when
+ * Readability finds no article.
+ */
+export async function extractHtmlArticle(
+  html: string
+): Promise<{ title: string; blocks: DocumentBlock[] }> {
+  const { JSDOM } = await import("jsdom");
+  const { Readability } = await import("@mozilla/readability");
+  const { document } = new JSDOM(html).window;
+  const pageTitle = collapseWhitespace(document.title || "");
+  const article = new Readability(document).parse();
+
+  if (!article?.content) {
+    return { title: pageTitle, blocks: await parseHtml(html) };
+  }
+
+  return {
+    title: collapseWhitespace(article.title || "") || pageTitle,
+    blocks: await parseHtml(article.content),
+  };
+}
+
+// The article of a web page as blocks, under its title
+export async function extractHtmlBlocks(html: string): Promise<DocumentBlock[]> {
+  const { title, blocks } = await extractHtmlArticle(html);
+
+  // Readability drops the page's h1 into `title`
+  return title && blocks[0]?.type !== "heading"
+    ? [{ type: "heading", text: title, level: 1 }, ...blocks]
+    : blocks;
+}
+
+// Text of a DrawingML text body, one entry per non-empty paragraph
+function paragraphs(root: Element): { text: string; level: number }[] {
+  return elements(root, "a:p")
+    .map((paragraph) => ({
+      text: collapseWhitespace(
+        elements(paragraph, "a:t")
+          .map((run) => run.textContent || "")
+          .join("")
+      ),
+      level: Number(
+        paragraph.getElementsByTagName("a:pPr")[0]?.getAttribute("lvl") || 0
+      ),
+    }))
+    .filter((paragraph) => paragraph.text);
+}
+
+function placeholderType(shape: Element): string | null {
+  const placeholder = shape.getElementsByTagName("p:ph")[0];
+
+  return placeholder ? placeholder.getAttribute("type") || "body" : null;
+}
+
+// Slide parts in presentation order
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await readZipXml(zip, "ppt/presentation.xml");
+  const relationships = await readRelationships(zip, "ppt/presentation.xml");
+  const ordered = presentation
+    ? elements(presentation, "p:sldId")
+        .map((slide) => relationships.get(slide.getAttribute("r:id") || "")?.target)
+        .filter((path): path is string => !!path && !!zip.file(path))
+    : [];
+
+  if (ordered.length > 0) return ordered;
+
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => Number(a.match(/\d+/g)!.pop()) - Number(b.match(/\d+/g)!.pop()));
+}
+
+/**
+ * Slides of a PPTX deck: a heading per slide (its title, or "Slide n"), the
+ * slide's text as paragraphs or lists, its tables, and its speaker notes.
+ */
+export async function extractPptxBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const blocks: DocumentBlock[] = [];
+  const slidePaths = await getSlidePaths(zip);
+
+  for (const [index, path] of slidePaths.entries()) {
+    const page = index + 1;
+    const slide = await readZipXml(zip, path);
+
+    if (!slide) continue;
+
+    const shapes = elements(slide, "p:sp");
+    const titleShape = shapes.find((shape) =>
+      ["title", "ctrTitle"].includes(placeholderType(shape) || "")
+    );
+    const title = titleShape
+      ? paragraphs(titleShape).map((paragraph) => paragraph.text).join(" ")
+      : "";
+
+    blocks.push({ type: "heading", text: title || `Slide ${page}`, level: 1, page });
+
+    for (const shape of shapes) {
+      if (shape === titleShape) continue;
+      if (["sldNum", "dt", "ftr"].includes(placeholderType(shape) || "")) continue;
+
+      const lines = paragraphs(shape);
+
+      if (lines.length === 1) {
+        blocks.push({ type: "paragraph", text: lines[0].text, page });
+      } else if (lines.length > 1) {
+        blocks.push({
+          type: "list",
+          text: lines
+            .map((line) => `${line.level > 0 ? "  " : ""}- ${line.text}`)
+            .join("\n"),
+          page,
+        });
+      }
+    }
+
+    for (const table of elements(slide, "a:tbl")) {
+      const rows = elements(table, "a:tr")
+        .map((row) =>
+          elements(row, "a:tc")
+            .map((cell) =>
+              paragraphs(cell)
+                .map((paragraph) => paragraph.text)
+                .join(" ")
+            )
+            .join(" | ")
+        )
+        .filter((row) => row.replace(/[|\s]/g, ""));
+
+      if (rows.length > 0) blocks.push({ type: "table", text: rows.join("\n"), page });
+    }
+
+    // Speaker notes: the notes slide's body placeholder
+    const notesPath = Array.from((await readRelationships(zip, path)).values()).find(
+      (rel) => rel.type.endsWith("/notesSlide")
+    )?.target;
+    const notes = notesPath ? await readZipXml(zip, notesPath) : null;
+    const noteText = notes
+      ? elements(notes, "p:sp")
+          .filter((shape) => placeholderType(shape) === "body")
+          .flatMap((shape) => paragraphs(shape).map((paragraph) => paragraph.text))
+          .join(" ")
+      : "";
+
+    if (noteText) {
+      blocks.push({ type: "paragraph", text: `Speaker notes: ${noteText}`, page });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Rows as records under the first row's column names, in list blocks of
+ * RECORDS_PER_BLOCK. Empty cells are left out; unnamed columns are called
+ * "Column n".
+ */
+export function rowsToBlocks(rows: string[][]): DocumentBlock[] {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim()));
+  const [header = [], ...records] = nonEmpty;
+  const columns = header.map(
+    (name, index) => collapseWhitespace(name) || `Column ${index + 1}`
+  );
+  const lines = records
+    .map((row) =>
+      row
+        .map((cell, index) => {
+          const value = collapseWhitespace(cell);
+
+          return value ? `${columns[index] || `Column ${index + 1}`}: ${value}` : "";
+        })
+        .filter(Boolean)
+        .join("; ")
+    )
+    .filter(Boolean)
+    .map((record) => `- ${record}`);
+  const blocks: DocumentBlock[] = [];
+
+  for (let i = 0; i < lines.length; i += RECORDS_PER_BLOCK) {
+    blocks.push({
+      type: "list",
+      text: lines.slice(i, i + RECORDS_PER_BLOCK).join("\n"),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Rows of a CSV (RFC 4180 quoting). The delimiter is whichever of comma,
+ * semicolon or tab occurs most in the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Built-in number formats that show dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Format codes with date or time parts outside quoted text and [colors]
+function isDateFormatCode(code: string): boolean {
+  return /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ""));
+}
+
+// An Excel serial date (days since 1899-12-30) as "2026-09-01" or
+// "2026-09-01 09:30"; times alone as "09:30"
+function formatSerialDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400) * 1000);
+  const day = date.toISOString().slice(0, 10);
+  const time = date.toISOString().slice(11, 16);
+
+  if (serial < 1) return time;
+
+  return time === "00:00" ? day : `${day} ${time}`;
+}
+
+// Style index -> whether cells with it hold dates
+async function readDateStyles(zip: JSZip): Promise<boolean[]> {
+  const styles = await readZipXml(zip, "xl/styles.xml");
+
+  if (!styles) return [];
+
+  const customFormats = new Map(
+    elements(styles, "numFmt").map((format) => [
+      Number(format.getAttribute("numFmtId")),
+      format.getAttribute("formatCode") || "",
+    ])
+  );
+  const cellFormats = elements(styles, "cellXfs")[0];
+
+  return (cellFormats ? elements(cellFormats, "xf") : []).map((format) => {
+    const id = Number(format.getAttribute("numFmtId") || 0);
+
+    return customFormats.has(id)
+      ? isDateFormatCode(customFormats.get(id)!)
+      : DATE_FORMAT_IDS.has(id);
+  });
+}
+
+// "C12" -> 2 (zero-based column)
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || "A";
+
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Sheets of an XLSX workbook: a heading per sheet followed by its rows as
+ * records (see rowsToBlocks). Formulas contribute their cached values;
+ * date-formatted numbers are written as dates.
+ */
+export async function extractXlsxBlocks(buffer: Buffer): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const workbook = await readZipXml(zip, "xl/workbook.xml");
+  const relationships = await readRelationships(zip, "xl/workbook.xml");
+  const sharedStringsXml = await readZipXml(zip, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, "si").map((item) =>
+        // Phonetic runs (rPh) repeat the text in another script
+        elements(item, "t")
+          .filter((text) => text.parentElement?.tagName !== "rPh")
+          .map((text) => text.textContent || "")
+          .join("")
+      )
+    : [];
+  const dateStyles = await readDateStyles(zip);
+  const blocks: DocumentBlock[] = [];
+
+  for (const sheet of workbook ? elements(workbook, "sheet") : []) {
+    if (sheet.getAttribute("state") === "hidden") continue;
+
+    const path = relationships.get(sheet.getAttribute("r:id") || "")?.target;
+    const worksheet = path ? await readZipXml(zip, path) : null;
+
+    if (!worksheet) continue;
+
+    const rows = elements(worksheet, "row").map((row) => {
+      const cells: string[] = [];
+
+      for (const cell of elements(row, "c")) {
+        const type = cell.getAttribute("t");
+        const value = cell.getElementsByTagName("v")[0]?.textContent || "";
+        let text: string;
+
+        if (type === "s") {
+          text = sharedStrings[Number(value)] || "";
+        } else if (type === "inlineStr") {
+          text = elements(cell, "t").map((part) => part.textContent || "").join("");
+        } else if (type === "b") {
+          text = value === "1" ? "TRUE" : "FALSE";
+        } else if (
+          value &&
+          type !== "str" &&
+          type !== "e" &&
+          dateStyles[Number(cell.getAttribute("s") || 0)]
+        ) {
+          text = formatSerialDate(Number(value));
+        } else {
+          text = value;
+        }
+
+        const reference = cell.getAttribute("r");
+
+        cells[reference ? columnIndex(reference) : cells.length] = text;
+      }
+
+      return Array.from(cells, (cell) => cell || "");
+    });
+    const records = rowsToBlocks(rows);
+
+    if (records.length > 0) {
+      blocks.push(
+        { type: "heading", text: sheet.getAttribute("name") || "Sheet", level: 1 },
+        ...records
+      );
+    }
+  }
+
+  return blocks;
+}
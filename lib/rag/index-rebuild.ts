@@ -0,0 +1,346 @@
+/**
+ * Building index versions from stored chunk text, and the cut-over to them.
+ *
+ * The lexical index keeps every chunk's text and metadata per namespace, so a
+ * new version is filled by re-embedding those chunks with its model; no files
+ * are downloaded or re-chunked. Rebuilds run as ingestion queue jobs and are
+ * incremental: the chunk ids embedded so far are saved on the version after
+ * every batch, so a retry or a later re-sync (for documents added since)
+ * embeds only what is missing and deletes what is gone.
+ *
+ * A built version is verified before search moves to it: its vectors must
+ * cover every stored chunk, and sample chunks must be found by their own text.
+ */
+
+import type { Prisma } from "@prisma/client";
+import type { IngestionProgress } from "./rag-service";
+
+import { embeddingService } from "./embeddings";
+import { withHeadingContext } from "./chunker";
+import { lexicalIndex, type LexicalChunk } from "./lexical-index";
+import {
+  indexVersions,
+  type EmbeddedChunks,
+  type IndexVerification,
+  type IndexVersion,
+} from "./index-versions";
+import { AVATAR_NAMESPACE_PREFIX, knowledgeIndex } from "./vector-store";
+
+// What a rebuild job's payload names
+export interface RebuildPayload {
+  namespace: string;
+  version: number;
+}
+
+// Chunks embedded and stored per saved batch
+const REBUILD_BATCH_SIZE = 100;
+
+// Chunks searched for by their own text during verification
+const VERIFICATION_PROBES = 5;
+
+// A probe passes when its chunk is among this many results
+const PROBE_TOP_K = 3;
+
+// A request about an index version that cannot be carried out as asked
+export class IndexVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexVersionError";
+  }
+}
+
+function getNamespaceAvatarId(namespace: string): string | undefined {
+  return namespace.startsWith(AVATAR_NAMESPACE_PREFIX)
+    ? namespace.slice(AVATAR_NAMESPACE_PREFIX.length)
+    : undefined;
+}
+
+function getEmbeddingText(chunk: LexicalChunk): string {
+  return withHeadingContext(
+    chunk.metadata.originalText || "",
+    chunk.metadata.headingPath
+  );
+}
+
+async function getVersion(
+  namespace: string,
+  version: number
+): Promise<IndexVersion> {
+  const found = await indexVersions.get(namespace, version);
+
+  if (!found) {
+    throw new IndexVersionError(
+      `Index version ${version} of ${namespace} not found`
+    );
+  }
+
+  return found;
+}
+
+// Every stored chunk of a namespace, by source
+async function loadStoredChunks(
+  namespace: string
+): Promise<Map<string, LexicalChunk[]>> {
+  const sources = new Map<string, LexicalChunk[]>();
+
+  for (const sourceId of await lexicalIndex.listSources(namespace)) {
+    sources.set(sourceId, await lexicalIndex.getSource(namespace, sourceId));
+  }
+
+  return sources;
+}
+
+/**
+ * Embed a namespace's stored chunks into one of its index versions, then
+ * verify the result. Safe to repeat: only chunks missing from the version
+ * are embedded.
+ */
+export async function rebuildIndexVersion(
+  payload: RebuildPayload,
+  onProgress: (update: IngestionProgress) => Promise<void>
+): Promise<IndexVersion> {
+  const { namespace } = payload;
+  const version = await getVersion(namespace, payload.version);
+
+  // Version 1 predates rebuilds; it has no record of what it holds
+  if (version.version === 1) {
+    throw new IndexVersionError("Version 1 cannot be rebuilt");
+  }
+  if (version.status === "retired") {
+    throw new IndexVersionError(
+      `Index version ${version.version} of ${namespace} is retired`
+    );
+  }
+  if (version.status !== "active") {
+    await indexVersions.update(namespace, version.version, {
+      status: "building",
+      lastError: null,
+    });
+  }
+
+  await onProgress({ progress: 5, message: "Loading stored chunks..." });
+
+  const attribution = { avatarId: getNamespaceAvatarId(namespace) };
+  const sources = await loadStoredChunks(namespace);
+  const embedded: EmbeddedChunks = await indexVersions.getEmbeddedChunks(
+    namespace,
+    version.version
+  );
+  const totalChunks = Array.from(sources.values()).reduce(
+    (count, chunks) => count + chunks.length,
+    0
+  );
+  let processedChunks = 0;
+
+  const saveEmbedded = () =>
+    indexVersions.update(namespace, version.version, { embedded });
+
+  // Documents deleted since the last run
+  for (const [sourceId, ids] of Object.entries(embedded)) {
+    if (sources.has(sourceId)) continue;
+
+    await knowledgeIndex.deleteVersionVectors(version, ids);
+    delete embedded[sourceId];
+    await saveEmbedded();
+  }
+
+  for (const [sourceId, chunks] of sources) {
+    const ids = new Set(chunks.map((chunk) => chunk.id));
+    const done = new Set(embedded[sourceId] || []);
+    const stale = Array.from(done).filter((id) => !ids.has(id));
+    const missing = chunks.filter((chunk) => !done.has(chunk.id));
+
+    // Chunks of a replaced version or a changed web page
+    if (stale.length > 0) {
+      await knowledgeIndex.deleteVersionVectors(version, stale);
+      for (const id of stale) done.delete(id);
+      embedded[sourceId] = Array.from(done);
+      await saveEmbedded();
+    }
+
+    for (let start = 0; start < missing.length; start += REBUILD_BATCH_SIZE) {
+      const batch = missing.slice(start, start + REBUILD_BATCH_SIZE);
+      const embeddings = await embeddingService.generateEmbeddings(
+        batch.map(getEmbeddingText),
+        attribution,
+        version
+      );
+
+      await knowledgeIndex.storeVectors(
+        version,
+        batch.map((chunk, index) => ({ ...chunk, values: embeddings[index] }))
+      );
+
+      for (const chunk of batch) done.add(chunk.id);
+      embedded[sourceId] = Array.from(done);
+      await saveEmbedded();
+
+      await onProgress({
+        progress:
+          5 +
+          Math.round(
+            ((processedChunks + start + batch.length) / totalChunks) * 85
+          ),
+        message: `Embedding chunks (${processedChunks + start + batch.length} of ${totalChunks})...`,
+      });
+    }
+
+    processedChunks += chunks.length;
+  }
+
+  await onProgress({ progress: 90, message: "Verifying index version..." });
+
+  const vectorCount = await knowledgeIndex.countVectors(version);
+
+  await indexVersions.update(namespace, version.version, {
+    vectorCount,
+    ...(version.status !== "active" && { status: "ready" }),
+  });
+
+  await verifyIndexVersion(namespace, version.version);
+
+  return getVersion(namespace, version.version);
+}
+
+/**
+ * Check that an index version can serve search: it holds a vector for every
+ * stored chunk, and sample chunks embedded as queries find themselves. The
+ * outcome is saved on the version.
+ */
+export async function verifyIndexVersion(
+  namespace: string,
+  versionNumber: number
+): Promise<IndexVerification> {
+  const version = await getVersion(namespace, versionNumber);
+  const active = await indexVersions.getActive(namespace);
+  const chunks = Array.from((await loadStoredChunks(namespace)).values()).flat();
+  const issues: string[] = [];
+
+  const [vectorCount, activeVectorCount] = await Promise.all([
+    knowledgeIndex.countVectors(version),
+    knowledgeIndex.countVectors(active),
+  ]);
+
+  // Rebuilt versions record exactly which chunks they hold
+  if (version.version > 1) {
+    const embedded = new Set(
+      Object.values(
+        await indexVersions.getEmbeddedChunks(namespace, version.version)
+      ).flat()
+    );
+    const missing = chunks.filter((chunk) => !embedded.has(chunk.id)).length;
+
+    if (missing > 0) {
+      issues.push(
+        `${missing} of ${chunks.length} stored chunks are not embedded yet; run the rebuild again`
+      );
+    }
+  }
+
+  if (vectorCount !== chunks.length) {
+    issues.push(
+      `The index holds ${vectorCount} vectors for ${chunks.length} stored chunks`
+    );
+  }
+
+  // Chunks spread evenly over the namespace
+  const probes = Array.from(
+    { length: Math.min(VERIFICATION_PROBES, chunks.length) },
+    (_, index) =>
+      chunks[Math.floor((index * chunks.length) / VERIFICATION_PROBES)]
+  );
+  let probesPassed = 0;
+
+  if (probes.length > 0) {
+    const embeddings = await embeddingService.generateEmbeddings(
+      probes.map(getEmbeddingText),
+      { avatarId: getNamespaceAvatarId(namespace) },
+      version
+    );
+
+    for (const [index, probe] of probes.entries()) {
+      const results = await knowledgeIndex.search(
+        version,
+        embeddings[index],
+        PROBE_TOP_K
+      );
+
+      if (results.some((result) => result.id === probe.id)) probesPassed++;
+    }
+
+    if (probesPassed < probes.length) {
+      issues.push(
+        `${probes.length - probesPassed} of ${probes.length} sample chunks were not found by their own text`
+      );
+    }
+  }
+
+  const verification: IndexVerification = {
+    passed: issues.length === 0,
+    checkedAt: new Date().toISOString(),
+    storedChunks: chunks.length,
+    vectorCount,
+    activeVectorCount,
+    probes: probes.length,
+    probesPassed,
+    issues,
+  };
+
+  await indexVersions.update(namespace, version.version, {
+    vectorCount,
+    verification: verification as unknown as Prisma.InputJsonValue,
+  });
+
+  return verification;
+}
+
+/**
+ * Cut a namespace over to an index version: ingestion and search use it from
+ * then on, and the previous version is retired (kept, so the cut-over can be
+ * undone by activating it again). The version is verified first; force
+ * activates it despite failed checks.
+ */
+export async function activateIndexVersion(
+  namespace: string,
+  versionNumber: number,
+  force: boolean = false
+): Promise<{ version: IndexVersion; verification: IndexVerification }> {
+  const version = await getVersion(namespace, versionNumber);
+
+  if (version.status === "building" || version.status === "failed") {
+    throw new IndexVersionError(
+      `Index version ${version.version} of ${namespace} is ${version.status}; rebuild it first`
+    );
+  }
+
+  const verification = await verifyIndexVersion(namespace, version.version);
+
+  if (!verification.passed && !force) {
+    throw new IndexVersionError(
+      `Index version ${version.version} of ${namespace} failed verification: ${verification.issues.join("; ")}`
+    );
+  }
+
+  if (version.status !== "active") {
+    await indexVersions.activate(namespace, version.version);
+  }
+
+  return {
+    version: await getVersion(namespace, version.version),
+    verification,
+  };
+}
+
+// Record on the version that its rebuild gave up
+export async function markRebuildFailed(
+  payload: RebuildPayload,
+  error: string
+): Promise<void> {
+  const version = await indexVersions.get(payload.namespace, payload.version);
+
+  // An active version keeps serving; the error is only recorded
+  await indexVersions.update(payload.namespace, payload.version, {
+    ...(version && version.status !== "active" && { status: "failed" }),
+    lastError: error,
+  });
+}
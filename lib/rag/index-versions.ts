@@ -0,0 +1,248 @@
+/**
+ * Embedding index versions of the knowledge base namespaces.
+ *
+ * Vectors are only comparable when they come from the same embedding model
+ * and dimension, so each namespace records what its vectors were embedded
+ * with. One version per namespace is active: ingestion writes to it and
+ * search embeds queries with its model. Switching models means building a
+ * new version from the stored chunk text (lib/rag/index-rebuild.ts) and
+ * cutting over once it is verified; the active version serves until then.
+ *
+ * A namespace without recorded versions is on version 1: the original
+ * text-embedding-3-small vectors, stored under the namespace's own name.
+ */
+
+import type { KnowledgeIndexVersion, Prisma } from "@prisma/client";
+
+import { prisma } from "../prisma";
+
+export interface EmbeddingProfile {
+  model: string;
+  dimension: number;
+}
+
+// What every namespace was embedded with before versions were recorded
+export const DEFAULT_EMBEDDING_PROFILE: EmbeddingProfile = {
+  model: "text-embedding-3-small",
+  dimension: 1536,
+};
+
+export type IndexVersionStatus =
+  | "building"
+  | "ready"
+  | "active"
+  | "retired"
+  | "failed";
+
+export interface IndexVerification {
+  passed: boolean;
+  checkedAt: string;
+  storedChunks: number; // Chunks with stored text, i.e. what a rebuild embeds
+  vectorCount: number;
+  activeVectorCount: number;
+  probes: number; // Chunks searched for by their own text
+  probesPassed: number;
+  issues: string[];
+}
+
+export interface IndexVersion extends EmbeddingProfile {
+  namespace: string;
+  version: number;
+  storeNamespace: string; // Where the vectors live in the vector store
+  status: IndexVersionStatus;
+  vectorCount: number;
+  createdAt?: string;
+  activatedAt?: string;
+  verification?: IndexVerification;
+  jobId?: string;
+  lastError?: string;
+}
+
+// Chunk ids a rebuild has embedded, per source
+export type EmbeddedChunks = Record<string, string[]>;
+
+// Other instances see a cut-over within this long
+const CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Vector store namespace of an index version. Version 1 keeps the
+ * namespace's own name, so existing vectors need no migration.
+ */
+export function getStoreNamespace(namespace: string, version: number): string {
+  return version > 1 ? `${namespace}__v${version}` : namespace;
+}
+
+function getLegacyVersion(namespace: string): IndexVersion {
+  return {
+    namespace,
+    version: 1,
+    storeNamespace: namespace,
+    ...DEFAULT_EMBEDDING_PROFILE,
+    status: "active",
+    vectorCount: 0,
+  };
+}
+
+function toIndexVersion(row: KnowledgeIndexVersion): IndexVersion {
+  return {
+    namespace: row.namespace,
+    version: row.version,
+    storeNamespace: getStoreNamespace(row.namespace, row.version),
+    model: row.model,
+    dimension: row.dimension,
+    status: row.status as IndexVersionStatus,
+    vectorCount: row.vectorCount,
+    createdAt: row.createdAt.toISOString(),
+    ...(row.activatedAt && { activatedAt: row.activatedAt.toISOString() }),
+    ...(row.verification && {
+      verification: row.verification as unknown as IndexVerification,
+    }),
+    ...(row.jobId && { jobId: row.jobId }),
+    ...(row.lastError && { lastError: row.lastError }),
+  };
+}
+
+export class IndexVersionRegistry {
+  private cache = new Map<
+    string,
+    { versions: Promise<IndexVersion[]>; loadedAt: number }
+  >();
+
+  // All versions of a namespace, oldest first. Until a second version is
+  // created, only the unrecorded version 1.
+  list(namespace: string): Promise<IndexVersion[]> {
+    const cached = this.cache.get(namespace);
+
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.versions;
+    }
+
+    const versions = prisma.knowledgeIndexVersion
+      .findMany({ where: { namespace }, orderBy: { version: "asc" } })
+      .then((rows) =>
+        rows.length > 0
+          ? rows.map(toIndexVersion)
+          : [getLegacyVersion(namespace)]
+      );
+
+    versions.catch(() => this.cache.delete(namespace));
+    this.cache.set(namespace, { versions, loadedAt: Date.now() });
+
+    return versions;
+  }
+
+  async get(namespace: string, version: number): Promise<IndexVersion | null> {
+    const versions = await this.list(namespace);
+
+    return versions.find((entry) => entry.version === version) || null;
+  }
+
+  /**
+   * The version ingestion and search use. Without the registry (database
+   * down) this is version 1, whose model and vectors still match each other.
+   */
+  async getActive(namespace: string): Promise<IndexVersion> {
+    try {
+      const versions = await this.list(namespace);
+
+      return (
+        versions.find((entry) => entry.status === "active") ||
+        getLegacyVersion(namespace)
+      );
+    } catch (error) {
+      console.error(`Failed to load index versions of ${namespace}:`, error);
+
+      return getLegacyVersion(namespace);
+    }
+  }
+
+  // Record a new version to build, after every existing one
+  async create(
+    namespace: string,
+    profile: EmbeddingProfile
+  ): Promise<IndexVersion> {
+    const versions = await prisma.$transaction(async (tx) => {
+      const rows = await tx.knowledgeIndexVersion.findMany({
+        where: { namespace },
+      });
+
+      // Record the implicit version 1 so the cut-over can retire it
+      if (rows.length === 0) {
+        rows.push(
+          await tx.knowledgeIndexVersion.create({
+            data: {
+              namespace,
+              version: 1,
+              ...DEFAULT_EMBEDDING_PROFILE,
+              status: "active",
+            },
+          })
+        );
+      }
+
+      const version = Math.max(...rows.map((row) => row.version)) + 1;
+
+      return tx.knowledgeIndexVersion.create({
+        data: { namespace, version, ...profile, status: "building" },
+      });
+    });
+
+    this.cache.delete(namespace);
+
+    return toIndexVersion(versions);
+  }
+
+  async update(
+    namespace: string,
+    version: number,
+    data: Prisma.KnowledgeIndexVersionUpdateInput
+  ): Promise<void> {
+    await prisma.knowledgeIndexVersion.update({
+      where: { namespace_version: { namespace, version } },
+      data,
+    });
+    this.cache.delete(namespace);
+  }
+
+  async getEmbeddedChunks(
+    namespace: string,
+    version: number
+  ): Promise<EmbeddedChunks> {
+    const row = await prisma.knowledgeIndexVersion.findUnique({
+      where: { namespace_version: { namespace, version } },
+      select: { embedded: true },
+    });
+
+    return (row?.embedded as EmbeddedChunks | undefined) || {};
+  }
+
+  // Make a version the one ingestion and search use; the previous is retired
+  async activate(namespace: string, version: number): Promise<void> {
+    await prisma.$transaction([
+      prisma.knowledgeIndexVersion.updateMany({
+        where: { namespace, status: "active" },
+        data: { status: "retired" },
+      }),
+      prisma.knowledgeIndexVersion.update({
+        where: { namespace_version: { namespace, version } },
+        data: { status: "active", activatedAt: new Date() },
+      }),
+    ]);
+    this.cache.delete(namespace);
+  }
+
+  async remove(namespace: string, version: number): Promise<void> {
+    await prisma.knowledgeIndexVersion.delete({
+      where: { namespace_version: { namespace, version } },
+    });
+    this.cache.delete(namespace);
+  }
+
+  async removeNamespace(namespace: string): Promise<void> {
+    await prisma.knowledgeIndexVersion.deleteMany({ where: { namespace } });
+    this.cache.delete(namespace);
+  }
+}
+
+// Export singleton instance
+export const indexVersions = new IndexVersionRegistry();
@@ -0,0 +1,432 @@
+/**
+ * Durable queue for document ingestion and index rebuilds.
+ *
+ * An upload is stored in S3 and enqueued as an `IngestionJob` row. Workers
+ * claim due jobs under a lease, run them through `RAGService.ingestDocument`
+ * and save a checkpoint after every embedded batch. A failed attempt is
+ * retried with exponential backoff up to the job's maxAttempts; when a worker
+ * dies mid-job its lease expires, and the next claim resumes from the
+ * checkpoint instead of starting over. Index rebuild jobs
+ * (lib/rag/index-rebuild.ts) run the same way and keep their progress on the
+ * index version instead.
+ *
+ * Workers: the upload route runs its job right after responding, the
+ * /api/cron/ingestion-worker route drains due jobs on a schedule, and
+ * scripts/ingestion-worker.ts polls the queue from a terminal.
+ */
+
+import type { IngestionJob } from "@prisma/client";
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "../prisma";
+
+import {
+  IndexVersionError,
+  markRebuildFailed,
+  rebuildIndexVersion,
+  type RebuildPayload,
+} from "./index-rebuild";
+import { indexVersions, type IndexVersion } from "./index-versions";
+import {
+  IngestionAbortedError,
+  ragService,
+  type DocumentIngestion,
+  type DocumentInput,
+  type IngestionCheckpoint,
+  type IngestionProgress,
+  type KnowledgeBaseEntry,
+  type StagedDocument,
+} from "./rag-service";
+
+export type IngestionJobKind = "document" | "rebuild";
+
+export type IngestionJobStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed";
+
+// What /api/documents/status reports for a job
+export interface ProcessingStatus {
+  id: string;
+  kind: IngestionJobKind;
+  status: IngestionJobStatus;
+  progress: number;
+  message: string;
+  createdAt: string;
+  completedAt?: string;
+  error?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string; // Pending retries only
+}
+
+export type EnqueueResult =
+  | { status: "queued"; jobId: string; document: KnowledgeBaseEntry }
+  // Nothing to do: the same file is already in the knowledge base
+  | { status: "duplicate"; document: KnowledgeBaseEntry };
+
+export interface IngestionRunSummary {
+  completed: number;
+  retrying: number;
+  failed: number;
+}
+
+type JobOutcome = keyof IngestionRunSummary | "lost";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+// Extended on every progress update; a job is only reclaimed after this
+// long without one
+const LEASE_MS = 5 * 60 * 1000;
+// Finished jobs are kept this long for status polling and inspection
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after the given number of attempts:
+ * 30s, 1m, 2m, 4m, ... up to 30 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// Another worker claimed the job after this one's lease expired
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on ingestion job ${jobId}`);
+    this.name = "LeaseLostError";
+  }
+}
+
+function toProcessingStatus(job: IngestionJob): ProcessingStatus {
+  return {
+    id: job.id,
+    kind: job.kind as IngestionJobKind,
+    status: job.status as IngestionJobStatus,
+    progress: job.progress,
+    message: job.message,
+    createdAt: job.createdAt.toISOString(),
+    ...(job.completedAt && { completedAt: job.completedAt.toISOString() }),
+    ...(job.lastError && { error: job.lastError }),
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    ...(job.status === "pending" &&
+      job.attempts > 0 && { nextAttemptAt: job.runAt.toISOString() }),
+  };
+}
+
+export class IngestionQueue {
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  /**
+   * Store an upload and queue it for ingestion. The job id is the processing
+   * id clients poll.
+   */
+  async enqueue(
+    input: DocumentInput,
+    avatarId?: string,
+    isShared: boolean = false
+  ): Promise<EnqueueResult> {
+    return this.add(await ragService.stageDocument(input, avatarId, isShared));
+  }
+
+  // Store a new version of an uploaded document and queue it for ingestion
+  async enqueueReplacement(
+    sourceId: string,
+    input: DocumentInput,
+    avatarId?: string
+  ): Promise<EnqueueResult> {
+    return this.add(
+      await ragService.stageReplacement(sourceId, input, avatarId)
+    );
+  }
+
+  /**
+   * Queue a rebuild of an index version from the stored chunks. The job id
+   * is recorded on the version.
+   */
+  async enqueueRebuild(version: IndexVersion): Promise<string> {
+    const payload: RebuildPayload = {
+      namespace: version.namespace,
+      version: version.version,
+    };
+    const job = await prisma.ingestionJob.create({
+      data: {
+        kind: "rebuild",
+        payload: payload as unknown as Prisma.InputJsonValue,
+        message: `Rebuild of ${version.storeNamespace} queued`,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      },
+    });
+
+    await indexVersions.update(version.namespace, version.version, {
+      jobId: job.id,
+    });
+
+    return job.id;
+  }
+
+  async getStatus(jobId: string): Promise<ProcessingStatus | null> {
+    const job = await prisma.ingestionJob.findUnique({ where: { id: jobId } });
+
+    return job ? toProcessingStatus(job) : null;
+  }
+
+  /**
+   * Run one job now if it is due, e.g. right after its upload. Returns null
+   * when it is not (another worker has it, or it already finished).
+   */
+  async runJob(jobId: string): Promise<JobOutcome | null> {
+    const job = await this.claim(jobId);
+
+    return job ? this.execute(job) : null;
+  }
+
+  /**
+   * Claim and run due jobs one at a time until none are left, maxJobs have
+   * run, or the deadline (epoch ms) has passed
+   */
+  async runDueJobs(
+    options: { maxJobs?: number; deadline?: number } = {}
+  ): Promise<IngestionRunSummary> {
+    const summary: IngestionRunSummary = {
+      completed: 0,
+      retrying: 0,
+      failed: 0,
+    };
+    const maxJobs = options.maxJobs ?? Infinity;
+
+    await this.failAbandonedJobs();
+    await this.purgeFinishedJobs();
+
+    for (let run = 0; run < maxJobs; run++) {
+      if (options.deadline && Date.now() >= options.deadline) break;
+
+      const job = await this.claim();
+
+      if (!job) break;
+
+      const outcome = await this.execute(job);
+
+      if (outcome !== "lost") summary[outcome]++;
+    }
+
+    return summary;
+  }
+
+  private async add(staged: StagedDocument): Promise<EnqueueResult> {
+    if (staged.status === "duplicate") return staged;
+
+    const job = await prisma.ingestionJob.create({
+      data: {
+        sourceId: staged.ingestion.sourceId,
+        payload: staged.ingestion as unknown as Prisma.InputJsonValue,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      },
+    });
+
+    return { status: "queued", jobId: job.id, document: staged.document };
+  }
+
+  /**
+   * Atomically take a due job: a pending one whose backoff has passed, or a
+   * processing one whose worker stopped renewing its lease. SKIP LOCKED keeps
+   * concurrent workers from claiming the same row.
+   */
+  private async claim(jobId?: string): Promise<IngestionJob | null> {
+    // Retry times and leases are set from this process's clock (see
+    // execute), so due jobs are found with that clock too
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + LEASE_MS);
+    const rows = await prisma.$queryRaw<IngestionJob[]>`
+      UPDATE "IngestionJob" SET
+        "status" = 'processing',
+        "attempts" = "attempts" + 1,
+        "lockedBy" = ${this.workerId},
+        "lockedUntil" = ${lockedUntil},
+        "updatedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "IngestionJob"
+        WHERE (
+          ("status" = 'pending' AND "runAt" <= ${now})
+          OR ("status" = 'processing' AND "lockedUntil" < ${now}
+            AND "attempts" < "maxAttempts")
+        )
+        ${jobId ? Prisma.sql`AND "id" = ${jobId}` : Prisma.empty}
+        ORDER BY "runAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  private async execute(job: IngestionJob): Promise<JobOutcome> {
+    const isRebuild = job.kind === "rebuild";
+
+    try {
+      if (isRebuild) {
+        await rebuildIndexVersion(
+          job.payload as unknown as RebuildPayload,
+          (update) => this.heartbeat(job.id, update)
+        );
+      } else {
+        await ragService.ingestDocument(
+          job.payload as unknown as DocumentIngestion,
+          (job.checkpoint ?? undefined) as IngestionCheckpoint | undefined,
+          (update) => this.heartbeat(job.id, update)
+        );
+      }
+      await this.release(job.id, {
+        status: "completed",
+        progress: 100,
+        message: isRebuild
+          ? "Index rebuild completed"
+          : "Document processing completed",
+        lastError: null,
+        completedAt: new Date(),
+      });
+
+      return "completed";
+    } catch (error) {
+      // The job is another worker's now; leave the row to it
+      if (error instanceof LeaseLostError) {
+        console.warn(error.message);
+
+        return "lost";
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+
+      console.error(
+        `Ingestion job ${job.id} failed (attempt ${job.attempts} of ${job.maxAttempts}):`,
+        error
+      );
+
+      if (
+        error instanceof IngestionAbortedError ||
+        error instanceof IndexVersionError ||
+        job.attempts >= job.maxAttempts
+      ) {
+        await this.release(job.id, {
+          status: "failed",
+          message: isRebuild
+            ? "Index rebuild failed"
+            : "Document processing failed",
+          lastError: message,
+          completedAt: new Date(),
+        });
+        await this.markJobFailed(job, message);
+
+        return "failed";
+      }
+
+      const runAt = new Date(Date.now() + getRetryDelayMs(job.attempts));
+
+      await this.release(job.id, {
+        status: "pending",
+        message: `Attempt ${job.attempts} of ${job.maxAttempts} failed; retrying at ${runAt.toISOString()}`,
+        lastError: message,
+        runAt,
+      });
+
+      return "retrying";
+    }
+  }
+
+  // Save progress and extend the lease, as long as this worker still holds it
+  private async heartbeat(
+    jobId: string,
+    update: IngestionProgress
+  ): Promise<void> {
+    const { count } = await prisma.ingestionJob.updateMany({
+      where: { id: jobId, lockedBy: this.workerId },
+      data: {
+        progress: update.progress,
+        message: update.message,
+        lockedUntil: new Date(Date.now() + LEASE_MS),
+        ...(update.checkpoint && {
+          checkpoint: update.checkpoint as unknown as Prisma.InputJsonValue,
+        }),
+      },
+    });
+
+    if (count === 0) throw new LeaseLostError(jobId);
+  }
+
+  private async release(
+    jobId: string,
+    data: Prisma.IngestionJobUpdateManyMutationInput
+  ): Promise<void> {
+    await prisma.ingestionJob.updateMany({
+      where: { id: jobId, lockedBy: this.workerId },
+      data: { ...data, lockedBy: null, lockedUntil: null },
+    });
+  }
+
+  // Jobs whose worker died on their last attempt are never claimed again
+  private async failAbandonedJobs(): Promise<void> {
+    const now = new Date();
+    const rows = await prisma.$queryRaw<
+      Pick<IngestionJob, "id" | "kind" | "payload">[]
+    >`
+      UPDATE "IngestionJob" SET
+        "status" = 'failed',
+        "message" = CASE WHEN "kind" = 'rebuild'
+          THEN 'Index rebuild failed' ELSE 'Document processing failed' END,
+        "lastError" = COALESCE("lastError", 'The worker stopped responding'),
+        "lockedBy" = NULL,
+        "lockedUntil" = NULL,
+        "completedAt" = ${now},
+        "updatedAt" = ${now}
+      WHERE "status" = 'processing' AND "lockedUntil" < ${now}
+        AND "attempts" >= "maxAttempts"
+      RETURNING "id", "kind", "payload"
+    `;
+
+    for (const job of rows) {
+      await this.markJobFailed(job, "The worker stopped responding");
+    }
+  }
+
+  private async purgeFinishedJobs(): Promise<void> {
+    await prisma.ingestionJob.deleteMany({
+      where: {
+        status: { in: ["completed", "failed"] },
+        completedAt: { lt: new Date(Date.now() - JOB_RETENTION_MS) },
+      },
+    });
+  }
+
+  // Record the failure on the document or index version the job was for
+  private async markJobFailed(
+    job: Pick<IngestionJob, "id" | "kind" | "payload">,
+    error: string
+  ): Promise<void> {
+    try {
+      if (job.kind === "rebuild") {
+        await markRebuildFailed(job.payload as unknown as RebuildPayload, error);
+      } else {
+        await ragService.markIngestionFailed(
+          job.payload as unknown as DocumentIngestion,
+          error
+        );
+      }
+    } catch (markError) {
+      console.error(
+        `Failed to record the failure of ingestion job ${job.id}:`,
+        markError
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const ingestionQueue = new IngestionQueue();
@@ -0,0 +1,306 @@
+/**
+ * BM25 keyword index over knowledge base chunks.
+ *
+ * Complements vector search for exact tokens that embeddings blur: names,
+ * course codes, room numbers, phone numbers. The chunks of each document are
+ * stored in AWS S3 next to the vectors, per namespace, and a namespace's index
+ * is built in memory on first search:
+ *
+ *   lexical-index/{namespace}/{sourceId}.json   - the document's chunks
+ *
+ * Works the same whichever vector store is configured. Being the stored text
+ * of every chunk, it is also what index rebuilds re-embed.
+ */
+
+import type { DocumentMetadata } from "./vector-store";
+
+import { withHeadingContext } from "./chunker";
+
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+
+// S3 client configuration (following existing pattern)
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION || "us-east-2",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+});
+
+const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
+const LEXICAL_INDEX_PREFIX = "lexical-index/";
+
+// Other instances' uploads show up after this long
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does",
+  "for", "from", "has", "have", "how", "i", "if", "in", "is", "it", "its", "me",
+  "my", "of", "on", "or", "our", "so", "that", "the", "their", "there", "this",
+  "to", "us", "was", "we", "what", "when", "where", "which", "who", "why",
+  "will", "with", "you", "your",
+]);
+
+export interface LexicalChunk {
+  id: string; // Same id as the chunk's vector
+  metadata: DocumentMetadata; // Searched text is originalText under its headings
+}
+
+export interface LexicalHit extends LexicalChunk {
+  // BM25 score over the total IDF of the query terms found in the corpus,
+  // capped at 1: about 1 when each of them occurs once in a chunk of average
+  // length. Words no chunk contains ("teaches", "number") do not count.
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * Lower-cased word tokens without stopwords or single characters. Identifiers that mix digits with
+ * separators ("MGT-401", "216.368.2000", "(216) 368-2000") also yield their
+ * separator-free form, so they match however they are written.
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.normalize("NFKC").toLowerCase();
+  const tokens = (normalized.match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (word) => word.length > 1 && !STOPWORDS.has(word)
+  );
+
+  const compounds = [
+    ...(normalized.match(/[\p{L}\p{N}]+(?:[-./_][\p{L}\p{N}]+)+/gu) || []),
+    ...(normalized.match(/\(?\d[\d\s().-]{5,}\d/g) || []),
+  ];
+
+  for (const compound of compounds) {
+    if (!/\d/.test(compound)) continue;
+
+    const joined = compound.replace(/[^\p{L}\p{N}]/gu, "");
+
+    if (!tokens.includes(joined)) tokens.push(joined);
+  }
+
+  return tokens;
+}
+
+interface IndexedChunk {
+  chunk: LexicalChunk;
+  length: number;
+  termFrequency: Map<string, number>;
+}
+
+export class Bm25Index {
+  private chunks: IndexedChunk[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(chunks: LexicalChunk[]) {
+    let totalLength = 0;
+
+    for (const chunk of chunks) {
+      const tokens = tokenize(
+        withHeadingContext(
+          chunk.metadata.originalText || "",
+          chunk.metadata.headingPath
+        )
+      );
+      const termFrequency = new Map<string, number>();
+
+      for (const token of tokens) {
+        termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+      }
+
+      for (const term of termFrequency.keys()) {
+        this.documentFrequency.set(
+          term,
+          (this.documentFrequency.get(term) || 0) + 1
+        );
+      }
+
+      totalLength += tokens.length;
+      this.chunks.push({ chunk, length: tokens.length, termFrequency });
+    }
+
+    this.averageLength = this.chunks.length ? totalLength / this.chunks.length : 0;
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  search(query: string, topK: number): LexicalHit[] {
+    const count = this.chunks.length;
+    const idf = new Map(
+      Array.from(new Set(tokenize(query)))
+        .filter((term) => this.documentFrequency.has(term))
+        .map((term) => {
+          const documents = this.documentFrequency.get(term)!;
+
+          return [term, Math.log(1 + (count - documents + 0.5) / (documents + 0.5))];
+        })
+    );
+    const totalIdf = Array.from(idf.values()).reduce((sum, value) => sum + value, 0);
+    const hits: LexicalHit[] = [];
+
+    for (const { chunk, length, termFrequency } of this.chunks) {
+      let score = 0;
+      const matchedTerms: string[] = [];
+
+      for (const [term, termIdf] of idf) {
+        const frequency = termFrequency.get(term);
+
+        if (!frequency) continue;
+
+        const norm = K1 * (1 - B + (B * length) / (this.averageLength || 1));
+
+        score += (termIdf * frequency * (K1 + 1)) / (frequency + norm);
+        matchedTerms.push(term);
+      }
+
+      if (score > 0) {
+        hits.push({ ...chunk, score: Math.min(1, score / totalIdf), matchedTerms });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+
+    return hits.slice(0, topK);
+  }
+}
+
+class LexicalIndexStore {
+  private cache = new Map<string, { index: Promise<Bm25Index>; loadedAt: number }>();
+
+  private sourceKey(namespace: string, sourceId: string): string {
+    return `${LEXICAL_INDEX_PREFIX}${namespace}/${sourceId}.json`;
+  }
+
+  // Index a document's chunks, replacing any earlier ones
+  async addSource(
+    namespace: string,
+    sourceId: string,
+    chunks: LexicalChunk[]
+  ): Promise<void> {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: this.sourceKey(namespace, sourceId),
+        Body: JSON.stringify(chunks),
+        ContentType: "application/json",
+      })
+    );
+    this.cache.delete(namespace);
+  }
+
+  // A document's indexed chunks; none if it was never indexed
+  async getSource(namespace: string, sourceId: string): Promise<LexicalChunk[]> {
+    try {
+      const response = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: this.sourceKey(namespace, sourceId),
+        })
+      );
+      const content = await response.Body?.transformToString();
+
+      return content ? (JSON.parse(content) as LexicalChunk[]) : [];
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") return [];
+      throw error;
+    }
+  }
+
+  async removeSource(namespace: string, sourceId: string): Promise<void> {
+    await s3Client.send(
+      new DeleteObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: this.sourceKey(namespace, sourceId),
+      })
+    );
+    this.cache.delete(namespace);
+  }
+
+  async search(
+    namespace: string,
+    query: string,
+    topK: number
+  ): Promise<LexicalHit[]> {
+    return (await this.getIndex(namespace)).search(query, topK);
+  }
+
+  private getIndex(namespace: string): Promise<Bm25Index> {
+    const cached = this.cache.get(namespace);
+
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.index;
+    }
+
+    const index = this.loadChunks(namespace).then(
+      (chunks) => new Bm25Index(chunks)
+    );
+
+    index.catch(() => this.cache.delete(namespace));
+    this.cache.set(namespace, { index, loadedAt: Date.now() });
+
+    return index;
+  }
+
+  // Ids of the documents indexed in a namespace
+  async listSources(namespace: string): Promise<string[]> {
+    const prefix = `${LEXICAL_INDEX_PREFIX}${namespace}/`;
+    const sourceIds: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: BUCKET_NAME,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of response.Contents || []) {
+        if (object.Key?.endsWith(".json")) {
+          sourceIds.push(object.Key.slice(prefix.length, -".json".length));
+        }
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return sourceIds;
+  }
+
+  private async loadChunks(namespace: string): Promise<LexicalChunk[]> {
+    const sourceIds = await this.listSources(namespace);
+
+    const sources = await Promise.all(
+      sourceIds.map(async (sourceId) => {
+        try {
+          return await this.getSource(namespace, sourceId);
+        } catch (error) {
+          console.error(
+            `Failed to load lexical index file ${this.sourceKey(namespace, sourceId)}:`,
+            error
+          );
+
+          return [];
+        }
+      })
+    );
+
+    return sources.flat();
+  }
+}
+
+// Export singleton instance
+export const lexicalIndex = new LexicalIndexStore();
@@ -0,0 +1,100 @@
+import type {
+  DocumentMetadata,
+  SearchResult,
+  VectorFilter,
+  VectorRecord,
+  VectorStore,
+} from "./vector-store";
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "../prisma";
+
+// pgvector's text form, e.g. '[0.1,0.2]'
+function toVectorLiteral(values: number[]): string {
+  return `[${values.join(",")}]`;
+}
+
+/**
+ * Knowledge base chunks in the `KnowledgeVector` table of the app database.
+ * Requires the pgvector extension (created by the migration). The column is
+ * dimensionless so namespaces may use different embedding models; searches
+ * are exact scans within one namespace, which is fast enough for course-size
+ * knowledge bases.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly backend = "pgvector" as const;
+
+  // The table is created by prisma migrate
+  async ensureIndex(): Promise<void> {}
+
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    if (vectors.length === 0) return;
+
+    const rows = vectors.map(
+      (vector) => Prisma.sql`(
+        ${namespace},
+        ${vector.id},
+        ${vector.metadata.sourceId},
+        ${toVectorLiteral(vector.values)}::vector,
+        ${JSON.stringify(vector.metadata)}::jsonb
+      )`
+    );
+
+    await prisma.$executeRaw`
+      INSERT INTO "KnowledgeVector" ("namespace", "id", "sourceId", "embedding", "metadata")
+      VALUES ${Prisma.join(rows)}
+      ON CONFLICT ("namespace", "id") DO UPDATE SET
+        "sourceId" = EXCLUDED."sourceId",
+        "embedding" = EXCLUDED."embedding",
+        "metadata" = EXCLUDED."metadata"
+    `;
+  }
+
+  async query(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    filter?: VectorFilter
+  ): Promise<SearchResult[]> {
+    const literal = toVectorLiteral(vector);
+    const conditions = Object.entries(filter || {}).map(
+      ([key, value]) => Prisma.sql`AND "metadata"->>${key} = ${String(value)}`
+    );
+
+    const rows = await prisma.$queryRaw<
+      { id: string; score: number; metadata: DocumentMetadata }[]
+    >`
+      SELECT "id", 1 - ("embedding" <=> ${literal}::vector) AS "score", "metadata"
+      FROM "KnowledgeVector"
+      WHERE "namespace" = ${namespace}
+      ${conditions.length ? Prisma.join(conditions, " ") : Prisma.empty}
+      ORDER BY "embedding" <=> ${literal}::vector
+      LIMIT ${topK}
+    `;
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: Number(row.score) || 0,
+      metadata: row.metadata,
+    }));
+  }
+
+  async deleteBySource(namespace: string, sourceId: string): Promise<void> {
+    await prisma.knowledgeVector.deleteMany({ where: { namespace, sourceId } });
+  }
+
+  async deleteByIds(namespace: string, ids: string[]): Promise<void> {
+    await prisma.knowledgeVector.deleteMany({
+      where: { namespace, id: { in: ids } },
+    });
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    await prisma.knowledgeVector.deleteMany({ where: { namespace } });
+  }
+
+  async countVectors(namespace: string): Promise<number> {
+    return prisma.knowledgeVector.count({ where: { namespace } });
+  }
+}
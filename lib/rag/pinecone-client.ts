@@ -1,5 +1,15 @@
+import type {
+  DocumentMetadata,
+  SearchResult,
+  VectorFilter,
+  VectorRecord,
+  VectorStore,
+} from "./vector-store";
+
 import { Pinecone } from "@pinecone-database/pinecone";
 
+import { DEFAULT_EMBEDDING_PROFILE } from "./index-versions";
+
 // Initialize Pinecone client
 let pinecone: Pinecone | null = null;
 
@@ -17,48 +27,50 @@ function getPineconeClient(): Pinecone {
 
 // Single index with namespaces
 export const MAIN_INDEX = process.env.PINECONE_INDEX_NAME || "case-study-ai-knowledge";
-export const SHARED_NAMESPACE = "shared";
-export const AVATAR_NAMESPACE_PREFIX = "avatar-";
-
-// Embedding dimensions for OpenAI text-embedding-3-small
-export const EMBEDDING_DIMENSION = 1536;
-
-export interface DocumentMetadata {
-  source: "file";
-  sourceId: string;
-  avatarId?: string;
-  uploadDate: string;
-  chunkIndex: number;
-  totalChunks: number;
-  title: string;
-  originalText: string;
-  [key: string]: any; // Index signature for Pinecone compatibility
-}
 
-export interface VectorRecord {
-  id: string;
-  values: number[];
-  metadata: DocumentMetadata;
+/**
+ * A Pinecone index has a fixed dimension, so index versions embedded with a
+ * model of another dimension live in a sibling index named after it
+ */
+export function getIndexName(dimension: number): string {
+  return dimension === DEFAULT_EMBEDDING_PROFILE.dimension
+    ? MAIN_INDEX
+    : `${MAIN_INDEX}-${dimension}`;
 }
 
-export interface SearchResult {
-  id: string;
-  score: number;
-  metadata: DocumentMetadata;
-}
+export class PineconeClient implements VectorStore {
+  readonly backend = "pinecone" as const;
+
+  // Indexes known to exist, by dimension
+  private readyIndexes = new Map<number, Promise<void>>();
 
-export class PineconeClient {
   // Ensure main index exists
   async ensureIndex(): Promise<void> {
+    await this.ensureDimensionIndex(DEFAULT_EMBEDDING_PROFILE.dimension);
+  }
+
+  private ensureDimensionIndex(dimension: number): Promise<void> {
+    let ready = this.readyIndexes.get(dimension);
+
+    if (!ready) {
+      ready = this.createIndexIfMissing(dimension);
+      ready.catch(() => this.readyIndexes.delete(dimension));
+      this.readyIndexes.set(dimension, ready);
+    }
+
+    return ready;
+  }
+
+  private async createIndexIfMissing(dimension: number): Promise<void> {
     const pinecone = getPineconeClient();
+    const indexName = getIndexName(dimension);
     const existingIndexes = await pinecone.listIndexes();
     const indexNames = existingIndexes.indexes?.map((idx) => idx.name) || [];
 
-    // Create main index if it doesn't exist
-    if (!indexNames.includes(MAIN_INDEX)) {
+    if (!indexNames.includes(indexName)) {
       await pinecone.createIndex({
-        name: MAIN_INDEX,
-        dimension: EMBEDDING_DIMENSION,
+        name: indexName,
+        dimension,
         metric: "cosine",
         spec: {
           serverless: {
@@ -67,18 +79,13 @@ export class PineconeClient {
           },
         },
       });
-      console.log(`Created main index: ${MAIN_INDEX}`);
+      console.log(`Created index: ${indexName}`);
 
       // Wait for index to be ready
-      await this.waitForIndexReady(MAIN_INDEX);
+      await this.waitForIndexReady(indexName);
     }
   }
 
-  // Get namespace for avatar
-  private getAvatarNamespace(avatarId: string): string {
-    return `${AVATAR_NAMESPACE_PREFIX}${avatarId}`;
-  }
-
   // Wait for index to be ready
   private async waitForIndexReady(indexName: string): Promise<void> {
     const pinecone = getPineconeClient();
@@ -105,72 +112,61 @@ export class PineconeClient {
     );
   }
 
-  // Delete avatar namespace
-  async deleteAvatarNamespace(avatarId: string): Promise<void> {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
-    const namespace = this.getAvatarNamespace(avatarId);
-
-    try {
-      // Delete all vectors in the namespace
-      await index.namespace(namespace).deleteAll();
-      console.log(`Deleted avatar namespace: ${namespace}`);
-    } catch (error) {
-      console.error(`Failed to delete avatar namespace ${namespace}:`, error);
-    }
+  private namespaceIndex(namespace: string, dimension: number) {
+    return getPineconeClient()
+      .index(getIndexName(dimension))
+      .namespace(namespace);
   }
 
-  // Store vectors in shared knowledge base
-  async storeSharedVectors(vectors: VectorRecord[]): Promise<void> {
+  /**
+   * Dimensions of the indexes holding vectors in the namespace. A namespace
+   * only ever holds one dimension, but deletes don't know which one.
+   */
+  private async getNamespaceDimensions(namespace: string): Promise<number[]> {
     const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
+    const existingIndexes = await pinecone.listIndexes();
+    const dimensions: number[] = [];
 
-    // Upsert vectors in batches of 100 using shared namespace
-    const batchSize = 100;
+    for (const index of existingIndexes.indexes || []) {
+      if (!index.dimension || index.name !== getIndexName(index.dimension)) {
+        continue;
+      }
 
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      const batch = vectors.slice(i, i + batchSize);
+      const stats = await pinecone.index(index.name).describeIndexStats();
 
-      await index.namespace(SHARED_NAMESPACE).upsert(batch);
+      if (stats.namespaces?.[namespace]) dimensions.push(index.dimension);
     }
-  }
-
-  // Store vectors in avatar-specific knowledge base
-  async storeAvatarVectors(
-    avatarId: string,
-    vectors: VectorRecord[]
-  ): Promise<void> {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
-    const namespace = this.getAvatarNamespace(avatarId);
 
-    // Ensure main index exists
-    await this.ensureIndex();
+    return dimensions;
+  }
 
-    // Upsert vectors in batches of 100 using avatar namespace
-    const batchSize = 100;
+  async upsert(namespace: string, vectors: VectorRecord[]): Promise<void> {
+    if (vectors.length === 0) return;
 
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      const batch = vectors.slice(i, i + batchSize);
+    const dimension = vectors[0].values.length;
 
-      await index.namespace(namespace).upsert(batch);
-    }
+    await this.ensureDimensionIndex(dimension);
+    await this.namespaceIndex(namespace, dimension).upsert(vectors);
   }
 
-  // Search shared knowledge base
-  async searchShared(
-    queryVector: number[],
-    topK: number = 5,
-    filter?: Record<string, any>
+  async query(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    filter?: VectorFilter
   ): Promise<SearchResult[]> {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
-
-    const response = await index.namespace(SHARED_NAMESPACE).query({
-      vector: queryVector,
+    const response = await this.namespaceIndex(
+      namespace,
+      vector.length
+    ).query({
+      vector,
       topK,
       includeMetadata: true,
-      filter,
+      filter: filter
+        ? Object.fromEntries(
+            Object.entries(filter).map(([key, value]) => [key, { $eq: value }])
+          )
+        : undefined,
     });
 
     return (
@@ -182,142 +178,109 @@ export class PineconeClient {
     );
   }
 
-  // Search avatar-specific knowledge base
-  async searchAvatar(
-    avatarId: string,
-    queryVector: number[],
-    topK: number = 5,
-    filter?: Record<string, any>
-  ): Promise<SearchResult[]> {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
-    const namespace = this.getAvatarNamespace(avatarId);
-
-    try {
-      const response = await index.namespace(namespace).query({
-        vector: queryVector,
-        topK,
-        includeMetadata: true,
-        filter,
-      });
-
-      return (
-        response.matches?.map((match) => ({
-          id: match.id,
-          score: match.score || 0,
-          metadata: match.metadata as unknown as DocumentMetadata,
-        })) || []
-      );
-    } catch (error) {
-      console.error(`Failed to search avatar namespace ${namespace}:`, error);
-
-      return [];
+  // Delete vectors by id
+  async deleteByIds(namespace: string, ids: string[]): Promise<void> {
+    for (const dimension of await this.getNamespaceDimensions(namespace)) {
+      await this.namespaceIndex(namespace, dimension).deleteMany(ids);
     }
   }
 
-  // Combined search (shared + avatar)
-  async searchCombined(
-    avatarId: string,
-    queryVector: number[],
-    topK: number = 5
-  ): Promise<SearchResult[]> {
-    const [sharedResults, avatarResults] = await Promise.all([
-      this.searchShared(queryVector, Math.ceil(topK / 2)),
-      this.searchAvatar(avatarId, queryVector, Math.ceil(topK / 2)),
-    ]);
-
-    // Combine and sort by score
-    const combined = [...sharedResults, ...avatarResults];
-
-    combined.sort((a, b) => b.score - a.score);
-
-    return combined.slice(0, topK);
+  // Delete all vectors in the namespace
+  async deleteNamespace(namespace: string): Promise<void> {
+    for (const dimension of await this.getNamespaceDimensions(namespace)) {
+      await this.namespaceIndex(namespace, dimension).deleteAll();
+    }
   }
 
   // Delete vectors by source
-  async deleteVectorsBySource(
-    sourceId: string,
-    isShared: boolean = false,
-    avatarId?: string
-  ): Promise<void> {
-    const pinecone = getPineconeClient();
-    const index = pinecone.index(MAIN_INDEX);
-    const namespace = isShared
-      ? SHARED_NAMESPACE
-      : this.getAvatarNamespace(avatarId!);
+  async deleteBySource(namespace: string, sourceId: string): Promise<void> {
+    for (const dimension of await this.getNamespaceDimensions(namespace)) {
+      await this.deleteSourceFromIndex(namespace, dimension, sourceId);
+    }
+  }
 
-    try {
-      const namespaceIndex = index.namespace(namespace);
+  private async deleteSourceFromIndex(
+    namespace: string,
+    dimension: number,
+    sourceId: string
+  ): Promise<void> {
+    const namespaceIndex = this.namespaceIndex(namespace, dimension);
 
-      // Use ID pattern matching since we know our IDs follow the pattern: ${sourceId}_chunk_${chunkIndex}
-      const vectorIdsToDelete: string[] = [];
+    // Use ID pattern matching since we know our IDs follow the pattern: ${sourceId}_chunk_${chunkIndex}
+    const vectorIdsToDelete: string[] = [];
 
-      // Method 1: Try to delete by ID pattern (most reliable)
-      // We'll attempt to delete chunks 0-999 (should cover most documents)
-      const idPatternIds: string[] = [];
-      for (let i = 0; i < 1000; i++) {
-        idPatternIds.push(`${sourceId}_chunk_${i}`);
-      }
+    // Method 1: Try to delete by ID pattern (most reliable)
+    // We'll attempt to delete chunks 0-999 (should cover most documents)
+    const idPatternIds: string[] = [];
+    for (let i = 0; i < 1000; i++) {
+      idPatternIds.push(`${sourceId}_chunk_${i}`);
+    }
 
-      // Try to delete by ID pattern in batches
-      const batchSize = 100;
-      for (let i = 0; i < idPatternIds.length; i += batchSize) {
-        const batchIds = idPatternIds.slice(i, i + batchSize);
-        try {
-          await namespaceIndex.deleteMany(batchIds);
-        } catch (error) {
-          // Some IDs might not exist, which is fine
-        }
+    // Try to delete by ID pattern in batches
+    const batchSize = 100;
+    for (let i = 0; i < idPatternIds.length; i += batchSize) {
+      const batchIds = idPatternIds.slice(i, i + batchSize);
+      try {
+        await namespaceIndex.deleteMany(batchIds);
+      } catch (error) {
+        // Some IDs might not exist, which is fine
       }
+    }
 
-      // Method 2: Fallback - search for any remaining vectors with this sourceId
-      // Use multiple random vectors to increase coverage
-      const searchVectors = [
-        new Array(EMBEDDING_DIMENSION).fill(0.1), // Small positive values
-        new Array(EMBEDDING_DIMENSION).fill(-0.1), // Small negative values
-        new Array(EMBEDDING_DIMENSION).fill(0), // Zero vector
-      ];
-
-      for (const searchVector of searchVectors) {
-        let hasMoreResults = true;
-
-        while (hasMoreResults) {
-          const queryResponse = await namespaceIndex.query({
-            vector: searchVector,
-            topK: 1000,
-            includeMetadata: true,
+    // Method 2: Fallback - search for any remaining vectors with this sourceId
+    // Use multiple random vectors to increase coverage
+    const searchVectors = [
+      new Array(dimension).fill(0.1), // Small positive values
+      new Array(dimension).fill(-0.1), // Small negative values
+      new Array(dimension).fill(0), // Zero vector
+    ];
+
+    for (const searchVector of searchVectors) {
+      let hasMoreResults = true;
+
+      while (hasMoreResults) {
+        const queryResponse = await namespaceIndex.query({
+          vector: searchVector,
+          topK: 1000,
+          includeMetadata: true,
+        });
+
+        if (queryResponse.matches && queryResponse.matches.length > 0) {
+          queryResponse.matches.forEach((match) => {
+            if (
+              match.metadata?.sourceId === sourceId &&
+              match.id &&
+              !vectorIdsToDelete.includes(match.id)
+            ) {
+              vectorIdsToDelete.push(match.id);
+            }
           });
 
-          if (queryResponse.matches && queryResponse.matches.length > 0) {
-            queryResponse.matches.forEach((match) => {
-              if (
-                match.metadata?.sourceId === sourceId &&
-                match.id &&
-                !vectorIdsToDelete.includes(match.id)
-              ) {
-                vectorIdsToDelete.push(match.id);
-              }
-            });
-
-            hasMoreResults = queryResponse.matches.length === 1000;
-          } else {
-            hasMoreResults = false;
-          }
+          hasMoreResults = queryResponse.matches.length === 1000;
+        } else {
+          hasMoreResults = false;
         }
       }
+    }
 
-      // Delete by specific vector IDs
-      if (vectorIdsToDelete.length > 0) {
-        await namespaceIndex.deleteMany(vectorIdsToDelete);
-      }
-    } catch (error) {
-      console.error(
-        `Failed to delete vectors from namespace ${namespace}:`,
-        error
-      );
+    // Delete by specific vector IDs
+    if (vectorIdsToDelete.length > 0) {
+      await namespaceIndex.deleteMany(vectorIdsToDelete);
     }
   }
 
+  async countVectors(namespace: string): Promise<number> {
+    let count = 0;
+
+    for (const dimension of await this.getNamespaceDimensions(namespace)) {
+      const stats = await this.getNamespaceStats(namespace, dimension);
+
+      count += stats?.recordCount ?? 0;
+    }
+
+    return count;
+  }
+
   // Get index stats
   async getIndexStats(): Promise<any> {
     const pinecone = getPineconeClient();
@@ -333,10 +296,13 @@ export class PineconeClient {
   }
 
   // Get namespace stats
-  async getNamespaceStats(namespace: string): Promise<any> {
+  async getNamespaceStats(
+    namespace: string,
+    dimension: number = DEFAULT_EMBEDDING_PROFILE.dimension
+  ): Promise<any> {
     const pinecone = getPineconeClient();
     try {
-      const index = pinecone.index(MAIN_INDEX);
+      const index = pinecone.index(getIndexName(dimension));
       const stats = await index.describeIndexStats();
 
       // Return stats for the specific namespace
@@ -348,6 +314,3 @@ export class PineconeClient {
     }
   }
 }
-
-// Export singleton instance
-export const pineconeClient = new PineconeClient();
@@ -0,0 +1,161 @@
+/**
+ * Conversation-aware search queries for knowledge base retrieval.
+ *
+ * A chat's latest message often only makes sense after the turns before it
+ * ("what about its tuition?"), and searching it alone retrieves nothing
+ * useful. Before a chat searches, a language model condenses the recent turns
+ * into one standalone query (LLM_QUERY_REWRITE_* route settings) and, in
+ * sub-queries mode, a few narrower queries for questions that ask for
+ * several things at once. Without earlier turns there is nothing to resolve,
+ * so a first message is only rewritten for its sub-queries; a failed rewrite
+ * falls back to the message as is.
+ */
+
+import type { LLMMessage } from "../llm/types";
+import type { QueryRewriteMode } from "./retrieval-settings";
+import type { UsageAttribution } from "../usage/usage-ledger";
+
+import { estimateTokens } from "../llm/context-window";
+import { getLLMProvider, resolveModelConfig } from "../llm/registry";
+import { usageLedger } from "../usage/usage-ledger";
+
+// What was searched for a chat turn, next to its hits in logs and traces
+export interface QueryRewrite {
+  mode: QueryRewriteMode;
+  original: string; // The latest user message
+  query: string; // Searched; the original unless rewritten
+  subQueries: string[]; // Searched alongside the query in sub-queries mode
+  rewritten: boolean;
+  error?: string; // The rewrite failed and the original was searched
+  latencyMs: number;
+}
+
+// Earlier turns shown to the rewriter, most recent last
+const MAX_HISTORY_TURNS = 6;
+
+// Longer turns are cut, mostly assistant replies
+const MAX_TURN_CHARS = 600;
+
+const MAX_SUB_QUERIES = 3;
+
+const REWRITE_RULES = `You turn the latest message of a conversation into a search query for a knowledge base.
+Resolve pronouns and references ("it", "that program", "the second one") using the earlier turns, and keep names, codes and numbers exactly as written.
+If the latest message already stands on its own, keep its meaning and wording.`;
+
+const REWRITE_PROMPT = `${REWRITE_RULES}
+Reply with JSON only, in the form {"query": "<standalone search query>"}.`;
+
+const SUB_QUERIES_PROMPT = `${REWRITE_RULES}
+When the message asks about several distinct things, also list up to ${MAX_SUB_QUERIES} narrower queries, one per thing; otherwise leave the list empty.
+Reply with JSON only, in the form {"query": "<standalone search query>", "subQueries": ["<query>", ...]}.`;
+
+function clip(text: string): string {
+  return text.length > MAX_TURN_CHARS
+    ? `${text.slice(0, MAX_TURN_CHARS)}...`
+    : text;
+}
+
+/**
+ * The search queries for the latest user message of a conversation. Only the
+ * user and assistant turns are used; summary is the rolling summary of turns
+ * no longer in the messages, if any.
+ */
+export async function rewriteSearchQuery(
+  messages: Pick<LLMMessage, "role" | "content">[],
+  mode: QueryRewriteMode,
+  options: { summary?: string; attribution?: UsageAttribution } = {}
+): Promise<QueryRewrite> {
+  const startedAt = Date.now();
+  const turns = messages.filter(
+    (message) => message.role === "user" || message.role === "assistant"
+  );
+  const latestIndex = turns.map((turn) => turn.role).lastIndexOf("user");
+  const original = latestIndex >= 0 ? turns[latestIndex].content.trim() : "";
+  const history = turns
+    .slice(0, Math.max(0, latestIndex))
+    .slice(-MAX_HISTORY_TURNS);
+  const result: QueryRewrite = {
+    mode,
+    original,
+    query: original,
+    subQueries: [],
+    rewritten: false,
+    latencyMs: 0,
+  };
+
+  const isFirstMessage = history.length === 0 && !options.summary;
+
+  if (mode === "off" || !original || (isFirstMessage && mode === "standalone")) {
+    return result;
+  }
+
+  const modelConfig = resolveModelConfig("query-rewrite");
+  const transcript = [
+    ...(options.summary
+      ? [`Earlier conversation (summary): ${options.summary}`]
+      : []),
+    ...history.map(
+      (turn) =>
+        `${turn.role === "user" ? "User" : "Assistant"}: ${clip(turn.content)}`
+    ),
+    `Latest message: ${original}`,
+  ].join("\n\n");
+
+  try {
+    const completion = await getLLMProvider(modelConfig.provider).complete({
+      model: modelConfig.model,
+      messages: [
+        {
+          role: "system",
+          content: mode === "sub-queries" ? SUB_QUERIES_PROMPT : REWRITE_PROMPT,
+        },
+        { role: "user", content: transcript },
+      ],
+      maxTokens: modelConfig.maxTokens,
+      temperature: 0,
+    });
+
+    await usageLedger.record({
+      operation: "query-rewrite",
+      route: "query-rewrite",
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      inputTokens: completion.usage?.inputTokens ?? estimateTokens(transcript),
+      outputTokens:
+        completion.usage?.outputTokens ?? estimateTokens(completion.content),
+      estimated: !completion.usage,
+      latencyMs: Date.now() - startedAt,
+      ...options.attribution,
+    });
+
+    const parsed = JSON.parse(
+      completion.content.match(/\{[\s\S]*\}/)?.[0] || "null"
+    );
+
+    if (typeof parsed?.query !== "string" || !parsed.query.trim()) {
+      throw new Error("Query rewriter did not return a query");
+    }
+
+    result.query = parsed.query.trim();
+    result.subQueries =
+      mode === "sub-queries" && Array.isArray(parsed.subQueries)
+        ? parsed.subQueries
+            .filter(
+              (subQuery: unknown): subQuery is string =>
+                typeof subQuery === "string" && subQuery.trim().length > 0
+            )
+            .map((subQuery: string) => subQuery.trim())
+            .filter((subQuery: string) => subQuery !== result.query)
+            .slice(0, MAX_SUB_QUERIES)
+        : [];
+
+    result.rewritten = true;
+  } catch (error) {
+    console.error("Query rewrite failed, searching the latest message:", error);
+    result.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  result.latencyMs = Date.now() - startedAt;
+
+  return result;
+}
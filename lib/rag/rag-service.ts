@@ -1,32 +1,108 @@
+import { createHash } from "crypto";
+
 import {
-  pineconeClient,
+  getAvatarNamespace,
+  knowledgeIndex,
+  SHARED_NAMESPACE,
   type DocumentMetadata,
+  type SearchResult,
   type VectorRecord,
-} from "./pinecone-client";
+  type VersionQuery,
+} from "./vector-store";
+import { contentHashes } from "./content-hashes";
+import { CrawlInProgressError, crawlLocks } from "./crawl-locks";
 import { embeddingService } from "./embeddings";
-import { documentProcessor } from "./document-processor";
+import {
+  documentProcessor,
+  type ProcessedDocument,
+} from "./document-processor";
+import {
+  blocksToText,
+  chunkBlocks,
+  resolveChunkingOptions,
+  withHeadingContext,
+  type ChunkingOptions,
+} from "./chunker";
+import { extractHtmlArticle } from "./format-extractors";
+import { indexVersions } from "./index-versions";
+import { lexicalIndex, type LexicalChunk, type LexicalHit } from "./lexical-index";
+import {
+  assertPublicUrl,
+  DEFAULT_MAX_PAGES,
+  MAX_PAGES_LIMIT,
+  discoverPages,
+  fetchPage,
+  normalizeUrl,
+  PageGoneError,
+  type PageValidators,
+} from "./web-crawler";
+import { getReranker } from "./rerankers";
+import { rewriteSearchQuery, type QueryRewrite } from "./query-rewriter";
+import {
+  resolveRetrievalSettings,
+  type RetrievalSettings,
+  type RetrievalSettingsOverride,
+} from "./retrieval-settings";
+import type { IndexVersion } from "./index-versions";
+import type { LLMMessage } from "../llm/types";
+import type { UsageAttribution } from "../usage/usage-ledger";
 
 export interface DocumentInput {
   buffer: Buffer;
   mimeType: string;
   filename: string;
   title?: string;
+  chunking?: Partial<ChunkingOptions>; // Passage size for this document
 }
 
-export interface ProcessingStatus {
-  id: string;
-  status: "pending" | "processing" | "completed" | "failed";
+// An uploaded document stored in S3, waiting to be chunked and embedded
+export interface DocumentIngestion {
+  sourceId: string;
+  version: number; // 1 for a new document, higher for a replacement
+  s3Key: string;
+  filename: string;
+  mimeType: string;
+  title?: string;
+  avatarId?: string; // None for the shared knowledge base
+  uploadDate: string;
+  contentHash: string;
+  chunking?: Partial<ChunkingOptions>;
+}
+
+export type StagedDocument =
+  | {
+      status: "staged";
+      ingestion: DocumentIngestion;
+      document: KnowledgeBaseEntry;
+    }
+  // The same file is already in the knowledge base
+  | { status: "duplicate"; document: KnowledgeBaseEntry };
+
+// The first embeddedChunks chunks of the document are stored
+export interface IngestionCheckpoint {
+  totalChunks: number;
+  embeddedChunks: number;
+  indexVersion?: number; // Index version they were embedded for
+}
+
+export interface IngestionProgress {
   progress: number;
   message: string;
-  createdAt: string;
-  completedAt?: string;
-  error?: string;
+  checkpoint?: IngestionCheckpoint; // Set once a batch of chunks is stored
+}
+
+// An ingestion that no retry can complete
+export class IngestionAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IngestionAbortedError";
+  }
 }
 
 export interface KnowledgeBaseEntry {
   id: string;
   title: string;
-  source: "file";
+  source: "file" | "web";
   sourceId: string;
   avatarId?: string;
   uploadDate: string;
@@ -34,175 +110,1205 @@ export interface KnowledgeBaseEntry {
   status: "processing" | "completed" | "failed";
   summary?: string;
   filename?: string;
+  chunking?: ChunkingOptions;
+  error?: string; // Why processing failed
+  // Uploaded files only
+  contentHash?: string; // SHA-256 of the current version's file
+  version?: number; // Current version; entries from before versioning are 1
+  versions?: DocumentVersion[]; // Earlier versions, oldest first
+  pendingVersion?: DocumentVersion; // A replacement still being processed
+  // Web sources only
+  url?: string; // The page, or a sitemap of pages
+  maxPages?: number;
+  recrawlIntervalHours?: number; // 0 turns scheduled re-crawls off
+  lastFetchedAt?: string;
+  lastCrawl?: WebCrawlSummary;
+}
+
+// One uploaded version of a document
+export interface DocumentVersion {
+  version: number;
+  title: string;
+  filename: string;
+  uploadDate: string;
+  contentHash?: string;
+  chunkCount: number;
+}
+
+export interface WebSourceInput {
+  url: string;
+  title?: string;
+  maxPages?: number; // Sitemaps only
+  recrawlIntervalHours?: number;
+  chunking?: Partial<ChunkingOptions>;
+}
+
+// What one crawl of a web source changed
+export interface WebCrawlSummary {
+  crawledAt: string;
+  pages: number;
+  pagesChanged: number;
+  pagesFailed: number;
+  chunksAdded: number;
+  chunksRemoved: number;
+  errors?: string[]; // "url: reason" for the first failed pages
+}
+
+// Per-page state kept between crawls, to re-embed only what changed
+interface WebPageState extends PageValidators {
+  title: string;
+  contentHash: string;
+  chunkIds: string[];
+  fetchedAt: string;
+}
+
+interface WebCrawlState {
+  pages: Record<string, WebPageState>;
+}
+
+export const DEFAULT_RECRAWL_INTERVAL_HOURS = 24;
+
+// Failed pages listed in a crawl summary
+const MAX_CRAWL_ERRORS = 10;
+
+// Chunks embedded and stored per ingestion checkpoint
+const INGESTION_BATCH_SIZE = 100;
+
+// A claimed content hash whose document has no metadata after this long was
+// left by an upload that failed part-way, and can be claimed again
+const CONTENT_HASH_CLAIM_MS = 10 * 60 * 1000;
+
+function sha256(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * S3 key of an uploaded document's file. Versions after the first are kept
+ * in their own folder, so replacing a file keeps the earlier ones.
+ */
+export function getDocumentFileKey(
+  sourceId: string,
+  filename: string,
+  version: number = 1
+): string {
+  return version > 1
+    ? `knowledge-base/${sourceId}/v${version}/${filename}`
+    : `knowledge-base/${sourceId}/${filename}`;
+}
+
+// Vector id of a document chunk; first versions keep the unversioned ids
+function getChunkId(sourceId: string, version: number, chunkIndex: number): string {
+  return version > 1
+    ? `${sourceId}_v${version}_chunk_${chunkIndex}`
+    : `${sourceId}_chunk_${chunkIndex}`;
+}
+
+function getChunkIds(sourceId: string, version: number, count: number): string[] {
+  return Array.from({ length: count }, (_, index) =>
+    getChunkId(sourceId, version, index)
+  );
+}
+
+function toDocumentVersion(entry: KnowledgeBaseEntry): DocumentVersion {
+  return {
+    version: entry.version || 1,
+    title: entry.title,
+    filename: entry.filename!,
+    uploadDate: entry.uploadDate,
+    contentHash: entry.contentHash,
+    chunkCount: entry.chunkCount,
+  };
+}
+
+function getSourceNamespace(avatarId?: string): string {
+  return avatarId ? getAvatarNamespace(avatarId) : SHARED_NAMESPACE;
 }
 
 export interface RAGContext {
   chunks: {
     text: string;
     source: string;
-    score: number;
+    score: number; // Reranker score, or the fused score without a reranker
     metadata: DocumentMetadata;
   }[];
   sources: string[];
+  trace?: RetrievalTrace;
+  rewrite?: QueryRewrite; // Conversation searches only
 }
 
-export class RAGService {
-  private processingStatus: Map<string, ProcessingStatus> = new Map();
+export interface KnowledgeSearchOptions {
+  settings?: RetrievalSettingsOverride; // Usually the avatar's retrieval settings
+  trace?: boolean; // Return how the chunks were found
+  subQueries?: string[]; // Also searched; their hits join the query's
+  rewrite?: QueryRewrite; // How the query was derived, for the trace
+}
+
+export interface RetrievalTraceHit {
+  id: string;
+  title: string;
+  score: number;
+}
+
+// Every stage of one search, for tuning retrieval settings
+export interface RetrievalTrace {
+  query: string;
+  subQueries: string[];
+  rewrite?: QueryRewrite; // Conversation searches: the message the query came from
+  settings: RetrievalSettings;
+  namespaces: string[];
+  indexVersions: string[]; // Where vectors were searched, e.g. "shared__v2"
+  vectorHits: RetrievalTraceHit[]; // Cosine similarity, after the minSimilarity cutoff
+  lexicalHits: (RetrievalTraceHit & { matchedTerms: string[] })[];
+  fused: (RetrievalTraceHit & {
+    vectorScore: number | null;
+    lexicalScore: number | null;
+  })[];
+  reranked?: RetrievalTraceHit[];
+  rerankError?: string; // The reranker failed; results keep the fused order
+  results: string[]; // Ids of the returned chunks, best first
+  timings: {
+    embeddingMs: number;
+    vectorMs: number;
+    lexicalMs: number;
+    rerankMs: number;
+    totalMs: number;
+  };
+}
+
+// Keyword hits must cover this share of the query's term weight, so a query
+// sharing one common word with a chunk does not pull it in
+const MIN_LEXICAL_SCORE = 0.3;
+
+interface FusedCandidate {
+  id: string;
+  metadata: DocumentMetadata;
+  vectorScore: number | null;
+  lexicalScore: number | null;
+  score: number;
+}
+
+// Weighted sum of both retrievers' scores; a retriever that missed a chunk
+// contributes nothing for it
+function fuseResults(
+  vectorHits: SearchResult[],
+  lexicalHits: LexicalHit[],
+  settings: RetrievalSettings
+): FusedCandidate[] {
+  const candidates = new Map<string, FusedCandidate>();
+
+  for (const hit of vectorHits) {
+    candidates.set(hit.id, {
+      id: hit.id,
+      metadata: hit.metadata,
+      vectorScore: hit.score,
+      lexicalScore: null,
+      score: 0,
+    });
+  }
 
+  for (const hit of lexicalHits) {
+    const candidate = candidates.get(hit.id);
+
+    if (candidate) {
+      candidate.lexicalScore = hit.score;
+    } else {
+      candidates.set(hit.id, {
+        id: hit.id,
+        metadata: hit.metadata,
+        vectorScore: null,
+        lexicalScore: hit.score,
+        score: 0,
+      });
+    }
+  }
+
+  const fused = Array.from(candidates.values());
+
+  for (const candidate of fused) {
+    candidate.score =
+      settings.vectorWeight * (candidate.vectorScore ?? 0) +
+      settings.lexicalWeight * (candidate.lexicalScore ?? 0);
+  }
+
+  fused.sort((a, b) => b.score - a.score);
+
+  return fused;
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+// The best score each chunk got from any of the queries, best first
+function mergeHits<T extends { id: string; score: number }>(
+  hitLists: T[][]
+): T[] {
+  const best = new Map<string, T>();
+
+  for (const hit of hitLists.flat()) {
+    const current = best.get(hit.id);
+
+    if (!current || hit.score > current.score) best.set(hit.id, hit);
+  }
+
+  return Array.from(best.values()).sort((a, b) => b.score - a.score);
+}
+
+export class RAGService {
   // Initialize RAG service
   async initialize(): Promise<void> {
-    await pineconeClient.ensureIndex();
+    await knowledgeIndex.ensureIndex();
   }
 
-  // Process document and store in knowledge base
-  async processDocument(
+  /**
+   * Store an uploaded document and add its knowledge base entry as
+   * "processing". The staged ingestion is what the ingestion queue later runs
+   * through ingestDocument. A file identical to a document already in the
+   * same knowledge base is not stored again; if that cannot be checked, the
+   * upload fails.
+   */
+  async stageDocument(
     input: DocumentInput,
     avatarId?: string,
     isShared: boolean = false
-  ): Promise<string> {
-    const processingId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  ): Promise<StagedDocument> {
+    const { s3Storage } = await import("@/lib/s3-client");
+    const contentHash = sha256(input.buffer);
+    const scopeAvatarId = isShared ? undefined : avatarId;
+    const namespace = getSourceNamespace(scopeAvatarId);
+    const sourceId = `${isShared ? "shared" : avatarId}_${Date.now()}`;
+
+    for (let attempt = 1; ; attempt++) {
+      const owner = await contentHashes.find(namespace, contentHash);
+      const duplicate = owner
+        ? ((await s3Storage.readDocumentMetadata(
+            owner.sourceId
+          )) as KnowledgeBaseEntry | null)
+        : null;
+
+      if (
+        duplicate &&
+        duplicate.status !== "failed" &&
+        duplicate.contentHash === contentHash
+      ) {
+        return { status: "duplicate", document: duplicate };
+      }
+
+      // Without metadata the owner is either still being stored by another
+      // upload or was abandoned part-way; only the latter is taken over
+      if (
+        owner &&
+        !duplicate &&
+        Date.now() - owner.claimedAt.getTime() < CONTENT_HASH_CLAIM_MS
+      ) {
+        throw new Error("An identical file is already being uploaded");
+      }
+
+      if (
+        await contentHashes.claim(
+          namespace,
+          contentHash,
+          sourceId,
+          owner?.sourceId
+        )
+      ) {
+        break;
+      }
+
+      if (attempt === 2) {
+        throw new Error("An identical file is already being uploaded");
+      }
+    }
 
-    await this.updateProcessingStatus(processingId, {
-      id: processingId,
+    const ingestion: DocumentIngestion = {
+      sourceId,
+      version: 1,
+      s3Key: getDocumentFileKey(sourceId, input.filename),
+      filename: input.filename,
+      mimeType: input.mimeType,
+      title: input.title,
+      avatarId: scopeAvatarId,
+      uploadDate: new Date().toISOString(),
+      contentHash,
+      chunking: input.chunking,
+    };
+
+    const document: KnowledgeBaseEntry = {
+      id: sourceId,
+      title: input.title || input.filename,
+      source: "file",
+      sourceId,
+      avatarId: ingestion.avatarId,
+      uploadDate: ingestion.uploadDate,
+      chunkCount: 0,
       status: "processing",
-      progress: 0,
-      message: "Starting document processing...",
-      createdAt: new Date().toISOString(),
-    });
+      filename: input.filename,
+      chunking: resolveChunkingOptions(input.chunking),
+      contentHash,
+      version: 1,
+      versions: [],
+    };
 
     try {
-      // Store original file in S3
-      const sourceId = `${isShared ? "shared" : avatarId}_${Date.now()}`;
-      const s3Key = `knowledge-base/${sourceId}/${input.filename}`;
-
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        progress: 10,
-        message: "Storing original file...",
+      await this.storeFileInS3(ingestion.s3Key, input.buffer, input.mimeType);
+      await this.storeDocumentMetadata(sourceId, document);
+    } catch (error) {
+      await contentHashes.removeSource(sourceId).catch((releaseError) => {
+        console.error("Failed to release content hash:", releaseError);
       });
+      throw error;
+    }
+
+    return { status: "staged", ingestion, document };
+  }
 
-      // Store in S3 (extend existing S3 client)
-      await this.storeFileInS3(s3Key, input.buffer, input.mimeType);
+  /**
+   * Record the content hashes of documents uploaded before the index was
+   * kept, so later uploads of the same files are recognized. Reads every
+   * entry once; returns how many hashes were added.
+   */
+  async indexContentHashes(): Promise<number> {
+    let added = 0;
+
+    for (const entry of await this.getDocumentMetadata(
+      (metadata) =>
+        metadata.source === "file" &&
+        !!metadata.contentHash &&
+        metadata.status !== "failed"
+    )) {
+      const claimed = await contentHashes.claim(
+        getSourceNamespace(entry.avatarId || undefined),
+        entry.contentHash!,
+        entry.sourceId
+      );
 
-      // Process document
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        progress: 30,
-        message: "Extracting text content...",
-      });
+      if (claimed) added++;
+    }
+
+    return added;
+  }
+
+  /**
+   * Stage a new version of an uploaded document. The current version stays
+   * searchable until the new one is fully embedded; ingestDocument then swaps
+   * the chunks and records the old version in the entry's history. A file
+   * identical to the current version is not stored again.
+   */
+  async stageReplacement(
+    sourceId: string,
+    input: DocumentInput,
+    avatarId?: string
+  ): Promise<StagedDocument> {
+    const { s3Storage } = await import("@/lib/s3-client");
+    const entry = (await s3Storage.getDocumentMetadata(
+      sourceId
+    )) as KnowledgeBaseEntry | null;
+
+    if (!entry || entry.source !== "file") {
+      throw new Error(`Document not found: ${sourceId}`);
+    }
+    if ((entry.avatarId || undefined) !== (avatarId || undefined)) {
+      throw new Error("Document belongs to a different knowledge base");
+    }
+    if (entry.status === "processing" && !entry.pendingVersion) {
+      throw new Error("Document is still being processed");
+    }
+
+    const contentHash = sha256(input.buffer);
+
+    if (entry.contentHash === contentHash && !entry.pendingVersion) {
+      return { status: "duplicate", document: entry };
+    }
+
+    // A newer replacement supersedes one still in the queue
+    const version =
+      Math.max(entry.version || 1, entry.pendingVersion?.version || 0) + 1;
+    const ingestion: DocumentIngestion = {
+      sourceId,
+      version,
+      s3Key: getDocumentFileKey(sourceId, input.filename, version),
+      filename: input.filename,
+      mimeType: input.mimeType,
+      title: input.title || entry.title,
+      avatarId: entry.avatarId,
+      uploadDate: new Date().toISOString(),
+      contentHash,
+      chunking: input.chunking || entry.chunking,
+    };
+
+    await this.storeFileInS3(ingestion.s3Key, input.buffer, input.mimeType);
+
+    const document: KnowledgeBaseEntry = {
+      ...entry,
+      pendingVersion: {
+        version,
+        title: ingestion.title!,
+        filename: input.filename,
+        uploadDate: ingestion.uploadDate,
+        contentHash,
+        chunkCount: 0,
+      },
+      error: undefined,
+    };
+
+    await this.storeDocumentMetadata(sourceId, document);
+
+    return { status: "staged", ingestion, document };
+  }
+
+  /**
+   * Chunk, embed and index a staged document. Chunks are embedded in batches
+   * and each stored batch is reported with a checkpoint; given the last
+   * checkpoint, a retry skips the batches already stored. Chunk ids are
+   * positional per version, so storing a batch twice only overwrites it.
+   *
+   * A replacement's chunks are stored next to the current version's, which
+   * are deleted only once all new chunks are in; search never sees the
+   * document without chunks.
+   */
+  async ingestDocument(
+    ingestion: DocumentIngestion,
+    checkpoint: IngestionCheckpoint | undefined,
+    onProgress: (update: IngestionProgress) => Promise<void>
+  ): Promise<KnowledgeBaseEntry> {
+    const { s3Storage } = await import("@/lib/s3-client");
+    const { sourceId, avatarId, version } = ingestion;
+    const entry = (await s3Storage.getDocumentMetadata(
+      sourceId
+    )) as KnowledgeBaseEntry | null;
+
+    // Deleted while it waited in the queue
+    if (!entry) {
+      throw new IngestionAbortedError("Document was deleted");
+    }
+
+    const isReplacement = version > 1;
+
+    if (isReplacement && entry.pendingVersion?.version !== version) {
+      throw new IngestionAbortedError(
+        `Version ${version} was superseded by a newer upload`
+      );
+    }
+
+    await onProgress({ progress: 10, message: "Reading stored file..." });
+
+    const { body } = await s3Storage.downloadFile(ingestion.s3Key);
+
+    await onProgress({ progress: 20, message: "Extracting text content..." });
+
+    let processedDoc: ProcessedDocument;
 
-      const processedDoc = await documentProcessor.processDocument(
-        input.buffer,
-        input.mimeType,
+    try {
+      processedDoc = await documentProcessor.processDocument(
+        Buffer.from(body),
+        ingestion.mimeType,
         sourceId,
-        input.title || input.filename,
-        "file"
+        ingestion.title || ingestion.filename,
+        "file",
+        ingestion.chunking
+      );
+    } catch (error) {
+      // The same file fails the same way on every attempt
+      throw new IngestionAbortedError(
+        error instanceof Error ? error.message : "Failed to extract text"
       );
+    }
+
+    const namespace = getSourceNamespace(avatarId);
+    const indexVersion = await knowledgeIndex.getActiveVersion(namespace);
+    const vectors: VectorRecord[] = processedDoc.chunks.map((chunk) => ({
+      id: getChunkId(sourceId, version, chunk.chunkIndex),
+      values: [],
+      metadata: {
+        source: "file",
+        sourceId,
+        avatarId,
+        uploadDate: ingestion.uploadDate,
+        chunkIndex: chunk.chunkIndex,
+        totalChunks: chunk.totalChunks,
+        title: processedDoc.title,
+        originalText: chunk.text,
+        ...(chunk.pageStart && { pageNumber: chunk.pageStart }),
+        ...(chunk.pageEnd &&
+          chunk.pageEnd !== chunk.pageStart && { pageEnd: chunk.pageEnd }),
+        ...(chunk.headingPath.length > 0 && {
+          headingPath: chunk.headingPath,
+        }),
+      },
+    }));
+
+    // A checkpoint for a different chunking or index version (a cut-over
+    // since the last attempt) cannot be resumed; drop what it stored from
+    // the version it stored it in, which may include ids past the new chunk
+    // count
+    let embeddedChunks = 0;
+
+    if (
+      checkpoint?.totalChunks === vectors.length &&
+      (checkpoint.indexVersion ?? 1) === indexVersion.version
+    ) {
+      embeddedChunks = checkpoint.embeddedChunks;
+    } else if (checkpoint) {
+      const checkpointVersion = await indexVersions.get(
+        namespace,
+        checkpoint.indexVersion ?? 1
+      );
+
+      if (checkpointVersion) {
+        await knowledgeIndex.deleteVersionVectors(
+          checkpointVersion,
+          getChunkIds(sourceId, version, checkpoint.embeddedChunks)
+        );
+      }
+    }
 
-      // Generate embeddings
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        progress: 60,
-        message: "Generating embeddings...",
+    for (
+      let start = embeddedChunks;
+      start < vectors.length;
+      start += INGESTION_BATCH_SIZE
+    ) {
+      await onProgress({
+        progress: 30 + Math.round((start / vectors.length) * 60),
+        message: `Generating embeddings (${start} of ${vectors.length} chunks)...`,
       });
 
+      const batch = vectors.slice(start, start + INGESTION_BATCH_SIZE);
       const embeddings = await embeddingService.generateEmbeddings(
-        processedDoc.chunks.map((chunk) => chunk.text)
+        batch.map(({ metadata }) =>
+          withHeadingContext(metadata.originalText, metadata.headingPath)
+        ),
+        { avatarId },
+        indexVersion
       );
 
-      // Create vector records
-      const vectors: VectorRecord[] = processedDoc.chunks.map(
-        (chunk, index) => ({
-          id: `${sourceId}_chunk_${chunk.chunkIndex}`,
+      await knowledgeIndex.storeVectors(
+        indexVersion,
+        batch.map((vector, index) => ({
+          ...vector,
           values: embeddings[index],
-          metadata: {
-            source: "file",
-            sourceId,
-            avatarId,
-            uploadDate: new Date().toISOString(),
-            chunkIndex: chunk.chunkIndex,
-            totalChunks: chunk.totalChunks,
-            title: processedDoc.title,
-            originalText: chunk.text,
-          },
-        })
+        }))
       );
 
-      // Store in Pinecone
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        progress: 90,
-        message: "Storing in knowledge base...",
+      embeddedChunks = start + batch.length;
+      await onProgress({
+        progress: 30 + Math.round((embeddedChunks / vectors.length) * 60),
+        message: `Generating embeddings (${embeddedChunks} of ${vectors.length} chunks)...`,
+        checkpoint: {
+          totalChunks: vectors.length,
+          embeddedChunks,
+          indexVersion: indexVersion.version,
+        },
       });
+    }
 
-      if (isShared) {
-        await pineconeClient.storeSharedVectors(vectors);
-      } else if (avatarId) {
-        await pineconeClient.storeAvatarVectors(avatarId, vectors);
-      }
+    await onProgress({ progress: 90, message: "Storing in knowledge base..." });
 
-      // Store metadata
-      await this.storeDocumentMetadata(sourceId, {
-        id: sourceId,
-        title: processedDoc.title,
-        source: "file",
+    // Swap out the current version's chunks; each step is safe to repeat
+    // if the job is retried before the entry below is stored
+    if (isReplacement) {
+      await knowledgeIndex.deleteVectors(
+        namespace,
+        getChunkIds(sourceId, entry.version || 1, entry.chunkCount)
+      );
+    }
+
+    // Keyword index over the same chunks
+    await lexicalIndex.addSource(
+      namespace,
+      sourceId,
+      vectors.map(({ id, metadata }) => ({ id, metadata }))
+    );
+
+    const summary = documentProcessor.generateSummary(
+      processedDoc.metadata.originalText
+    );
+    const completed: KnowledgeBaseEntry = {
+      ...entry,
+      title: processedDoc.title,
+      uploadDate: ingestion.uploadDate,
+      chunkCount: processedDoc.chunks.length,
+      status: "completed",
+      summary,
+      filename: ingestion.filename,
+      chunking: processedDoc.metadata.chunking,
+      contentHash: ingestion.contentHash,
+      version,
+      versions: isReplacement
+        ? [...(entry.versions || []), toDocumentVersion(entry)]
+        : entry.versions,
+      pendingVersion: undefined,
+      error: undefined,
+    };
+
+    await this.storeDocumentMetadata(sourceId, completed);
+
+    if (entry.contentHash !== ingestion.contentHash) {
+      await contentHashes.move(
+        namespace,
         sourceId,
-        avatarId,
-        uploadDate: new Date().toISOString(),
-        chunkCount: processedDoc.chunks.length,
-        status: "completed",
-        summary: documentProcessor.generateSummary(
-          processedDoc.metadata.originalText
-        ),
-        filename: input.filename,
-      });
+        entry.contentHash,
+        ingestion.contentHash
+      );
+    }
+
+    return completed;
+  }
+
+  /**
+   * Record on a document's entry that its ingestion gave up. A failed
+   * replacement leaves the current version in place.
+   */
+  async markIngestionFailed(
+    ingestion: DocumentIngestion,
+    error: string
+  ): Promise<void> {
+    const { s3Storage } = await import("@/lib/s3-client");
+    const entry = (await s3Storage.getDocumentMetadata(
+      ingestion.sourceId
+    )) as KnowledgeBaseEntry | null;
 
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        status: "completed",
-        progress: 100,
-        message: "Document processing completed",
-        completedAt: new Date().toISOString(),
+    if (!entry) return;
+
+    if (ingestion.version > 1) {
+      // Only the latest replacement is tracked on the entry
+      if (entry.pendingVersion?.version !== ingestion.version) return;
+
+      await this.storeDocumentMetadata(ingestion.sourceId, {
+        ...entry,
+        pendingVersion: undefined,
+        error: `Version ${ingestion.version} failed: ${error}`,
       });
 
-      return processingId;
+      return;
+    }
+
+    await this.storeDocumentMetadata(ingestion.sourceId, {
+      ...entry,
+      status: "failed",
+      error,
+    });
+  }
+
+  /**
+   * Add a web page or sitemap to the knowledge base and crawl it. Returns the
+   * new source's id; the entry records the crawl's outcome.
+   */
+  async addWebSource(
+    input: WebSourceInput,
+    avatarId?: string,
+    isShared: boolean = false
+  ): Promise<KnowledgeBaseEntry> {
+    const url = normalizeUrl(input.url);
+
+    if (!url) {
+      throw new Error("URL must be an http or https address");
+    }
+
+    // Crawls check every request too; this rejects a bad URL up front
+    try {
+      await assertPublicUrl(url);
     } catch (error) {
-      console.error("Failed to process document:", error);
-
-      await this.updateProcessingStatus(processingId, {
-        ...this.processingStatus.get(processingId)!,
-        status: "failed",
-        message: "Document processing failed",
-        error: error instanceof Error ? error.message : "Unknown error",
-        completedAt: new Date().toISOString(),
+      throw new Error(
+        `URL cannot be crawled: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    const sourceId = `${isShared ? "shared" : avatarId}_${Date.now()}`;
+
+    await this.storeDocumentMetadata(sourceId, {
+      id: sourceId,
+      title: input.title || url,
+      source: "web",
+      sourceId,
+      avatarId: isShared ? undefined : avatarId,
+      uploadDate: new Date().toISOString(),
+      chunkCount: 0,
+      status: "processing",
+      chunking: resolveChunkingOptions(input.chunking),
+      url,
+      maxPages: Math.min(
+        MAX_PAGES_LIMIT,
+        Math.max(1, Math.round(input.maxPages || DEFAULT_MAX_PAGES))
+      ),
+      recrawlIntervalHours: Math.max(
+        0,
+        input.recrawlIntervalHours ?? DEFAULT_RECRAWL_INTERVAL_HOURS
+      ),
+    });
+
+    return this.crawlWebSource(sourceId);
+  }
+
+  /**
+   * Fetch a web source's pages again and bring its chunks up to date. Chunk
+   * ids hash the page URL and the chunk's content, so only new chunks are
+   * embedded and only vanished ones deleted. Pages that fail to load keep
+   * their chunks until the next crawl; pages gone from the sitemap or the
+   * site (404, 410) lose them.
+   *
+   * Throws CrawlInProgressError while another crawl of the source runs.
+   */
+  async crawlWebSource(sourceId: string): Promise<KnowledgeBaseEntry> {
+    const token = await crawlLocks.acquire(sourceId);
+
+    if (!token) throw new CrawlInProgressError(sourceId);
+
+    try {
+      return await this.crawlLockedWebSource(sourceId);
+    } finally {
+      await crawlLocks.release(sourceId, token).catch((error) => {
+        console.error(`Failed to release crawl lock for ${sourceId}:`, error);
       });
+    }
+  }
 
-      throw error;
+  private async crawlLockedWebSource(
+    sourceId: string
+  ): Promise<KnowledgeBaseEntry> {
+    const { s3Storage } = await import("@/lib/s3-client");
+    const entry = (await s3Storage.getDocumentMetadata(
+      sourceId
+    )) as KnowledgeBaseEntry | null;
+
+    if (!entry || entry.source !== "web" || !entry.url) {
+      throw new Error(`Web source not found: ${sourceId}`);
+    }
+
+    const namespace = getSourceNamespace(entry.avatarId);
+    const chunking = resolveChunkingOptions(entry.chunking);
+    const crawledAt = new Date().toISOString();
+    const summary: WebCrawlSummary = {
+      crawledAt,
+      pages: 0,
+      pagesChanged: 0,
+      pagesFailed: 0,
+      chunksAdded: 0,
+      chunksRemoved: 0,
+    };
+    const errors: string[] = [];
+
+    try {
+      const previous = await this.loadCrawlState(sourceId);
+      const urls = await discoverPages(entry.url, entry.maxPages);
+      const state: WebCrawlState = { pages: {} };
+      const lexicalChunks = new Map(
+        (await lexicalIndex.getSource(namespace, sourceId)).map((chunk) => [
+          chunk.id,
+          chunk,
+        ])
+      );
+      const added: LexicalChunk[] = [];
+      const removedIds: string[] = [];
+
+      summary.pages = urls.length;
+
+      for (const url of urls) {
+        const before = previous.pages[url];
+
+        try {
+          const page = await fetchPage(url, before);
+
+          if (page.status === "not-modified" && before) {
+            state.pages[url] = { ...before, fetchedAt: crawledAt };
+            continue;
+          }
+          if (page.status === "not-modified") {
+            throw new Error("Not modified, but never fetched");
+          }
+
+          const { title, blocks } = await extractHtmlArticle(page.html);
+          const contentHash = sha256(
+            JSON.stringify([blocksToText(blocks), chunking])
+          );
+          const validators = {
+            etag: page.etag,
+            lastModified: page.lastModified,
+          };
+
+          if (before?.contentHash === contentHash) {
+            state.pages[url] = { ...before, ...validators, fetchedAt: crawledAt };
+            continue;
+          }
+
+          const chunks = chunkBlocks(blocks, chunking);
+          const pageTitle = title || entry.title;
+          const ids = chunks.map(
+            (chunk) =>
+              `${sourceId}_web_${sha256(
+                JSON.stringify([url, chunk.headingPath, chunk.text])
+              ).slice(0, 32)}`
+          );
+          const previousIds = new Set(before?.chunkIds || []);
+
+          // Only new chunks are stored; unchanged ones keep their metadata,
+          // including the chunkIndex they had when first crawled
+          chunks.forEach((chunk, index) => {
+            if (previousIds.has(ids[index]) || lexicalChunks.has(ids[index])) {
+              return;
+            }
+
+            const record: LexicalChunk = {
+              id: ids[index],
+              metadata: {
+                source: "web",
+                sourceId,
+                avatarId: entry.avatarId,
+                uploadDate: crawledAt,
+                chunkIndex: index,
+                totalChunks: chunks.length,
+                title: pageTitle,
+                originalText: chunk.text,
+                url,
+                ...(chunk.headingPath.length > 0 && {
+                  headingPath: chunk.headingPath,
+                }),
+              },
+            };
+
+            lexicalChunks.set(record.id, record);
+            added.push(record);
+          });
+
+          removedIds.push(
+            ...Array.from(previousIds).filter((id) => !ids.includes(id))
+          );
+          summary.pagesChanged++;
+          state.pages[url] = {
+            title: pageTitle,
+            contentHash,
+            chunkIds: Array.from(new Set(ids)),
+            fetchedAt: crawledAt,
+            ...validators,
+          };
+        } catch (error) {
+          summary.pagesFailed++;
+          errors.push(
+            `${url}: ${error instanceof Error ? error.message : "Unknown error"}`
+          );
+          // Keep the chunks of pages that failed to load, not of deleted ones
+          if (before && !(error instanceof PageGoneError)) {
+            state.pages[url] = before;
+          }
+        }
+      }
+
+      // Pages no longer in the sitemap
+      for (const [url, page] of Object.entries(previous.pages)) {
+        if (!state.pages[url]) removedIds.push(...page.chunkIds);
+      }
+
+      if (added.length > 0) {
+        const indexVersion = await knowledgeIndex.getActiveVersion(namespace);
+        const embeddings = await embeddingService.generateEmbeddings(
+          added.map((chunk) =>
+            withHeadingContext(
+              chunk.metadata.originalText,
+              chunk.metadata.headingPath
+            )
+          ),
+          { avatarId: entry.avatarId },
+          indexVersion
+        );
+
+        await knowledgeIndex.storeVectors(
+          indexVersion,
+          added.map((chunk, index) => ({ ...chunk, values: embeddings[index] }))
+        );
+      }
+
+      await knowledgeIndex.deleteVectors(namespace, removedIds);
+
+      for (const id of removedIds) lexicalChunks.delete(id);
+
+      await lexicalIndex.addSource(
+        namespace,
+        sourceId,
+        Array.from(lexicalChunks.values())
+      );
+      await this.storeCrawlState(sourceId, state);
+
+      summary.chunksAdded = added.length;
+      summary.chunksRemoved = removedIds.length;
+
+      const pages = Object.values(state.pages);
+      const firstPage = added[0]?.metadata.originalText;
+      const updated: KnowledgeBaseEntry = {
+        ...entry,
+        chunkCount: pages.reduce((count, page) => count + page.chunkIds.length, 0),
+        status: pages.length > 0 ? "completed" : "failed",
+        summary: entry.summary || (firstPage && documentProcessor.generateSummary(firstPage)),
+        lastFetchedAt: crawledAt,
+        lastCrawl: { ...summary, errors: errors.slice(0, MAX_CRAWL_ERRORS) },
+      };
+
+      await this.storeDocumentMetadata(sourceId, updated);
+
+      return updated;
+    } catch (error) {
+      console.error(`Failed to crawl web source ${sourceId}:`, error);
+
+      const failed: KnowledgeBaseEntry = {
+        ...entry,
+        status: entry.chunkCount > 0 ? entry.status : "failed",
+        lastCrawl: {
+          ...summary,
+          errors: [error instanceof Error ? error.message : "Unknown error"],
+        },
+      };
+
+      await this.storeDocumentMetadata(sourceId, failed);
+
+      return failed;
     }
   }
 
-  // Search knowledge base for relevant context
+  /**
+   * Re-crawl every web source whose re-crawl interval has passed since its
+   * last fetch, one at a time. No new source is started once the deadline
+   * (epoch ms) has passed; the rest stay due for the next run. For the
+   * scheduled re-crawl endpoint.
+   */
+  async recrawlDueWebSources(
+    options: { deadline?: number } = {}
+  ): Promise<{ sourceId: string; status: KnowledgeBaseEntry["status"] }[]> {
+    const now = Date.now();
+    const due = (await this.getDocumentMetadata(() => true)).filter(
+      (entry) =>
+        entry.source === "web" &&
+        (entry.recrawlIntervalHours ?? 0) > 0 &&
+        now - new Date(entry.lastFetchedAt || 0).getTime() >=
+          entry.recrawlIntervalHours! * 60 * 60 * 1000
+    );
+    const results: { sourceId: string; status: KnowledgeBaseEntry["status"] }[] = [];
+
+    for (const entry of due) {
+      if (options.deadline && Date.now() >= options.deadline) break;
+
+      try {
+        const crawled = await this.crawlWebSource(entry.sourceId);
+
+        results.push({ sourceId: entry.sourceId, status: crawled.status });
+      } catch (error) {
+        // Crawled now by someone else; it is no longer due afterwards
+        if (!(error instanceof CrawlInProgressError)) throw error;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Search the knowledge base for the latest user message of a chat. Recent
+   * turns are first condensed into a standalone query (and sub-queries) as
+   * the retrieval settings ask, and the searched queries are logged with the
+   * hits.
+   */
+  async searchConversation(
+    messages: Pick<LLMMessage, "role" | "content">[],
+    avatarId?: string,
+    topK: number = 5,
+    attribution?: UsageAttribution,
+    options: KnowledgeSearchOptions & { summary?: string } = {}
+  ): Promise<RAGContext> {
+    const { summary, ...searchOptions } = options;
+    const settings = resolveRetrievalSettings(
+      { reranker: process.env.RAG_RERANKER as RetrievalSettings["reranker"] },
+      options.settings
+    );
+    const rewrite = await rewriteSearchQuery(messages, settings.queryRewrite, {
+      summary,
+      attribution: { avatarId, ...attribution },
+    });
+    const context = await this.searchKnowledgeBase(
+      rewrite.query,
+      avatarId,
+      topK,
+      attribution,
+      { ...searchOptions, subQueries: rewrite.subQueries, rewrite }
+    );
+
+    console.log(
+      `Knowledge search${avatarId ? ` for avatar ${avatarId}` : ""}:`,
+      JSON.stringify({
+        message: rewrite.original,
+        query: rewrite.query,
+        subQueries: rewrite.subQueries,
+        rewritten: rewrite.rewritten,
+        rewriteError: rewrite.error,
+        rewriteMs: rewrite.latencyMs,
+        hits: context.chunks.map(
+          (chunk) =>
+            `${chunk.source} #${chunk.metadata.chunkIndex} (${roundScore(chunk.score)})`
+        ),
+      })
+    );
+
+    return { ...context, rewrite };
+  }
+
+  /**
+   * Search the shared knowledge base and, with an avatarId, the avatar's own.
+   * Vector and keyword hits are fused by the configured weights, optionally
+   * reranked, and the best topK returned. Sub-queries are searched alongside
+   * the query, each chunk keeping its best score; reranking uses the query.
+   */
   async searchKnowledgeBase(
     query: string,
     avatarId?: string,
-    topK: number = 5
+    topK: number = 5,
+    attribution?: UsageAttribution,
+    options: KnowledgeSearchOptions = {}
   ): Promise<RAGContext> {
+    const startedAt = Date.now();
+    const settings = resolveRetrievalSettings(
+      { reranker: process.env.RAG_RERANKER as RetrievalSettings["reranker"] },
+      options.settings
+    );
+    const namespaces = avatarId
+      ? [SHARED_NAMESPACE, getAvatarNamespace(avatarId)]
+      : [SHARED_NAMESPACE];
+    const subQueries = options.subQueries || [];
+    const searchQueries = [query, ...subQueries];
+    let indexVersions: IndexVersion[] = [];
+    const timings = {
+      embeddingMs: 0,
+      vectorMs: 0,
+      lexicalMs: 0,
+      rerankMs: 0,
+      totalMs: 0,
+    };
+
     try {
-      // Generate query embedding
-      const queryEmbedding = await embeddingService.generateEmbedding(query);
+      const vectorSearch = (async () => {
+        // Each namespace is searched in its active index version, with the
+        // queries embedded once per embedding model in use
+        indexVersions = await Promise.all(
+          namespaces.map((namespace) =>
+            knowledgeIndex.getActiveVersion(namespace)
+          )
+        );
+        const embeddings = new Map<string, Promise<number[][]>>();
+        const versionVectors = await Promise.all(
+          indexVersions.map(async (version) => {
+            const key = `${version.model}:${version.dimension}`;
+
+            if (!embeddings.has(key)) {
+              embeddings.set(
+                key,
+                embeddingService.generateEmbeddings(
+                  searchQueries,
+                  { avatarId, ...attribution },
+                  version
+                )
+              );
+            }
 
-      // Search both shared and avatar-specific knowledge bases
-      const searchResults = avatarId
-        ? await pineconeClient.searchCombined(avatarId, queryEmbedding, topK)
-        : await pineconeClient.searchShared(queryEmbedding, topK);
+            return { version, vectors: await embeddings.get(key)! };
+          })
+        );
+
+        timings.embeddingMs = Date.now() - startedAt;
+
+        // Search both shared and avatar-specific knowledge bases
+        const results = mergeHits(
+          await Promise.all(
+            searchQueries.map((_, index) =>
+              knowledgeIndex.searchCombined(
+                versionVectors.map(
+                  ({ version, vectors }): VersionQuery => ({
+                    version,
+                    vector: vectors[index],
+                  })
+                ),
+                settings.candidates
+              )
+            )
+          )
+        ).slice(0, settings.candidates);
+
+        timings.vectorMs = Date.now() - startedAt - timings.embeddingMs;
+
+        return results.filter(
+          (result) => result.score >= settings.minSimilarity
+        );
+      })();
+
+      const lexicalSearch = (async () => {
+        const results = await Promise.all(
+          searchQueries.flatMap((searchQuery) =>
+            namespaces.map((namespace) =>
+              lexicalIndex
+                .search(namespace, searchQuery, settings.candidates)
+                .catch((error) => {
+                  console.error(
+                    `Keyword search failed in ${namespace}:`,
+                    error
+                  );
+
+                  return [] as LexicalHit[];
+                })
+            )
+          )
+        );
+
+        timings.lexicalMs = Date.now() - startedAt;
+
+        return mergeHits(results)
+          .filter((hit) => hit.score >= MIN_LEXICAL_SCORE)
+          .slice(0, settings.candidates);
+      })();
+
+      const [vectorHits, lexicalHits] = await Promise.all([
+        vectorSearch,
+        lexicalSearch,
+      ]);
+      const fused = fuseResults(vectorHits, lexicalHits, settings);
+
+      let ranked = fused.map((candidate) => ({
+        metadata: candidate.metadata,
+        score: candidate.score,
+        id: candidate.id,
+      }));
+      let reranked: typeof ranked | undefined;
+      let rerankError: string | undefined;
+      const reranker = getReranker(settings.reranker);
+
+      if (reranker && fused.length > 0) {
+        const rerankStartedAt = Date.now();
+        const candidates = fused.slice(0, settings.candidates);
+
+        try {
+          const scores = await reranker.score(
+            query,
+            candidates.map((candidate) => ({
+              id: candidate.id,
+              title: candidate.metadata.title,
+              text: candidate.metadata.originalText,
+            })),
+            { avatarId, ...attribution }
+          );
+
+          reranked = candidates
+            .map((candidate, index) => ({
+              metadata: candidate.metadata,
+              score: scores[index],
+              id: candidate.id,
+            }))
+            .sort((a, b) => b.score - a.score);
+          ranked = reranked;
+        } catch (error) {
+          console.error(`Reranker "${reranker.name}" failed:`, error);
+          rerankError = error instanceof Error ? error.message : "Unknown error";
+        }
 
-      // Filter results with minimum similarity threshold
-      const filteredResults = searchResults.filter(
-        (result) => result.score > 0.2
-      );
+        timings.rerankMs = Date.now() - rerankStartedAt;
+      }
+
+      ranked = ranked.slice(0, topK);
+      timings.totalMs = Date.now() - startedAt;
 
       // Format context
-      const chunks = filteredResults.map((result) => ({
+      const chunks = ranked.map((result) => ({
         text: result.metadata.originalText,
         source: result.metadata.title,
         score: result.score,
@@ -211,9 +1317,53 @@ export class RAGService {
 
       const sources = [...new Set(chunks.map((chunk) => chunk.source))];
 
+      if (!options.trace) {
+        return { chunks, sources };
+      }
+
+      const toTraceHit = (hit: {
+        id: string;
+        score: number;
+        metadata: DocumentMetadata;
+      }): RetrievalTraceHit => ({
+        id: hit.id,
+        title: hit.metadata.title,
+        score: roundScore(hit.score),
+      });
+
       return {
         chunks,
         sources,
+        trace: {
+          query,
+          subQueries,
+          rewrite: options.rewrite,
+          settings,
+          namespaces,
+          indexVersions: indexVersions.map(
+            (version) => version.storeNamespace
+          ),
+          vectorHits: vectorHits.map(toTraceHit),
+          lexicalHits: lexicalHits.map((hit) => ({
+            ...toTraceHit(hit),
+            matchedTerms: hit.matchedTerms,
+          })),
+          fused: fused.map((candidate) => ({
+            ...toTraceHit(candidate),
+            vectorScore:
+              candidate.vectorScore === null
+                ? null
+                : roundScore(candidate.vectorScore),
+            lexicalScore:
+              candidate.lexicalScore === null
+                ? null
+                : roundScore(candidate.lexicalScore),
+          })),
+          reranked: reranked?.map(toTraceHit),
+          rerankError,
+          results: ranked.map((result) => result.id),
+          timings,
+        },
       };
     } catch (error) {
       console.error("Failed to search knowledge base:", error);
@@ -228,48 +1378,38 @@ export class RAGService {
   // Delete document from knowledge base
   async deleteDocument(sourceId: string, avatarId?: string): Promise<void> {
     try {
-      // Delete from Pinecone
+      // Delete from the vector store
       const isShared = !avatarId;
 
-      await pineconeClient.deleteVectorsBySource(sourceId, isShared, avatarId);
+      await knowledgeIndex.deleteVectorsBySource(sourceId, isShared, avatarId);
+      await lexicalIndex
+        .removeSource(
+          isShared ? SHARED_NAMESPACE : getAvatarNamespace(avatarId),
+          sourceId
+        )
+        .catch((error) => {
+          console.error("Failed to remove document from keyword index:", error);
+        });
 
       // Delete from S3
       await this.deleteFromS3(`knowledge-base/${sourceId}/`);
 
       // Delete metadata
       await this.deleteDocumentMetadata(sourceId);
+      await contentHashes.removeSource(sourceId);
     } catch (error) {
       console.error("Failed to delete document:", error);
       throw error;
     }
   }
 
-  // Get processing status
-  async getProcessingStatus(
-    processingId: string
-  ): Promise<ProcessingStatus | null> {
-    // First check in-memory cache
-    let status = this.processingStatus.get(processingId) || null;
-
-    // If not in memory, try to load from S3 (for serverless persistence)
-    if (!status) {
-      try {
-        status = await this.getProcessingStatusFromS3(processingId);
-        if (status) {
-          this.processingStatus.set(processingId, status);
-        }
-      } catch (error) {
-        console.error("Failed to load processing status from S3:", error);
-      }
-    }
-
-    return status;
-  }
-
   // List documents in knowledge base
   async listDocuments(avatarId?: string): Promise<KnowledgeBaseEntry[]> {
     try {
-      return await this.getDocumentMetadata(avatarId);
+      // Avatar documents for an avatarId, shared documents without one
+      return await this.getDocumentMetadata((metadata) =>
+        avatarId ? metadata.avatarId === avatarId : !metadata.avatarId
+      );
     } catch (error) {
       console.error("Failed to list documents:", error);
 
@@ -278,31 +1418,6 @@ export class RAGService {
   }
 
   // Private helper methods
-  private async updateProcessingStatus(
-    id: string,
-    status: ProcessingStatus
-  ): Promise<void> {
-    this.processingStatus.set(id, status);
-
-    // Also store in S3 for persistence across serverless requests
-    try {
-      await this.storeProcessingStatus(id, status);
-    } catch (error) {
-      console.error("Failed to store processing status in S3:", error);
-    }
-
-    // Clean up completed/failed statuses after 10 minutes (give frontend time to poll)
-    if (status.status === "completed" || status.status === "failed") {
-      setTimeout(
-        () => {
-          this.processingStatus.delete(id);
-          this.deleteProcessingStatus(id).catch(console.error);
-        },
-        10 * 60 * 1000 // 10 minutes instead of 1 hour
-      );
-    }
-  }
-
   private async storeFileInS3(
     key: string,
     buffer: Buffer,
@@ -400,99 +1515,37 @@ export class RAGService {
     await s3Storage.deleteDocumentMetadata(id);
   }
 
-  private async storeProcessingStatus(
-    id: string,
-    status: ProcessingStatus
-  ): Promise<void> {
+  // Crawl state of a web source, next to its metadata
+  private async loadCrawlState(sourceId: string): Promise<WebCrawlState> {
     try {
-      const { S3Client, PutObjectCommand } = await import("@aws-sdk/client-s3");
-      const s3Client = new S3Client({
-        region: process.env.AWS_REGION || "us-east-2",
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-        },
-      });
-
-      const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
-      const key = `processing-status/${id}.json`;
-
-      const command = new PutObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-        Body: JSON.stringify(status, null, 2),
-        ContentType: "application/json",
-      });
+      const { s3Storage } = await import("@/lib/s3-client");
+      const { body } = await s3Storage.downloadFile(
+        `knowledge-base/${sourceId}/crawl-state.json`
+      );
 
-      await s3Client.send(command);
+      return JSON.parse(Buffer.from(body).toString("utf-8")) as WebCrawlState;
     } catch (error) {
-      console.error(`Failed to store processing status for ${id}:`, error);
-    }
-  }
-
-  private async getProcessingStatusFromS3(
-    id: string
-  ): Promise<ProcessingStatus | null> {
-    try {
-      const { S3Client, GetObjectCommand } = await import("@aws-sdk/client-s3");
-      const s3Client = new S3Client({
-        region: process.env.AWS_REGION || "us-east-2",
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-        },
-      });
-
-      const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
-      const key = `processing-status/${id}.json`;
-
-      const command = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      });
-
-      const response = await s3Client.send(command);
-      if (!response.Body) {
-        return null;
+      // No state before the first crawl
+      if ((error as { name?: string }).name === "NoSuchKey") {
+        return { pages: {} };
       }
-
-      const content = await response.Body.transformToString();
-      return JSON.parse(content) as ProcessingStatus;
-    } catch (error) {
-      // File not found is expected for non-existent status
-      return null;
+      throw error;
     }
   }
 
-  private async deleteProcessingStatus(id: string): Promise<void> {
-    try {
-      const { S3Client, DeleteObjectCommand } = await import(
-        "@aws-sdk/client-s3"
-      );
-      const s3Client = new S3Client({
-        region: process.env.AWS_REGION || "us-east-2",
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-        },
-      });
-
-      const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
-      const key = `processing-status/${id}.json`;
-
-      const command = new DeleteObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      });
-
-      await s3Client.send(command);
-    } catch (error) {
-      console.error(`Failed to delete processing status for ${id}:`, error);
-    }
+  private async storeCrawlState(
+    sourceId: string,
+    state: WebCrawlState
+  ): Promise<void> {
+    await this.storeFileInS3(
+      `knowledge-base/${sourceId}/crawl-state.json`,
+      Buffer.from(JSON.stringify(state)),
+      "application/json"
+    );
   }
 
   private async getDocumentMetadata(
-    avatarId?: string
+    filter: (metadata: KnowledgeBaseEntry) => boolean
   ): Promise<KnowledgeBaseEntry[]> {
     try {
       const { s3Storage } = await import("@/lib/s3-client");
@@ -541,17 +1594,7 @@ export class RAGService {
                 )
               );
 
-              if (metadata) {
-                // Filter by avatar if specified
-                if (avatarId && metadata.avatarId !== avatarId) {
-                  continue;
-                }
-
-                // Filter for shared documents if no avatarId specified
-                if (!avatarId && metadata.avatarId) {
-                  continue;
-                }
-
+              if (metadata && filter(metadata)) {
                 documents.push(metadata);
               }
             } catch (error) {
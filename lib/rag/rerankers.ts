@@ -0,0 +1,167 @@
+/**
+ * Rerankers for knowledge base search.
+ *
+ * A reranker rescores the fused candidates against the query and returns one
+ * relevance score per candidate in [0, 1]; the search keeps the best topK.
+ *
+ * - llm: a language model grades each passage (LLM_RERANK_* route settings)
+ * - cross-encoder: an HTTP rerank service at RERANKER_URL (Hugging Face Text
+ *   Embeddings Inference, or a Cohere-compatible /rerank API), with optional
+ *   RERANKER_API_KEY and RERANKER_MODEL
+ */
+
+import type { RerankerName } from "./retrieval-settings";
+import type { UsageAttribution } from "../usage/usage-ledger";
+
+import { estimateTokens } from "../llm/context-window";
+import { getLLMProvider, resolveModelConfig } from "../llm/registry";
+import { usageLedger } from "../usage/usage-ledger";
+
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface Reranker {
+  name: Exclude<RerankerName, "none">;
+  // One score per candidate, in candidate order
+  score(
+    query: string,
+    candidates: RerankCandidate[],
+    attribution?: UsageAttribution
+  ): Promise<number[]>;
+}
+
+// Longer passages are cut before grading to bound prompt size
+const MAX_PASSAGE_CHARS = 1200;
+
+const LLM_RERANK_PROMPT = `You grade how well passages from a knowledge base answer a search query.
+Give every passage a score from 0 (irrelevant) to 10 (directly answers the query). Exact matches of names, codes or numbers asked for count as highly relevant.
+Reply with a JSON array of the scores in passage order, e.g. [7, 0, 3], and nothing else.`;
+
+export class LLMReranker implements Reranker {
+  readonly name = "llm" as const;
+
+  async score(
+    query: string,
+    candidates: RerankCandidate[],
+    attribution?: UsageAttribution
+  ): Promise<number[]> {
+    const modelConfig = resolveModelConfig("rerank");
+    const startedAt = Date.now();
+    const passages = candidates
+      .map(
+        (candidate, index) =>
+          `[Passage ${index + 1}: ${candidate.title}]\n${candidate.text.slice(0, MAX_PASSAGE_CHARS)}`
+      )
+      .join("\n\n");
+    const prompt = `Query: ${query}\n\n${passages}`;
+
+    const completion = await getLLMProvider(modelConfig.provider).complete({
+      model: modelConfig.model,
+      messages: [
+        { role: "system", content: LLM_RERANK_PROMPT },
+        { role: "user", content: prompt },
+      ],
+      maxTokens: modelConfig.maxTokens,
+      temperature: 0,
+    });
+
+    await usageLedger.record({
+      operation: "rerank",
+      route: "rerank",
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      inputTokens: completion.usage?.inputTokens ?? estimateTokens(prompt),
+      outputTokens:
+        completion.usage?.outputTokens ?? estimateTokens(completion.content),
+      estimated: !completion.usage,
+      latencyMs: Date.now() - startedAt,
+      ...attribution,
+    });
+
+    const scores = JSON.parse(
+      completion.content.match(/\[[\s\S]*\]/)?.[0] || "null"
+    );
+
+    if (!Array.isArray(scores) || scores.length !== candidates.length) {
+      throw new Error("LLM reranker did not return one score per passage");
+    }
+
+    return scores.map((score) =>
+      Math.min(1, Math.max(0, (Number(score) || 0) / 10))
+    );
+  }
+}
+
+export class CrossEncoderReranker implements Reranker {
+  readonly name = "cross-encoder" as const;
+
+  async score(
+    query: string,
+    candidates: RerankCandidate[]
+  ): Promise<number[]> {
+    const url = process.env.RERANKER_URL;
+
+    if (!url) {
+      throw new Error("RERANKER_URL environment variable is required");
+    }
+
+    const texts = candidates.map((candidate) =>
+      candidate.text.slice(0, MAX_PASSAGE_CHARS)
+    );
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.RERANKER_API_KEY && {
+          Authorization: `Bearer ${process.env.RERANKER_API_KEY}`,
+        }),
+      },
+      // TEI reads `texts`, Cohere-compatible APIs read `documents` and `model`
+      body: JSON.stringify({
+        model: process.env.RERANKER_MODEL,
+        query,
+        texts,
+        documents: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reranker service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const results: { index: number; score?: number; relevance_score?: number }[] =
+      Array.isArray(data) ? data : data.results || [];
+    const scores = new Array<number>(candidates.length).fill(0);
+
+    for (const result of results) {
+      const score = result.relevance_score ?? result.score ?? 0;
+
+      if (result.index >= 0 && result.index < scores.length) {
+        // TEI returns logits unless normalized; squash them into [0, 1]
+        scores[result.index] = score >= 0 && score <= 1 ? score : 1 / (1 + Math.exp(-score));
+      }
+    }
+
+    return scores;
+  }
+}
+
+// One reranker instance per kind, created on first use
+const rerankers = new Map<Reranker["name"], Reranker>();
+
+export function getReranker(name: RerankerName): Reranker | null {
+  if (name === "none") return null;
+
+  let reranker = rerankers.get(name);
+
+  if (!reranker) {
+    reranker = name === "llm" ? new LLMReranker() : new CrossEncoderReranker();
+    rerankers.set(name, reranker);
+  }
+
+  return reranker;
+}
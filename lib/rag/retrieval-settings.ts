@@ -0,0 +1,108 @@
+/**
+ * Knowledge base retrieval settings.
+ *
+ * Searches merge vector hits with BM25 keyword hits over the same chunks, so
+ * exact names, course codes and phone numbers are found even when their
+ * embeddings are not close to the question. Avatars can tune the balance and
+ * pick a reranker; anything left unset uses the defaults below (the reranker
+ * default comes from RAG_RERANKER). Chat searches first rewrite follow-up
+ * questions into standalone queries, unless an avatar turns that off.
+ *
+ * Kept free of server-only imports so the avatar editor can use it.
+ */
+
+export type RerankerName = "none" | "llm" | "cross-encoder";
+
+export type QueryRewriteMode = "off" | "standalone" | "sub-queries";
+
+export interface RetrievalSettings {
+  vectorWeight: number; // Share of the fused score from cosine similarity
+  lexicalWeight: number; // Share from the normalized BM25 score
+  reranker: RerankerName;
+  candidates: number; // Hits gathered from each retriever before fusion and reranking
+  minSimilarity: number; // Vector hits below this cosine similarity are dropped
+  queryRewrite: QueryRewriteMode; // How chat turns become search queries
+}
+
+// Stored on avatars; any field left out falls back to the default
+export type RetrievalSettingsOverride = Partial<RetrievalSettings>;
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  vectorWeight: 0.7,
+  lexicalWeight: 0.3,
+  reranker: "none",
+  candidates: 20,
+  minSimilarity: 0.2,
+  queryRewrite: "standalone",
+};
+
+export const RERANKER_OPTIONS: { key: RerankerName; label: string }[] = [
+  { key: "none", label: "None (fused score)" },
+  { key: "llm", label: "LLM judge" },
+  { key: "cross-encoder", label: "Cross-encoder service" },
+];
+
+export const QUERY_REWRITE_OPTIONS: {
+  key: QueryRewriteMode;
+  label: string;
+}[] = [
+  { key: "off", label: "Off (latest message only)" },
+  { key: "standalone", label: "Standalone question" },
+  { key: "sub-queries", label: "Standalone question + sub-queries" },
+];
+
+const MAX_CANDIDATES = 50;
+
+export function isRerankerName(value: unknown): value is RerankerName {
+  return RERANKER_OPTIONS.some((option) => option.key === value);
+}
+
+export function isQueryRewriteMode(value: unknown): value is QueryRewriteMode {
+  return QUERY_REWRITE_OPTIONS.some((option) => option.key === value);
+}
+
+function clamp(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : undefined;
+}
+
+/**
+ * Defaults with the valid fields of each override applied in order. Weights
+ * are scaled to sum to 1; if both are zero the default weights apply.
+ */
+export function resolveRetrievalSettings(
+  ...overrides: (RetrievalSettingsOverride | undefined)[]
+): RetrievalSettings {
+  const settings = { ...DEFAULT_RETRIEVAL_SETTINGS };
+
+  for (const override of overrides) {
+    if (!override) continue;
+
+    const vectorWeight = clamp(override.vectorWeight, 0, 1);
+    const lexicalWeight = clamp(override.lexicalWeight, 0, 1);
+    const candidates = clamp(override.candidates, 1, MAX_CANDIDATES);
+    const minSimilarity = clamp(override.minSimilarity, 0, 1);
+
+    if (vectorWeight !== undefined) settings.vectorWeight = vectorWeight;
+    if (lexicalWeight !== undefined) settings.lexicalWeight = lexicalWeight;
+    if (candidates !== undefined) settings.candidates = Math.round(candidates);
+    if (minSimilarity !== undefined) settings.minSimilarity = minSimilarity;
+    if (isRerankerName(override.reranker)) settings.reranker = override.reranker;
+    if (isQueryRewriteMode(override.queryRewrite)) {
+      settings.queryRewrite = override.queryRewrite;
+    }
+  }
+
+  const totalWeight = settings.vectorWeight + settings.lexicalWeight;
+
+  if (totalWeight === 0) {
+    settings.vectorWeight = DEFAULT_RETRIEVAL_SETTINGS.vectorWeight;
+    settings.lexicalWeight = DEFAULT_RETRIEVAL_SETTINGS.lexicalWeight;
+  } else {
+    settings.vectorWeight /= totalWeight;
+    settings.lexicalWeight /= totalWeight;
+  }
+
+  return settings;
+}
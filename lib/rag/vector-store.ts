@@ -0,0 +1,339 @@
+/**
+ * Vector stores for the knowledge base.
+ *
+ * Every backend stores chunks in namespaces: one shared namespace and one
+ * per avatar. Backends only implement the per-namespace operations below;
+ * `KnowledgeIndex` adds the shared/avatar semantics on top, so combined
+ * searches behave the same whichever backend is configured. Each namespace
+ * may have several index versions, one per embedding model (see
+ * index-versions.ts); writes and searches name the version they use.
+ *
+ * - pinecone: the hosted index (PINECONE_API_KEY)
+ * - pgvector: the `KnowledgeVector` table in the existing Postgres database
+ * - file: an in-process store persisted as JSON files, for development and
+ *   single-instance deployments without a vector database
+ */
+
+import { indexVersions, type IndexVersion } from "./index-versions";
+
+export const SHARED_NAMESPACE = "shared";
+export const AVATAR_NAMESPACE_PREFIX = "avatar-";
+
+export interface DocumentMetadata {
+  source: "file" | "web";
+  sourceId: string;
+  avatarId?: string;
+  uploadDate: string;
+  chunkIndex: number;
+  totalChunks: number;
+  title: string;
+  originalText: string;
+  pageNumber?: number; // First page the chunk is on
+  pageEnd?: number; // Last page, when the chunk spans pages
+  headingPath?: string[]; // Enclosing headings, outermost first
+  url?: string; // Web sources: the page the chunk was crawled from
+  [key: string]: any; // Index signature for Pinecone compatibility
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: DocumentMetadata;
+}
+
+export interface SearchResult {
+  id: string;
+  score: number; // Cosine similarity
+  metadata: DocumentMetadata;
+}
+
+// Metadata fields that must equal the given values
+export type VectorFilter = Record<string, string | number | boolean>;
+
+// A query embedded with the model of the index version it searches
+export interface VersionQuery {
+  version: IndexVersion;
+  vector: number[];
+}
+
+export type VectorStoreBackend = "pinecone" | "pgvector" | "file";
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  // Create whatever the backend needs before the first write
+  ensureIndex(): Promise<void>;
+  upsert(namespace: string, vectors: VectorRecord[]): Promise<void>;
+  query(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    filter?: VectorFilter
+  ): Promise<SearchResult[]>;
+  deleteBySource(namespace: string, sourceId: string): Promise<void>;
+  deleteByIds(namespace: string, ids: string[]): Promise<void>;
+  deleteNamespace(namespace: string): Promise<void>;
+  countVectors(namespace: string): Promise<number>;
+}
+
+export function getAvatarNamespace(avatarId: string): string {
+  return `${AVATAR_NAMESPACE_PREFIX}${avatarId}`;
+}
+
+// The shared namespace or an avatar's
+export function isKnowledgeNamespace(namespace: string): boolean {
+  return (
+    namespace === SHARED_NAMESPACE ||
+    (namespace.startsWith(AVATAR_NAMESPACE_PREFIX) &&
+      namespace.length > AVATAR_NAMESPACE_PREFIX.length)
+  );
+}
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Store selected by VECTOR_STORE ("pinecone", "pgvector" or "file").
+ * Defaults to Pinecone when PINECONE_API_KEY is set. The local file store is
+ * never picked implicitly: a deployment missing its Pinecone key would
+ * otherwise index into a directory no other instance can see.
+ * Backends are loaded on demand so unused SDKs are never initialized.
+ */
+export async function createVectorStore(): Promise<VectorStore> {
+  const configured = process.env.VECTOR_STORE as VectorStoreBackend | undefined;
+  const backend =
+    configured || (process.env.PINECONE_API_KEY ? "pinecone" : undefined);
+
+  if (!backend) {
+    throw new Error(
+      "No vector store configured; set PINECONE_API_KEY, or VECTOR_STORE to pgvector or file"
+    );
+  }
+
+  switch (backend) {
+    case "pinecone": {
+      const { PineconeClient } = await import("./pinecone-client");
+
+      return new PineconeClient();
+    }
+    case "pgvector": {
+      const { PgVectorStore } = await import("./pgvector-store");
+
+      return new PgVectorStore();
+    }
+    case "file": {
+      const { FileVectorStore } = await import("./file-vector-store");
+
+      return new FileVectorStore();
+    }
+    default:
+      throw new Error(
+        `Unknown VECTOR_STORE "${backend}"; use pinecone, pgvector or file`
+      );
+  }
+}
+
+// Upserts are sent in batches of this many vectors
+const UPSERT_BATCH_SIZE = 100;
+
+export class KnowledgeIndex {
+  private store: Promise<VectorStore> | null = null;
+
+  // The configured store, created on first use
+  getStore(): Promise<VectorStore> {
+    if (!this.store) {
+      this.store = createVectorStore().catch((error) => {
+        this.store = null;
+        throw error;
+      });
+    }
+
+    return this.store;
+  }
+
+  async ensureIndex(): Promise<void> {
+    await (await this.getStore()).ensureIndex();
+  }
+
+  // The index version new chunks of a namespace are embedded for
+  getActiveVersion(namespace: string): Promise<IndexVersion> {
+    return indexVersions.getActive(namespace);
+  }
+
+  // Store vectors embedded with the version's model
+  async storeVectors(
+    version: IndexVersion,
+    vectors: VectorRecord[]
+  ): Promise<void> {
+    const mismatch = vectors.find(
+      (vector) => vector.values.length !== version.dimension
+    );
+
+    if (mismatch) {
+      throw new Error(
+        `Vector ${mismatch.id} has ${mismatch.values.length} dimensions; ${version.storeNamespace} holds ${version.dimension}`
+      );
+    }
+
+    await this.ensureIndex();
+    await this.upsert(version.storeNamespace, vectors);
+  }
+
+  // Search one index version with a query embedded by its model
+  async search(
+    version: IndexVersion,
+    queryVector: number[],
+    topK: number = 5,
+    filter?: VectorFilter
+  ): Promise<SearchResult[]> {
+    const store = await this.getStore();
+
+    return store.query(version.storeNamespace, queryVector, topK, filter);
+  }
+
+  /**
+   * Search several namespaces (shared + avatar), an equal share of topK from
+   * each, best first. A namespace that fails to search has no results.
+   */
+  async searchCombined(
+    queries: VersionQuery[],
+    topK: number = 5
+  ): Promise<SearchResult[]> {
+    const perNamespace = Math.ceil(topK / Math.max(1, queries.length));
+    const results = await Promise.all(
+      queries.map(({ version, vector }) =>
+        this.search(version, vector, perNamespace).catch((error) => {
+          console.error(
+            `Failed to search namespace ${version.storeNamespace}:`,
+            error
+          );
+
+          return [] as SearchResult[];
+        })
+      )
+    );
+
+    const combined = results.flat();
+
+    combined.sort((a, b) => b.score - a.score);
+
+    return combined.slice(0, topK);
+  }
+
+  // Delete individual vectors, e.g. the chunks of a web page that changed.
+  // Every version of the namespace gets the delete, so an index being
+  // rebuilt does not keep chunks that are gone.
+  async deleteVectors(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    for (const version of await this.getAllVersions(namespace)) {
+      await this.deleteVersionVectors(version, ids);
+    }
+  }
+
+  // Delete vectors from one index version only
+  async deleteVersionVectors(
+    version: IndexVersion,
+    ids: string[]
+  ): Promise<void> {
+    const store = await this.getStore();
+
+    for (let i = 0; i < ids.length; i += UPSERT_BATCH_SIZE) {
+      await store.deleteByIds(
+        version.storeNamespace,
+        ids.slice(i, i + UPSERT_BATCH_SIZE)
+      );
+    }
+  }
+
+  async countVectors(version: IndexVersion): Promise<number> {
+    return (await this.getStore()).countVectors(version.storeNamespace);
+  }
+
+  // Delete vectors by source
+  async deleteVectorsBySource(
+    sourceId: string,
+    isShared: boolean = false,
+    avatarId?: string
+  ): Promise<void> {
+    const namespace = isShared
+      ? SHARED_NAMESPACE
+      : getAvatarNamespace(avatarId!);
+
+    try {
+      const store = await this.getStore();
+
+      for (const version of await this.getAllVersions(namespace)) {
+        await store.deleteBySource(version.storeNamespace, sourceId);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to delete vectors from namespace ${namespace}:`,
+        error
+      );
+    }
+  }
+
+  // Delete an index version's vectors, e.g. a retired version
+  async deleteVersion(version: IndexVersion): Promise<void> {
+    await (await this.getStore()).deleteNamespace(version.storeNamespace);
+  }
+
+  // Delete avatar namespace
+  async deleteAvatarNamespace(avatarId: string): Promise<void> {
+    const namespace = getAvatarNamespace(avatarId);
+
+    try {
+      for (const version of await this.getAllVersions(namespace)) {
+        await this.deleteVersion(version);
+      }
+      await indexVersions.removeNamespace(namespace).catch((error) => {
+        console.error(
+          `Failed to remove index versions of ${namespace}:`,
+          error
+        );
+      });
+      console.log(`Deleted avatar namespace: ${namespace}`);
+    } catch (error) {
+      console.error(`Failed to delete avatar namespace ${namespace}:`, error);
+    }
+  }
+
+  // Without the registry, the only version known is the active fallback
+  private async getAllVersions(namespace: string): Promise<IndexVersion[]> {
+    try {
+      return await indexVersions.list(namespace);
+    } catch (error) {
+      console.error(`Failed to load index versions of ${namespace}:`, error);
+
+      return [await indexVersions.getActive(namespace)];
+    }
+  }
+
+  private async upsert(
+    namespace: string,
+    vectors: VectorRecord[]
+  ): Promise<void> {
+    const store = await this.getStore();
+
+    for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+      await store.upsert(namespace, vectors.slice(i, i + UPSERT_BATCH_SIZE));
+    }
+  }
+}
+
+// Export singleton instance
+export const knowledgeIndex = new KnowledgeIndex();
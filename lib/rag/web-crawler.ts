@@ -0,0 +1,310 @@
+/**
+ * Fetching for web knowledge sources.
+ *
+ * A web source is a single page or a sitemap (a URL ending in .xml). Sitemaps
+ * are expanded to their page URLs, following sitemap indexes, up to the
+ * source's page limit. Pages are fetched one at a time with conditional
+ * requests, so a re-crawl of an unchanged site mostly gets 304s.
+ *
+ * The crawler runs inside the deployment's network, so every request - the
+ * configured URL, each sitemap entry and each redirect hop - must resolve to
+ * a public address; loopback, private, link-local (cloud metadata) and other
+ * reserved ranges are refused.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+const USER_AGENT = "AI-Avatar-Kiosk-Crawler/1.0";
+const FETCH_TIMEOUT_MS = 20 * 1000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Addresses a crawl must never reach
+const BLOCKED_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export const DEFAULT_MAX_PAGES = 25;
+export const MAX_PAGES_LIMIT = 200;
+
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// The page no longer exists (404 or 410), as opposed to failing to load
+export class PageGoneError extends Error {
+  readonly status: number;
+
+  constructor(status: number) {
+    super(`HTTP ${status}`);
+    this.name = "PageGoneError";
+    this.status = status;
+  }
+}
+
+// The URL resolves to an address the crawler may not fetch
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+export type FetchedPage =
+  | ({ status: "ok"; url: string; html: string } & PageValidators)
+  | { status: "not-modified"; url: string };
+
+/**
+ * The URL without its fragment, or null unless it is http(s)
+ */
+export function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null;
+    }
+
+    parsed.hash = "";
+
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function isSitemapUrl(url: string): boolean {
+  return new URL(url).pathname.toLowerCase().endsWith(".xml");
+}
+
+// The IPv4 address an IPv4-mapped IPv6 address (::ffff:a.b.c.d) reaches
+function getMappedIPv4(address: string): string | null {
+  const match = address.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i);
+
+  if (!match) return null;
+  if (match[1]) return match[1];
+
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = getMappedIPv4(address);
+
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped, "ipv4");
+
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Refuse a URL unless it is http(s) and every address its host resolves to
+ * is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new BlockedUrlError(`Only http and https URLs can be crawled: ${url}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true, verbatim: true });
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isBlockedAddress(address))
+  ) {
+    throw new BlockedUrlError(
+      `${parsed.hostname} resolves to a private or reserved address`
+    );
+  }
+}
+
+// Redirects are followed here rather than by fetch, so each hop is checked
+async function fetchWithTimeout(
+  url: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current);
+
+    const response = await fetch(current, {
+      headers: { "User-Agent": USER_AGENT, ...headers },
+      redirect: "manual",
+      signal,
+    });
+    const location = response.headers.get("location");
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects from ${url}`);
+    }
+
+    await response.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+}
+
+// The body as text, read no further than MAX_PAGE_BYTES: content-length may
+// be missing or understate the body
+async function readText(response: Response): Promise<string> {
+  const tooLarge = () =>
+    new Error(`Page is larger than ${MAX_PAGE_BYTES / 1024 / 1024}MB`);
+  const length = Number(response.headers.get("content-length") || 0);
+
+  if (length > MAX_PAGE_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+
+    if (done) break;
+
+    received += value.byteLength;
+
+    if (received > MAX_PAGE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+
+    chunks.push(value);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Fetch an HTML page. With the validators of the last fetch, an unchanged
+ * page comes back as "not-modified" without a body.
+ */
+export async function fetchPage(
+  url: string,
+  previous?: PageValidators
+): Promise<FetchedPage> {
+  const headers: Record<string, string> = { Accept: "text/html,*/*;q=0.8" };
+
+  if (previous?.etag) headers["If-None-Match"] = previous.etag;
+  if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+
+  const response = await fetchWithTimeout(url, headers);
+
+  if (response.status === 304) return { status: "not-modified", url };
+  if (response.status === 404 || response.status === 410) {
+    throw new PageGoneError(response.status);
+  }
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const contentType = response.headers.get("content-type") || "";
+
+  if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+    throw new Error(`Not a web page (${contentType.split(";")[0]})`);
+  }
+
+  return {
+    status: "ok",
+    url,
+    html: await readText(response),
+    etag: response.headers.get("etag") || undefined,
+    lastModified: response.headers.get("last-modified") || undefined,
+  };
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * The pages of a web source: the URL itself, or the pages a sitemap lists
+ * (at most maxPages, in sitemap order)
+ */
+export async function discoverPages(
+  url: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<string[]> {
+  if (!isSitemapUrl(url)) return [url];
+
+  const pages = new Set<string>();
+  const pending = [url];
+  const visited = new Set<string>();
+
+  while (pending.length > 0 && pages.size < maxPages) {
+    const sitemapUrl = pending.shift()!;
+
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    const response = await fetchWithTimeout(sitemapUrl, {
+      Accept: "application/xml,text/xml,*/*;q=0.8",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sitemap ${sitemapUrl}: HTTP ${response.status}`);
+    }
+
+    const xml = await readText(response);
+    const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi))
+      .map((match) => normalizeUrl(decodeXmlEntities(match[1])))
+      .filter((location): location is string => !!location);
+
+    if (/<sitemapindex[\s>]/i.test(xml)) {
+      pending.push(...locations);
+      continue;
+    }
+
+    for (const location of locations) {
+      if (pages.size >= maxPages) break;
+      pages.add(location);
+    }
+  }
+
+  return Array.from(pages);
+}
@@ -0,0 +1,58 @@
+/**
+ * Browser side of rate limiting: the kiosk device id header and a typed error
+ * for 429 responses, so pages can tell the user when to try again instead of
+ * showing a generic failure.
+ */
+
+// Sent by the kiosk so limits apply per physical device, not per login
+export const KIOSK_DEVICE_HEADER = "X-Kiosk-Device-Id";
+
+const DEVICE_ID_STORAGE_KEY = "kioskDeviceId";
+
+// Stable id for this browser, created on first use
+export function getKioskDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+
+  return deviceId;
+}
+
+// Body of every 429 from a rate-limited route
+export interface RateLimitResponseBody {
+  error: string;
+  code: "rate_limited";
+  retryAfter: number; // Seconds
+}
+
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Throw a RateLimitError carrying the server's message if the response is a
+ * 429; other responses are left for the caller to handle.
+ */
+export async function throwIfRateLimited(response: Response): Promise<void> {
+  if (response.status !== 429) return;
+
+  const body: Partial<RateLimitResponseBody> = await response
+    .json()
+    .catch(() => ({}));
+  const retryAfter =
+    body.retryAfter || parseInt(response.headers.get("Retry-After") || "60");
+
+  throw new RateLimitError(
+    body.error || `Too many requests. Try again in ${retryAfter} seconds.`,
+    retryAfter
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Rate limit and quota policies for the expensive and public endpoints.
+ *
+ * Each policy is a list of rules; a request must pass every rule that applies
+ * to it. Short windows throttle bursts, day-long windows act as quotas. A rule
+ * counts per user, per kiosk device, per cohort, per client IP or across a
+ * whole role, and may be restricted to some roles (e.g. admins get higher
+ * limits than students). RATE_LIMITS (JSON, same shape as
+ * DEFAULT_RATE_LIMITS) replaces the rules of the policies it names.
+ */
+
+export type RateLimitPolicyName =
+  | "llm" // /api/llm/production and /api/llm/preview
+  | "case-chat" // /api/interaction/chat
+  | "transcription" // /api/audio/transcribe
+  | "cta-submit" // /api/cta/submit (public)
+  | "cohort-join"; // /api/cohort/join (public)
+
+// What a rule counts by; requests missing that identity skip the rule
+export type RateLimitScope = "user" | "role" | "cohort" | "device" | "ip";
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number; // Requests allowed per window
+  windowMs: number;
+  roles?: string[]; // Only applies to these roles; all requests when omitted
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitPolicyName, RateLimitRule[]> =
+  {
+    llm: [
+      { scope: "user", limit: 30, windowMs: MINUTE, roles: ["kiosk", "user"] },
+      { scope: "user", limit: 120, windowMs: MINUTE, roles: ["admin"] },
+      { scope: "device", limit: 20, windowMs: MINUTE },
+      { scope: "user", limit: 1000, windowMs: DAY, roles: ["kiosk", "user"] },
+    ],
+    "case-chat": [
+      { scope: "user", limit: 15, windowMs: MINUTE, roles: ["student"] },
+      { scope: "user", limit: 300, windowMs: DAY, roles: ["student"] },
+      { scope: "cohort", limit: 5000, windowMs: DAY },
+      { scope: "role", limit: 20000, windowMs: DAY, roles: ["student"] },
+    ],
+    transcription: [
+      { scope: "user", limit: 20, windowMs: MINUTE },
+      { scope: "device", limit: 20, windowMs: MINUTE },
+      { scope: "user", limit: 500, windowMs: DAY, roles: ["kiosk", "user"] },
+    ],
+    "cta-submit": [
+      { scope: "ip", limit: 5, windowMs: 10 * MINUTE },
+      { scope: "ip", limit: 20, windowMs: DAY },
+    ],
+    "cohort-join": [{ scope: "ip", limit: 10, windowMs: 10 * MINUTE }],
+  };
+
+const SCOPES: RateLimitScope[] = ["user", "role", "cohort", "device", "ip"];
+
+function isRateLimitRule(value: unknown): value is RateLimitRule {
+  const rule = value as RateLimitRule;
+
+  return (
+    !!rule &&
+    SCOPES.includes(rule.scope) &&
+    Number.isFinite(rule.limit) &&
+    rule.limit >= 0 &&
+    Number.isFinite(rule.windowMs) &&
+    rule.windowMs > 0 &&
+    (rule.roles === undefined || Array.isArray(rule.roles))
+  );
+}
+
+let cachedPolicies: Record<RateLimitPolicyName, RateLimitRule[]> | null = null;
+
+export function getRateLimitRules(
+  policy: RateLimitPolicyName
+): RateLimitRule[] {
+  if (!cachedPolicies) {
+    cachedPolicies = { ...DEFAULT_RATE_LIMITS };
+
+    if (process.env.RATE_LIMITS) {
+      try {
+        const overrides = JSON.parse(process.env.RATE_LIMITS);
+
+        for (const [name, rules] of Object.entries(overrides)) {
+          if (!(name in DEFAULT_RATE_LIMITS)) {
+            console.error(`Unknown rate limit policy in RATE_LIMITS: ${name}`);
+          } else if (!Array.isArray(rules) || !rules.every(isRateLimitRule)) {
+            console.error(`Invalid rules for ${name} in RATE_LIMITS, ignored`);
+          } else {
+            cachedPolicies[name as RateLimitPolicyName] = rules;
+          }
+        }
+      } catch (error) {
+        console.error("Invalid RATE_LIMITS, using default limits:", error);
+      }
+    }
+  }
+
+  return cachedPolicies[policy];
+}
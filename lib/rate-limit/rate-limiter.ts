@@ -0,0 +1,214 @@
+/**
+ * Rate limiter for route handlers.
+ *
+ * Routes call `enforceRateLimit(request, policy)` before doing any expensive
+ * work and return the 429 response it gives back, if any. The caller's user
+ * and role come from the auth cookie, the kiosk device from the
+ * X-Kiosk-Device-Id header and the IP from the proxy headers. Routes that
+ * charge a cohort look it up on the server and pass it in, never from the
+ * request body. A failing store never blocks requests.
+ */
+
+import type { NextRequest } from "next/server";
+import type {
+  RateLimitPolicyName,
+  RateLimitRule,
+  RateLimitScope,
+} from "./policies";
+import type { RateLimitResponseBody } from "./client";
+import type { RateLimitStore } from "./store";
+
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "../auth";
+
+import { KIOSK_DEVICE_HEADER } from "./client";
+import { getRateLimitRules } from "./policies";
+import { createRateLimitStore } from "./store";
+
+import { siteConfig } from "@/config/site";
+
+export interface RateLimitIdentity {
+  userId?: string; // User email, as in the auth token
+  role?: string;
+  cohortId?: string;
+  deviceId?: string;
+  ip?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit?: number; // The rule that is closest to (or over) its limit
+  remaining?: number;
+  resetAt?: number; // Epoch ms
+  rule?: RateLimitRule;
+}
+
+const SCOPE_MESSAGES: Record<RateLimitScope, string> = {
+  user: "You are sending requests too quickly",
+  role: "This service is at capacity",
+  cohort: "Your cohort has reached its usage limit",
+  device: "This kiosk is sending requests too quickly",
+  ip: "Too many requests from your network",
+};
+
+function getScopeValue(
+  scope: RateLimitScope,
+  identity: RateLimitIdentity
+): string | undefined {
+  switch (scope) {
+    case "user":
+      return identity.userId;
+    case "role":
+      return identity.role;
+    case "cohort":
+      return identity.cohortId;
+    case "device":
+      return identity.deviceId;
+    case "ip":
+      return identity.ip;
+  }
+}
+
+function appliesTo(rule: RateLimitRule, identity: RateLimitIdentity): boolean {
+  return !rule.roles || (!!identity.role && rule.roles.includes(identity.role));
+}
+
+export class RateLimiter {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  /**
+   * Count one request against every applicable rule of the policy. The
+   * request is rejected when any rule is over its limit; the result then
+   * describes that rule so the caller can report when to retry.
+   */
+  async check(
+    policy: RateLimitPolicyName,
+    identity: RateLimitIdentity
+  ): Promise<RateLimitResult> {
+    let tightest: RateLimitResult | null = null;
+
+    for (const [index, rule] of getRateLimitRules(policy).entries()) {
+      const value = getScopeValue(rule.scope, identity);
+
+      if (!value || !appliesTo(rule, identity)) continue;
+
+      const key = `${policy}:${index}:${rule.scope}:${value}`;
+      const counter = await this.store.hit(key, rule.windowMs);
+      const result = {
+        allowed: counter.count <= rule.limit,
+        limit: rule.limit,
+        remaining: Math.max(rule.limit - counter.count, 0),
+        resetAt: counter.resetAt,
+        rule,
+      };
+
+      if (!result.allowed) return result;
+
+      if (!tightest || result.remaining < tightest.remaining!) {
+        tightest = result;
+      }
+    }
+
+    return tightest || { allowed: true };
+  }
+}
+
+// Shared through globalThis so the in-memory store keeps one set of counters
+// across routes and hot reloads
+const globalForRateLimit = globalThis as unknown as {
+  rateLimiter?: RateLimiter;
+};
+
+export const rateLimiter =
+  globalForRateLimit.rateLimiter || new RateLimiter(createRateLimitStore());
+
+globalForRateLimit.rateLimiter = rateLimiter;
+
+// First address in X-Forwarded-For is the client; later ones are proxies
+export function getClientIp(request: NextRequest): string | undefined {
+  const forwarded = request.headers.get("x-forwarded-for");
+
+  return (
+    forwarded?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    undefined
+  );
+}
+
+async function getRequestIdentity(
+  request: NextRequest
+): Promise<RateLimitIdentity> {
+  const token = request.cookies.get(siteConfig.auth.cookie.name)?.value;
+  const user = token ? await getCurrentUser(token) : null;
+
+  return {
+    userId: user?.email,
+    role: user?.role,
+    deviceId: request.headers.get(KIOSK_DEVICE_HEADER) || undefined,
+    ip: getClientIp(request),
+  };
+}
+
+/**
+ * Apply a rate limit policy to a request. Returns a 429 response to send back
+ * when the request is over a limit, or null to carry on.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  policy: RateLimitPolicyName,
+  context: Pick<RateLimitIdentity, "cohortId"> = {}
+): Promise<NextResponse | null> {
+  try {
+    const identity = { ...(await getRequestIdentity(request)), ...context };
+    const result = await rateLimiter.check(policy, identity);
+
+    if (result.allowed) return null;
+
+    const retryAfter = Math.max(
+      Math.ceil((result.resetAt! - Date.now()) / 1000),
+      1
+    );
+    const body: RateLimitResponseBody = {
+      error: `${SCOPE_MESSAGES[result.rule!.scope]}. Please try again in ${formatRetryAfter(retryAfter)}.`,
+      code: "rate_limited",
+      retryAfter,
+    };
+
+    console.warn(
+      `Rate limit exceeded for ${policy} (${result.rule!.scope}):`,
+      identity.userId || identity.deviceId || identity.ip
+    );
+
+    return NextResponse.json(body, {
+      status: 429,
+      headers: {
+        "Retry-After": String(retryAfter),
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": String(Math.ceil(result.resetAt! / 1000)),
+      },
+    });
+  } catch (error) {
+    // Throttling must not take the endpoint down with the store
+    console.error("Rate limit check failed, allowing request:", error);
+
+    return null;
+  }
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+
+  const minutes = Math.ceil(seconds / 60);
+
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+
+  const hours = Math.ceil(minutes / 60);
+
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
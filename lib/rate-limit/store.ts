@@ -0,0 +1,114 @@
+/**
+ * Counter stores for the rate limiter.
+ *
+ * Limits are fixed windows: the first hit on a key starts a window of
+ * `windowMs` and every hit until `resetAt` adds one. The in-memory store is
+ * per process and suits development and single-instance deployments; the
+ * Postgres store shares counters across serverless instances. Any other
+ * backend (e.g. Redis INCR + PEXPIRE) only needs to implement `hit`.
+ */
+
+import { prisma } from "../prisma";
+
+export interface RateLimitCounter {
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+}
+
+// How often the memory store drops expired windows
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+  private lastSweep = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+
+    if (!counter || counter.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+
+      this.counters.set(key, fresh);
+
+      return { ...fresh };
+    }
+
+    counter.count++;
+
+    return { ...counter };
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+    this.lastSweep = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastSweep = 0;
+
+  // One atomic upsert per hit, so concurrent instances never lose a count
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    // The window has ended once the resetAt stored on its first hit is no
+    // later than this hit's time
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    this.sweep(now.getTime());
+
+    const rows = await prisma.$queryRaw<{ count: number; resetAt: Date }[]>`
+      INSERT INTO "RateLimitBucket" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE
+          WHEN "RateLimitBucket"."resetAt" <= ${now} THEN 1
+          ELSE "RateLimitBucket"."count" + 1
+        END,
+        "resetAt" = CASE
+          WHEN "RateLimitBucket"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+          ELSE "RateLimitBucket"."resetAt"
+        END
+      RETURNING "count", "resetAt"
+    `;
+
+    return { count: rows[0].count, resetAt: rows[0].resetAt.getTime() };
+  }
+
+  // Expired rows are reset in place on their next hit, but one-off keys (a
+  // single IP) would stay forever; drop them in the background
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+    this.lastSweep = now;
+    prisma.rateLimitBucket
+      .deleteMany({ where: { resetAt: { lt: new Date(now) } } })
+      .catch((error) => {
+        console.error("Failed to purge rate limit buckets:", error);
+      });
+  }
+}
+
+/**
+ * Store selected by RATE_LIMIT_STORE ("memory" or "postgres"). Defaults to
+ * Postgres in production when a database is configured, memory otherwise.
+ */
+export function createRateLimitStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE;
+  const usePostgres = configured
+    ? configured === "postgres"
+    : process.env.NODE_ENV === "production" && !!process.env.DATABASE_URL;
+
+  return usePostgres ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+}
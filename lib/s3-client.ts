@@ -27,8 +27,10 @@ import {
 import { gzip, gunzip } from "zlib";
 import { promisify } from "util";
 import type { Avatar, VersionManifest, AvatarVersion } from "./avatar-storage";
-import type { ChatSession, ChatMessage, ChatSessionMetadata, VideoAudioProfile, CaseStudy, InteractionLog } from "@/types";
+import type { ChatSession, ChatMessage, ChatSessionMetadata, VideoAudioProfile, CaseStudy, InteractionFlag, InteractionLog, RoleChat } from "@/types";
 import type { Cohort } from "@/types/cohort";
+import type { LLMConversationSummary } from "./llm/types";
+import { isSamePromptTemplate, type PromptTemplate } from "./prompts/prompt-template";
 
 // S3 client configuration - shared between avatar and chat storage
 const s3Client = new S3Client({
@@ -44,12 +46,17 @@ const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!; // Same bucket as avatars
 const AVATARS_PREFIX = "avatars/"; // Existing avatar storage prefix
 const CHATS_PREFIX = "chats/"; // NEW: Chat storage prefix
 const VERSION_FILE = "avatars/version.json"; // Avatar version manifest
+const PROMPT_HISTORY_FILE = "prompt-history.json"; // Per avatar, next to its JSON
+const MAX_PROMPT_VERSIONS = 50;
 export const KNOWLEDGE_BASE_PREFIX = "knowledge-base/"; // Existing knowledge base prefix
 export const METADATA_SUFFIX = "metadata.json"; // Existing metadata file suffix
 
 // Index file for chat session metadata
 const CHAT_INDEX_FILE = `${CHATS_PREFIX}index.json`;
 
+// Rolling summaries of kiosk chats in progress, written by the LLM routes
+const CHAT_SUMMARIES_PREFIX = `${CHATS_PREFIX}summaries/`;
+
 // Profile storage prefix and index
 const PROFILES_PREFIX = "profiles/";
 const PROFILE_INDEX_FILE = `${PROFILES_PREFIX}index.json`;
@@ -222,11 +229,20 @@ export class S3AvatarStorage {
   async saveAvatar(avatar: Avatar): Promise<number> {
     const version = Date.now();
 
+    // A changed prompt template becomes a new entry in the avatar's history
+    const promptTemplate = avatar.promptTemplate
+      ? await this.recordPromptVersion(
+          avatar.id,
+          avatar.promptTemplate,
+          avatar.lastEditedBy
+        )
+      : undefined;
+
     // Save avatar data
     const avatarCommand = new PutObjectCommand({
       Bucket: BUCKET_NAME,
       Key: `${AVATARS_PREFIX}${avatar.id}/${avatar.id}.json`,
-      Body: JSON.stringify(avatar, null, 2),
+      Body: JSON.stringify({ ...avatar, promptTemplate }, null, 2),
       ContentType: "application/json",
     });
 
@@ -254,6 +270,12 @@ export class S3AvatarStorage {
     });
 
     await s3Client.send(deleteCommand);
+    await s3Client.send(
+      new DeleteObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: `${AVATARS_PREFIX}${id}/${PROMPT_HISTORY_FILE}`,
+      })
+    );
 
     // Update version manifest
     const manifest = await this.getVersionManifest();
@@ -263,6 +285,64 @@ export class S3AvatarStorage {
     await this.updateVersionManifest(manifest);
   }
 
+  // Prompt template versions of an avatar, oldest first
+  async listPromptVersions(avatarId: string): Promise<PromptTemplate[]> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: `${AVATARS_PREFIX}${avatarId}/${PROMPT_HISTORY_FILE}`,
+      });
+      const response = await s3Client.send(command);
+      if (!response.Body) return [];
+      const content = await response.Body.transformToString();
+      return JSON.parse(content).versions || [];
+    } catch (error: any) {
+      if (
+        error.name === "NoSuchKey" ||
+        error.$metadata?.httpStatusCode === 404
+      ) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Append the template to the history unless it matches the latest version;
+  // returns the template carrying its version number
+  private async recordPromptVersion(
+    avatarId: string,
+    template: PromptTemplate,
+    updatedBy: string
+  ): Promise<PromptTemplate> {
+    const versions = await this.listPromptVersions(avatarId);
+    const latest = versions[versions.length - 1];
+
+    if (latest && isSamePromptTemplate(latest, template)) {
+      return latest;
+    }
+
+    const recorded: PromptTemplate = {
+      ...template,
+      version: (latest?.version || 0) + 1,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: `${AVATARS_PREFIX}${avatarId}/${PROMPT_HISTORY_FILE}`,
+      Body: JSON.stringify(
+        { versions: [...versions, recorded].slice(-MAX_PROMPT_VERSIONS) },
+        null,
+        2
+      ),
+      ContentType: "application/json",
+    });
+    await s3Client.send(command);
+
+    return recorded;
+  }
+
   // List all avatars (for admin/sync purposes)
   async listAllAvatars(): Promise<Avatar[]> {
     const avatars: Avatar[] = [];
@@ -661,6 +741,51 @@ export class S3AvatarStorage {
     return false;
   }
 
+  /**
+   * Get Conversation Summary for a Chat Session
+   *
+   * The rolling summary of turns that left the model's context window. It is
+   * written only by the LLM routes while the chat is in progress, so the
+   * next turn and the saved session never take a summary from the client.
+   * Returns null before any turn has been summarized.
+   */
+  async getConversationSummary(
+    sessionId: string
+  ): Promise<LLMConversationSummary | null> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: `${CHAT_SUMMARIES_PREFIX}${sessionId}.json`,
+      });
+
+      const response = await s3Client.send(command);
+      if (!response.Body) return null;
+
+      return JSON.parse(await response.Body.transformToString());
+    } catch (error: any) {
+      if (
+        error.name === "NoSuchKey" ||
+        error.$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveConversationSummary(
+    sessionId: string,
+    summary: LLMConversationSummary
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: `${CHAT_SUMMARIES_PREFIX}${sessionId}.json`,
+      Body: JSON.stringify(summary, null, 2),
+      ContentType: "application/json",
+    });
+    await s3Client.send(command);
+  }
+
   /**
    * Get Chat Session Metadata for Specific Avatar
    *
@@ -718,6 +843,7 @@ export class S3AvatarStorage {
       userName?: string;
       isKioskMode?: boolean;
       location?: string;
+      summary?: LLMConversationSummary;
     }
   ): ChatSession {
     const now = new Date().toISOString();
@@ -742,6 +868,7 @@ export class S3AvatarStorage {
         location: options?.location,
       },
       messages,
+      summary: options?.summary,
       createdAt: now,
       updatedAt: now,
     };
@@ -1073,6 +1200,16 @@ export class S3AvatarStorage {
 
   // Get document metadata from S3
   async getDocumentMetadata(sourceId: string): Promise<any | null> {
+    try {
+      return await this.readDocumentMetadata(sourceId);
+    } catch (error) {
+      console.error(`Failed to get document metadata ${sourceId}:`, error);
+      return null;
+    }
+  }
+
+  // Document metadata, or null when none is stored; other errors are thrown
+  async readDocumentMetadata(sourceId: string): Promise<any | null> {
     try {
       const key = `${KNOWLEDGE_BASE_PREFIX}${sourceId}/${METADATA_SUFFIX}`;
       const command = new GetObjectCommand({
@@ -1087,9 +1224,14 @@ export class S3AvatarStorage {
 
       const content = await response.Body.transformToString();
       return JSON.parse(content);
-    } catch (error) {
-      console.error(`Failed to get document metadata ${sourceId}:`, error);
-      return null;
+    } catch (error: any) {
+      if (
+        error.name === "NoSuchKey" ||
+        error.$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -1357,6 +1499,7 @@ export class S3AvatarStorage {
    *
    * Storage Structure:
    * interactions/{studentEmail}/{caseId}/{logId}.json
+   * interactions/{studentEmail}/{caseId}/{logId}/roles/{roleId}.json - role chat transcripts
    * interactions/{studentEmail}/{caseId}/index.json - list of logs for quick lookup
    */
 
@@ -1371,14 +1514,12 @@ export class S3AvatarStorage {
   }
 
   async saveInteractionLog(log: InteractionLog): Promise<void> {
-    const key = this.getInteractionKey(log.studentEmail, log.caseId, log.id);
-    const command = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: JSON.stringify(log, null, 2),
-      ContentType: "application/json",
-    });
-    await s3Client.send(command);
+    // Flags are recorded only by the server during role chats; a saved copy
+    // of the log never adds, changes or drops them
+    const stored = await this.readInteractionLog(log.studentEmail, log.caseId, log.id);
+    log.flags = stored?.flags;
+
+    await this.putInteractionLog(log);
 
     // Update the index
     const indexKey = this.getInteractionIndexKey(log.studentEmail, log.caseId);
@@ -1407,7 +1548,108 @@ export class S3AvatarStorage {
     await s3Client.send(indexCommand);
   }
 
+  /**
+   * Attach a flag to a stored interaction log. Returns false when the log is
+   * not stored (explore mode sessions are never saved).
+   */
+  async addInteractionFlag(
+    studentEmail: string,
+    caseId: string,
+    logId: string,
+    flag: InteractionFlag
+  ): Promise<boolean> {
+    const log = await this.readInteractionLog(studentEmail, caseId, logId);
+    if (!log) return false;
+
+    log.flags = [...(log.flags || []), flag];
+    await this.putInteractionLog(log);
+    return true;
+  }
+
+  private async putInteractionLog(log: InteractionLog): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: this.getInteractionKey(log.studentEmail, log.caseId, log.id),
+      Body: JSON.stringify(log, null, 2),
+      ContentType: "application/json",
+    });
+    await s3Client.send(command);
+  }
+
+  private getRoleChatPrefix(studentEmail: string, caseId: string, logId: string): string {
+    return this.getInteractionKey(studentEmail, caseId, logId).replace(/\.json$/, "/roles/");
+  }
+
+  /**
+   * The server's transcript of one role chat in an interaction. Returns an
+   * empty transcript before the first turn.
+   */
+  async getRoleChat(
+    studentEmail: string,
+    caseId: string,
+    logId: string,
+    roleId: string
+  ): Promise<RoleChat> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: `${this.getRoleChatPrefix(studentEmail, caseId, logId)}${roleId}.json`,
+      });
+      const response = await s3Client.send(command);
+      if (!response.Body) throw new Error("Empty role chat transcript");
+      const content = await response.Body.transformToString();
+      return JSON.parse(content) as RoleChat;
+    } catch (error: any) {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
+        return { messages: [], updatedAt: new Date().toISOString() };
+      }
+      // A missing history would let the next turn start over; fail the turn instead
+      throw error;
+    }
+  }
+
+  async saveRoleChat(
+    studentEmail: string,
+    caseId: string,
+    logId: string,
+    roleId: string,
+    chat: RoleChat
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: `${this.getRoleChatPrefix(studentEmail, caseId, logId)}${roleId}.json`,
+      Body: JSON.stringify(chat, null, 2),
+      ContentType: "application/json",
+    });
+    await s3Client.send(command);
+  }
+
+  // Explore sessions are not kept; their transcripts go when the session ends
+  async deleteRoleChats(studentEmail: string, caseId: string, logId: string): Promise<void> {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: BUCKET_NAME,
+        Prefix: this.getRoleChatPrefix(studentEmail, caseId, logId),
+      })
+    );
+
+    for (const object of response.Contents || []) {
+      if (!object.Key) continue;
+      await s3Client.send(new DeleteObjectCommand({ Bucket: BUCKET_NAME, Key: object.Key }));
+    }
+  }
+
   async getInteractionLog(studentEmail: string, caseId: string, logId: string): Promise<InteractionLog | null> {
+    try {
+      return await this.readInteractionLog(studentEmail, caseId, logId);
+    } catch (error) {
+      console.error(`Failed to get interaction log:`, error);
+      return null;
+    }
+  }
+
+  // Null only when the log is not stored; other errors are thrown
+  private async readInteractionLog(studentEmail: string, caseId: string, logId: string): Promise<InteractionLog | null> {
     try {
       const key = this.getInteractionKey(studentEmail, caseId, logId);
       const command = new GetObjectCommand({
@@ -1422,8 +1664,7 @@ export class S3AvatarStorage {
       if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) {
         return null;
       }
-      console.error(`Failed to get interaction log:`, error);
-      return null;
+      throw error;
     }
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Registry of revisioned system configs - how each one is written back when
+ * an admin rolls back to an earlier revision.
+ * A new system config object gets version history by recording its saves
+ * with recordConfigRevision and adding an entry here.
+ */
+
+import type { CTAConfig } from "@/types";
+import type { EventsFeed } from "./events-feed-storage";
+import type { GuardrailProfilesFile } from "./guardrail-profiles-storage";
+import type { GuardrailsConfig } from "./guardrails-storage";
+import type { GuardrailsTestSuite } from "./guardrails-test-suite-storage";
+import type {
+  ConfigRevision,
+  ConfigRevisionSummary,
+  SystemConfigName,
+} from "./config-revisions";
+
+import { configRevisions } from "./config-revisions";
+import { ctaStorage } from "./cta-storage";
+import { eventsFeedStorage } from "./events-feed-storage";
+import { guardrailProfilesStorage } from "./guardrail-profiles-storage";
+import { guardrailsStorage } from "./guardrails-storage";
+import { guardrailsTestSuiteStorage } from "./guardrails-test-suite-storage";
+
+// The config object each revision's snapshot holds
+export interface SystemConfigSnapshots {
+  guardrails: GuardrailsConfig;
+  cta: CTAConfig;
+  "guardrail-profiles": GuardrailProfilesFile;
+  "events-feed": EventsFeed;
+  "guardrails-test-suite": GuardrailsTestSuite;
+}
+
+interface SystemConfigDefinition<K extends SystemConfigName> {
+  // Writes a revision's snapshot back as the current config, as it was saved
+  restore: (
+    snapshot: SystemConfigSnapshots[K],
+    updatedBy: string,
+    restoredFrom: number
+  ) => Promise<void>;
+}
+
+export const SYSTEM_CONFIGS: {
+  [K in SystemConfigName]: SystemConfigDefinition<K>;
+} = {
+  guardrails: {
+    restore: async (snapshot, updatedBy, restoredFrom) => {
+      await guardrailsStorage.replaceConfig(snapshot, updatedBy, restoredFrom);
+    },
+  },
+  cta: {
+    restore: async (snapshot, updatedBy, restoredFrom) => {
+      await ctaStorage.replaceConfig(snapshot, updatedBy, restoredFrom);
+    },
+  },
+  "guardrail-profiles": {
+    restore: async (snapshot, updatedBy, restoredFrom) => {
+      await guardrailProfilesStorage.replaceProfiles(
+        snapshot.profiles,
+        updatedBy,
+        restoredFrom
+      );
+    },
+  },
+  "events-feed": {
+    restore: async (snapshot, updatedBy, restoredFrom) => {
+      await eventsFeedStorage.saveEvents(
+        snapshot.events,
+        updatedBy,
+        restoredFrom
+      );
+    },
+  },
+  "guardrails-test-suite": {
+    restore: async (snapshot, updatedBy, restoredFrom) => {
+      await guardrailsTestSuiteStorage.saveSuite(
+        snapshot.cases,
+        updatedBy,
+        restoredFrom
+      );
+    },
+  },
+};
+
+// Revisions are only recorded with their config's own object, so a stored
+// snapshot has the type its config name says
+function restoreSnapshot<K extends SystemConfigName>(
+  config: K,
+  snapshot: unknown,
+  updatedBy: string,
+  restoredFrom: number
+): Promise<void> {
+  return SYSTEM_CONFIGS[config].restore(
+    snapshot as SystemConfigSnapshots[K],
+    updatedBy,
+    restoredFrom
+  );
+}
+
+/**
+ * Make an earlier revision the current config again. The rollback is itself
+ * recorded as a new revision, so it can be undone the same way.
+ *
+ * Returns the new revision, or null when the config already matches it.
+ */
+export async function rollbackSystemConfig(
+  revision: ConfigRevision,
+  updatedBy: string
+): Promise<ConfigRevisionSummary | null> {
+  const { config, version } = revision;
+  const before = (await configRevisions.list(config))[0]?.version;
+
+  await restoreSnapshot(config, revision.snapshot, updatedBy, version);
+
+  const latest = (await configRevisions.list(config))[0];
+
+  return latest && latest.version !== before ? latest : null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Tools an avatar can be given, as shown to admins when editing an avatar.
+ *
+ * Safe to import from client components; the implementations the LLM layer
+ * runs live in ./registry.
+ */
+
+// Also the function name the model calls
+export type AvatarToolName =
+  | "search_knowledge_base"
+  | "lookup_events"
+  | "recommend_avatar"
+  | "show_cta_qr";
+
+export interface AvatarToolInfo {
+  name: AvatarToolName;
+  label: string;
+  description: string;
+}
+
+export const AVATAR_TOOL_CATALOG: AvatarToolInfo[] = [
+  {
+    name: "search_knowledge_base",
+    label: "Knowledge base search",
+    description:
+      "Search the avatar's documents again with its own query, beyond the automatic lookup on the latest message",
+  },
+  {
+    name: "lookup_events",
+    label: "Date and events",
+    description:
+      "Tell today's date and look up upcoming events from the events feed in System Settings",
+  },
+  {
+    name: "recommend_avatar",
+    label: "Recommend another avatar",
+    description:
+      "Suggest a published avatar better suited to the visitor's topic, with a button to switch on the kiosk",
+  },
+  {
+    name: "show_cta_qr",
+    label: "Show CTA QR code",
+    description:
+      "Highlight the contact form QR code on the kiosk when the visitor wants to follow up",
+  },
+];
+
+export function isAvatarToolName(value: unknown): value is AvatarToolName {
+  return AVATAR_TOOL_CATALOG.some((tool) => tool.name === value);
+}
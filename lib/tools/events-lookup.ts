@@ -0,0 +1,101 @@
+import type { AvatarTool } from "./types";
+import type { FeedEvent } from "../events-feed-storage";
+
+import { eventsFeedStorage } from "../events-feed-storage";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 180;
+const MAX_EVENTS = 10;
+
+// Dates are read out in the campus time zone, not the server's
+const TIME_ZONE = process.env.EVENTS_FEED_TIMEZONE || "America/New_York";
+
+function formatDate(value: string | Date): string {
+  return new Date(value).toLocaleString("en-US", {
+    timeZone: TIME_ZONE,
+    dateStyle: "full",
+    timeStyle: "short",
+  });
+}
+
+function formatEvent(event: FeedEvent): string {
+  const lines = [
+    `- ${event.title}`,
+    `  When: ${formatDate(event.start)}${event.end ? ` until ${formatDate(event.end)}` : ""}`,
+  ];
+
+  if (event.location) lines.push(`  Where: ${event.location}`);
+  if (event.description) lines.push(`  About: ${event.description}`);
+  if (event.url) lines.push(`  More info: ${event.url}`);
+
+  return lines.join("\n");
+}
+
+function matchesQuery(event: FeedEvent, query: string): boolean {
+  const text = [event.title, event.description, event.location]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .some((word) => text.includes(word));
+}
+
+export const eventsLookupTool: AvatarTool = {
+  name: "lookup_events",
+  runningLabel: "Checking the date and upcoming events...",
+  definition: {
+    name: "lookup_events",
+    description:
+      "Get the current date and time and the upcoming events on campus. Use it for any question about today's date, schedules or what is happening soon.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Optional keywords to narrow the events, e.g. 'open house'",
+        },
+        days: {
+          type: "number",
+          description: `How many days ahead to look (default ${DEFAULT_DAYS})`,
+        },
+      },
+    },
+  },
+
+  async execute(args) {
+    const now = new Date();
+    const days =
+      typeof args.days === "number" && args.days > 0
+        ? Math.min(args.days, MAX_DAYS)
+        : DEFAULT_DAYS;
+    const query = typeof args.query === "string" ? args.query.trim() : "";
+    const until = now.getTime() + days * 24 * 60 * 60 * 1000;
+
+    const feed = await eventsFeedStorage.getFeed();
+    const events = feed.events
+      .filter((event) => {
+        // Events still running count as upcoming
+        const end = new Date(event.end || event.start).getTime();
+
+        return end >= now.getTime() && new Date(event.start).getTime() <= until;
+      })
+      .filter((event) => !query || matchesQuery(event, query))
+      .slice(0, MAX_EVENTS);
+
+    const header = `Current date and time: ${formatDate(now)} (${TIME_ZONE})`;
+
+    if (events.length === 0) {
+      return {
+        content: `${header}\n\nNo events found in the next ${days} days${query ? ` matching "${query}"` : ""}.`,
+      };
+    }
+
+    return {
+      content: `${header}\n\nUpcoming events:\n${events.map(formatEvent).join("\n")}`,
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import type { AvatarTool } from "./types";
+
+import { ragService } from "../rag/rag-service";
+
+const MAX_RESULTS = 5;
+
+export const knowledgeSearchTool: AvatarTool = {
+  name: "search_knowledge_base",
+  runningLabel: "Searching the knowledge base...",
+  definition: {
+    name: "search_knowledge_base",
+    description:
+      "Search the documents in your knowledge base. Use it when the question needs facts you were not given, or the visitor refers to something said earlier in the conversation.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "What to look for, phrased as a standalone search query",
+        },
+      },
+      required: ["query"],
+    },
+  },
+
+  async execute(args, context) {
+    const query = typeof args.query === "string" ? args.query.trim() : "";
+
+    if (!query) {
+      return { content: "No query given; nothing was searched." };
+    }
+
+    await ragService.initialize();
+    const ragContext = await ragService.searchKnowledgeBase(
+      query,
+      context.avatarId,
+      MAX_RESULTS,
+      context.attribution,
+      { settings: context.retrieval }
+    );
+
+    if (ragContext.chunks.length === 0) {
+      return { content: `No knowledge base passages match "${query}".` };
+    }
+
+    return {
+      content: ragContext.chunks
+        .map((chunk, index) => `[Result ${index + 1}: ${chunk.source}]\n${chunk.text}`)
+        .join("\n\n"),
+    };
+  },
+};
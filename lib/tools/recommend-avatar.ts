@@ -0,0 +1,95 @@
+import type { AvatarTool } from "./types";
+import type { Avatar } from "../avatar-storage";
+
+import { s3Storage } from "../s3-client";
+
+// Published avatars change rarely; avoid listing S3 on every call
+const CACHE_TTL_MS = 5 * 60 * 1000;
+let cachedAvatars: { avatars: Avatar[]; timestamp: number } | null = null;
+
+async function listPublishedAvatars(): Promise<Avatar[]> {
+  if (cachedAvatars && Date.now() - cachedAvatars.timestamp < CACHE_TTL_MS) {
+    return cachedAvatars.avatars;
+  }
+
+  const avatars = (await s3Storage.listAllAvatars()).filter(
+    (avatar) => avatar.published
+  );
+
+  cachedAvatars = { avatars, timestamp: Date.now() };
+
+  return avatars;
+}
+
+// Keyword overlap between the topic and what the avatar says it covers;
+// listed topics count double
+function scoreAvatar(avatar: Avatar, words: string[]): number {
+  const topics = (avatar.topics || []).join(" ").toLowerCase();
+  const profile = [avatar.name, avatar.title, avatar.description]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  return words.reduce(
+    (score, word) =>
+      score + (topics.includes(word) ? 2 : 0) + (profile.includes(word) ? 1 : 0),
+    0
+  );
+}
+
+export const recommendAvatarTool: AvatarTool = {
+  name: "recommend_avatar",
+  runningLabel: "Finding the right person for this topic...",
+  definition: {
+    name: "recommend_avatar",
+    description:
+      "Recommend another avatar on this kiosk who knows more about the visitor's topic. The kiosk shows a button to switch to them. Use it when the question is outside your expertise.",
+    parameters: {
+      type: "object",
+      properties: {
+        topic: {
+          type: "string",
+          description: "The subject the visitor wants to talk about",
+        },
+        reason: {
+          type: "string",
+          description: "One short sentence on why the other avatar can help",
+        },
+      },
+      required: ["topic"],
+    },
+  },
+
+  async execute(args, context) {
+    const topic = typeof args.topic === "string" ? args.topic : "";
+    const words = topic
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2);
+
+    const ranked = (await listPublishedAvatars())
+      .filter((avatar) => avatar.id !== context.avatarId)
+      .map((avatar) => ({ avatar, score: scoreAvatar(avatar, words) }))
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) {
+      return {
+        content: `No other avatar covers "${topic}". Help the visitor yourself or suggest they contact the school.`,
+      };
+    }
+
+    const { avatar } = ranked[0];
+    const reason = typeof args.reason === "string" ? args.reason : undefined;
+
+    return {
+      content: `Recommended ${avatar.name}${avatar.title ? ` (${avatar.title})` : ""}. A button to talk to them is now on screen; mention it to the visitor.${avatar.topics?.length ? ` Their topics: ${avatar.topics.join(", ")}.` : ""}`,
+      display: {
+        type: "recommend-avatar",
+        avatarId: avatar.id,
+        avatarName: avatar.name,
+        reason,
+      },
+    };
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * Server-side tool registry: resolves an avatar's enabled tools and runs the
+ * calls the model makes.
+ *
+ * A tool that throws does not fail the reply; the model is told the tool
+ * failed and answers without it.
+ */
+
+import type { AvatarTool, AvatarToolContext } from "./types";
+import type { LLMToolActivity } from "../llm/stream-protocol";
+import type { LLMToolCall } from "../llm/types";
+
+import { isAvatarToolName, type AvatarToolName } from "./catalog";
+import { eventsLookupTool } from "./events-lookup";
+import { knowledgeSearchTool } from "./knowledge-search";
+import { recommendAvatarTool } from "./recommend-avatar";
+import { showCtaQrTool } from "./show-cta-qr";
+
+const AVATAR_TOOLS: Record<AvatarToolName, AvatarTool> = {
+  search_knowledge_base: knowledgeSearchTool,
+  lookup_events: eventsLookupTool,
+  recommend_avatar: recommendAvatarTool,
+  show_cta_qr: showCtaQrTool,
+};
+
+// Length of the result kept in the session log
+const RESULT_PREVIEW_LENGTH = 300;
+
+// Names from an avatar's config; unknown names (e.g. a removed tool) are skipped
+export function getAvatarTools(names?: string[]): AvatarTool[] {
+  return (names || []).filter(isAvatarToolName).map((name) => AVATAR_TOOLS[name]);
+}
+
+// Status event sent before the tool runs
+export function getRunningActivity(
+  call: LLMToolCall,
+  tools: AvatarTool[]
+): LLMToolActivity {
+  const tool = tools.find((candidate) => candidate.name === call.name);
+
+  return {
+    callId: call.id,
+    name: call.name,
+    status: "running",
+    label: tool?.runningLabel || "Working on it...",
+    arguments: call.arguments,
+  };
+}
+
+/**
+ * Run one tool call. `content` goes back to the model as the tool result and
+ * `activity` to the client and the session log.
+ */
+export async function runAvatarTool(
+  call: LLMToolCall,
+  tools: AvatarTool[],
+  context: AvatarToolContext
+): Promise<{ content: string; activity: LLMToolActivity }> {
+  const running = getRunningActivity(call, tools);
+  const tool = tools.find((candidate) => candidate.name === call.name);
+
+  if (!tool) {
+    const content = `Tool "${call.name}" is not available.`;
+
+    return {
+      content,
+      activity: { ...running, status: "failed", resultPreview: content },
+    };
+  }
+
+  try {
+    const result = await tool.execute(call.arguments, context);
+
+    return {
+      content: result.content,
+      activity: {
+        ...running,
+        status: "completed",
+        resultPreview: result.content.slice(0, RESULT_PREVIEW_LENGTH),
+        display: result.display,
+      },
+    };
+  } catch (error) {
+    // An interrupted reply should stop, not carry on without the tool
+    context.signal?.throwIfAborted();
+    console.error(`Tool ${call.name} failed:`, error);
+    const content = `The ${call.name} tool failed; answer without it.`;
+
+    return {
+      content,
+      activity: { ...running, status: "failed", resultPreview: content },
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import type { AvatarTool } from "./types";
+
+import { ctaStorage } from "../cta-storage";
+
+export const showCtaQrTool: AvatarTool = {
+  name: "show_cta_qr",
+  runningLabel: "Bringing up the contact form...",
+  definition: {
+    name: "show_cta_qr",
+    description:
+      "Highlight the QR code on the kiosk screen that opens the contact form. Use it when the visitor wants to follow up, apply, get more information by email or speak to someone.",
+    parameters: { type: "object", properties: {} },
+  },
+
+  async execute() {
+    const config = await ctaStorage.getConfig();
+
+    if (!config.enabled) {
+      return {
+        content:
+          "The contact form is currently turned off, so there is no QR code to show.",
+      };
+    }
+
+    return {
+      content:
+        "The QR code is now highlighted on the screen. Tell the visitor to scan it with their phone to leave their contact details.",
+      display: { type: "show-cta-qr" },
+    };
+  },
+};
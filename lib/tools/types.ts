@@ -0,0 +1,29 @@
+import type { AvatarToolName } from "./catalog";
+import type { LLMToolDefinition } from "../llm/types";
+import type { LLMToolDisplay } from "../llm/stream-protocol";
+import type { UsageAttribution } from "../usage/usage-ledger";
+import type { RetrievalSettingsOverride } from "../rag/retrieval-settings";
+
+// What a tool knows about the conversation it runs in
+export interface AvatarToolContext {
+  avatarId?: string;
+  chatSessionId?: string;
+  attribution?: UsageAttribution; // Metering for any provider calls the tool makes
+  retrieval?: RetrievalSettingsOverride; // The avatar's knowledge base search settings
+  signal?: AbortSignal;
+}
+
+export interface AvatarToolResult {
+  content: string; // Returned to the model as the tool's output
+  display?: LLMToolDisplay; // Forwarded to the client
+}
+
+export interface AvatarTool {
+  name: AvatarToolName;
+  definition: LLMToolDefinition;
+  runningLabel: string; // Shown to the visitor while the tool runs
+  execute(
+    args: Record<string, unknown>,
+    context: AvatarToolContext
+  ): Promise<AvatarToolResult>;
+}
@@ -0,0 +1,187 @@
+/**
+ * Topic matching for guardrails in any language the kiosk invites visitors
+ * to speak.
+ *
+ * Topics and messages are normalized the same way (Unicode NFKC, case and
+ * accent folding). Topics in scripts written without spaces between words
+ * (Chinese, Japanese, Korean, Thai) match anywhere in the message; other
+ * topics match whole words, with common English inflections, and phrases
+ * match across spaces and hyphens. Optionally, messages that match no topic
+ * are compared with the topics by embedding similarity.
+ */
+
+import type { UsageAttribution } from "./usage/usage-ledger";
+
+import { embeddingService } from "./rag/embeddings";
+
+export interface TopicEntry {
+  topic: string;
+  language: string; // Language code of the list the topic came from
+}
+
+export interface TopicMatch extends TopicEntry {
+  method: "keyword" | "semantic";
+  similarity?: number; // Only for semantic matches
+}
+
+// Scripts that do not separate words with spaces; Hangul does, but particles
+// attach to the word ("정치는"), so it is matched the same way
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+// Letters and digits of any script, for word boundaries outside ASCII
+const WORD_CHAR = "[\\p{L}\\p{N}\\p{M}]";
+
+/**
+ * Fold text for matching: NFKC (full-width and compatibility forms), lower
+ * case, accents on Latin, Greek and Cyrillic letters removed, typographic
+ * apostrophes and dashes unified and whitespace collapsed.
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .replace(/[\u2018\u2019\u02bc]/g, "'")
+    .replace(/[\u2010-\u2015]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A word with its common English inflections: "vote" also matches "votes",
+// "voted" and "voting", "party" also "parties". Suffixes are only added, so
+// "dating" never matches "date"
+function wordVariants(word: string): string {
+  if (!/^[a-z]+$/.test(word)) return escapeRegExp(word);
+  if (word.length < 4) return `${word}(?:s|es)?`;
+  if (/[^aeiou]y$/.test(word)) {
+    return `${word.slice(0, -1)}(?:y|ies|ied|ying)`;
+  }
+  if (word.endsWith("e")) {
+    return `${word.slice(0, -1)}(?:e|es|ed|ing|er|ers)`;
+  }
+  if (word.endsWith("s")) return word;
+
+  return `${word}(?:s|es|ed|ing|er|ers)?`;
+}
+
+function compileTopic(topic: string): RegExp | null {
+  const words = topic.split(/[\s-]+/).filter(Boolean);
+
+  if (words.length === 0) return null;
+
+  const body = words
+    .map((word, index) =>
+      // Only the last word of a phrase is inflected ("write my essays")
+      index === words.length - 1 ? wordVariants(word) : escapeRegExp(word)
+    )
+    .join("[\\s-]+");
+
+  return new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, "u");
+}
+
+interface CompiledTopic extends TopicEntry {
+  normalized: string;
+  pattern: RegExp | null; // Null for unspaced scripts, matched as substrings
+}
+
+export class TopicMatcher {
+  private readonly topics: CompiledTopic[];
+  private topicEmbeddings: Promise<number[][]> | null = null;
+
+  constructor(entries: TopicEntry[]) {
+    this.topics = entries
+      .map((entry) => ({ ...entry, normalized: normalizeForMatching(entry.topic) }))
+      .filter((entry) => entry.normalized)
+      .map((entry) => ({
+        ...entry,
+        pattern: UNSPACED_SCRIPT.test(entry.normalized)
+          ? null
+          : compileTopic(entry.normalized),
+      }));
+  }
+
+  get size(): number {
+    return this.topics.length;
+  }
+
+  // First topic found in the text by keyword
+  match(text: string): TopicMatch | null {
+    const normalized = normalizeForMatching(text);
+
+    if (!normalized) return null;
+
+    for (const { topic, language, normalized: needle, pattern } of this
+      .topics) {
+      const found = pattern
+        ? pattern.test(normalized)
+        : normalized.includes(needle);
+
+      if (found) return { topic, language, method: "keyword" };
+    }
+
+    return null;
+  }
+
+  /**
+   * Closest topic by embedding similarity, if at least `threshold`. Topic
+   * embeddings are computed once per matcher; failures count as no match so
+   * an embeddings outage never blocks a conversation.
+   */
+  async matchSemantic(
+    text: string,
+    threshold: number,
+    attribution?: UsageAttribution
+  ): Promise<TopicMatch | null> {
+    if (this.topics.length === 0 || !text.trim()) return null;
+
+    try {
+      if (!this.topicEmbeddings) {
+        this.topicEmbeddings = embeddingService.generateEmbeddings(
+          this.topics.map((entry) => entry.topic),
+          attribution
+        );
+        // Retry on the next message rather than caching a failure
+        this.topicEmbeddings.catch(() => {
+          this.topicEmbeddings = null;
+        });
+      }
+
+      const [topicEmbeddings, textEmbedding] = await Promise.all([
+        this.topicEmbeddings,
+        embeddingService.generateEmbedding(text, attribution),
+      ]);
+
+      let bestIndex = -1;
+      let bestSimilarity = threshold;
+
+      topicEmbeddings.forEach((embedding, index) => {
+        const similarity = embeddingService.cosineSimilarity(
+          textEmbedding,
+          embedding
+        );
+
+        if (similarity >= bestSimilarity) {
+          bestIndex = index;
+          bestSimilarity = similarity;
+        }
+      });
+
+      if (bestIndex < 0) return null;
+
+      const { topic, language } = this.topics[bestIndex];
+
+      return { topic, language, method: "semantic", similarity: bestSimilarity };
+    } catch (error) {
+      console.error("Semantic topic matching failed:", error);
+
+      return null;
+    }
+  }
+}
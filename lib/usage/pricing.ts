@@ -0,0 +1,83 @@
+/**
+ * Model prices used to put a dollar figure on each usage record.
+ *
+ * Prices are USD per million tokens. Model names are matched by longest
+ * prefix so dated snapshots ("gpt-4.1-2025-04-14") use their family's price.
+ * USAGE_PRICING (JSON, same shape as MODEL_PRICES) adds or replaces entries
+ * without a deploy. Unknown models, local servers and the scripted provider
+ * cost nothing.
+ */
+
+export interface ModelPrice {
+  input: number; // USD per 1M input tokens (audio tokens for transcription)
+  output: number; // USD per 1M output tokens
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o-transcribe": { input: 6, output: 10 },
+  "gpt-4o-mini-transcribe": { input: 3, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+// Providers that never bill per token
+const FREE_PROVIDERS = new Set(["openai-compatible", "scripted"]);
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+function loadPrices(): Record<string, ModelPrice> {
+  if (cachedPrices) {
+    return cachedPrices;
+  }
+
+  cachedPrices = { ...MODEL_PRICES };
+
+  if (process.env.USAGE_PRICING) {
+    try {
+      Object.assign(cachedPrices, JSON.parse(process.env.USAGE_PRICING));
+    } catch (error) {
+      console.error("Invalid USAGE_PRICING, using built-in prices:", error);
+    }
+  }
+
+  return cachedPrices;
+}
+
+export function getModelPrice(
+  provider: string,
+  model: string
+): ModelPrice | null {
+  if (FREE_PROVIDERS.has(provider)) {
+    return null;
+  }
+
+  const prices = loadPrices();
+  const match = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? prices[match] : null;
+}
+
+export function calculateCost(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const price = getModelPrice(provider, model);
+
+  if (!price) {
+    return 0;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,287 @@
+/**
+ * Usage ledger - one PostgreSQL row per provider call.
+ *
+ * Chat streams, case-play chat, conversation summaries, evaluations,
+ * embeddings and transcriptions all record the model used, token counts,
+ * latency and cost, attributed to the avatar, case, cohort and user the call
+ * was made for. The /users-and-usages dashboard reads it through
+ * /api/usage.
+ */
+
+import type { NextRequest } from "next/server";
+import type { UsageRecord } from "@prisma/client";
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "../prisma";
+import { getCurrentUser } from "../auth";
+
+import { calculateCost } from "./pricing";
+
+import { siteConfig } from "@/config/site";
+
+export type UsageOperation =
+  | "chat"
+  | "summary"
+  | "evaluation"
+  | "embedding"
+  | "transcription"
+  | "rerank"
+  | "query-rewrite";
+
+export type UsageGroupBy =
+  | "avatar"
+  | "case"
+  | "cohort"
+  | "user"
+  | "model"
+  | "operation";
+
+// Who a call was made for; every field is optional because kiosk, admin and
+// student calls know different things
+export interface UsageAttribution {
+  avatarId?: string;
+  caseId?: string;
+  cohortId?: string;
+  userId?: string; // User email, as in the auth token
+}
+
+export interface UsageEntry extends UsageAttribution {
+  operation: UsageOperation;
+  route?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // Provider did not report usage; tokens were estimated
+  latencyMs: number;
+  success?: boolean;
+}
+
+export interface UsageFilters extends UsageAttribution {
+  startDate?: Date;
+  endDate?: Date;
+  operation?: UsageOperation;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageDailyPoint extends UsageTotals {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string | null; // Null collects calls without that attribution
+  avgLatencyMs: number;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  totals: UsageTotals;
+  daily: UsageDailyPoint[];
+  breakdown: UsageBreakdownRow[];
+}
+
+const GROUP_BY_FIELDS = {
+  avatar: "avatarId",
+  case: "caseId",
+  cohort: "cohortId",
+  user: "userId",
+  model: "model",
+  operation: "operation",
+} as const;
+
+export function isUsageGroupBy(value: unknown): value is UsageGroupBy {
+  return typeof value === "string" && value in GROUP_BY_FIELDS;
+}
+
+function buildWhere(filters: UsageFilters): Prisma.UsageRecordWhereInput {
+  return {
+    createdAt: {
+      gte: filters.startDate,
+      lte: filters.endDate,
+    },
+    avatarId: filters.avatarId,
+    caseId: filters.caseId,
+    cohortId: filters.cohortId,
+    userId: filters.userId,
+    operation: filters.operation,
+  };
+}
+
+// Same filters as buildWhere, for the raw daily aggregation
+function buildSqlWhere(filters: UsageFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.startDate) {
+    conditions.push(Prisma.sql`"createdAt" >= ${filters.startDate}`);
+  }
+  if (filters.endDate) {
+    conditions.push(Prisma.sql`"createdAt" <= ${filters.endDate}`);
+  }
+  if (filters.avatarId) {
+    conditions.push(Prisma.sql`"avatarId" = ${filters.avatarId}`);
+  }
+  if (filters.caseId) {
+    conditions.push(Prisma.sql`"caseId" = ${filters.caseId}`);
+  }
+  if (filters.cohortId) {
+    conditions.push(Prisma.sql`"cohortId" = ${filters.cohortId}`);
+  }
+  if (filters.userId) {
+    conditions.push(Prisma.sql`"userId" = ${filters.userId}`);
+  }
+  if (filters.operation) {
+    conditions.push(Prisma.sql`"operation" = ${filters.operation}`);
+  }
+
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+}
+
+export class UsageLedger {
+  /**
+   * Record one provider call. Never throws: metering must not fail the
+   * request it measures, so errors are only logged. Callers await it, so
+   * serverless functions do not end before the row is written.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const costUsd = calculateCost(
+      entry.provider,
+      entry.model,
+      entry.inputTokens,
+      entry.outputTokens
+    );
+
+    try {
+      await prisma.usageRecord.create({
+        data: {
+          operation: entry.operation,
+          route: entry.route,
+          provider: entry.provider,
+          model: entry.model,
+          inputTokens: Math.round(entry.inputTokens),
+          outputTokens: Math.round(entry.outputTokens),
+          estimated: entry.estimated || false,
+          costUsd,
+          latencyMs: Math.round(entry.latencyMs),
+          success: entry.success ?? true,
+          avatarId: entry.avatarId,
+          caseId: entry.caseId,
+          cohortId: entry.cohortId,
+          userId: entry.userId,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to record usage:", error);
+    }
+  }
+
+  // Totals, per-day trend and a breakdown by one attribution dimension
+  async getReport(
+    filters: UsageFilters,
+    groupBy: UsageGroupBy
+  ): Promise<UsageReport> {
+    const where = buildWhere(filters);
+    const field = GROUP_BY_FIELDS[groupBy];
+
+    const [totals, groups, daily] = await Promise.all([
+      prisma.usageRecord.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+      }),
+      prisma.usageRecord.groupBy({
+        by: [field],
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+        _avg: { latencyMs: true },
+      }),
+      prisma.$queryRaw<
+        {
+          day: Date;
+          requests: number;
+          inputTokens: number;
+          outputTokens: number;
+          costUsd: number;
+        }[]
+      >`
+        SELECT date_trunc('day', "createdAt") AS "day",
+               COUNT(*)::int AS "requests",
+               COALESCE(SUM("inputTokens"), 0)::int AS "inputTokens",
+               COALESCE(SUM("outputTokens"), 0)::int AS "outputTokens",
+               COALESCE(SUM("costUsd"), 0)::float AS "costUsd"
+        FROM "UsageRecord"
+        ${buildSqlWhere(filters)}
+        GROUP BY "day"
+        ORDER BY "day"
+      `,
+    ]);
+
+    return {
+      groupBy,
+      totals: {
+        requests: totals._count._all,
+        inputTokens: totals._sum.inputTokens || 0,
+        outputTokens: totals._sum.outputTokens || 0,
+        costUsd: totals._sum.costUsd || 0,
+      },
+      daily: daily.map((row) => ({
+        date: row.day.toISOString().split("T")[0],
+        requests: row.requests,
+        inputTokens: row.inputTokens,
+        outputTokens: row.outputTokens,
+        costUsd: row.costUsd,
+      })),
+      breakdown: groups
+        .map((group) => ({
+          key: (group as Record<string, unknown>)[field] as string | null,
+          requests: group._count._all,
+          inputTokens: group._sum.inputTokens || 0,
+          outputTokens: group._sum.outputTokens || 0,
+          costUsd: group._sum.costUsd || 0,
+          avgLatencyMs: Math.round(group._avg.latencyMs || 0),
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests),
+    };
+  }
+
+  // Raw records for CSV export, newest first
+  async listRecords(
+    filters: UsageFilters,
+    limit: number = 50000
+  ): Promise<UsageRecord[]> {
+    return prisma.usageRecord.findMany({
+      where: buildWhere(filters),
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+/**
+ * Email of the signed-in user making the request, for attribution. Returns
+ * undefined for anonymous requests rather than failing the call.
+ */
+export async function getRequestUserId(
+  request: NextRequest
+): Promise<string | undefined> {
+  const token = request.cookies.get(siteConfig.auth.cookie.name)?.value;
+
+  if (!token) {
+    return undefined;
+  }
+
+  const user = await getCurrentUser(token);
+
+  return user?.email;
+}
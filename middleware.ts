@@ -70,6 +70,9 @@ const PUBLIC_ROUTES = [
   "/join", // Join cohort page
   "/api/cohort/join", // Join cohort API
   "/api/cohort/get", // Get cohort info (needed for join page)
+  // Scheduled jobs authenticate with CRON_SECRET instead of a login
+  "/api/cron/recrawl-web-sources",
+  "/api/cron/ingestion-worker",
 ];
 
 /**
@@ -117,12 +120,18 @@ const ADMIN_ROUTES = [
   "/kiosk/touch-screen",
   "/api/llm/preview",
   "/api/llm/production",
+  "/api/llm/stream", // Resume a dropped v2 LLM stream
   "/api/avatar/sync",
   "/api/avatar/add",
   "/api/avatar/edit",
   "/api/avatar/delete",
   "/api/avatar/get",
   "/api/avatar/get-access-token",
+  "/api/avatar/prompt-versions",
+  "/api/guardrails/profiles",
+  "/api/guardrails/incidents",
+  "/api/guardrails/test-suite",
+  "/api/system-configs", // Config version history and rollback
   // All test pages
   "/test-pages",
   // Chat storage API endpoints (added for chat storage implementation)
@@ -141,6 +150,8 @@ const ADMIN_ROUTES = [
   "/api/cta/submissions", // CTA submissions viewing and management
   "/api/cta/generate-qr", // QR code generation for kiosk
   "/cta-management", // CTA admin portal section
+  "/api/usage", // Token and cost reporting
+  "/api/events-feed", // Events the avatar events tool looks up
   "/api/audio/transcribe",
   // Profile management API endpoints
   "/api/profile/add",
@@ -189,6 +200,8 @@ const KIOSK_ROUTES: string[] = [
   "/kiosk/main-display",
   "/kiosk/touch-screen",
   "/api/llm/preview",
+  "/api/llm/stream", // Resume a dropped v2 LLM stream
+  "/api/avatar/interrupt", // Stop the reply when the visitor talks over it
   "/api/avatar/sync",
   "/api/avatar/get",
   "/api/avatar/get-access-token",
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "operation" TEXT NOT NULL,
+    "route" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "avatarId" TEXT,
+    "caseId" TEXT,
+    "cohortId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "UsageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_createdAt_idx" ON "UsageRecord"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_avatarId_createdAt_idx" ON "UsageRecord"("avatarId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_caseId_createdAt_idx" ON "UsageRecord"("caseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_cohortId_createdAt_idx" ON "UsageRecord"("cohortId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_createdAt_idx" ON "UsageRecord"("userId", "createdAt");
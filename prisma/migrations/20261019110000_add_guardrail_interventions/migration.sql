@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "GuardrailIntervention" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stage" TEXT NOT NULL,
+    "check" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "route" TEXT,
+    "avatarId" TEXT,
+    "chatSessionId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "GuardrailIntervention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GuardrailIntervention_createdAt_idx" ON "GuardrailIntervention"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "GuardrailIntervention_avatarId_createdAt_idx" ON "GuardrailIntervention"("avatarId", "createdAt");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "GuardrailIntervention" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "method" TEXT,
+ADD COLUMN     "profileId" TEXT,
+ADD COLUMN     "reviewNote" TEXT,
+ADD COLUMN     "reviewStatus" TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT,
+ADD COLUMN     "similarity" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "GuardrailIntervention_reviewStatus_createdAt_idx" ON "GuardrailIntervention"("reviewStatus", "createdAt");
@@ -0,0 +1,17 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+CREATE TABLE "KnowledgeVector" (
+    "namespace" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+    "metadata" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnowledgeVector_pkey" PRIMARY KEY ("namespace","id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeVector_namespace_sourceId_idx" ON "KnowledgeVector"("namespace", "sourceId");
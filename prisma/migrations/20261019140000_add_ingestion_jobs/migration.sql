@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "IngestionJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "sourceId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "checkpoint" JSONB,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT NOT NULL DEFAULT 'Queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_status_runAt_idx" ON "IngestionJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_sourceId_idx" ON "IngestionJob"("sourceId");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "IngestionJob" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'document',
+ALTER COLUMN "sourceId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "KnowledgeIndexVersion" (
+    "namespace" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimension" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'building',
+    "vectorCount" INTEGER NOT NULL DEFAULT 0,
+    "embedded" JSONB NOT NULL DEFAULT '{}',
+    "verification" JSONB,
+    "jobId" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "KnowledgeIndexVersion_pkey" PRIMARY KEY ("namespace","version")
+);
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "KnowledgeContentHash" (
+    "namespace" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeContentHash_pkey" PRIMARY KEY ("namespace","contentHash")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeContentHash_sourceId_idx" ON "KnowledgeContentHash"("sourceId");
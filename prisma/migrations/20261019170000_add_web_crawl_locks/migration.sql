@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "WebCrawlLock" (
+    "sourceId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "lockedUntil" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebCrawlLock_pkey" PRIMARY KEY ("sourceId")
+);
@@ -0,0 +1,25 @@
+// index-content-hashes.ts
+// Records the content hashes of documents uploaded before uploads were
+// deduplicated through the hash index. Safe to run more than once.
+// Usage: npm run kb:index-hashes
+
+import { config } from "dotenv";
+
+// Same environment files as `next dev`; load before the clients are created
+config({ path: [".env.local", ".env"], quiet: true });
+
+async function main(): Promise<void> {
+  const { ragService } = await import("../lib/rag/rag-service");
+  const added = await ragService.indexContentHashes();
+
+  console.log(`Indexed ${added} document content hash(es)`);
+
+  const { prisma } = await import("../lib/prisma");
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Content hash indexing failed:", error);
+  process.exit(1);
+});
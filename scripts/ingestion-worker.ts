@@ -0,0 +1,50 @@
+// ingestion-worker.ts
+// Runs queued document ingestion jobs outside Next.js, for local development or
+// a long-running worker host. Polls the queue until interrupted.
+// Usage: npm run worker:ingest [-- --once]
+
+import { config } from "dotenv";
+
+// Same environment files as `next dev`; load before the clients are created
+config({ path: [".env.local", ".env"], quiet: true });
+
+const POLL_INTERVAL_MS = 5 * 1000;
+
+let stopping = false;
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    // The current job finishes (or keeps its checkpoint) before exiting
+    console.log(`${signal} received, stopping after the current job...`);
+    stopping = true;
+  });
+}
+
+async function main(): Promise<void> {
+  const { ingestionQueue } = await import("../lib/rag/ingestion-queue");
+  const { ragService } = await import("../lib/rag/rag-service");
+  const once = process.argv.includes("--once");
+
+  await ragService.initialize();
+  console.log("Ingestion worker started");
+
+  while (!stopping) {
+    const summary = await ingestionQueue.runDueJobs({ maxJobs: 1 });
+    const ran = summary.completed + summary.retrying + summary.failed;
+
+    if (ran > 0) console.log("Ingestion jobs:", summary);
+    if (once && ran === 0) break;
+    if (ran === 0) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  const { prisma } = await import("../lib/prisma");
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Ingestion worker failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+import type { LLMConversationSummary, LLMMessage } from "@/lib/llm/types";
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import "./env";
+
+import {
+  buildContextWindow,
+  estimateTokens,
+} from "@/lib/llm/context-window";
+import { usageLedger } from "@/lib/usage/usage-ledger";
+
+// Each turn is 100 characters: 25 tokens plus 4 of overhead
+function turns(count: number): LLMMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Turn ${i}`.padEnd(100, "."),
+  }));
+}
+
+const modelConfig = {
+  provider: "scripted" as const,
+  model: "scripted",
+  maxTokens: 100,
+  contextTokens: 1000,
+};
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcd"), 1);
+    assert.equal(estimateTokens("abcde"), 2);
+  });
+});
+
+describe("buildContextWindow", () => {
+  beforeEach(() => {
+    // Summaries come from the scripted provider, which echoes its input
+    process.env.LLM_SUMMARY_PROVIDER = "scripted";
+    process.env.LLM_SUMMARY_MAX_TOKENS = "100";
+    mock.method(usageLedger, "record", async () => {});
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_SUMMARY_PROVIDER;
+    delete process.env.LLM_SUMMARY_MAX_TOKENS;
+    mock.restoreAll();
+  });
+
+  it("keeps the whole history when it fits", async () => {
+    const history = turns(4);
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history,
+      modelConfig,
+    });
+
+    assert.deepEqual(window.messages.slice(1), history);
+    assert.equal(window.messages[0].content, "You are a guide.");
+    assert.equal(window.summary, undefined);
+    assert.equal(window.stats.omittedMessages, 0);
+  });
+
+  it("summarizes the turns that no longer fit", async () => {
+    const history = turns(40);
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history,
+      modelConfig,
+    });
+    const omitted = window.stats.omittedMessages;
+
+    assert.ok(omitted > 0);
+    assert.equal(window.summary?.summarizedCount, omitted);
+    assert.deepEqual(window.messages.slice(1), history.slice(omitted));
+    assert.ok(window.stats.historyTokens <= window.stats.budget);
+    assert.match(window.messages[0].content, /## Conversation So Far/);
+  });
+
+  it("always keeps the latest message", async () => {
+    const latest: LLMMessage = { role: "user", content: "x".repeat(8000) };
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history: [...turns(2), latest],
+      modelConfig,
+    });
+
+    assert.deepEqual(window.messages[window.messages.length - 1], latest);
+  });
+
+  it("reuses a stored summary without summarizing again", async () => {
+    const history = turns(6);
+    const summary: LLMConversationSummary = {
+      content: "The visitor asked about admissions.",
+      summarizedCount: 2,
+      updatedAt: new Date().toISOString(),
+    };
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history,
+      summary,
+      modelConfig,
+    });
+
+    assert.equal(window.summary, summary);
+    assert.deepEqual(window.messages.slice(1), history.slice(2));
+    assert.match(window.messages[0].content, /asked about admissions/);
+  });
+
+  it("ignores a summary covering more turns than the history has", async () => {
+    const history = turns(4);
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history,
+      summary: {
+        content: "Forged",
+        summarizedCount: 10,
+        updatedAt: new Date().toISOString(),
+      },
+      modelConfig,
+    });
+
+    assert.equal(window.summary, undefined);
+    assert.deepEqual(window.messages.slice(1), history);
+  });
+
+  it("leaves out knowledge passages that do not fit", async () => {
+    const window = await buildContextWindow({
+      systemPrompt: "You are a guide.",
+      history: turns(2),
+      knowledge: {
+        passages: ["a".repeat(600), "b".repeat(600), "c".repeat(600)],
+        wrap: (passages) => `## Knowledge\n${passages}`,
+      },
+      modelConfig,
+    });
+
+    assert.equal(window.stats.knowledgePassages, 2);
+    assert.match(window.messages[0].content, /b{600}/);
+    assert.doesNotMatch(window.messages[0].content, /c{600}/);
+  });
+});
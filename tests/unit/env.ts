@@ -0,0 +1,5 @@
+// Placeholder settings for modules that create their clients on load; the
+// tests mock every call that would reach those services. Imported before
+// the modules under test.
+process.env.OPENAI_API_KEY ||= "test";
+process.env.AWS_S3_BUCKET_NAME ||= "test";
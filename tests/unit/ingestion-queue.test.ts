@@ -0,0 +1,199 @@
+import type { IngestionJob } from "@prisma/client";
+import type { IngestionProgress } from "@/lib/rag/rag-service";
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import "./env";
+
+import { prisma } from "@/lib/prisma";
+import {
+  getRetryDelayMs,
+  IngestionQueue,
+} from "@/lib/rag/ingestion-queue";
+import { IngestionAbortedError, ragService } from "@/lib/rag/rag-service";
+
+function job(overrides: Partial<IngestionJob> = {}): IngestionJob {
+  const now = new Date();
+
+  return {
+    id: "job-1",
+    kind: "document",
+    status: "processing",
+    sourceId: "doc-1",
+    payload: { sourceId: "doc-1", filename: "guide.pdf" },
+    checkpoint: null,
+    progress: 0,
+    message: "Queued",
+    attempts: 1,
+    maxAttempts: 5,
+    runAt: now,
+    lockedBy: "worker",
+    lockedUntil: now,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    ...overrides,
+  } as IngestionJob;
+}
+
+describe("getRetryDelayMs", () => {
+  it("doubles from 30 seconds up to 30 minutes", () => {
+    assert.equal(getRetryDelayMs(1), 30 * 1000);
+    assert.equal(getRetryDelayMs(2), 60 * 1000);
+    assert.equal(getRetryDelayMs(4), 4 * 60 * 1000);
+    assert.equal(getRetryDelayMs(20), 30 * 60 * 1000);
+  });
+});
+
+describe("IngestionQueue.runJob", () => {
+  // The Prisma client is a proxy mock.method cannot patch; its calls are
+  // swapped by assignment instead
+  const { $queryRaw } = prisma;
+  const { updateMany } = prisma.ingestionJob;
+  let claimed: IngestionJob | null;
+  let updates: { where: unknown; data: Record<string, unknown> }[];
+  let leaseHeld: boolean;
+  let failuresMarked: number;
+
+  beforeEach(() => {
+    claimed = job();
+    updates = [];
+    leaseHeld = true;
+    failuresMarked = 0;
+
+    prisma.$queryRaw = (async () =>
+      claimed ? [claimed] : []) as unknown as typeof $queryRaw;
+    prisma.ingestionJob.updateMany = (async (args: {
+      where: unknown;
+      data: Record<string, unknown>;
+    }) => {
+      updates.push(args);
+
+      return { count: leaseHeld ? 1 : 0 };
+    }) as unknown as typeof updateMany;
+    mock.method(ragService, "markIngestionFailed", async () => {
+      failuresMarked++;
+    });
+    mock.method(console, "error", () => {});
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    prisma.$queryRaw = $queryRaw;
+    prisma.ingestionJob.updateMany = updateMany;
+    mock.restoreAll();
+  });
+
+  // The last update, which releases the job
+  function released(): Record<string, unknown> {
+    return updates[updates.length - 1].data;
+  }
+
+  it("completes a job and releases its lease", async () => {
+    mock.method(ragService, "ingestDocument", async () => {});
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), "completed");
+    assert.equal(released().status, "completed");
+    assert.equal(released().progress, 100);
+    assert.equal(released().lockedBy, null);
+  });
+
+  it("returns null when the job is not due", async () => {
+    const ingestDocument = mock.method(
+      ragService,
+      "ingestDocument",
+      async () => {}
+    );
+
+    claimed = null;
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), null);
+    assert.equal(ingestDocument.mock.callCount(), 0);
+  });
+
+  it("resumes from the job's checkpoint and saves new ones", async () => {
+    const checkpoint = { totalChunks: 40, embeddedChunks: 20, indexVersion: 1 };
+    const ingestDocument = mock.method(
+      ragService,
+      "ingestDocument",
+      async (
+        _ingestion: unknown,
+        _checkpoint: unknown,
+        onProgress: (update: IngestionProgress) => Promise<void>
+      ) => {
+        await onProgress({
+          progress: 60,
+          message: "Generating embeddings (30 of 40 chunks)...",
+          checkpoint: { ...checkpoint, embeddedChunks: 30 },
+        });
+      }
+    );
+
+    claimed = job({ checkpoint, attempts: 2 });
+
+    await new IngestionQueue().runJob("job-1");
+
+    assert.deepEqual(ingestDocument.mock.calls[0].arguments[1], checkpoint);
+    assert.deepEqual(updates[0].data.checkpoint, {
+      ...checkpoint,
+      embeddedChunks: 30,
+    });
+    assert.ok(updates[0].data.lockedUntil instanceof Date);
+  });
+
+  it("schedules a retry with backoff after a failed attempt", async () => {
+    mock.method(ragService, "ingestDocument", async () => {
+      throw new Error("Embeddings unavailable");
+    });
+
+    const startedAt = Date.now();
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), "retrying");
+    assert.equal(released().status, "pending");
+    assert.equal(released().lastError, "Embeddings unavailable");
+    assert.ok(
+      (released().runAt as Date).getTime() >= startedAt + getRetryDelayMs(1)
+    );
+  });
+
+  it("fails the job on its last attempt", async () => {
+    mock.method(ragService, "ingestDocument", async () => {
+      throw new Error("Embeddings unavailable");
+    });
+    claimed = job({ attempts: 5 });
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), "failed");
+    assert.equal(released().status, "failed");
+    assert.equal(failuresMarked, 1);
+  });
+
+  it("fails without retrying when the file cannot be processed", async () => {
+    mock.method(ragService, "ingestDocument", async () => {
+      throw new IngestionAbortedError("Unsupported file");
+    });
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), "failed");
+    assert.equal(released().lastError, "Unsupported file");
+  });
+
+  it("leaves the job alone once another worker took its lease", async () => {
+    mock.method(
+      ragService,
+      "ingestDocument",
+      async (
+        _ingestion: unknown,
+        _checkpoint: unknown,
+        onProgress: (update: IngestionProgress) => Promise<void>
+      ) => {
+        leaseHeld = false;
+        await onProgress({ progress: 40, message: "Generating embeddings..." });
+      }
+    );
+
+    assert.equal(await new IngestionQueue().runJob("job-1"), "lost");
+    // Only the heartbeat that found the lease gone; nothing was released
+    assert.equal(updates.length, 1);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import "./env";
+
+import { DEFAULT_RATE_LIMITS } from "@/lib/rate-limit/policies";
+import { RateLimiter } from "@/lib/rate-limit/rate-limiter";
+import { MemoryRateLimitStore } from "@/lib/rate-limit/store";
+
+const MINUTE = 60 * 1000;
+
+describe("MemoryRateLimitStore", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it("counts hits within a window", async () => {
+    const store = new MemoryRateLimitStore();
+
+    assert.deepEqual(await store.hit("key", MINUTE), {
+      count: 1,
+      resetAt: 1_000_000 + MINUTE,
+    });
+    mock.timers.tick(MINUTE - 1);
+    assert.deepEqual(await store.hit("key", MINUTE), {
+      count: 2,
+      resetAt: 1_000_000 + MINUTE,
+    });
+  });
+
+  it("starts a new window once the previous one ends", async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit("key", MINUTE);
+    await store.hit("key", MINUTE);
+    mock.timers.tick(MINUTE);
+
+    assert.deepEqual(await store.hit("key", MINUTE), {
+      count: 1,
+      resetAt: 1_000_000 + 2 * MINUTE,
+    });
+  });
+
+  it("keeps separate counters per key", async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit("a", MINUTE);
+    await store.hit("a", MINUTE);
+
+    assert.equal((await store.hit("b", MINUTE)).count, 1);
+  });
+});
+
+describe("RateLimiter", () => {
+  const ipLimit = DEFAULT_RATE_LIMITS["cohort-join"][0].limit;
+
+  it("rejects requests over a rule's limit and says when it resets", async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+
+    for (let i = 1; i <= ipLimit; i++) {
+      const result = await limiter.check("cohort-join", { ip: "203.0.113.7" });
+
+      assert.equal(result.allowed, true);
+      assert.equal(result.remaining, ipLimit - i);
+    }
+
+    const rejected = await limiter.check("cohort-join", { ip: "203.0.113.7" });
+
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.remaining, 0);
+    assert.equal(rejected.rule?.scope, "ip");
+    assert.ok(rejected.resetAt! > Date.now());
+  });
+
+  it("counts each caller separately", async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+
+    for (let i = 0; i < ipLimit; i++) {
+      await limiter.check("cohort-join", { ip: "203.0.113.7" });
+    }
+
+    const other = await limiter.check("cohort-join", { ip: "203.0.113.8" });
+
+    assert.equal(other.allowed, true);
+  });
+
+  it("skips rules whose scope the request does not have", async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+
+    assert.deepEqual(await limiter.check("cohort-join", {}), {
+      allowed: true,
+    });
+  });
+
+  it("only applies role-restricted rules to those roles", async () => {
+    const store = new MemoryRateLimitStore();
+    const hit = mock.method(store, "hit");
+    const limiter = new RateLimiter(store);
+
+    await limiter.check("llm", { userId: "admin@case.edu", role: "admin" });
+
+    // The admin per-minute rule only, not the kiosk/user ones
+    assert.equal(hit.mock.callCount(), 1);
+    assert.match(String(hit.mock.calls[0].arguments[0]), /^llm:1:user:/);
+  });
+
+  it("reports the rule closest to its limit", async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore());
+    const identity = { userId: "student@case.edu", role: "student" };
+
+    const result = await limiter.check("case-chat", identity);
+    const perMinute = DEFAULT_RATE_LIMITS["case-chat"][0];
+
+    assert.equal(result.allowed, true);
+    assert.equal(result.limit, perMinute.limit);
+    assert.equal(result.remaining, perMinute.limit - 1);
+  });
+});
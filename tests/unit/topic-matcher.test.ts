@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+
+import "./env";
+
+import { embeddingService } from "@/lib/rag/embeddings";
+import { normalizeForMatching, TopicMatcher } from "@/lib/topic-matcher";
+
+function matcher(...topics: string[]): TopicMatcher {
+  return new TopicMatcher(topics.map((topic) => ({ topic, language: "en" })));
+}
+
+describe("normalizeForMatching", () => {
+  it("folds case, accents, full-width forms and whitespace", () => {
+    assert.equal(normalizeForMatching("  Política\n  ＥＸＡＭ "), "politica exam");
+  });
+
+  it("unifies typographic apostrophes and dashes", () => {
+    assert.equal(normalizeForMatching("don’t — now"), "don't - now");
+  });
+});
+
+describe("TopicMatcher.match", () => {
+  it("matches whole words only", () => {
+    assert.equal(matcher("war").match("What is the software like?"), null);
+    assert.equal(matcher("war").match("Tell me about the war")?.topic, "war");
+  });
+
+  it("matches common English inflections of the last word", () => {
+    const topics = matcher("vote", "party", "write my essay");
+
+    assert.equal(topics.match("Who are you voting for?")?.topic, "vote");
+    assert.equal(topics.match("Any parties tonight?")?.topic, "party");
+    assert.equal(
+      topics.match("Can you write my essays?")?.topic,
+      "write my essay"
+    );
+  });
+
+  it("does not strip suffixes from the message", () => {
+    assert.equal(matcher("dating").match("What is the due date?"), null);
+  });
+
+  it("matches phrases across spaces and hyphens", () => {
+    assert.equal(
+      matcher("self harm").match("thoughts of self-harm")?.topic,
+      "self harm"
+    );
+  });
+
+  it("matches accented and differently cased text", () => {
+    const match = new TopicMatcher([
+      { topic: "política", language: "es" },
+    ]).match("Hablemos de POLITICA");
+
+    assert.deepEqual(match, {
+      topic: "política",
+      language: "es",
+      method: "keyword",
+    });
+  });
+
+  it("matches unspaced scripts anywhere in the message", () => {
+    const topics = new TopicMatcher([{ topic: "政治", language: "zh" }]);
+
+    assert.equal(topics.match("我们聊聊政治吧")?.language, "zh");
+  });
+
+  it("ignores empty topics and messages", () => {
+    const topics = matcher("", "  ");
+
+    assert.equal(topics.size, 0);
+    assert.equal(matcher("war").match("   "), null);
+  });
+});
+
+describe("TopicMatcher.matchSemantic", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("returns the closest topic at or above the threshold", async () => {
+    mock.method(embeddingService, "generateEmbeddings", async () => [
+      [1, 0],
+      [0, 1],
+    ]);
+    mock.method(embeddingService, "generateEmbedding", async () => [0.1, 1]);
+
+    const match = await matcher("elections", "gambling").matchSemantic(
+      "Where can I place a bet?",
+      0.8
+    );
+
+    assert.equal(match?.topic, "gambling");
+    assert.equal(match?.method, "semantic");
+    assert.ok(match!.similarity! >= 0.8);
+  });
+
+  it("returns null below the threshold", async () => {
+    mock.method(embeddingService, "generateEmbeddings", async () => [[1, 0]]);
+    mock.method(embeddingService, "generateEmbedding", async () => [0, 1]);
+
+    assert.equal(await matcher("elections").matchSemantic("Hello", 0.5), null);
+  });
+
+  it("treats embedding failures as no match and retries later", async () => {
+    const topics = matcher("elections");
+    const generateEmbeddings = mock.method(
+      embeddingService,
+      "generateEmbeddings",
+      async () => {
+        throw new Error("Embeddings unavailable");
+      }
+    );
+
+    mock.method(embeddingService, "generateEmbedding", async () => [1, 0]);
+    mock.method(console, "error", () => {});
+
+    assert.equal(await topics.matchSemantic("Who won?", 0.5), null);
+    assert.equal(await topics.matchSemantic("Who won?", 0.5), null);
+    assert.equal(generateEmbeddings.mock.callCount(), 2);
+  });
+
+  it("charges the embedding calls to the given attribution", async () => {
+    const attribution = { avatarId: "avatar-1", userId: "visitor@case.edu" };
+    const generateEmbeddings = mock.method(
+      embeddingService,
+      "generateEmbeddings",
+      async () => [[1, 0]]
+    );
+    const generateEmbedding = mock.method(
+      embeddingService,
+      "generateEmbedding",
+      async () => [1, 0]
+    );
+
+    await matcher("elections").matchSemantic("Who won?", 0.5, attribution);
+
+    assert.equal(generateEmbeddings.mock.calls[0].arguments[1], attribution);
+    assert.equal(generateEmbedding.mock.calls[0].arguments[1], attribution);
+  });
+});
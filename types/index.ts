@@ -1,5 +1,15 @@
 import { SVGProps } from "react";
 
+import type {
+  LLMAbortReason,
+  LLMSourceCitation,
+  LLMToolActivity,
+} from "@/lib/llm/stream-protocol";
+import type {
+  LLMConversationSummary,
+  LLMModelOverride,
+} from "@/lib/llm/types";
+
 export type IconSvgProps = SVGProps<SVGSVGElement> & {
   size?: number;
 };
@@ -123,6 +133,9 @@ export interface ChatMessage {
   role: "user" | "assistant";           // Message sender - user input or AI response
   content: string;                       // Message text content
   timestamp: number;                     // Unix timestamp when message was created
+  truncated?: LLMAbortReason;            // Reply was cut short, e.g. the user interrupted the avatar
+  sources?: LLMSourceCitation[];         // Knowledge base passages the reply was grounded in
+  tools?: LLMToolActivity[];             // Tool calls the avatar made for this reply
 }
 
 /**
@@ -178,6 +191,7 @@ export interface ChatSessionMetadata {
 export interface ChatSession {
   metadata: ChatSessionMetadata;         // Session metadata for analytics and filtering
   messages: ChatMessage[];              // Complete conversation history
+  summary?: LLMConversationSummary;      // Rolling summary of turns that left the model's context window
   createdAt: string;                     // ISO timestamp when session was first created
   updatedAt: string;                     // ISO timestamp when session was last modified
 }
@@ -194,6 +208,7 @@ export interface CaseAvatar {
   role: string;
   additionalInfo: string;
   profileId?: string;
+  guardrailProfileId?: string; // Overrides the case's guardrail profile for this role
 }
 
 export interface CaseStudy {
@@ -203,12 +218,23 @@ export interface CaseStudy {
   evaluationPrompt?: string;
   avatars: CaseAvatar[];
   cohortIds: string[];  // Cases are assigned to cohorts (following Alfred's sectionIds pattern)
+  llm?: LLMModelOverride;           // Model for role chats; unset fields use the route default
+  evaluationLlm?: LLMModelOverride; // Model for grading assessed attempts
+  guardrailProfileId?: string;      // Guardrail profile for every role; empty for the global guardrails
   createdBy: string;
   lastEditedBy: string;
   createdAt: string;
   lastEditedAt: string;
 }
 
+// What students are sent of a case; role briefs and grading stay on the server
+export type StudentCaseAvatar = Pick<CaseAvatar, "id" | "name" | "role" | "profileId">;
+
+export interface StudentCaseView
+  extends Pick<CaseStudy, "id" | "name" | "backgroundInfo" | "cohortIds"> {
+  avatars: StudentCaseAvatar[];
+}
+
 /**
  * ==================================================================================
  * CALL TO ACTION (CTA) TYPES - NEW IMPLEMENTATION
@@ -344,6 +370,14 @@ export interface RoleInteraction {
   exitedAt?: number;
 }
 
+// Written only by the server during a role chat, apart from the interaction
+// log the client saves; it is what the model is shown on the next turn
+export interface RoleChat {
+  messages: RoleMessage[]; // Turns the model answered, oldest first
+  summary?: LLMConversationSummary; // Rolling summary of turns that left the model's context window
+  updatedAt: string;
+}
+
 export interface InteractionEvent {
   type: "enter_role" | "exit_role" | "send_message" | "receive_message" | "start_session" | "end_session";
   roleId?: string;
@@ -353,6 +387,17 @@ export interface InteractionEvent {
   messageRole?: "user" | "assistant";
 }
 
+// Recorded by the server during role chats for instructors to review
+export interface InteractionFlag {
+  id: string;
+  type: "prompt_injection" | "blocked_topic";
+  roleId: string;
+  roleName: string;
+  rule: string; // The injection pattern or blocked topic that matched
+  messageContent: string;
+  timestamp: number;
+}
+
 export interface InteractionLog {
   id: string;
   studentEmail: string;
@@ -372,6 +417,7 @@ export interface InteractionLog {
   totalTimeSeconds: number;
   evalScore?: number;
   evalResult?: string;
+  flags?: InteractionFlag[]; // Kept by the server; a client save never drops them
   createdAt: string;
   updatedAt: string;
 }